@@ -1,11 +1,20 @@
 import { FullConfig } from '@playwright/test';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { TOKEN_CACHE_FILE_ENV } from './utils/token-manager';
+import { LEFTOVERS_FILE_ENV, reportLeftovers } from './utils/scim-cleanup';
+import { getEnvironmentProfile } from './utils/environments';
+import { log } from './utils/logger';
+import { getScimMode } from './utils/scim-cassette';
+import { LATENCY_RUN_ENV, LATENCY_SAMPLES_FILE_ENV } from './utils/scim-latency';
 
 /**
  * Global setup for Playwright tests
  * Validates environment variables and sets up project-level configuration
  */
 async function globalSetup(config: FullConfig) {
-  console.log('🚀 Setting up global test configuration...');
+  log.info('Setting up global test configuration');
   
   // Validate required environment variables
   const requiredEnvVars = [
@@ -21,15 +30,41 @@ async function globalSetup(config: FullConfig) {
     throw new Error(`Missing required environment variables: ${missingVars.join(', ')}`);
   }
   
-  console.log('✅ Environment variables validated');
-  console.log(`📍 OAuth Base URL: ${process.env.OAUTH_BASE_URL}`);
-  console.log(`🌐 API Base URL: ${process.env.API_BASE_URL}`);
-  console.log(`🔐 Client ID: ${process.env.CLIENT_ID}`);
-  console.log(`🔑 Client Secret: [CONFIGURED]`);
-  console.log(`🎯 Scopes: ${process.env.DEFAULT_SCOPE}`);
+  const profile = getEnvironmentProfile();
+  log.info(`Environment: ${profile.name}${profile.description ? ` - ${profile.description}` : ''} (${profile.oem ? 'OEM' : 'Non-OEM'})`, {
+    oauthBaseUrl: process.env.OAUTH_BASE_URL,
+    apiBaseUrl: process.env.API_BASE_URL,
+    scopes: process.env.DEFAULT_SCOPE
+  });
   
+  const mode = getScimMode();
+  if (mode !== 'live') log.info(`SCIM_MODE=${mode}: requests are ${mode === 'record' ? 'recorded to' : 'replayed from'} cassettes`);
+  
+  // Token cache shared by the workers for this run (utils/token-manager.ts)
+  const tokenCacheFile = path.join(os.tmpdir(), `scim-token-cache-${process.pid}.json`);
+  process.env[TOKEN_CACHE_FILE_ENV] = tokenCacheFile;
+  log.debug('Token cache shared across workers for this run');
+
+  // Test data the scimData fixture could not delete (utils/scim-fixtures.ts), reported at teardown
+  const leftoversFile = path.join(os.tmpdir(), `scim-leftovers-${process.pid}.jsonl`);
+  process.env[LEFTOVERS_FILE_ENV] = leftoversFile;
+
+  // Request timings of the run (utils/scim-latency.ts), summarized into the latency history by tests/latency.trend.spec.ts
+  const latencySamplesFile = path.join(os.tmpdir(), `scim-latency-${process.pid}.jsonl`);
+  fs.rmSync(latencySamplesFile, { force: true });
+  process.env[LATENCY_SAMPLES_FILE_ENV] = latencySamplesFile;
+  process.env[LATENCY_RUN_ENV] = new Date().toISOString();
+
   // You can add more global setup logic here
   // Like pre-authentication, database setup, etc.
+
+  return async () => {
+    fs.rmSync(tokenCacheFile, { force: true });
+    fs.rmSync(`${tokenCacheFile}.lock`, { force: true });
+    reportLeftovers(leftoversFile, path.join(__dirname, 'test-results', 'cleanup-leftovers.json'));
+    fs.rmSync(leftoversFile, { force: true });
+    fs.rmSync(latencySamplesFile, { force: true });
+  };
 }
 
 export default globalSetup;
\ No newline at end of file
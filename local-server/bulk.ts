@@ -0,0 +1,121 @@
+/**
+ * Bulk Handling for the Local SCIM Server (RFC 7644 §3.7)
+ * Runs each operation through the normal routes, resolving bulkId references
+ * (including forward references) and stopping once failOnErrors is reached
+ */
+
+import { ScimSchemas } from '../utils/api-config';
+import { referencedBulkIds } from '../utils/scim-bulk';
+import { ScimBulkOperation, ScimBulkOperationResponse } from '../utils/scim-types';
+
+/**
+ * Response shape shared with the server's route handlers
+ */
+export interface BulkDispatchResponse {
+  status: number;
+  body?: any;
+}
+
+/**
+ * Run one operation against the server routes (method, path relative to the SCIM base, body,
+ * and the operation's version as If-Match)
+ */
+export type BulkDispatcher = (method: string, path: string, data: any, version?: string) => BulkDispatchResponse;
+
+export interface BulkLimits {
+  maxOperations: number;
+  maxPayloadSize: number;
+}
+
+const BULK_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+function errorBody(status: number, detail: string, scimType?: string): any {
+  return { schemas: [ScimSchemas.ERROR], status: String(status), ...(scimType ? { scimType } : {}), detail };
+}
+
+/**
+ * Replace bulkId:<id> references with the ids of resources created earlier in the request
+ */
+function resolveReferences<T>(value: T, resolved: Map<string, string>): T {
+  const text = JSON.stringify(value ?? null).replace(/bulkId:([^"\/\s]+)/g, (reference, bulkId) => resolved.get(bulkId) ?? reference);
+  return JSON.parse(text);
+}
+
+/**
+ * Handle a BulkRequest body, returning the BulkResponse (or a top-level error)
+ */
+export function handleBulkRequest(body: any, bodySize: number, limits: BulkLimits, dispatch: BulkDispatcher): BulkDispatchResponse {
+  if (!Array.isArray(body?.schemas) || !body.schemas.includes(ScimSchemas.BULK_REQUEST) || !Array.isArray(body.Operations)) {
+    return { status: 400, body: errorBody(400, 'Request body must be a BulkRequest message with Operations', 'invalidSyntax') };
+  }
+  if (bodySize > limits.maxPayloadSize) {
+    return { status: 413, body: errorBody(413, `The size of the bulk operation exceeds the maxPayloadSize (${limits.maxPayloadSize}).`) };
+  }
+  if (body.Operations.length > limits.maxOperations) {
+    return { status: 413, body: errorBody(413, `The number of operations exceeds the maxOperations (${limits.maxOperations}).`) };
+  }
+
+  const operations: ScimBulkOperation[] = body.Operations;
+  const failOnErrors: number | undefined = Number.isInteger(body.failOnErrors) && body.failOnErrors > 0 ? body.failOnErrors : undefined;
+  const requestBulkIds = new Set(operations.map(operation => operation?.bulkId).filter(Boolean));
+  const resolved = new Map<string, string>();
+  const failed = new Set<string>();
+  const results: ScimBulkOperationResponse[] = [];
+  let pending = operations.map((_, index) => index);
+  let errorCount = 0;
+
+  const record = (operation: ScimBulkOperation, status: number, responseBody?: any) => {
+    const result: ScimBulkOperationResponse = {
+      method: operation?.method,
+      ...(operation?.bulkId ? { bulkId: operation.bulkId } : {}),
+      status: String(status)
+    };
+    if (status < 400 && responseBody?.meta?.location) result.location = responseBody.meta.location;
+    if (status >= 400) {
+      result.response = responseBody;
+      errorCount++;
+      if (operation?.bulkId) failed.add(operation.bulkId);
+    } else if (String(operation.method).toUpperCase() === 'POST' && operation.bulkId && responseBody?.id) {
+      resolved.set(operation.bulkId, responseBody.id);
+    }
+    results.push(result);
+  };
+
+  const limitReached = () => failOnErrors !== undefined && errorCount >= failOnErrors;
+
+  const run = (operation: ScimBulkOperation) => {
+    const method = String(operation?.method ?? '').toUpperCase();
+    if (!BULK_METHODS.includes(method)) {
+      return record(operation, 400, errorBody(400, `Unsupported bulk method: ${operation?.method}`, 'invalidSyntax'));
+    }
+    if (typeof operation.path !== 'string' || !operation.path.startsWith('/') || /^\/Bulk(\/|$)/i.test(operation.path)) {
+      return record(operation, 400, errorBody(400, `Invalid bulk operation path: ${operation.path}`, 'invalidPath'));
+    }
+    if (method === 'POST' && !operation.bulkId) {
+      return record(operation, 400, errorBody(400, 'POST operations require a bulkId', 'invalidSyntax'));
+    }
+
+    const path = resolveReferences(operation.path, resolved);
+    const response = dispatch(method, path, resolveReferences(operation.data, resolved), operation.version);
+    record(operation, response.status, response.body);
+  };
+
+  // Operations run once every bulkId they reference is resolved, so forward references work
+  while (pending.length > 0 && !limitReached()) {
+    const ready = pending.find(index => referencedBulkIds(operations[index] ?? {} as ScimBulkOperation)
+      .every(bulkId => resolved.has(bulkId) || failed.has(bulkId) || !requestBulkIds.has(bulkId)));
+    // When nothing is ready the remaining operations reference each other in a cycle
+    const index = ready ?? pending[0];
+    pending = pending.filter(candidate => candidate !== index);
+
+    const operation = operations[index];
+    const unresolved = referencedBulkIds(operation ?? {} as ScimBulkOperation).filter(bulkId => !resolved.has(bulkId));
+    if (unresolved.length > 0) {
+      record(operation, 409, errorBody(409, `bulkId reference could not be resolved: ${unresolved.join(', ')}`, 'invalidValue'));
+    } else {
+      run(operation);
+    }
+  }
+
+  return { status: 200, body: { schemas: [ScimSchemas.BULK_RESPONSE], Operations: results } };
+}
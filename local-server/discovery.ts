@@ -0,0 +1,192 @@
+/**
+ * Discovery Documents for the Local SCIM Server
+ * Static Schemas, ResourceTypes and ServiceProviderConfig resources (RFC 7643 §5-7)
+ */
+
+import { ScimSchemas } from '../utils/api-config';
+import { ScimResource, ScimSchemaAttribute, ScimSchemaDefinition } from '../utils/scim-types';
+
+/**
+ * Shorthand for a simple attribute with the RFC defaults
+ */
+function attribute(name: string, overrides: Partial<ScimSchemaAttribute> = {}): ScimSchemaAttribute {
+  return {
+    name,
+    type: 'string',
+    multiValued: false,
+    required: false,
+    caseExact: false,
+    mutability: 'readWrite',
+    returned: 'default',
+    uniqueness: 'none',
+    ...overrides
+  };
+}
+
+/**
+ * Sub-attributes shared by emails, phoneNumbers and similar multi-valued attributes
+ */
+function multiValuedSubAttributes(types: string[]): ScimSchemaAttribute[] {
+  return [
+    attribute('value'),
+    attribute('display'),
+    attribute('type', { canonicalValues: types }),
+    attribute('primary', { type: 'boolean' })
+  ];
+}
+
+export const userScimSchemaAttributes: ScimSchemaAttribute[] = [
+  attribute('userName', { required: true, uniqueness: 'server' }),
+  attribute('name', {
+    type: 'complex',
+    subAttributes: [
+      attribute('formatted'),
+      attribute('familyName'),
+      attribute('givenName'),
+      attribute('middleName'),
+      attribute('honorificPrefix'),
+      attribute('honorificSuffix')
+    ]
+  }),
+  attribute('displayName'),
+  attribute('nickName'),
+  attribute('title'),
+  attribute('active', { type: 'boolean' }),
+  attribute('password', { mutability: 'writeOnly', returned: 'never', caseExact: true }),
+  attribute('emails', {
+    type: 'complex',
+    multiValued: true,
+    subAttributes: multiValuedSubAttributes(['work', 'home', 'other'])
+  }),
+  attribute('phoneNumbers', {
+    type: 'complex',
+    multiValued: true,
+    subAttributes: multiValuedSubAttributes(['work', 'home', 'mobile', 'fax', 'pager', 'other'])
+  }),
+  attribute('groups', {
+    type: 'complex',
+    multiValued: true,
+    mutability: 'readOnly',
+    subAttributes: [
+      attribute('value', { mutability: 'readOnly' }),
+      attribute('$ref', { type: 'reference', referenceTypes: ['User', 'Group'], mutability: 'readOnly' }),
+      attribute('display', { mutability: 'readOnly' }),
+      attribute('type', { canonicalValues: ['direct', 'indirect'], mutability: 'readOnly' })
+    ]
+  })
+];
+
+export const groupScimSchemaAttributes: ScimSchemaAttribute[] = [
+  attribute('displayName', { required: true, uniqueness: 'server' }),
+  attribute('members', {
+    type: 'complex',
+    multiValued: true,
+    subAttributes: [
+      attribute('value', { mutability: 'immutable' }),
+      attribute('$ref', { type: 'reference', referenceTypes: ['User', 'Group'], mutability: 'immutable' }),
+      attribute('display', { mutability: 'readOnly' }),
+      attribute('type', { canonicalValues: ['User', 'Group'], mutability: 'immutable' })
+    ]
+  })
+];
+
+/**
+ * Schema resources served from /Schemas
+ */
+export function buildSchemas(scimBaseUrl: string): ScimSchemaDefinition[] {
+  return [
+    {
+      schemas: [ScimSchemas.SCHEMA],
+      id: ScimSchemas.USER,
+      name: 'User',
+      description: 'User Account',
+      attributes: userScimSchemaAttributes,
+      meta: { resourceType: 'Schema', location: `${scimBaseUrl}/Schemas/${ScimSchemas.USER}` }
+    },
+    {
+      schemas: [ScimSchemas.SCHEMA],
+      id: ScimSchemas.GROUP,
+      name: 'Group',
+      description: 'Group',
+      attributes: groupScimSchemaAttributes,
+      meta: { resourceType: 'Schema', location: `${scimBaseUrl}/Schemas/${ScimSchemas.GROUP}` }
+    }
+  ];
+}
+
+/**
+ * ResourceType resources served from /ResourceTypes
+ */
+export function buildResourceTypes(scimBaseUrl: string): ScimResource[] {
+  return [
+    {
+      schemas: [ScimSchemas.RESOURCE_TYPE],
+      id: 'User',
+      name: 'User',
+      endpoint: '/Users',
+      description: 'User Account',
+      schema: ScimSchemas.USER,
+      meta: { resourceType: 'ResourceType', location: `${scimBaseUrl}/ResourceTypes/User` }
+    },
+    {
+      schemas: [ScimSchemas.RESOURCE_TYPE],
+      id: 'Group',
+      name: 'Group',
+      endpoint: '/Groups',
+      description: 'Group',
+      schema: ScimSchemas.GROUP,
+      meta: { resourceType: 'ResourceType', location: `${scimBaseUrl}/ResourceTypes/Group` }
+    }
+  ];
+}
+
+/**
+ * Maximum page size honoured by list and search endpoints
+ */
+export const MAX_RESULTS = 100;
+
+/**
+ * Bulk limits advertised on /ServiceProviderConfig and enforced by /Bulk
+ */
+export const BULK_MAX_OPERATIONS = 100;
+export const BULK_MAX_PAYLOAD_SIZE = 1048576;
+
+/**
+ * Optional features the server advertises on /ServiceProviderConfig and enforces
+ * (501 when patch/bulk are off; without etag, versions are not issued and preconditions are ignored)
+ */
+export interface LocalServerFeatures {
+  patch: boolean;
+  bulk: boolean;
+  etag: boolean;
+}
+
+export const DEFAULT_FEATURES: LocalServerFeatures = { patch: true, bulk: true, etag: true };
+
+/**
+ * ServiceProviderConfig resource served from /ServiceProviderConfig
+ */
+export function buildServiceProviderConfig(scimBaseUrl: string, features: LocalServerFeatures = DEFAULT_FEATURES): ScimResource {
+  return {
+    schemas: [ScimSchemas.SERVICE_PROVIDER_CONFIG],
+    documentationUri: 'https://datatracker.ietf.org/doc/html/rfc7644',
+    patch: { supported: features.patch },
+    bulk: features.bulk
+      ? { supported: true, maxOperations: BULK_MAX_OPERATIONS, maxPayloadSize: BULK_MAX_PAYLOAD_SIZE }
+      : { supported: false, maxOperations: 0, maxPayloadSize: 0 },
+    filter: { supported: true, maxResults: MAX_RESULTS },
+    changePassword: { supported: false },
+    sort: { supported: false },
+    etag: { supported: features.etag },
+    authenticationSchemes: [
+      {
+        type: 'oauthbearertoken',
+        name: 'OAuth Bearer Token',
+        description: 'Authentication scheme using the OAuth Bearer Token Standard',
+        specUri: 'https://www.rfc-editor.org/info/rfc6750',
+        primary: true
+      }
+    ],
+    meta: { resourceType: 'ServiceProviderConfig', location: `${scimBaseUrl}/ServiceProviderConfig` }
+  };
+}
@@ -0,0 +1,49 @@
+/**
+ * Local Server Entry Point
+ * Started by Playwright's webServer (see playwright.config.ts) or by hand:
+ *   npx tsx local-server/index.ts
+ *
+ * Environment:
+ *   LOCAL_SERVER_PORT            Port to listen on (default 4010)
+ *   OEM                          true/1/yes/oem enables OEM mode (institutionid filtering)
+ *   LOCAL_SERVER_INSTITUTION_ID  Institution assigned to users created in OEM mode (default 102)
+ *   LOCAL_SERVER_UNSUPPORTED     Comma-separated features to advertise as unsupported (e.g. patch,bulk)
+ *   LOCAL_OAUTH_CLIENTS_FILE     Extra token clients (default local-server/oauth-clients.json)
+ *   LOCAL_OAUTH_ALLOWED_SCOPES   Scopes allowed for the CLIENT_ID client (space-separated)
+ *   LOCAL_OAUTH_SIGNING_KEY      HS256 key for access tokens
+ *   LOCAL_OAUTH_AUDIENCE         aud claim issued and required on SCIM requests (default scim-api)
+ *   LOCAL_OAUTH_TOKEN_LIFETIME   Token lifetime in seconds (default 3600)
+ */
+
+import { isOemEnvironment, ProjectConfig } from '../utils/api-config';
+import { DEFAULT_FEATURES } from './discovery';
+import { createLocalServer } from './scim-server';
+import { loadTokenServerOptions } from './token-server';
+
+const options = {
+  port: ProjectConfig.localServer.port,
+  oem: isOemEnvironment(),
+  defaultInstitutionId: process.env.LOCAL_SERVER_INSTITUTION_ID || '102',
+  oauth: loadTokenServerOptions(),
+  features: { ...DEFAULT_FEATURES }
+};
+
+for (const feature of (process.env.LOCAL_SERVER_UNSUPPORTED || '').split(',').map(name => name.trim()).filter(Boolean)) {
+  if (!(feature in options.features)) {
+    throw new Error(`Unknown LOCAL_SERVER_UNSUPPORTED feature: ${feature}. Must be one of: ${Object.keys(DEFAULT_FEATURES).join(', ')}`);
+  }
+  options.features[feature as keyof typeof DEFAULT_FEATURES] = false;
+}
+
+const server = createLocalServer(options);
+
+server.listen(options.port, () => {
+  console.log(`🧪 Local SCIM server listening on ${ProjectConfig.localServer.baseUrl}`);
+  console.log(`📁 Base paths: ${ProjectConfig.api.endpoints.scim}, ${ProjectConfig.api.endpoints.apiserver}`);
+  console.log(`🔐 Token endpoint: /identityservice${ProjectConfig.oauth.tokenEndpoint} (${options.oauth.clients.length} clients)`);
+  console.log(`🏢 Mode: ${options.oem ? `OEM (default institution ${options.defaultInstitutionId})` : 'Non-OEM'}`);
+});
+
+const shutdown = () => server.close(() => process.exit(0));
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
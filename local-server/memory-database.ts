@@ -0,0 +1,140 @@
+/**
+ * In-Memory Test Database
+ * TestDatabase adapter for the local server: hsi.useraccount / hsi.usergroup / hsi.userxusergroup
+ * row tables kept separately from the store, which writes its Users and Groups through on every
+ * create, replace (PUT/PATCH) and delete. Direct inserts go through the store, so the API serves
+ * them. Pass the same store to createLocalServer to run DB-backed tests locally.
+ */
+
+import { ScimSchemas } from '../utils/api-config';
+import { ScimGroup, ScimUser } from '../utils/scim-types';
+import { TestDatabase, UserAccountRow, UserGroupRow } from '../utils/test-database';
+import { InMemoryScimStore, ScimStoreListener, StoredRecord } from './scim-store';
+
+interface UserGroupMembershipRow {
+  usernum: number;
+  usergroupnum: number;
+}
+
+function userRow({ resource, institutionId }: StoredRecord<ScimUser>): UserAccountRow {
+  return {
+    usernum: Number(resource.id),
+    username: resource.userName,
+    realname: resource.displayName ?? null,
+    emailaddress: (resource.emails?.find(email => email.primary) ?? resource.emails?.[0])?.value ?? null,
+    disablelogin: resource.active === false,
+    obuniqueid: null,
+    usertype: null,
+    ...(institutionId ? { institution: Number(institutionId) } : {})
+  };
+}
+
+function groupRow({ resource }: StoredRecord<ScimGroup>): UserGroupRow {
+  return { usergroupnum: Number(resource.id), usergroupname: resource.displayName };
+}
+
+// SQL Server's default collation compares names case-insensitively
+function sameName(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+export class InMemoryDatabase implements TestDatabase, ScimStoreListener {
+  readonly description = 'in-memory (local server store)';
+
+  // hsi.useraccount, hsi.usergroup and hsi.userxusergroup
+  private readonly userAccounts = new Map<number, UserAccountRow>();
+  private readonly userGroups = new Map<number, UserGroupRow>();
+  private memberships: UserGroupMembershipRow[] = [];
+
+  constructor(readonly store: InMemoryScimStore = new InMemoryScimStore({ oem: false, defaultInstitutionId: '102' })) {
+    // Start from what the store already holds (its seed data), then follow its writes
+    store.listUsers().forEach(record => this.userWritten(record));
+    store.listGroups().forEach(record => this.groupWritten(record));
+    store.addListener(this);
+  }
+
+  // ---------- Store writes ----------
+
+  userWritten(record: StoredRecord<ScimUser>): void {
+    const row = userRow(record);
+    this.userAccounts.set(row.usernum, row);
+  }
+
+  userDeleted(id: string): void {
+    this.userAccounts.delete(Number(id));
+    this.memberships = this.memberships.filter(membership => membership.usernum !== Number(id));
+  }
+
+  groupWritten(record: StoredRecord<ScimGroup>): void {
+    const row = groupRow(record);
+    this.userGroups.set(row.usergroupnum, row);
+    this.memberships = [
+      ...this.memberships.filter(membership => membership.usergroupnum !== row.usergroupnum),
+      ...(record.resource.members ?? []).map(member => ({ usernum: Number(member.value), usergroupnum: row.usergroupnum }))
+    ];
+  }
+
+  groupDeleted(id: string): void {
+    this.userGroups.delete(Number(id));
+    this.memberships = this.memberships.filter(membership => membership.usergroupnum !== Number(id));
+  }
+
+  // ---------- TestDatabase ----------
+
+  async getUserByName(username: string): Promise<UserAccountRow | null> {
+    const row = [...this.userAccounts.values()].find(user => sameName(user.username, username));
+    return row ? { ...row } : null;
+  }
+
+  async getUserById(userNum: number): Promise<UserAccountRow | null> {
+    const row = this.userAccounts.get(userNum);
+    return row ? { ...row } : null;
+  }
+
+  async getGroupById(groupNum: number): Promise<UserGroupRow | null> {
+    const row = this.userGroups.get(groupNum);
+    return row ? { ...row } : null;
+  }
+
+  async getGroupByName(groupName: string): Promise<UserGroupRow | null> {
+    const row = [...this.userGroups.values()].find(group => sameName(group.usergroupname, groupName));
+    return row ? { ...row } : null;
+  }
+
+  async isUserGroupMember(userNum: number, groupNum: number): Promise<boolean> {
+    return (await this.getGroupMembers(groupNum)).includes(userNum);
+  }
+
+  async getGroupMembers(groupNum: number): Promise<number[]> {
+    return this.memberships
+      .filter(membership => membership.usergroupnum === groupNum)
+      .map(membership => membership.usernum);
+  }
+
+  async createTestUser(username: string, institutionId?: string): Promise<number> {
+    // The store assigns the usernum and writes the row back
+    const record = this.store.createUser(
+      {
+        schemas: [ScimSchemas.USER],
+        userName: username,
+        displayName: `Test User ${username}`,
+        active: true,
+        emails: [{ value: `${username}@test.com`, primary: true }]
+      },
+      institutionId
+    );
+    return Number(record.resource.id);
+  }
+
+  async deleteTestUser(userNum: number): Promise<void> {
+    // Memberships go with the user, like the DELETE FROM hsi.userxusergroup in the SQL Server adapter
+    if (this.store.listUsers().some(record => record.resource.id === String(userNum))) {
+      this.store.deleteUser(String(userNum));
+    }
+    this.userDeleted(String(userNum));
+  }
+
+  async close(): Promise<void> {
+    // Nothing to release
+  }
+}
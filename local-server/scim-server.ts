@@ -0,0 +1,506 @@
+/**
+ * Local SCIM 2.0 Reference Server
+ * Serves every route in ApiEndpoints from an in-memory store so the suite
+ * can run without the rdv-* hosts (laptops off VPN, sandboxed CI jobs)
+ */
+
+import { createHash } from 'crypto';
+import http from 'http';
+import { ProjectConfig, ScimSchemas } from '../utils/api-config';
+import { ScimListQuery, ScimResource } from '../utils/scim-types';
+import { handleBulkRequest } from './bulk';
+import {
+  BULK_MAX_OPERATIONS,
+  BULK_MAX_PAYLOAD_SIZE,
+  buildResourceTypes,
+  buildSchemas,
+  buildServiceProviderConfig,
+  DEFAULT_FEATURES,
+  LocalServerFeatures,
+  MAX_RESULTS
+} from './discovery';
+import { evaluateFilter, FilterParseError, parseFilter } from '../utils/scim-filter';
+import { applyPatch, ScimPatchError } from '../utils/scim-patch';
+import { etagMatches } from '../utils/scim-etag';
+import { JwtClaims } from '../utils/jwt';
+import { InMemoryScimStore, ResourceKind, ScimStoreError, StoredRecord } from './scim-store';
+import { acceptedScopes, handleTokenRequest, loadTokenServerOptions, TokenServerOptions, verifyAccessToken } from './token-server';
+
+export interface LocalServerOptions {
+  port: number;
+  // OEM mode: users carry an institution and institutionid filters apply
+  oem: boolean;
+  defaultInstitutionId: string;
+  // Token endpoint clients and signing key (defaults to loadTokenServerOptions())
+  oauth?: TokenServerOptions;
+  // Optional features advertised on /ServiceProviderConfig (defaults to DEFAULT_FEATURES)
+  features?: LocalServerFeatures;
+  // Store to serve (defaults to a new seeded store); share it with an InMemoryDatabase for DB-backed tests
+  store?: InMemoryScimStore;
+}
+
+interface RequestContext {
+  method: string;
+  route: string;
+  query: URLSearchParams;
+  body: any;
+  // Request body size in bytes, checked against the bulk maxPayloadSize
+  bodySize: number;
+  scimBaseUrl: string;
+  headers: http.IncomingHttpHeaders;
+}
+
+interface ServerResponse {
+  status: number;
+  body?: any;
+  headers?: Record<string, string>;
+}
+
+const SCIM_CONTENT_TYPE = 'application/scim+json; charset=utf-8';
+const OAUTH_BASE_PATH = '/identityservice';
+
+/**
+ * Build a SCIM Error response (RFC 7644 §3.12)
+ */
+function scimError(status: number, detail: string, scimType?: string): ServerResponse {
+  return {
+    status,
+    body: {
+      schemas: [ScimSchemas.ERROR],
+      status: String(status),
+      ...(scimType ? { scimType } : {}),
+      detail
+    }
+  };
+}
+
+/**
+ * Map an error thrown by a route handler to its SCIM Error response
+ */
+function errorResponse(error: any): ServerResponse {
+  if (error instanceof ScimStoreError) return scimError(error.status, error.message, error.scimType);
+  if (error instanceof FilterParseError) return scimError(400, error.message, 'invalidFilter');
+  if (error instanceof ScimPatchError) return scimError(error.status, error.message, error.scimType);
+  return scimError(500, error?.message ?? 'Internal server error');
+}
+
+/**
+ * Build a ListResponse for one page of resources
+ */
+function listResponse(resources: any[], totalResults: number, startIndex: number): ServerResponse {
+  return {
+    status: 200,
+    body: {
+      schemas: [ScimSchemas.LIST_RESPONSE],
+      totalResults,
+      itemsPerPage: resources.length,
+      startIndex,
+      Resources: resources
+    }
+  };
+}
+
+/**
+ * Split a comma-separated attribute list
+ */
+function splitAttributes(value: string | null): string[] | undefined {
+  return value ? value.split(',').map(name => name.trim()).filter(Boolean) : undefined;
+}
+
+/**
+ * Read list query parameters from the URL
+ */
+function queryFromUrl(query: URLSearchParams): ScimListQuery {
+  return {
+    filter: query.get('filter') ?? undefined,
+    startIndex: query.has('startIndex') ? parseInt(query.get('startIndex')!) : undefined,
+    count: query.has('count') ? parseInt(query.get('count')!) : undefined,
+    attributes: splitAttributes(query.get('attributes')),
+    excludedAttributes: splitAttributes(query.get('excludedAttributes'))
+  };
+}
+
+/**
+ * Apply attributes / excludedAttributes projection (id and schemas are always returned)
+ */
+function project(resource: ScimResource, query: ScimListQuery): ScimResource {
+  const topLevel = (names?: string[]) => names?.map(name => name.split('.')[0].toLowerCase());
+  const attributes = topLevel(query.attributes);
+  const excluded = topLevel(query.excludedAttributes);
+
+  return Object.fromEntries(
+    Object.entries(resource).filter(([name]) => {
+      const lower = name.toLowerCase();
+      if (lower === 'id' || lower === 'schemas') return true;
+      if (attributes) return attributes.includes(lower);
+      return !excluded?.includes(lower);
+    })
+  ) as ScimResource;
+}
+
+/**
+ * Create the local server (not yet listening)
+ */
+export function createLocalServer(options: LocalServerOptions): http.Server {
+  const store = options.store ?? new InMemoryScimStore({ oem: options.oem, defaultInstitutionId: options.defaultInstitutionId });
+  const oauth = options.oauth ?? loadTokenServerOptions();
+  const features = options.features ?? DEFAULT_FEATURES;
+  const startedAt = new Date();
+
+  const basePaths = [ProjectConfig.api.endpoints.scim, ProjectConfig.api.endpoints.apiserver];
+
+  // ---------- Rendering ----------
+
+  /**
+   * Weak ETag over the stored state, so it is the same under either base path
+   * and changes whenever the rendered resource would
+   */
+  function versionOf(...state: any[]): { version?: string } {
+    if (!features.etag) return {};
+    const digest = createHash('sha1').update(JSON.stringify(state)).digest('base64url').slice(0, 16);
+    return { version: `W/"${digest}"` };
+  }
+
+  function renderUser(record: StoredRecord<any>, scimBaseUrl: string): ScimResource {
+    const { password, ...user } = record.resource;
+    const memberOf = store.groupsOfUser(user.id);
+    const groups = memberOf.map(group => ({ ...group, $ref: `${scimBaseUrl}/Groups/${group.value}` }));
+    return {
+      ...user,
+      ...(groups.length > 0 ? { groups } : {}),
+      meta: { ...user.meta, location: `${scimBaseUrl}/Users/${user.id}`, ...versionOf(record.resource, memberOf) }
+    };
+  }
+
+  function renderGroup(record: StoredRecord<any>, scimBaseUrl: string): ScimResource {
+    const group = record.resource;
+    return {
+      ...group,
+      members: group.members?.map((member: any) => ({ ...member, $ref: `${scimBaseUrl}/Users/${member.value}` })),
+      meta: { ...group.meta, location: `${scimBaseUrl}/Groups/${group.id}`, ...versionOf(group) }
+    };
+  }
+
+  function render(kind: ResourceKind, record: StoredRecord<any>, scimBaseUrl: string): ScimResource {
+    return kind === 'User' ? renderUser(record, scimBaseUrl) : renderGroup(record, scimBaseUrl);
+  }
+
+  /**
+   * Add the ETag header to a single-resource response (RFC 7644 §3.14)
+   */
+  function withETag(response: ServerResponse): ServerResponse {
+    const version = response.body?.meta?.version;
+    return version ? { ...response, headers: { ...response.headers, ETag: version } } : response;
+  }
+
+  // ---------- Resource handlers ----------
+
+  function listResources(kind: ResourceKind, query: ScimListQuery, scimBaseUrl: string): ServerResponse {
+    const records: StoredRecord<any>[] = kind === 'User' ? store.listUsers() : store.listGroups();
+    const filter = query.filter?.trim();
+
+    let matching = records;
+    if (filter) {
+      const ast = parseFilter(filter);
+      matching = records.filter(record =>
+        evaluateFilter(ast, record, (target, attributePath) => store.resolveAttribute(target, attributePath))
+      );
+    }
+
+    const startIndex = Math.max(1, query.startIndex ?? 1);
+    const count = Math.min(Math.max(0, query.count ?? MAX_RESULTS), MAX_RESULTS);
+    const page = matching
+      .slice(startIndex - 1, startIndex - 1 + count)
+      .map(record => project(render(kind, record, scimBaseUrl), query));
+
+    return listResponse(page, matching.length, startIndex);
+  }
+
+  function createResource(kind: ResourceKind, context: RequestContext): ServerResponse {
+    const { body, scimBaseUrl } = context;
+    const schema = kind === 'User' ? ScimSchemas.USER : ScimSchemas.GROUP;
+    if (!Array.isArray(body?.schemas) || !body.schemas.includes(schema)) {
+      return scimError(400, `Request body must declare the ${schema} schema`, 'invalidSyntax');
+    }
+
+    const { id, meta, groups, ...attributes } = body;
+    if (kind === 'User') {
+      if (typeof attributes.userName !== 'string' || !attributes.userName) {
+        return scimError(400, 'userName is required', 'invalidValue');
+      }
+      const record = store.createUser(attributes);
+      const resource = renderUser(record, scimBaseUrl);
+      return withETag({ status: 201, body: resource, headers: { Location: resource.meta!.location! } });
+    }
+
+    if (typeof attributes.displayName !== 'string' || !attributes.displayName) {
+      return scimError(400, 'displayName is required', 'invalidValue');
+    }
+    const record = store.createGroup(attributes);
+    const resource = renderGroup(record, scimBaseUrl);
+    return withETag({ status: 201, body: resource, headers: { Location: resource.meta!.location! } });
+  }
+
+  function replaceResource(kind: ResourceKind, id: string, context: RequestContext): ServerResponse {
+    const { body, scimBaseUrl } = context;
+    const schema = kind === 'User' ? ScimSchemas.USER : ScimSchemas.GROUP;
+    if (!Array.isArray(body?.schemas) || !body.schemas.includes(schema)) {
+      return scimError(400, `Request body must declare the ${schema} schema`, 'invalidSyntax');
+    }
+
+    const { meta, groups, ...attributes } = body;
+    if (attributes.id !== undefined && String(attributes.id) !== id) {
+      return scimError(400, 'id does not match the request path', 'mutability');
+    }
+
+    if (kind === 'User') {
+      if (typeof attributes.userName !== 'string' || !attributes.userName) {
+        return scimError(400, 'userName is required', 'invalidValue');
+      }
+      return { status: 200, body: renderUser(store.replaceUser(id, attributes), scimBaseUrl) };
+    }
+
+    if (typeof attributes.displayName !== 'string' || !attributes.displayName) {
+      return scimError(400, 'displayName is required', 'invalidValue');
+    }
+    return { status: 200, body: renderGroup(store.replaceGroup(id, attributes), scimBaseUrl) };
+  }
+
+  function patchResource(kind: ResourceKind, id: string, context: RequestContext): ServerResponse {
+    const { body, scimBaseUrl } = context;
+    if (!features.patch) return scimError(501, 'PATCH is not supported by this service provider');
+    if (!Array.isArray(body?.schemas) || !body.schemas.includes(ScimSchemas.PATCH_OP) || !Array.isArray(body.Operations)) {
+      return scimError(400, 'Request body must be a PatchOp message with Operations', 'invalidSyntax');
+    }
+
+    if (kind === 'User') {
+      const { meta, ...current } = store.getUser(id).resource;
+      const patched = applyPatch(current, body.Operations);
+      if (typeof patched.userName !== 'string' || !patched.userName) {
+        return scimError(400, 'userName is required', 'invalidValue');
+      }
+      return { status: 200, body: renderUser(store.replaceUser(id, patched), scimBaseUrl) };
+    }
+
+    const { meta, ...current } = store.getGroup(id).resource;
+    const patched = applyPatch(current, body.Operations);
+    if (typeof patched.displayName !== 'string' || !patched.displayName) {
+      return scimError(400, 'displayName is required', 'invalidValue');
+    }
+    return { status: 200, body: renderGroup(store.replaceGroup(id, patched), scimBaseUrl) };
+  }
+
+  function searchResources(kind: ResourceKind, context: RequestContext): ServerResponse {
+    const { body, scimBaseUrl } = context;
+    if (!Array.isArray(body?.schemas) || !body.schemas.includes(ScimSchemas.SEARCH_REQUEST)) {
+      return scimError(400, 'Request body must be a SearchRequest message', 'invalidSyntax');
+    }
+    return listResources(kind, body, scimBaseUrl);
+  }
+
+  function handleResourceRoute(kind: ResourceKind, segments: string[], context: RequestContext): ServerResponse {
+    const { method, scimBaseUrl } = context;
+    const [id] = segments;
+
+    if (segments.length === 0) {
+      if (method === 'GET') return listResources(kind, queryFromUrl(context.query), scimBaseUrl);
+      if (method === 'POST') return createResource(kind, context);
+      return scimError(405, `${method} is not supported on /${kind}s`);
+    }
+
+    if (segments.length === 1 && id === '.search') {
+      if (method === 'POST') return searchResources(kind, context);
+      return scimError(405, `${method} is not supported on /${kind}s/.search`);
+    }
+
+    if (segments.length !== 1) return scimError(404, `Unknown resource path: ${context.route}`);
+
+    const failedPrecondition = checkPreconditions(kind, id, context);
+    if (failedPrecondition) return failedPrecondition;
+
+    switch (method) {
+      case 'GET': {
+        const record = kind === 'User' ? store.getUser(id) : store.getGroup(id);
+        const resource = render(kind, record, scimBaseUrl);
+        const { headers } = withETag({ status: 200, body: resource });
+        return { status: 200, body: project(resource, queryFromUrl(context.query)), headers };
+      }
+      case 'PUT':
+        return withETag(replaceResource(kind, id, context));
+      case 'PATCH':
+        return withETag(patchResource(kind, id, context));
+      case 'DELETE':
+        if (kind === 'User') store.deleteUser(id);
+        else store.deleteGroup(id);
+        return { status: 204 };
+      default:
+        return scimError(405, `${method} is not supported on /${kind}s/{id}`);
+    }
+  }
+
+  /**
+   * If-None-Match on GET answers 304 when the version is current; If-Match on
+   * PUT/PATCH/DELETE answers 412 when it is not (RFC 7644 §3.14)
+   */
+  function checkPreconditions(kind: ResourceKind, id: string, context: RequestContext): ServerResponse | undefined {
+    const ifMatch = context.headers['if-match'];
+    const ifNoneMatch = context.headers['if-none-match'];
+    if (!features.etag || (ifMatch === undefined && ifNoneMatch === undefined)) return undefined;
+
+    const record = kind === 'User' ? store.getUser(id) : store.getGroup(id);
+    const version = render(kind, record, context.scimBaseUrl).meta!.version!;
+
+    if (context.method === 'GET' && ifNoneMatch !== undefined && etagMatches(ifNoneMatch, version)) {
+      return { status: 304, headers: { ETag: version } };
+    }
+    if (context.method !== 'GET' && ifMatch !== undefined && !etagMatches(ifMatch, version)) {
+      return scimError(412, `${kind} ${id} has been modified: If-Match ${ifMatch} does not match the current version ${version}`);
+    }
+    return undefined;
+  }
+
+  // ---------- Discovery handlers ----------
+
+  function handleDiscoveryRoute(resource: string, segments: string[], scimBaseUrl: string): ServerResponse {
+    if (resource === 'ServiceProviderConfig') {
+      return { status: 200, body: buildServiceProviderConfig(scimBaseUrl, features) };
+    }
+
+    const resources = resource === 'Schemas' ? buildSchemas(scimBaseUrl) : buildResourceTypes(scimBaseUrl);
+    if (segments.length === 0) return listResponse(resources, resources.length, 1);
+
+    const match = resources.find(candidate => candidate.id === decodeURIComponent(segments[0]));
+    return match ? { status: 200, body: match } : scimError(404, `${resource} ${segments[0]} not found`);
+  }
+
+  // ---------- Bulk handler ----------
+
+  function handleBulkRoute(context: RequestContext): ServerResponse {
+    if (!features.bulk) return scimError(501, 'Bulk operations are not supported by this service provider');
+    if (context.method !== 'POST') return scimError(405, `${context.method} is not supported on /Bulk`);
+
+    const limits = { maxOperations: BULK_MAX_OPERATIONS, maxPayloadSize: BULK_MAX_PAYLOAD_SIZE };
+    // Preconditions on the /Bulk request itself do not apply to its operations
+    const { 'if-match': ifMatch, 'if-none-match': ifNoneMatch, ...headers } = context.headers;
+    return handleBulkRequest(context.body, context.bodySize, limits, (method, path, data, version) => {
+      try {
+        const operationHeaders = version ? { ...headers, 'if-match': version } : headers;
+        return route({ ...context, method, route: path, query: new URLSearchParams(), body: data, headers: operationHeaders });
+      } catch (error: any) {
+        return errorResponse(error);
+      }
+    });
+  }
+
+  // ---------- Routing ----------
+
+  function route(context: RequestContext): ServerResponse {
+    const [resource, ...segments] = context.route.split('/').filter(Boolean);
+    const isDiscovery = resource === 'Schemas' || resource === 'ResourceTypes' || resource === 'ServiceProviderConfig';
+
+    if (context.method !== 'GET' && isDiscovery) {
+      return scimError(405, `${context.method} is not supported on /${resource}`);
+    }
+    if (isDiscovery) return handleDiscoveryRoute(resource, segments, context.scimBaseUrl);
+    if (resource === 'Users') return handleResourceRoute('User', segments, context);
+    if (resource === 'Groups') return handleResourceRoute('Group', segments, context);
+    if (resource === 'Bulk') return handleBulkRoute(context);
+
+    return scimError(404, `Unknown endpoint: ${context.route}`);
+  }
+
+  function handle(method: string, url: URL, rawBody: string, headers: http.IncomingHttpHeaders): ServerResponse {
+    const pathname = url.pathname.replace(/\/+$/, '');
+    const origin = `http://${headers.host ?? `localhost:${options.port}`}`;
+
+    if (pathname === `${OAUTH_BASE_PATH}${ProjectConfig.oauth.tokenEndpoint}` && method === 'POST') {
+      return handleTokenRequest(oauth, rawBody, headers, `${origin}${OAUTH_BASE_PATH}`);
+    }
+
+    if (pathname === '/obscim/healthcheck' || pathname === '/healthcheck') {
+      return { status: 200, body: { status: 'Healthy' } };
+    }
+
+    if (pathname === '/obscim/diagnostics/details' || pathname === '/diagnostics/details') {
+      return {
+        status: 200,
+        body: {
+          status: 'Healthy',
+          server: 'scim-local-server',
+          oem: options.oem,
+          startedAt: startedAt.toISOString(),
+          uptimeSeconds: Math.round((Date.now() - startedAt.getTime()) / 1000),
+          users: store.listUsers().length,
+          groups: store.listGroups().length
+        }
+      };
+    }
+
+    // SCIM routes under either base path, plus the v4 root-level discovery paths
+    const basePath = basePaths.find(candidate => pathname === candidate || pathname.startsWith(`${candidate}/`));
+    const routePath = basePath !== undefined ? pathname.slice(basePath.length) : pathname;
+    if (basePath === undefined && !/^\/(Schemas|ResourceTypes|ServiceProviderConfig)(\/|$)/.test(routePath)) {
+      return scimError(404, `Unknown endpoint: ${pathname}`);
+    }
+
+    let claims: JwtClaims;
+    try {
+      claims = verifyAccessToken(oauth, headers.authorization);
+    } catch (error: any) {
+      return {
+        ...scimError(401, error.message),
+        headers: { 'WWW-Authenticate': `Bearer realm="scim", error="invalid_token", error_description="${error.message}"` }
+      };
+    }
+
+    // RFC 6750 §3.1: a valid token without the scope the request needs gets 403 insufficient_scope
+    const accepted = acceptedScopes(method, routePath);
+    const granted = (claims.scope ?? '').split(' ');
+    if (accepted && !accepted.some(scope => granted.includes(scope))) {
+      return {
+        ...scimError(403, `Token scope "${claims.scope ?? ''}" does not include any of: ${accepted.join(', ')}`),
+        headers: { 'WWW-Authenticate': `Bearer realm="scim", error="insufficient_scope", scope="${accepted.join(' ')}"` }
+      };
+    }
+
+    let body: any;
+    if (rawBody) {
+      try {
+        body = JSON.parse(rawBody);
+      } catch {
+        return scimError(400, 'Request body is not valid JSON', 'invalidSyntax');
+      }
+    }
+
+    return route({
+      method,
+      route: routePath,
+      query: url.searchParams,
+      body,
+      bodySize: Buffer.byteLength(rawBody, 'utf8'),
+      scimBaseUrl: `${origin}${basePath ?? ''}`,
+      headers
+    });
+  }
+
+  return http.createServer((request, response) => {
+    const chunks: Buffer[] = [];
+    request.on('data', chunk => chunks.push(chunk));
+    request.on('end', () => {
+      let result: ServerResponse;
+      try {
+        const url = new URL(request.url ?? '/', `http://${request.headers.host ?? 'localhost'}`);
+        result = handle(request.method ?? 'GET', url, Buffer.concat(chunks).toString('utf8'), request.headers);
+      } catch (error: any) {
+        result = errorResponse(error);
+      }
+
+      const isScim = !request.url?.startsWith(OAUTH_BASE_PATH);
+      response.writeHead(result.status, {
+        ...(result.body !== undefined ? { 'Content-Type': isScim ? SCIM_CONTENT_TYPE : 'application/json; charset=utf-8' } : {}),
+        ...result.headers
+      });
+      response.end(result.body !== undefined ? JSON.stringify(result.body) : undefined);
+    });
+  });
+}
@@ -0,0 +1,287 @@
+/**
+ * In-Memory Data Store for the Local SCIM Server
+ * Holds Users and Groups for the lifetime of the server process,
+ * seeded with the fixed test data the suite relies on (users 2, 106, 143, 164, ...)
+ */
+
+import { ScimSchemas } from '../utils/api-config';
+import { ScimGroup, ScimMemberReference, ScimUser } from '../utils/scim-types';
+import { resolveAttributePath } from '../utils/scim-filter';
+
+/**
+ * Error raised by store operations, mapped to a SCIM Error response by the server
+ */
+export class ScimStoreError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+    public readonly scimType?: string
+  ) {
+    super(message);
+  }
+}
+
+export type ResourceKind = 'User' | 'Group';
+
+/**
+ * Stored record - the SCIM resource plus attributes the server keeps internally
+ */
+export interface StoredRecord<T> {
+  resource: T;
+  institutionId?: string;
+}
+
+export interface StoreOptions {
+  // OEM mode: users belong to an institution and institutionid is filterable
+  oem: boolean;
+  // Institution assigned to users created in OEM mode
+  defaultInstitutionId: string;
+}
+
+/**
+ * Receives every write to the store after it succeeds, e.g. to keep a copy in database tables
+ */
+export interface ScimStoreListener {
+  userWritten(record: StoredRecord<ScimUser>): void;
+  // Memberships go with the user
+  userDeleted(id: string): void;
+  groupWritten(record: StoredRecord<ScimGroup>): void;
+  groupDeleted(id: string): void;
+}
+
+interface SeedUser {
+  id: string;
+  userName: string;
+  displayName: string;
+  institutionId: string;
+}
+
+const seedUsers: SeedUser[] = [
+  { id: '2', userName: 'MANAGER', displayName: 'Manager', institutionId: '99' },
+  { id: '106', userName: 'USER1', displayName: 'User One', institutionId: '101' },
+  { id: '143', userName: 'USER2', displayName: 'User Two', institutionId: '102' },
+  { id: '164', userName: 'USERX', displayName: 'User X', institutionId: '102' },
+  { id: '165', userName: 'USERX', displayName: 'User X (Institution 101)', institutionId: '101' }
+];
+
+const seedGroups = [
+  { id: '1', displayName: 'ADMINISTRATIVE', members: ['2'] },
+  { id: '2', displayName: 'EVERYONE', members: ['2', '106', '143', '164'] },
+  { id: '3', displayName: 'TESTGROUP', members: ['106', '143'] }
+];
+
+/**
+ * In-memory store keyed by resource id
+ */
+export class InMemoryScimStore {
+  private readonly users = new Map<string, StoredRecord<ScimUser>>();
+  private readonly groups = new Map<string, StoredRecord<ScimGroup>>();
+  private readonly listeners: ScimStoreListener[] = [];
+  private nextId = 1000;
+
+  constructor(private readonly options: StoreOptions) {
+    this.seed();
+  }
+
+  get isOem(): boolean {
+    return this.options.oem;
+  }
+
+  /**
+   * Be told about writes from now on (existing records are not replayed)
+   */
+  addListener(listener: ScimStoreListener): void {
+    this.listeners.push(listener);
+  }
+
+  // ---------- Users ----------
+
+  listUsers(): StoredRecord<ScimUser>[] {
+    return [...this.users.values()];
+  }
+
+  getUser(id: string): StoredRecord<ScimUser> {
+    const record = this.users.get(id);
+    if (!record) throw new ScimStoreError(404, `User ${id} not found`);
+    return record;
+  }
+
+  createUser(user: ScimUser, institution?: string): StoredRecord<ScimUser> {
+    const institutionId = this.options.oem ? institution ?? this.options.defaultInstitutionId : undefined;
+    this.assertUniqueUserName(user.userName, institutionId);
+
+    const id = String(this.nextId++);
+    const now = new Date().toISOString();
+    const record: StoredRecord<ScimUser> = {
+      resource: { ...user, id, meta: { resourceType: 'User', created: now, lastModified: now } },
+      institutionId
+    };
+    this.users.set(id, record);
+    this.listeners.forEach(listener => listener.userWritten(record));
+    return record;
+  }
+
+  replaceUser(id: string, user: ScimUser): StoredRecord<ScimUser> {
+    const record = this.getUser(id);
+    this.assertUniqueUserName(user.userName, record.institutionId, id);
+
+    record.resource = {
+      ...user,
+      id,
+      meta: { ...record.resource.meta, lastModified: new Date().toISOString() }
+    };
+    this.listeners.forEach(listener => listener.userWritten(record));
+    return record;
+  }
+
+  deleteUser(id: string): void {
+    this.getUser(id);
+    this.users.delete(id);
+
+    for (const group of this.groups.values()) {
+      group.resource.members = group.resource.members?.filter(member => member.value !== id);
+    }
+    this.listeners.forEach(listener => listener.userDeleted(id));
+  }
+
+  /**
+   * Groups the user belongs to, as User.groups references
+   */
+  groupsOfUser(id: string): ScimMemberReference[] {
+    return [...this.groups.values()]
+      .filter(group => group.resource.members?.some(member => member.value === id))
+      .map(group => ({ value: group.resource.id!, display: group.resource.displayName, type: 'direct' }));
+  }
+
+  // ---------- Groups ----------
+
+  listGroups(): StoredRecord<ScimGroup>[] {
+    return [...this.groups.values()];
+  }
+
+  getGroup(id: string): StoredRecord<ScimGroup> {
+    const record = this.groups.get(id);
+    if (!record) throw new ScimStoreError(404, `Group ${id} not found`);
+    return record;
+  }
+
+  createGroup(group: ScimGroup): StoredRecord<ScimGroup> {
+    this.assertUniqueDisplayName(group.displayName);
+
+    const id = String(this.nextId++);
+    const now = new Date().toISOString();
+    const record: StoredRecord<ScimGroup> = {
+      resource: {
+        ...group,
+        id,
+        members: this.normalizeMembers(group.members),
+        meta: { resourceType: 'Group', created: now, lastModified: now }
+      }
+    };
+    this.groups.set(id, record);
+    this.listeners.forEach(listener => listener.groupWritten(record));
+    return record;
+  }
+
+  replaceGroup(id: string, group: ScimGroup): StoredRecord<ScimGroup> {
+    const record = this.getGroup(id);
+    this.assertUniqueDisplayName(group.displayName, id);
+
+    record.resource = {
+      ...group,
+      id,
+      members: this.normalizeMembers(group.members),
+      meta: { ...record.resource.meta, lastModified: new Date().toISOString() }
+    };
+    this.listeners.forEach(listener => listener.groupWritten(record));
+    return record;
+  }
+
+  deleteGroup(id: string): void {
+    this.getGroup(id);
+    this.groups.delete(id);
+    this.listeners.forEach(listener => listener.groupDeleted(id));
+  }
+
+  // ---------- Filtering ----------
+
+  /**
+   * Resolve an attribute path for filtering, including store-internal attributes
+   */
+  resolveAttribute(record: StoredRecord<any>, attributePath: string): any {
+    if (attributePath.toLowerCase() === 'institutionid') {
+      return this.options.oem ? record.institutionId : undefined;
+    }
+    return resolveAttributePath(record.resource, attributePath);
+  }
+
+  // ---------- Internals ----------
+
+  /**
+   * Check member references point at existing users and fill in display names
+   */
+  normalizeMembers(members?: ScimMemberReference[]): ScimMemberReference[] {
+    return (members ?? []).map(member => {
+      const user = this.users.get(String(member.value));
+      if (!user) {
+        throw new ScimStoreError(400, `Member ${member.value} does not reference an existing User`, 'invalidValue');
+      }
+      return { value: String(member.value), display: user.resource.userName, type: 'User' };
+    });
+  }
+
+  private assertUniqueUserName(userName: string, institutionId?: string, exceptId?: string): void {
+    const duplicate = this.listUsers().some(record =>
+      record.resource.id !== exceptId &&
+      record.institutionId === institutionId &&
+      record.resource.userName.toLowerCase() === userName.toLowerCase()
+    );
+    if (duplicate) {
+      throw new ScimStoreError(409, `userName ${userName} is already in use`, 'uniqueness');
+    }
+  }
+
+  private assertUniqueDisplayName(displayName: string, exceptId?: string): void {
+    const duplicate = this.listGroups().some(record =>
+      record.resource.id !== exceptId &&
+      record.resource.displayName.toLowerCase() === displayName.toLowerCase()
+    );
+    if (duplicate) {
+      throw new ScimStoreError(409, `displayName ${displayName} is already in use`, 'uniqueness');
+    }
+  }
+
+  private seed(): void {
+    const created = new Date().toISOString();
+
+    seedUsers
+      // Duplicate userNames across institutions only exist in OEM mode
+      .filter(user => this.options.oem || user.id !== '165')
+      .forEach(user => {
+        this.users.set(user.id, {
+          resource: {
+            schemas: [ScimSchemas.USER],
+            id: user.id,
+            userName: user.userName,
+            displayName: user.displayName,
+            active: true,
+            emails: [{ value: `${user.userName.toLowerCase()}@example.com`, type: 'work', primary: true }],
+            meta: { resourceType: 'User', created, lastModified: created }
+          },
+          institutionId: this.options.oem ? user.institutionId : undefined
+        });
+      });
+
+    seedGroups.forEach(group => {
+      this.groups.set(group.id, {
+        resource: {
+          schemas: [ScimSchemas.GROUP],
+          id: group.id,
+          displayName: group.displayName,
+          members: this.normalizeMembers(group.members.map(value => ({ value }))),
+          meta: { resourceType: 'Group', created, lastModified: created }
+        }
+      });
+    });
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * Local OAuth2 Token Server
+ * Stand-in for the identityservice /connect/token endpoint: client_credentials
+ * with configurable clients, signed JWT access tokens and RFC 6749 §5.2 error bodies
+ */
+
+import fs from 'fs';
+import path from 'path';
+import http from 'http';
+import { randomUUID } from 'crypto';
+import { JwtClaims, signJwt, verifyJwt } from '../utils/jwt';
+
+/**
+ * Client registered with the token server
+ */
+export interface LocalOAuthClient {
+  clientId: string;
+  clientSecret: string;
+  allowedScopes: string[];
+}
+
+export interface TokenServerOptions {
+  clients: LocalOAuthClient[];
+  signingKey: string;
+  audience: string;
+  tokenLifetimeSeconds: number;
+}
+
+export interface TokenEndpointResponse {
+  status: number;
+  body: any;
+  headers?: Record<string, string>;
+}
+
+// Development-only key: the local server and tests that re-sign tokens share it
+export const DEFAULT_SIGNING_KEY = 'local-scim-server-signing-key';
+export const DEFAULT_AUDIENCE = 'scim-api';
+
+// Scopes granted to the default (CLIENT_ID) client; 'read' and 'write' cover TestScenarios.differentScope
+const DEFAULT_ALLOWED_SCOPES = [
+  'iam.user-catalog',
+  'iam.user-catalog.read',
+  'iam.user-catalog.write',
+  'idpadmin',
+  'read',
+  'write'
+];
+
+// Scopes that grant access to Users, Groups and Bulk: full access, reads (GET and POST .search)
+// or writes (POST, PUT, PATCH, DELETE). 'idpadmin' is the suite's fallback DEFAULT_SCOPE.
+export const FULL_ACCESS_SCOPES = ['iam.user-catalog', 'idpadmin'];
+export const READ_SCOPE = 'iam.user-catalog.read';
+export const WRITE_SCOPE = 'iam.user-catalog.write';
+
+// Grant types defined by RFC 6749 that this server knows but does not issue tokens for
+const UNSUPPORTED_KNOWN_GRANTS = ['authorization_code', 'password', 'refresh_token'];
+
+/**
+ * Load extra clients from local-server/oauth-clients.json (or LOCAL_OAUTH_CLIENTS_FILE)
+ * and add the CLIENT_ID / CLIENT_SECRET client the suite authenticates with
+ */
+export function loadTokenServerOptions(): TokenServerOptions {
+  const clientsFile = process.env.LOCAL_OAUTH_CLIENTS_FILE || path.resolve(__dirname, 'oauth-clients.json');
+  const fileClients: LocalOAuthClient[] = fs.existsSync(clientsFile)
+    ? JSON.parse(fs.readFileSync(clientsFile, 'utf8'))
+    : [];
+
+  const defaultClient: LocalOAuthClient = {
+    clientId: process.env.CLIENT_ID || 'local-client',
+    clientSecret: process.env.CLIENT_SECRET || 'local-secret',
+    allowedScopes: process.env.LOCAL_OAUTH_ALLOWED_SCOPES?.split(' ').filter(Boolean) ?? DEFAULT_ALLOWED_SCOPES
+  };
+
+  return {
+    clients: [defaultClient, ...fileClients.filter(client => client.clientId !== defaultClient.clientId)],
+    signingKey: process.env.LOCAL_OAUTH_SIGNING_KEY || DEFAULT_SIGNING_KEY,
+    audience: process.env.LOCAL_OAUTH_AUDIENCE || DEFAULT_AUDIENCE,
+    tokenLifetimeSeconds: parseInt(process.env.LOCAL_OAUTH_TOKEN_LIFETIME || '3600')
+  };
+}
+
+/**
+ * Build an RFC 6749 §5.2 error response
+ */
+function oauthError(status: number, error: string, description: string, headers?: Record<string, string>): TokenEndpointResponse {
+  return { status, body: { error, error_description: description }, headers };
+}
+
+/**
+ * Read client credentials from the HTTP Basic header or the form body
+ */
+function readClientCredentials(form: URLSearchParams, headers: http.IncomingHttpHeaders) {
+  const authorization = headers.authorization ?? '';
+  if (/^Basic\s+/i.test(authorization)) {
+    const decoded = Buffer.from(authorization.replace(/^Basic\s+/i, ''), 'base64').toString('utf8');
+    const separator = decoded.indexOf(':');
+    return {
+      clientId: decodeURIComponent(decoded.slice(0, separator)),
+      clientSecret: decodeURIComponent(decoded.slice(separator + 1)),
+      viaHeader: true
+    };
+  }
+  return { clientId: form.get('client_id'), clientSecret: form.get('client_secret'), viaHeader: false };
+}
+
+/**
+ * Handle a POST to the token endpoint
+ */
+export function handleTokenRequest(
+  options: TokenServerOptions,
+  rawBody: string,
+  headers: http.IncomingHttpHeaders,
+  issuer: string
+): TokenEndpointResponse {
+  const form = new URLSearchParams(rawBody);
+  const grantType = form.get('grant_type');
+
+  if (!grantType) {
+    return oauthError(400, 'invalid_request', 'grant_type is required');
+  }
+
+  // Authenticate the client first (RFC 6749 §3.2.1)
+  const credentials = readClientCredentials(form, headers);
+  const client = options.clients.find(candidate => candidate.clientId === credentials.clientId);
+  if (!client || !credentials.clientSecret || client.clientSecret !== credentials.clientSecret) {
+    // 401 with a challenge when the client tried HTTP Basic, otherwise 400
+    return credentials.viaHeader
+      ? oauthError(401, 'invalid_client', 'Client authentication failed', { 'WWW-Authenticate': 'Basic realm="identityservice"' })
+      : oauthError(400, 'invalid_client', 'Client authentication failed');
+  }
+
+  if (UNSUPPORTED_KNOWN_GRANTS.includes(grantType)) {
+    return oauthError(400, 'invalid_grant', `The ${grantType} grant is not valid for this client`);
+  }
+  if (grantType !== 'client_credentials') {
+    return oauthError(400, 'unsupported_grant_type', `Unsupported grant_type: ${grantType}`);
+  }
+
+  const requestedScopes = (form.get('scope') ?? '').split(' ').filter(Boolean);
+  if (requestedScopes.length === 0) {
+    return oauthError(400, 'invalid_scope', 'At least one scope must be requested');
+  }
+  const disallowed = requestedScopes.filter(scope => !client.allowedScopes.includes(scope));
+  if (disallowed.length > 0) {
+    return oauthError(400, 'invalid_scope', `Scope not allowed for this client: ${disallowed.join(' ')}`);
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const scope = requestedScopes.join(' ');
+  const claims: JwtClaims = {
+    iss: issuer,
+    sub: client.clientId,
+    aud: options.audience,
+    iat: now,
+    nbf: now,
+    exp: now + options.tokenLifetimeSeconds,
+    jti: randomUUID(),
+    client_id: client.clientId,
+    scope
+  };
+
+  return {
+    status: 200,
+    body: {
+      access_token: signJwt(claims, options.signingKey),
+      expires_in: options.tokenLifetimeSeconds,
+      token_type: 'Bearer',
+      scope
+    },
+    headers: { 'Cache-Control': 'no-store', Pragma: 'no-cache' }
+  };
+}
+
+/**
+ * Verify a bearer token presented to the SCIM endpoints, returning its claims
+ * Throws with the reason when the token must be rejected
+ */
+export function verifyAccessToken(options: TokenServerOptions, authorization: string | undefined): JwtClaims {
+  const match = /^Bearer\s+(\S+)$/i.exec(authorization ?? '');
+  if (!match) {
+    throw new Error('Bearer token required');
+  }
+  return verifyJwt(match[1], options.signingKey, { audience: options.audience });
+}
+
+/**
+ * Scopes any one of which allows a request to a SCIM route (below the base path);
+ * undefined for discovery endpoints, which any valid token may read
+ */
+export function acceptedScopes(method: string, routePath: string): string[] | undefined {
+  const [resource, action] = routePath.split('/').filter(Boolean);
+  if (!['Users', 'Groups', 'Bulk'].includes(resource)) return undefined;
+  const read = method === 'GET' || (method === 'POST' && action === '.search');
+  return [...FULL_ACCESS_SCOPES, read ? READ_SCOPE : WRITE_SCOPE];
+}
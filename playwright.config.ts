@@ -8,11 +8,43 @@ import dotenv from 'dotenv';
 import path from 'path';
 dotenv.config({ path: path.resolve(__dirname, '.env') });
 
+import { ProjectConfig } from './utils/api-config';
+import { applyEnvironmentProfile, getEnvironmentProfile } from './utils/environments';
+
+/**
+ * Local stand-in server (local-server/) - used unless LOCAL_SERVER=false.
+ * Points the API and OAuth URLs at it so no outside services are needed.
+ */
+const useLocalServer = ProjectConfig.localServer.enabled;
+
+/**
+ * Load scenarios are a pre-release tool: the load-tests project only exists when a run is
+ * sized with SCIM_LOAD_DURATION (npm run test:load sets it), so plain runs never load a server
+ */
+const runLoadTests = !!process.env.SCIM_LOAD_DURATION;
+
+/**
+ * Environment profile from environments.json (SCIM_ENV=<name>); validated here so a bad
+ * file fails the run before any test starts
+ */
+applyEnvironmentProfile(getEnvironmentProfile(), { urls: !useLocalServer });
+if (useLocalServer) {
+  process.env.API_BASE_URL = ProjectConfig.localServer.baseUrl;
+  process.env.OAUTH_BASE_URL = `${ProjectConfig.localServer.baseUrl}/identityservice`;
+  process.env.OAUTH_TOKEN_ENDPOINT = process.env.OAUTH_TOKEN_ENDPOINT || '/connect/token';
+  process.env.CLIENT_ID = process.env.CLIENT_ID || 'local-client';
+  process.env.CLIENT_SECRET = process.env.CLIENT_SECRET || 'local-secret';
+}
+
 /**
  * See https://playwright.dev/docs/test-configuration.
  */
 export default defineConfig({
   testDir: './tests',
+  /* Response snapshots (utils/scim-snapshot.ts) are named per endpoint type, not per platform */
+  snapshotPathTemplate: '{testDir}/__snapshots__/{testFilePath}/{arg}{ext}',
+  /* Missing snapshots are written locally; on CI they fail unless --update-snapshots is passed */
+  updateSnapshots: process.env.CI ? 'none' : 'missing',
   /* Run tests in files in parallel */
   fullyParallel: true,
   /* Fail the build on CI if you accidentally left test.only in the source code. */
@@ -67,6 +99,25 @@ export default defineConfig({
       },
     },
     
+    {
+      name: 'unit-tests',
+      testMatch: '**/*.unit.spec.ts', // Utility tests that make no HTTP calls
+    },
+
+    {
+      name: 'latency-trend',
+      testMatch: '**/*.trend.spec.ts', // Run-over-run latency check, after the API tests have been timed
+      dependencies: ['api-tests'],
+    },
+
+    ...(runLoadTests ? [{
+      name: 'load-tests',
+      testMatch: '**/*.load.spec.ts', // Load scenarios (SCIM_LOAD_* sizes the run)
+      use: {
+        baseURL: process.env.API_BASE_URL,
+      },
+    }] : []),
+    
     /* Browser projects for UI tests (when added later) */
     // {
     //   name: 'chromium-ui',
@@ -85,10 +136,11 @@ export default defineConfig({
     // },
   ],
 
-  /* Run your local dev server before starting the tests */
-  // webServer: {
-  //   command: 'npm run start',
-  //   url: 'http://localhost:3000',
-  //   reuseExistingServer: !process.env.CI,
-  // },
+  /* Run the local SCIM/OAuth stand-in before starting the tests */
+  webServer: useLocalServer ? {
+    command: 'npx tsx local-server/index.ts',
+    url: `${ProjectConfig.localServer.baseUrl}/obscim/healthcheck`,
+    reuseExistingServer: !process.env.CI,
+    timeout: 60000,
+  } : undefined,
 });
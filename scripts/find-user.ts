@@ -1,10 +1,9 @@
 import sql from 'mssql';
+import { getSqlServerConfig } from '../utils/db-config';
 
+// Connection from the selected environments.json profile (e.g. SCIM_ENV=oem); the password comes from its passwordEnv
 const dbConfig: sql.config = {
-  server: 'RDV-009275\\QASQL17LOCAL',
-  database: 'LocalOBTesting',
-  user: 'hsi',
-  password: 'wstinol',
+  ...getSqlServerConfig(),
   options: {
     encrypt: false,
     trustServerCertificate: true,
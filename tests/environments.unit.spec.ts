@@ -0,0 +1,133 @@
+/**
+ * Environment Profile Tests
+ *
+ * Checks loading, schema validation and selection of environments.json profiles in utils/environments.ts
+ */
+
+import { test, expect } from '@playwright/test';
+import fs from 'fs';
+import {
+  applyEnvironmentProfile,
+  EnvironmentsFile,
+  getEnvironmentProfile,
+  loadEnvironments,
+  resolveSecret,
+  selectEnvironmentName
+} from '../utils/environments';
+import { withEnv } from './unit-helpers';
+
+const profile = {
+  apiBaseUrl: 'https://qa-box-3.example.com',
+  oauthBaseUrl: 'https://qa-box-3.example.com/identityservice',
+  oem: false,
+  institutionIds: [],
+  endpointType: 'apiserver',
+  database: { server: 'QA3\\SQL22', database: 'LocalOBTesting', user: 'hsi', passwordEnv: 'QA3_DB_PASSWORD' }
+};
+
+function writeEnvironments(content: any): string {
+  const file = test.info().outputPath(`environments-${Math.random().toString(36).slice(2)}.json`);
+  fs.writeFileSync(file, JSON.stringify(content));
+  return file;
+}
+
+test.describe('Environment Profiles', () => {
+  test('Shipped environments.json is valid and keeps secrets out of the file', async () => {
+    const environments = loadEnvironments();
+    expect(Object.keys(environments.profiles)).toEqual(expect.arrayContaining(['oem', 'non-oem']));
+    expect(JSON.stringify(environments)).not.toMatch(/"password"\s*:/i);
+    for (const { database } of Object.values(environments.profiles)) {
+      expect(database?.passwordEnv).toMatch(/^[A-Z_]+$/);
+    }
+  });
+
+  test('Selects SCIM_ENV, then oem for OEM=true, then the default', async () => {
+    const environments: EnvironmentsFile = loadEnvironments(writeEnvironments({
+      default: 'qa-box-3',
+      profiles: { 'qa-box-3': profile, oem: { ...profile, oem: true, institutionIds: ['7'], defaultInstitutionId: '7' } }
+    }));
+
+    withEnv({ SCIM_ENV: undefined, OEM: undefined }, () => expect(selectEnvironmentName(environments)).toBe('qa-box-3'));
+    withEnv({ SCIM_ENV: undefined, OEM: 'true' }, () => expect(selectEnvironmentName(environments)).toBe('oem'));
+    withEnv({ SCIM_ENV: 'qa-box-3', OEM: 'true' }, () => expect(selectEnvironmentName(environments)).toBe('qa-box-3'));
+  });
+
+  test('Rejects unknown profiles by name', async () => {
+    const file = writeEnvironments({ default: 'qa-box-3', profiles: { 'qa-box-3': profile } });
+    withEnv({ SCIM_ENV: 'qa-box-4' }, () => {
+      expect(() => getEnvironmentProfile(file)).toThrow('Unknown SCIM_ENV "qa-box-4". Profiles: qa-box-3');
+    });
+  });
+
+  test('Reports every schema violation, including inline secrets', async () => {
+    const file = writeEnvironments({
+      default: 'missing',
+      profiles: {
+        broken: {
+          ...profile,
+          apiBaseUrl: 'qa-box-3.example.com',
+          endpointType: 'graphql',
+          database: { ...profile.database, password: 'hunter2' }
+        },
+        partial: { oem: 'yes' }
+      }
+    });
+
+    let message = '';
+    try {
+      loadEnvironments(file);
+    } catch (error: any) {
+      message = error.message;
+    }
+    expect(message).toContain('$.profiles.broken.apiBaseUrl: "qa-box-3.example.com" does not match');
+    expect(message).toContain('$.profiles.broken.endpointType: must be one of scim, apiserver');
+    expect(message).toContain('$.profiles.broken.database.password: secrets must not be stored inline');
+    expect(message).toContain('$.profiles.partial.apiBaseUrl: required');
+    expect(message).toContain('$.profiles.partial.oem: expected boolean, got string');
+  });
+
+  test('Checks OEM institutions and the default profile', async () => {
+    const file = writeEnvironments({
+      default: 'nowhere',
+      profiles: { oem: { ...profile, oem: true, institutionIds: ['101'], defaultInstitutionId: '102' } }
+    });
+    expect(() => loadEnvironments(file)).toThrow(/\$\.default: no profile named "nowhere"[\s\S]*defaultInstitutionId: must be one of institutionIds/);
+  });
+
+  test('Checks latency budget operations and values', async () => {
+    const file = writeEnvironments({
+      default: 'qa',
+      profiles: { qa: { ...profile, latencyBudgets: { '*': 2000, 'GET /Users': 0, 'list users': 3000 } } }
+    });
+    expect(() => loadEnvironments(file)).toThrow(
+      /latencyBudgets.GET \/Users: must be a positive number of ms[\s\S]*latencyBudgets: "list users" is not "\*" or "<METHOD> \/<path>"/
+    );
+  });
+
+  test('Exports a profile to the env vars ProjectConfig reads', async () => {
+    const file = writeEnvironments({ default: 'qa-box-3', profiles: { 'qa-box-3': profile } });
+    const keys = { SCIM_ENV: undefined, OEM: undefined, API_BASE_URL: undefined, OAUTH_BASE_URL: undefined, ENDPOINT_TYPE: undefined, API_ENDPOINT_TYPE: undefined };
+
+    withEnv(keys, () => {
+      applyEnvironmentProfile(getEnvironmentProfile(file), { urls: true });
+      expect(process.env.API_BASE_URL).toBe(profile.apiBaseUrl);
+      expect(process.env.OAUTH_BASE_URL).toBe(profile.oauthBaseUrl);
+      expect(process.env.ENDPOINT_TYPE).toBe('apiserver');
+      expect(process.env.OEM).toBe('false');
+      expect(process.env.SCIM_ENV).toBe('qa-box-3');
+    });
+
+    withEnv({ ...keys, API_BASE_URL: 'http://localhost:4010', ENDPOINT_TYPE: 'scim' }, () => {
+      applyEnvironmentProfile(getEnvironmentProfile(file), { urls: false });
+      expect(process.env.API_BASE_URL).toBe('http://localhost:4010');
+      expect(process.env.ENDPOINT_TYPE).toBe('scim');
+    });
+  });
+
+  test('Secrets are read from the named env var', async () => {
+    withEnv({ QA3_DB_PASSWORD: 'from-env' }, () => expect(resolveSecret('QA3_DB_PASSWORD', 'The password')).toBe('from-env'));
+    withEnv({ QA3_DB_PASSWORD: undefined }, () => {
+      expect(() => resolveSecret('QA3_DB_PASSWORD', 'The password')).toThrow('The password is read from QA3_DB_PASSWORD, which is not set');
+    });
+  });
+});
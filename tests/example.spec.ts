@@ -6,13 +6,17 @@
  * 
  * Framework Components:
  * - utils/api-config.ts: API configuration and authentication
+ * - utils/scim-client.ts: Typed SCIM client (URLs, headers, status checks)
  * - utils/db-config.ts: Database operations (optional)
+ * - utils/scim-fixtures.ts: test/expect with test data and per-test log attachments
  * - global-setup.ts: Global test setup
  * - playwright.config.ts: Playwright configuration
  */
 
-import { test, expect } from '@playwright/test';
-import { createApiTestContext, ApiTestContext, ApiEndpoints, ApiValidators, logApiRequest } from '../utils/api-config';
+import { test, expect } from '../utils/scim-fixtures';
+import { createApiTestContext, ApiTestContext, ScimSchemas } from '../utils/api-config';
+import { ScimClient } from '../utils/scim-client';
+import { log } from '../utils/logger';
 
 test.describe('SCIM API Example Tests', () => {
   let apiContext: ApiTestContext;
@@ -36,23 +40,16 @@ test.describe('SCIM API Example Tests', () => {
    * Shows basic GET request pattern
    */
   test('Example: Get Resource Types', async ({ request }) => {
-    const endpoint = ApiEndpoints.resourceTypes();
-    logApiRequest('GET', endpoint, 'Retrieve all available SCIM resource types');
+    const scim = new ScimClient(request, apiContext);
     
-    // Make the API request
-    const response = await request.get(`${apiContext.baseUrl}${endpoint}`, {
-      headers: apiContext.headers,
-      timeout: 30000
+    // Make the API request and validate the response status
+    const { body: responseBody } = await test.step('[OK] GET Resource Types', async () => {
+      return scim.getResourceTypes({
+        expectedStatus: 200,
+        description: 'Retrieve all available SCIM resource types'
+      });
     });
     
-    // Validate response status
-    await test.step(`[OK] GET ${endpoint}`, async () => {
-      ApiValidators.validateResponseStatus(response, 200);
-    });
-    
-    // Parse and validate JSON response
-    const responseBody = await ApiValidators.validateJsonResponse(response);
-    
     // SCIM-specific validations
     console.log('[CHECK] Validating SCIM Resource Types response...');
     expect(responseBody.schemas).toBeDefined();
@@ -74,24 +71,20 @@ test.describe('SCIM API Example Tests', () => {
    * Shows pagination handling
    */
   test('Example: Get All Users', async ({ request }) => {
-    const endpoint = ApiEndpoints.users();
-    logApiRequest('GET', endpoint, 'Retrieve all users in the system');
+    const scim = new ScimClient(request, apiContext);
     
-    const response = await request.get(`${apiContext.baseUrl}${endpoint}`, {
-      headers: apiContext.headers,
-      timeout: 30000
+    const { body: responseBody, durationMs } = await test.step('[OK] GET Users', async () => {
+      return scim.listUsers(undefined, {
+        expectedStatus: 200,
+        description: 'Retrieve all users in the system'
+      });
     });
-    
-    await test.step(`[OK] GET ${endpoint}`, async () => {
-      ApiValidators.validateResponseStatus(response, 200);
-    });
-    
-    const responseBody = await ApiValidators.validateJsonResponse(response);
+    log.info('Response time', { durationMs });
     
     // Validate SCIM list response structure
     console.log('[CHECK] Validating SCIM Users list response...');
     expect(responseBody.schemas).toBeDefined();
-    expect(responseBody.schemas).toContain('urn:ietf:params:scim:api:messages:2.0:ListResponse');
+    expect(responseBody.schemas).toContain(ScimSchemas.LIST_RESPONSE);
     console.log('[OK] SCIM ListResponse schema present');
     
     expect(responseBody.totalResults).toBeDefined();
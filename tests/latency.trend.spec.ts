@@ -0,0 +1,43 @@
+/**
+ * Latency Trend
+ *
+ * Runs after the API tests (project latency-trend): summarizes the run's request timings per
+ * operation, adds them to the latency history and fails when an operation's median grew past
+ * SCIM_LATENCY_REGRESSION_PCT over the rolling baseline. The trend table is attached to the report.
+ */
+
+import { test, expect } from '@playwright/test';
+import { isReplayMode } from '../utils/scim-cassette';
+import {
+  LATENCY_RUN_ENV,
+  LATENCY_SAMPLES_FILE_ENV,
+  latencyTrendHtml,
+  latencyTrends,
+  LatencyRun,
+  readLatencySamples,
+  saveLatencyRun,
+  summarizeLatency
+} from '../utils/scim-latency';
+import { snapshotVariant } from '../utils/scim-snapshot';
+
+test('Latency trend', async () => {
+  test.skip(isReplayMode(), 'Replayed responses have no real timings (SCIM_MODE=replay)');
+  const samples = readLatencySamples(process.env[LATENCY_SAMPLES_FILE_ENV]!);
+  test.skip(samples.length === 0, 'No requests were timed in this run');
+
+  const run: LatencyRun = {
+    startedAt: process.env[LATENCY_RUN_ENV]!,
+    variant: snapshotVariant(),
+    operations: summarizeLatency(samples)
+  };
+  const trends = latencyTrends(run, saveLatencyRun(run));
+
+  await test.info().attach('latency-trend.html', { body: latencyTrendHtml(run, trends), contentType: 'text/html' });
+  await test.info().attach('latency-trend.json', { body: JSON.stringify({ run, trends }, null, 2), contentType: 'application/json' });
+
+  const regressed = trends.filter(trend => trend.regressed);
+  for (const trend of regressed) {
+    test.info().annotations.push({ type: 'latency-regression', description: `${trend.operation}: median ${trend.median}ms vs. baseline ${trend.baseline}ms (+${trend.changePct}%)` });
+  }
+  expect(regressed.map(trend => trend.operation), 'operations whose median latency regressed').toEqual([]);
+});
@@ -0,0 +1,167 @@
+/**
+ * Local SCIM Server Tests
+ *
+ * Exercises the in-memory stand-in (local-server/) that Playwright starts as its webServer,
+ * so the suite has a known-good baseline to run against without the rdv-* hosts.
+ */
+
+import { test, expect } from '../utils/scim-fixtures';
+import { AddressInfo } from 'net';
+import {
+  createApiTestContext,
+  ApiTestContext,
+  ApiEndpoints,
+  ProjectConfig,
+  ScimSchemas
+} from '../utils/api-config';
+import { ScimClient } from '../utils/scim-client';
+import { ScimError } from '../utils/scim-types';
+import { createLocalServer } from '../local-server/scim-server';
+
+test.describe('Local SCIM Server', () => {
+  let apiContext: ApiTestContext;
+
+  test.beforeAll(async ({ request }) => {
+    apiContext = await createApiTestContext(request);
+  });
+
+  test('Serves healthcheck and diagnostics without authentication', async ({ request }) => {
+    const health = await request.get(`${apiContext.baseUrl}${ApiEndpoints.healthcheck()}`);
+    expect(health.status()).toBe(200);
+
+    const diagnostics = await request.get(`${apiContext.baseUrl}${ApiEndpoints.diagnostics()}`);
+    expect(diagnostics.status()).toBe(200);
+    expect((await diagnostics.json()).status).toBe('Healthy');
+  });
+
+  test('Serves discovery endpoints', async ({ request }) => {
+    const scim = new ScimClient(request, apiContext);
+
+    const { body: schemas } = await scim.getSchemas({ expectedStatus: 200 });
+    expect(schemas.Resources.map(schema => schema.id)).toEqual([ScimSchemas.USER, ScimSchemas.GROUP]);
+
+    const { body: resourceTypes } = await scim.getResourceTypes({ expectedStatus: 200 });
+    expect(resourceTypes.Resources.map(resourceType => resourceType.endpoint)).toEqual(['/Users', '/Groups']);
+
+    const { body: config } = await scim.getServiceProviderConfig({ expectedStatus: 200 });
+    expect(config.schemas).toContain(ScimSchemas.SERVICE_PROVIDER_CONFIG);
+    expect(config.patch.supported).toBe(true);
+  });
+
+  test('Serves both the SCIM and API Server base paths', async ({ request }) => {
+    for (const basePath of [ProjectConfig.api.endpoints.scim, ProjectConfig.api.endpoints.apiserver]) {
+      const response = await request.get(`${apiContext.baseUrl}${basePath}/Users/106`, { headers: apiContext.headers });
+      expect(response.status()).toBe(200);
+      expect(response.headers()['content-type']).toContain('application/scim+json');
+
+      const user = await response.json();
+      expect(user.userName).toBe('USER1');
+      expect(user.meta.location).toBe(`${apiContext.baseUrl}${basePath}/Users/106`);
+    }
+  });
+
+  test('Rejects SCIM requests without a bearer token', async ({ request }) => {
+    const response = await request.get(`${apiContext.baseUrl}${ApiEndpoints.users()}`);
+    expect(response.status()).toBe(401);
+    expect((await response.json()).schemas).toContain(ScimSchemas.ERROR);
+  });
+
+  test('Creates, reads, updates and deletes a user', async ({ request }) => {
+    const scim = new ScimClient(request, apiContext);
+    const userName = `localUser_${Date.now()}`;
+
+    const created = await scim.createUser({ userName, displayName: 'Local User', active: true }, { expectedStatus: 201 });
+    const id = created.body.id!;
+    expect(created.headers['location']).toBe(created.body.meta?.location);
+
+    const duplicate = await scim.createUser({ userName });
+    expect(duplicate.status).toBe(409);
+    expect(duplicate.body.scimType).toBe('uniqueness');
+
+    const patched = await scim.patchUser(id, [{ op: 'replace', path: 'displayName', value: 'Patched User' }], { expectedStatus: 200 });
+    expect(patched.body.displayName).toBe('Patched User');
+
+    const replaced = await scim.replaceUser(id, { userName, active: false }, { expectedStatus: 200 });
+    expect(replaced.body.active).toBe(false);
+    expect(replaced.body.displayName).toBeUndefined();
+
+    await scim.deleteUser(id, { expectedStatus: 204 });
+    const missing = await scim.getUser(id);
+    expect(missing.status).toBe(404);
+    expect(missing.body.status).toBe('404');
+  });
+
+  test('Filters users with GET ?filter= and POST .search', async ({ request }) => {
+    const scim = new ScimClient(request, apiContext);
+
+    const { body: filtered } = await scim.listUsers({ filter: 'userName eq "USER1"' }, { expectedStatus: 200 });
+    expect(filtered.totalResults).toBe(1);
+    expect(filtered.Resources[0].id).toBe('106');
+
+    const { body: searched } = await scim.searchUsers(
+      { filter: 'id eq "143" or id eq "2"', attributes: ['userName'] },
+      { expectedStatus: 200 }
+    );
+    expect(searched.Resources.map(user => user.id).sort()).toEqual(['143', '2']);
+    expect(searched.Resources[0].displayName).toBeUndefined();
+
+    const invalid = await scim.send<ScimError>('GET', ApiEndpoints.users(), { query: { filter: 'userName eq "USER1' } });
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.scimType).toBe('invalidFilter');
+  });
+
+  test('Pages through users with startIndex and count', async ({ request }) => {
+    const scim = new ScimClient(request, apiContext);
+
+    const { body } = await scim.listUsers({ startIndex: 1, count: 2 }, { expectedStatus: 200 });
+    expect(body.Resources).toHaveLength(2);
+    expect(body.itemsPerPage).toBe(2);
+    expect(body.startIndex).toBe(1);
+    expect(body.totalResults).toBeGreaterThanOrEqual(4);
+  });
+
+  test('Manages group membership', async ({ request }) => {
+    const scim = new ScimClient(request, apiContext);
+
+    const created = await scim.createGroup(
+      { displayName: `LOCALGROUP_${Date.now()}`, members: [{ value: '106' }, { value: '143' }] },
+      { expectedStatus: 201 }
+    );
+    const id = created.body.id!;
+    expect(created.body.members?.map(member => member.value)).toEqual(['106', '143']);
+
+    const { body: user } = await scim.getUser('106', { expectedStatus: 200 });
+    expect(user.groups?.map(group => group.value)).toContain(id);
+
+    const patched = await scim.patchGroup(id, [{ op: 'remove', path: 'members[value eq "143"]' }], { expectedStatus: 200 });
+    expect(patched.body.members?.map(member => member.value)).toEqual(['106']);
+
+    const { body: withoutMembers } = await scim.listGroups({ excludedAttributes: ['members'] }, { expectedStatus: 200 });
+    expect(withoutMembers.Resources.every(group => group.members === undefined)).toBe(true);
+
+    await scim.deleteGroup(id, { expectedStatus: 204 });
+  });
+
+  test('Applies institutionid filters in OEM mode', async ({ playwright }) => {
+    const server = createLocalServer({ port: 0, oem: true, defaultInstitutionId: '102' });
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    const baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+    const request = await playwright.request.newContext();
+
+    try {
+      const scim = new ScimClient(request, { ...apiContext, baseUrl });
+
+      const { body: allInstitutions } = await scim.listUsers({ filter: 'userName eq "USERX"' }, { expectedStatus: 200 });
+      expect(allInstitutions.totalResults).toBe(2);
+
+      const { body: oneInstitution } = await scim.searchUsers(
+        { filter: 'userName eq "USERX" and institutionid eq "102"' },
+        { expectedStatus: 200 }
+      );
+      expect(oneInstitution.Resources.map(user => user.id)).toEqual(['164']);
+    } finally {
+      await request.dispose();
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * In-Memory Test Database Tests
+ *
+ * Checks that local-server/memory-database.ts keeps hsi.* rows written through by the local
+ * store, separate from its resources, and that direct inserts and deletes are seen by the store
+ * (and so by the API)
+ */
+
+import { test, expect } from '@playwright/test';
+import { InMemoryDatabase } from '../local-server/memory-database';
+import { ScimSchemas } from '../utils/api-config';
+import { InMemoryScimStore } from '../local-server/scim-store';
+import { verifyParity } from '../utils/scim-db-parity';
+
+test.describe('In-Memory Test Database', () => {
+  test('Reads seeded users and groups as hsi.* rows', async () => {
+    const database = new InMemoryDatabase();
+
+    expect(await database.getUserById(106)).toMatchObject({
+      usernum: 106,
+      username: 'USER1',
+      realname: 'User One',
+      emailaddress: 'user1@example.com',
+      disablelogin: false
+    });
+    expect(await database.getUserByName('USER2')).toMatchObject({ usernum: 143 });
+    expect(await database.getGroupByName('TESTGROUP')).toEqual({ usergroupnum: 3, usergroupname: 'TESTGROUP' });
+    expect(await database.getGroupMembers(3)).toEqual([106, 143]);
+    expect(await database.isUserGroupMember(143, 3)).toBe(true);
+    expect(await database.isUserGroupMember(2, 3)).toBe(false);
+  });
+
+  test('Looks up names case-insensitively, like SQL Server', async () => {
+    const database = new InMemoryDatabase();
+    expect(await database.getUserByName('user2')).toMatchObject({ usernum: 143, username: 'USER2' });
+    expect(await database.getGroupByName('TestGroup')).toMatchObject({ usergroupnum: 3 });
+  });
+
+  test('Rows follow store writes and are not the served resources', async () => {
+    const store = new InMemoryScimStore({ oem: false, defaultInstitutionId: '102' });
+    const database = new InMemoryDatabase(store);
+
+    const { resource: user } = store.createUser({ schemas: [ScimSchemas.USER], userName: 'WRITTEN', displayName: 'Before', active: true });
+    store.replaceUser(user.id!, { ...user, displayName: 'After', active: false });
+    expect(await database.getUserByName('WRITTEN')).toMatchObject({ realname: 'After', disablelogin: true });
+
+    const { resource: group } = store.createGroup({ schemas: [ScimSchemas.GROUP], displayName: 'WRITTEN_GROUP', members: [{ value: user.id! }] });
+    expect(await database.getGroupMembers(Number(group.id))).toEqual([Number(user.id)]);
+    store.deleteGroup(group.id!);
+    expect(await database.getGroupById(Number(group.id))).toBeNull();
+    expect(await database.getGroupMembers(Number(group.id))).toEqual([]);
+
+    // A change that never reaches the store's write path is a persistence bug parity must catch
+    const served = store.getUser(user.id!).resource;
+    served.displayName = 'Never persisted';
+    expect((await verifyParity(served, database)).mismatches).toEqual([
+      expect.objectContaining({ attribute: 'displayName', column: 'realname' })
+    ]);
+  });
+
+  test('Returns null for missing rows', async () => {
+    const database = new InMemoryDatabase();
+    expect(await database.getUserById(999999)).toBeNull();
+    expect(await database.getUserByName('NOBODY')).toBeNull();
+    expect(await database.getGroupById(999999)).toBeNull();
+    expect(await database.getGroupMembers(999999)).toEqual([]);
+  });
+
+  test('Direct inserts and deletes go through the shared store', async () => {
+    const store = new InMemoryScimStore({ oem: true, defaultInstitutionId: '102' });
+    const database = new InMemoryDatabase(store);
+
+    const userNum = await database.createTestUser('DIRECT_INSERT', '101');
+    expect(store.getUser(String(userNum))).toMatchObject({ resource: { userName: 'DIRECT_INSERT' }, institutionId: '101' });
+    expect(await database.getUserById(userNum)).toMatchObject({ realname: 'Test User DIRECT_INSERT', emailaddress: 'DIRECT_INSERT@test.com', institution: 101 });
+
+    store.replaceGroup('3', { ...store.getGroup('3').resource, members: [{ value: String(userNum) }] });
+    await database.deleteTestUser(userNum);
+    expect(await database.getUserById(userNum)).toBeNull();
+    expect(await database.getGroupMembers(3)).toEqual([]);
+    await expect(database.deleteTestUser(userNum)).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Local OAuth2 Token Server Tests
+ *
+ * Runs the OAuth TestScenarios against the local /connect/token stand-in, where the
+ * outcome of each scenario is known, and checks the SCIM endpoints verify the tokens.
+ */
+
+import { test, expect } from '../utils/scim-fixtures';
+import {
+  ApiEndpoints,
+  ProjectConfig,
+  ResponseValidators,
+  TestScenarios,
+  createOAuth2Payload,
+  getTokenUrl,
+  logTestParams
+} from '../utils/api-config';
+import { decodeJwt, signJwt } from '../utils/jwt';
+import { DEFAULT_AUDIENCE, DEFAULT_SIGNING_KEY } from '../local-server/token-server';
+
+const expectedErrors: Partial<Record<keyof typeof TestScenarios, string>> = {
+  invalidSecret: 'invalid_client',
+  missingSecret: 'invalid_client',
+  invalidGrantType: 'unsupported_grant_type',
+  emptyScope: 'invalid_scope'
+};
+
+test.describe('Local OAuth2 Token Server', () => {
+  for (const [name, params] of Object.entries(TestScenarios)) {
+    test(`Token scenario: ${params.test_description}`, async ({ request }) => {
+      logTestParams(params);
+
+      const response = await request.post(getTokenUrl(), {
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded', 'Accept': 'application/json' },
+        data: createOAuth2Payload(params).toString()
+      });
+      expect(response.status()).toBe(params.expected_status);
+
+      const body = await response.json();
+      if (response.status() === 200) {
+        ResponseValidators.validateSuccessResponse(body);
+        const { claims } = decodeJwt(body.access_token);
+        expect(claims.client_id).toBe(params.client_id);
+        expect(claims.scope).toBe(params.scope);
+        expect(claims.exp! - claims.iat!).toBe(body.expires_in);
+      } else {
+        ResponseValidators.validateErrorResponse(body);
+        expect(body.error).toBe(expectedErrors[name as keyof typeof TestScenarios]);
+      }
+    });
+  }
+
+  test('Rejects scopes the client is not allowed', async ({ request }) => {
+    const response = await request.post(getTokenUrl(), {
+      form: {
+        grant_type: 'client_credentials',
+        scope: 'iam.user-catalog.write',
+        client_id: 'scim-readonly-client',
+        client_secret: 'readonly-secret'
+      }
+    });
+    expect(response.status()).toBe(400);
+    expect((await response.json()).error).toBe('invalid_scope');
+  });
+
+  test('Rejects other RFC 6749 grants with invalid_grant', async ({ request }) => {
+    const response = await request.post(getTokenUrl(), {
+      form: {
+        grant_type: 'password',
+        client_id: ProjectConfig.oauth.clientId,
+        client_secret: ProjectConfig.oauth.clientSecret
+      }
+    });
+    expect(response.status()).toBe(400);
+    expect((await response.json()).error).toBe('invalid_grant');
+  });
+
+  test('Returns 401 invalid_client for bad HTTP Basic credentials', async ({ request }) => {
+    const response = await request.post(getTokenUrl(), {
+      headers: { Authorization: `Basic ${Buffer.from('unknown-client:nope').toString('base64')}` },
+      form: { grant_type: 'client_credentials', scope: ProjectConfig.oauth.defaultScope }
+    });
+    expect(response.status()).toBe(401);
+    expect(response.headers()['www-authenticate']).toContain('Basic');
+    expect((await response.json()).error).toBe('invalid_client');
+  });
+
+  test('SCIM endpoints reject expired and tampered tokens', async ({ request }) => {
+    const now = Math.floor(Date.now() / 1000);
+    const usersUrl = `${ProjectConfig.api.baseUrl}${ApiEndpoints.users()}`;
+    const claims = { client_id: ProjectConfig.oauth.clientId, scope: ProjectConfig.oauth.defaultScope, aud: DEFAULT_AUDIENCE };
+
+    const valid = signJwt({ ...claims, exp: now + 60 }, DEFAULT_SIGNING_KEY);
+    const expired = signJwt({ ...claims, exp: now - 60 }, DEFAULT_SIGNING_KEY);
+    const resigned = signJwt({ ...claims, exp: now + 60 }, 'some-other-key');
+
+    const ok = await request.get(usersUrl, { headers: { Authorization: `Bearer ${valid}` } });
+    expect(ok.status()).toBe(200);
+
+    for (const token of [expired, resigned]) {
+      const response = await request.get(usersUrl, { headers: { Authorization: `Bearer ${token}` } });
+      expect(response.status()).toBe(401);
+      expect(response.headers()['www-authenticate']).toContain('invalid_token');
+    }
+  });
+});
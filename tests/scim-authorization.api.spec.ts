@@ -0,0 +1,104 @@
+/**
+ * SCIM Authorization Tests
+ *
+ * Requests a token with each scope set of authorization-matrix.json and checks which Users/Groups
+ * operations it may perform (denied ones answer 403), then sends expired, unsigned (alg none),
+ * re-signed, wrong-audience and missing-Bearer tokens to every ApiEndpoints route (401)
+ */
+
+import { expect } from '@playwright/test';
+import { ScimDataFactory, test } from '../utils/scim-fixtures';
+import { DEFAULT_SIGNING_KEY } from '../local-server/token-server';
+import { createApiTestContext, getDefaultTokenRequest, ProjectConfig } from '../utils/api-config';
+import { ScimClient } from '../utils/scim-client';
+import { isReplayMode } from '../utils/scim-cassette';
+import {
+  AUTHORIZATION_OPERATIONS,
+  AuthorizationTargets,
+  authorizationRoutes,
+  checkAuthorization,
+  checkTamperedResponse,
+  isScopeRefused,
+  loadAuthorizationMatrix,
+  TAMPERED_TOKENS,
+  tamperedAuthorization
+} from '../utils/scim-authorization';
+
+const matrix = loadAuthorizationMatrix();
+
+// Known only for the local stand-in; real servers' keys are not, so expired and wrong-audience
+// tokens there also carry a signature that no longer matches
+const signingKey = ProjectConfig.localServer.enabled
+  ? process.env.LOCAL_OAUTH_SIGNING_KEY || DEFAULT_SIGNING_KEY
+  : undefined;
+
+async function createTargets(data: ScimDataFactory): Promise<AuthorizationTargets> {
+  const user = await data.createUser();
+  return {
+    user,
+    group: await data.createGroup({}, [user]),
+    disposableUser: await data.createUser(),
+    disposableGroup: await data.createGroup()
+  };
+}
+
+test.describe('SCIM Authorization', () => {
+  test.beforeEach(() => {
+    test.skip(isReplayMode(), 'Tokens are not exercised against recorded responses (SCIM_MODE=replay)');
+  });
+
+  test.describe('Scope matrix', () => {
+    for (const [scope, { allowed }] of Object.entries(matrix.scopes)) {
+      test(`scope "${scope}" allows ${allowed.length} of ${Object.keys(AUTHORIZATION_OPERATIONS).length} operations`, async ({ request, scimData }) => {
+        let scim: ScimClient;
+        try {
+          scim = new ScimClient(request, await createApiTestContext(request, { ...getDefaultTokenRequest(), scope }));
+        } catch (error: any) {
+          // Only a refused scope set is skipped; a broken token endpoint fails the test
+          if (!isScopeRefused(error)) throw error;
+          test.skip(true, `No token for scope "${scope}": ${error.message}`);
+          return;
+        }
+        const targets = await createTargets(scimData);
+
+        const observed: Record<string, number> = {};
+        const mismatches: string[] = [];
+        for (const [operation, send] of Object.entries(AUTHORIZATION_OPERATIONS)) {
+          const { status } = await send(scim, targets, scimData);
+          observed[operation] = status;
+          const mismatch = checkAuthorization(matrix, scope, operation, status);
+          if (mismatch) mismatches.push(mismatch);
+        }
+
+        await test.info().attach(`authorization-${scope.replace(/\W+/g, '_')}.json`, {
+          body: JSON.stringify({ scope, observed }, null, 2),
+          contentType: 'application/json'
+        });
+        expect(mismatches, `Operations that do not match authorization-matrix.json for "${scope}"`).toEqual([]);
+      });
+    }
+  });
+
+  test.describe('Invalid tokens', () => {
+    for (const kind of TAMPERED_TOKENS) {
+      test(`${kind} token is rejected by every route`, async ({ request }) => {
+        const context = await createApiTestContext(request);
+        const authorization = tamperedAuthorization(kind, context.accessToken, { signingKey });
+        const { Authorization: _, ...headers } = context.headers;
+        // No tokenRequest: the client sends the tampered header as is, without refreshing on 401
+        const scim = new ScimClient(request, { accessToken: '', baseUrl: context.baseUrl, headers });
+
+        const mismatches: string[] = [];
+        for (const route of authorizationRoutes()) {
+          const response = await scim.send(route.method, route.endpoint, {
+            data: route.data,
+            headers: authorization ? { Authorization: authorization } : {}
+          });
+          const mismatch = checkTamperedResponse(matrix, route, response);
+          if (mismatch) mismatches.push(mismatch);
+        }
+        expect(mismatches, `Routes that do not reject a ${kind} token`).toEqual([]);
+      });
+    }
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * SCIM Authorization Tests (unit)
+ *
+ * Checks matrix loading and matching, the tampered tokens and the route list in
+ * utils/scim-authorization.ts, and the local server's scope rules
+ */
+
+import { test, expect } from '@playwright/test';
+import { acceptedScopes, DEFAULT_AUDIENCE, DEFAULT_SIGNING_KEY } from '../local-server/token-server';
+import { decodeJwt, signJwt, verifyJwt } from '../utils/jwt';
+import { ScimResponse } from '../utils/scim-client';
+import {
+  AUTHORIZATION_OPERATIONS,
+  AuthorizationMatrix,
+  authorizationRoutes,
+  checkAuthorization,
+  checkTamperedResponse,
+  isScopeRefused,
+  loadAuthorizationMatrix,
+  tamperedAuthorization
+} from '../utils/scim-authorization';
+import { TokenRequestError } from '../utils/token-manager';
+import { removeTempFiles, tempFile } from './unit-helpers';
+
+const matrix: AuthorizationMatrix = {
+  deniedStatus: 403,
+  scopes: { 'iam.user-catalog.read': { allowed: ['GET /Users', 'GET /Users/{id}'] } },
+  invalidTokens: { status: 401, publicRoutes: ['healthcheck'] }
+};
+
+function response(status: number, headers: Record<string, string> = {}): ScimResponse {
+  return { status, body: {}, headers, durationMs: 1, response: undefined as any };
+}
+
+const now = Math.floor(Date.now() / 1000);
+const validToken = signJwt(
+  { iss: 'local', sub: 'local-client', aud: DEFAULT_AUDIENCE, scope: 'idpadmin', iat: now, exp: now + 3600 },
+  DEFAULT_SIGNING_KEY,
+  { typ: 'JWT' }
+);
+
+function tampered(kind: Parameters<typeof tamperedAuthorization>[0], signingKey?: string): string {
+  return tamperedAuthorization(kind, validToken, { signingKey })!.replace(/^Bearer /, '');
+}
+
+test.describe('SCIM Authorization Matrix', () => {
+  test.afterEach(removeTempFiles);
+
+  test('Loads the repository matrix with every operation for full access', async () => {
+    const repository = loadAuthorizationMatrix();
+    expect(repository.scopes['iam.user-catalog'].allowed.sort()).toEqual(Object.keys(AUTHORIZATION_OPERATIONS).sort());
+    expect(repository.invalidTokens.publicRoutes).toEqual(['healthcheck', 'diagnostics']);
+  });
+
+  test('Rejects malformed matrices, unknown operations and unknown routes', async () => {
+    expect(() => loadAuthorizationMatrix(tempFile('matrix.json', { scopes: {} }))).toThrow(/expected \{ "deniedStatus": 403/);
+    expect(() => loadAuthorizationMatrix(tempFile('matrix.json', { ...matrix, scopes: { read: { allowed: ['GET /Widgets'] } } })))
+      .toThrow(/scopes\["read"\]\.allowed must list operations of .* \(unknown: GET \/Widgets\)/);
+    expect(() => loadAuthorizationMatrix(tempFile('matrix.json', { ...matrix, invalidTokens: { status: 401, publicRoutes: ['status'] } })))
+      .toThrow('invalidTokens.publicRoutes are not ApiEndpoints routes: status');
+  });
+
+  test('Matches allowed and denied operations', async () => {
+    expect(checkAuthorization(matrix, 'iam.user-catalog.read', 'GET /Users', 200)).toBeUndefined();
+    // Allowed operations may still fail for other reasons
+    expect(checkAuthorization(matrix, 'iam.user-catalog.read', 'GET /Users/{id}', 404)).toBeUndefined();
+    expect(checkAuthorization(matrix, 'iam.user-catalog.read', 'POST /Users', 403)).toBeUndefined();
+
+    expect(checkAuthorization(matrix, 'iam.user-catalog.read', 'GET /Users', 403))
+      .toBe('GET /Users: 403, expected it to be allowed for "iam.user-catalog.read"');
+    expect(checkAuthorization(matrix, 'iam.user-catalog.read', 'POST /Users', 201))
+      .toBe('POST /Users: 201, expected 403 for "iam.user-catalog.read"');
+    expect(checkAuthorization(matrix, 'unlisted', 'GET /Users', 401)).toBe('GET /Users: 401, expected 403 for "unlisted"');
+  });
+
+  test('Recognizes only invalid_scope token errors as refused scopes', async () => {
+    const failed = (status: number, body: any) => new TokenRequestError(status, body, typeof body === 'string' ? body : JSON.stringify(body));
+    expect(isScopeRefused(failed(400, { error: 'invalid_scope', error_description: 'Scope not allowed for this client: write' }))).toBe(true);
+
+    expect(isScopeRefused(failed(400, { error: 'invalid_client' }))).toBe(false);
+    expect(isScopeRefused(failed(500, { error: 'invalid_scope' }))).toBe(false);
+    expect(isScopeRefused(failed(404, '<html>Not Found</html>'))).toBe(false);
+    expect(isScopeRefused(new Error('connect ECONNREFUSED 127.0.0.1:3000'))).toBe(false);
+    // Only the typed error counts, not a message that happens to look like one
+    expect(isScopeRefused(new Error('Authentication failed: 400 - {"error":"invalid_scope"}'))).toBe(false);
+  });
+
+  test('Local server accepts full access or the read/write scope by method', async () => {
+    expect(acceptedScopes('GET', '/Users/1')).toEqual(['iam.user-catalog', 'idpadmin', 'iam.user-catalog.read']);
+    expect(acceptedScopes('POST', '/Groups/.search')).toContain('iam.user-catalog.read');
+    expect(acceptedScopes('POST', '/Users')).toContain('iam.user-catalog.write');
+    expect(acceptedScopes('POST', '/Bulk')).toContain('iam.user-catalog.write');
+    expect(acceptedScopes('GET', '/Schemas')).toBeUndefined();
+  });
+});
+
+test.describe('SCIM Tampered Tokens', () => {
+  test('Expired and wrong-audience tokens are re-signed with a known key', async () => {
+    expect(() => verifyJwt(tampered('expired', DEFAULT_SIGNING_KEY), DEFAULT_SIGNING_KEY)).toThrow('Token has expired');
+    expect(() => verifyJwt(tampered('wrong-audience', DEFAULT_SIGNING_KEY), DEFAULT_SIGNING_KEY, { audience: DEFAULT_AUDIENCE }))
+      .toThrow(`Token audience does not include ${DEFAULT_AUDIENCE}`);
+
+    // Without the key they keep the original signature, which no longer matches
+    expect(decodeJwt(tampered('expired')).claims.exp).toBeLessThan(now);
+    expect(() => verifyJwt(tampered('expired'), DEFAULT_SIGNING_KEY)).toThrow('Token signature is invalid');
+  });
+
+  test('Unsigned and re-signed tokens keep the claims', async () => {
+    const unsigned = decodeJwt(tampered('alg-none'));
+    expect(unsigned.header.alg).toBe('none');
+    expect(unsigned.signature).toBe('');
+    expect(unsigned.claims).toEqual(decodeJwt(validToken).claims);
+    expect(() => verifyJwt(tampered('alg-none'), DEFAULT_SIGNING_KEY)).toThrow('Unsupported token algorithm: none');
+
+    expect(decodeJwt(tampered('re-signed')).claims).toEqual(decodeJwt(validToken).claims);
+    expect(() => verifyJwt(tampered('re-signed'), DEFAULT_SIGNING_KEY)).toThrow('Token signature is invalid');
+  });
+
+  test('Missing Bearer sends the bare token, no-authorization no header', async () => {
+    expect(tamperedAuthorization('missing-bearer', validToken)).toBe(validToken);
+    expect(tamperedAuthorization('no-authorization', validToken)).toBeUndefined();
+  });
+
+  test('Covers every ApiEndpoints route and checks the Bearer challenge', async () => {
+    const routes = authorizationRoutes();
+    expect(routes.map(route => route.name)).not.toContain('custom');
+    expect(routes.find(route => route.name === 'bulk')).toMatchObject({ method: 'POST', data: { Operations: [] } });
+    expect(routes.find(route => route.name === 'users')?.method).toBe('GET');
+
+    const users = routes.find(route => route.name === 'users')!;
+    const healthcheck = routes.find(route => route.name === 'healthcheck')!;
+    expect(checkTamperedResponse(matrix, users, response(401, { 'www-authenticate': 'Bearer realm="scim", error="invalid_token"' }))).toBeUndefined();
+    expect(checkTamperedResponse(matrix, users, response(401))).toMatch(/401 without a WWW-Authenticate: Bearer challenge$/);
+    expect(checkTamperedResponse(matrix, users, response(200))).toMatch(/: 200, expected 401$/);
+    expect(checkTamperedResponse(matrix, healthcheck, response(200))).toBeUndefined();
+    expect(checkTamperedResponse(matrix, healthcheck, response(401))).toMatch(/\(public\): 401$/);
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * SCIM Bulk Tests
+ *
+ * Sends BulkRequests built with utils/scim-bulk.ts and checks per-operation results,
+ * bulkId resolution, failOnErrors and the ServiceProviderConfig bulk limits.
+ * Tests skip when /ServiceProviderConfig does not advertise bulk.
+ */
+
+import { test, expect } from '../utils/scim-fixtures';
+import { createApiTestContext, ApiTestContext, ScimSchemas } from '../utils/api-config';
+import { assertBulkResponse, BulkCheckResult, ScimBulk } from '../utils/scim-bulk';
+import { loadCapabilities, requireCapabilities } from '../utils/scim-capabilities';
+import { ScimClient } from '../utils/scim-client';
+import { ScimPatch } from '../utils/scim-patch';
+import { log } from '../utils/logger';
+
+/**
+ * Delete whatever a bulk request created (groups first, so members are still valid)
+ */
+async function cleanupCreated(scim: ScimClient, checked?: BulkCheckResult): Promise<void> {
+  const created = (checked?.results ?? []).filter(result => result.request.method.toUpperCase() === 'POST' && result.id);
+  for (const result of created.filter(result => result.request.path === '/Groups')) {
+    await scim.deleteGroup(result.id!);
+  }
+  for (const result of created.filter(result => result.request.path === '/Users')) {
+    await scim.deleteUser(result.id!);
+  }
+}
+
+test.describe('SCIM Bulk', () => {
+  let apiContext: ApiTestContext;
+
+  test.beforeAll(async ({ request }) => {
+    apiContext = await createApiTestContext(request);
+  });
+
+  function uniqueName(label: string): string {
+    return `BULK_${label}_${Date.now()}_${test.info().workerIndex}`;
+  }
+
+  test('Creates users and a group whose members reference them by bulkId', async ({ request }) => {
+    const scim = new ScimClient(request, apiContext);
+    await requireCapabilities(scim, ['bulk']);
+
+    const builder = ScimBulk.request()
+      .createUser('user1', { userName: uniqueName('A'), displayName: 'Bulk User A' })
+      .createUser('user2', { userName: uniqueName('B'), displayName: 'Bulk User B' })
+      .createGroup('group1', {
+        displayName: uniqueName('GROUP'),
+        members: [{ value: ScimBulk.ref('user1') }, { value: ScimBulk.ref('user2') }]
+      });
+    builder.assertWithinLimits(await loadCapabilities(scim));
+    const bulkRequest = builder.build();
+
+    let checked: BulkCheckResult | undefined;
+    try {
+      const { body } = await scim.bulk(bulkRequest, { expectedStatus: 200 });
+      checked = assertBulkResponse(bulkRequest, body);
+      expect(checked.errorCount).toBe(0);
+      expect(Object.keys(checked.ids).sort()).toEqual(['group1', 'user1', 'user2']);
+
+      const { body: group } = await scim.getGroup(checked.ids.group1, { expectedStatus: 200 });
+      expect(group.members!.map(member => member.value).sort()).toEqual([checked.ids.user1, checked.ids.user2].sort());
+      log.info(`Group ${group.displayName} has both users created in the same request`);
+    } finally {
+      await cleanupCreated(scim, checked);
+    }
+  });
+
+  test('Resolves bulkId references in PATCH and DELETE paths', async ({ request }) => {
+    const scim = new ScimClient(request, apiContext);
+    await requireCapabilities(scim, ['bulk', 'patch']);
+
+    const bulkRequest = ScimBulk.request()
+      .createUser('user1', { userName: uniqueName('PATCHED'), displayName: 'Before' })
+      .patch(`/Users/${ScimBulk.ref('user1')}`, ScimPatch.replace('displayName', 'After'))
+      .createUser('user2', { userName: uniqueName('DELETED') })
+      .delete(`/Users/${ScimBulk.ref('user2')}`)
+      .build();
+
+    let checked: BulkCheckResult | undefined;
+    try {
+      const { body } = await scim.bulk(bulkRequest, { expectedStatus: 200 });
+      checked = assertBulkResponse(bulkRequest, body);
+
+      const { body: patched } = await scim.getUser(checked.ids.user1, { expectedStatus: 200 });
+      expect(patched.displayName).toBe('After');
+      await scim.getUser(checked.ids.user2, { expectedStatus: 404 });
+    } finally {
+      await cleanupCreated(scim, checked);
+    }
+  });
+
+  test('Resolves bulkIds of operations sent with lower-case methods', async ({ request }) => {
+    const scim = new ScimClient(request, apiContext);
+    await requireCapabilities(scim, ['bulk']);
+
+    const bulkRequest = ScimBulk.request()
+      .createUser('user1', { userName: uniqueName('LOWER') })
+      .createGroup('group1', { displayName: uniqueName('LOWERGROUP'), members: [{ value: ScimBulk.ref('user1') }] })
+      .build();
+    bulkRequest.Operations = bulkRequest.Operations.map(operation => ({ ...operation, method: operation.method.toLowerCase() as any }));
+
+    let checked: BulkCheckResult | undefined;
+    try {
+      const { body } = await scim.bulk(bulkRequest, { expectedStatus: 200 });
+      checked = assertBulkResponse(bulkRequest, body);
+      expect(checked.errorCount).toBe(0);
+
+      const { body: group } = await scim.getGroup(checked.ids.group1, { expectedStatus: 200 });
+      expect(group.members!.map(member => member.value)).toEqual([checked.ids.user1]);
+    } finally {
+      await cleanupCreated(scim, checked);
+    }
+  });
+
+  test('Stops processing once failOnErrors is reached', async ({ request }) => {
+    const scim = new ScimClient(request, apiContext);
+    await requireCapabilities(scim, ['bulk']);
+
+    const userName = uniqueName('DUPLICATE');
+    const skippedUserName = uniqueName('SKIPPED');
+    const bulkRequest = ScimBulk.request()
+      .createUser('first', { userName })
+      .createUser('duplicate', { userName })
+      .createUser('skipped', { userName: skippedUserName })
+      .failOnErrors(1)
+      .build();
+
+    let checked: BulkCheckResult | undefined;
+    try {
+      const { body } = await scim.bulk(bulkRequest, { expectedStatus: 200 });
+      checked = assertBulkResponse(bulkRequest, body);
+
+      const failed = checked.results.find(result => result.request.bulkId === 'duplicate');
+      expect(failed?.status).toBe(409);
+      expect(failed?.response.response.schemas).toContain(ScimSchemas.ERROR);
+      expect(checked.results.map(result => result.request.bulkId)).not.toContain('skipped');
+
+      const { body: search } = await scim.listUsers({ filter: `userName eq "${skippedUserName}"` }, { expectedStatus: 200 });
+      expect(search.totalResults).toBe(0);
+    } finally {
+      await cleanupCreated(scim, checked);
+    }
+  });
+
+  test('Rejects requests over maxOperations with 413', async ({ request }) => {
+    const scim = new ScimClient(request, apiContext);
+    await requireCapabilities(scim, ['bulk']);
+    const capabilities = await loadCapabilities(scim);
+
+    const builder = ScimBulk.request();
+    for (let index = 0; index <= capabilities.bulk.maxOperations; index++) {
+      builder.delete(`/Users/BULK_MISSING_${index}`);
+    }
+    expect(() => builder.assertWithinLimits(capabilities)).toThrow('over maxOperations');
+
+    const { body } = await scim.bulk(builder.build(), { expectedStatus: 413 });
+    expect(body.schemas).toContain(ScimSchemas.ERROR);
+  });
+
+  test('Rejects requests over maxPayloadSize with 413', async ({ request }) => {
+    const scim = new ScimClient(request, apiContext);
+    await requireCapabilities(scim, ['bulk']);
+    const { bulk } = await loadCapabilities(scim);
+
+    const builder = ScimBulk.request().createUser('large', { userName: uniqueName('LARGE'), title: 'x'.repeat(bulk.maxPayloadSize) });
+    expect(builder.payloadSize).toBeGreaterThan(bulk.maxPayloadSize);
+
+    const { body } = await scim.bulk(builder.build(), { expectedStatus: 413 });
+    expect(body.schemas).toContain(ScimSchemas.ERROR);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * SCIM Bulk Builder Tests
+ *
+ * Checks BulkRequest building, bulkId reference validation, ServiceProviderConfig limits
+ * and the BulkResponse checker in utils/scim-bulk.ts against crafted responses
+ */
+
+import { test, expect } from '@playwright/test';
+import { ScimSchemas } from '../utils/api-config';
+import { checkBulkResponse, referencedBulkIds, ScimBulk } from '../utils/scim-bulk';
+import { parseCapabilities } from '../utils/scim-capabilities';
+import { ScimPatch } from '../utils/scim-patch';
+import { ScimBulkOperationResponse, ScimBulkResponse } from '../utils/scim-types';
+
+const LOCATION = 'https://example.com/obscim/v2';
+
+function bulkResponse(...operations: ScimBulkOperationResponse[]): ScimBulkResponse {
+  return { schemas: [ScimSchemas.BULK_RESPONSE], Operations: operations };
+}
+
+function errorResult(method: string, status: number, bulkId?: string): ScimBulkOperationResponse {
+  return {
+    method,
+    ...(bulkId ? { bulkId } : {}),
+    status: String(status),
+    response: { schemas: [ScimSchemas.ERROR], status: String(status), detail: 'failed' }
+  };
+}
+
+function capabilities(maxOperations: number, maxPayloadSize: number, supported: boolean = true) {
+  return parseCapabilities({ schemas: [ScimSchemas.SERVICE_PROVIDER_CONFIG], bulk: { supported, maxOperations, maxPayloadSize } } as any);
+}
+
+test.describe('SCIM Bulk Builder', () => {
+  test('Builds a BulkRequest with a group referencing users by bulkId', () => {
+    const request = ScimBulk.request()
+      .createUser('user1', { userName: 'BULK_A' })
+      .createUser('user2', { userName: 'BULK_B' })
+      .createGroup('group1', { displayName: 'BULK_GROUP', members: [{ value: ScimBulk.ref('user1') }, { value: ScimBulk.ref('user2') }] })
+      .patch('/Users/106', ScimPatch.replace('title', 'Tester'))
+      .delete('/Users/107')
+      .failOnErrors(2)
+      .build();
+
+    expect(request.schemas).toEqual([ScimSchemas.BULK_REQUEST]);
+    expect(request.failOnErrors).toBe(2);
+    expect(request.Operations.map(operation => operation.method)).toEqual(['POST', 'POST', 'POST', 'PATCH', 'DELETE']);
+    expect(request.Operations[0]).toEqual({ method: 'POST', path: '/Users', bulkId: 'user1', data: { schemas: [ScimSchemas.USER], userName: 'BULK_A' } });
+    expect(request.Operations[3].data.schemas).toEqual([ScimSchemas.PATCH_OP]);
+    expect(referencedBulkIds(request.Operations[2])).toEqual(['user1', 'user2']);
+  });
+
+  test('Finds bulkId references in paths as well as data', () => {
+    expect(referencedBulkIds({ method: 'PATCH', path: '/Groups/bulkId:group1', data: { value: 'bulkId:user1' } })).toEqual(['group1', 'user1']);
+    expect(referencedBulkIds({ method: 'DELETE', path: '/Users/106' })).toEqual([]);
+  });
+
+  test('Rejects duplicate bulkIds and references to unknown bulkIds', () => {
+    expect(() => ScimBulk.request().createUser('user1', { userName: 'A' }).createUser('user1', { userName: 'B' })).toThrow('Duplicate bulkId: user1');
+    expect(() => ScimBulk.request().createGroup('group1', { displayName: 'G', members: [{ value: ScimBulk.ref('missing') }] }).build())
+      .toThrow('references unknown bulkId: missing');
+  });
+
+  test('Checks maxOperations and maxPayloadSize from the ServiceProviderConfig', () => {
+    const builder = ScimBulk.request().createUser('user1', { userName: 'A' }).createUser('user2', { userName: 'B' });
+
+    expect(() => builder.assertWithinLimits(capabilities(2, 10000))).not.toThrow();
+    expect(() => builder.assertWithinLimits(capabilities(1, 10000))).toThrow('over maxOperations=1');
+    expect(() => builder.assertWithinLimits(capabilities(2, builder.payloadSize - 1))).toThrow(`is ${builder.payloadSize} bytes`);
+    expect(() => builder.assertWithinLimits(capabilities(2, 10000, false))).toThrow('does not support bulk');
+  });
+});
+
+test.describe('SCIM Bulk Response Checks', () => {
+  const request = ScimBulk.request()
+    .createUser('user1', { userName: 'A' })
+    .createGroup('group1', { displayName: 'G', members: [{ value: ScimBulk.ref('user1') }] })
+    .delete('/Users/107')
+    .build();
+
+  test('Accepts results in any order and collects ids by bulkId', () => {
+    const checked = checkBulkResponse(request, bulkResponse(
+      { method: 'POST', bulkId: 'group1', status: '201', location: `${LOCATION}/Groups/g-1` },
+      { method: 'DELETE', status: '204' },
+      { method: 'POST', bulkId: 'user1', status: '201', location: `${LOCATION}/Users/u-1` }
+    ));
+
+    expect(checked.violations).toEqual([]);
+    expect(checked.ids).toEqual({ user1: 'u-1', group1: 'g-1' });
+    expect(checked.results.map(result => result.index)).toEqual([1, 2, 0]);
+  });
+
+  test('Checks lower-case methods like their upper-case form', () => {
+    const lowerCase = ScimBulk.request().createUser('user1', { userName: 'bulk.lower' }).delete('/Users/107').build();
+    lowerCase.Operations = lowerCase.Operations.map(operation => ({ ...operation, method: operation.method.toLowerCase() as any }));
+
+    const checked = checkBulkResponse(lowerCase, bulkResponse(
+      { method: 'post', bulkId: 'user1', status: '200', location: `${LOCATION}/Users/u-1` },
+      { method: 'delete', status: '204' }
+    ));
+    expect(checked.violations).toEqual(['Operations[0] (post user1): expected status 201 for a successful POST, got 200']);
+    expect(checked.ids).toEqual({ user1: 'u-1' });
+  });
+
+  test('Flags wrong status, missing location, missing error body and missing results', () => {
+    const checked = checkBulkResponse(request, bulkResponse(
+      { method: 'POST', bulkId: 'user1', status: 200 as any },
+      errorResult('DELETE', 404)
+    ));
+
+    expect(checked.violations).toEqual([
+      'Operations[0] (POST user1): status must be an HTTP status code string, got 200',
+      'Operations[0] (POST user1): expected status 201 for a successful POST, got 200',
+      'Operations[0] (POST user1): successful POST must include a location',
+      'No result for Operations[1] (POST /Groups)'
+    ]);
+
+    const unanswered = checkBulkResponse(request, bulkResponse({ method: 'DELETE', status: '404' }));
+    expect(unanswered.violations).toContain('Operations[0] (DELETE): failed operation (404) must include a SCIM Error response');
+  });
+
+  test('Stops counting results once failOnErrors is reached', () => {
+    const stopping = { ...request, failOnErrors: 1 };
+
+    const stopped = checkBulkResponse(stopping, bulkResponse(errorResult('POST', 409, 'user1')));
+    expect(stopped.violations).toEqual([]);
+    expect(stopped.errorCount).toBe(1);
+
+    const overrun = checkBulkResponse(stopping, bulkResponse(errorResult('POST', 409, 'user1'), { method: 'DELETE', status: '204' }));
+    expect(overrun.violations).toEqual(['Operations were processed after failOnErrors=1 was reached']);
+
+    const tooMany = checkBulkResponse(stopping, bulkResponse(errorResult('POST', 409, 'user1'), errorResult('POST', 409, 'group1')));
+    expect(tooMany.violations).toContain('2 operations failed, but failOnErrors=1 should have stopped processing');
+  });
+
+  test('Flags responses that are not a BulkResponse or answer unknown operations', () => {
+    expect(checkBulkResponse(request, { schemas: [] } as any).violations).toEqual([
+      `BulkResponse is missing the ${ScimSchemas.BULK_RESPONSE} schema`,
+      'BulkResponse has no Operations array'
+    ]);
+    expect(checkBulkResponse(request, bulkResponse({ method: 'POST', bulkId: 'other', status: '201' })).violations[0])
+      .toBe('Operations[0] (POST other): does not answer any request operation');
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * SCIM Capability Gating Tests
+ *
+ * Tests declare the ServiceProviderConfig features they need with requireCapabilities:
+ * unsupported features skip the test or flip it to expect 501 Not Implemented.
+ */
+
+import { test, expect } from '../utils/scim-fixtures';
+import { AddressInfo } from 'net';
+import { createApiTestContext, ApiTestContext, ApiEndpoints } from '../utils/api-config';
+import { ScimBulk } from '../utils/scim-bulk';
+import { ScimClient } from '../utils/scim-client';
+import { loadCapabilities, requireCapabilities } from '../utils/scim-capabilities';
+import { ScimPatch } from '../utils/scim-patch';
+import { DEFAULT_FEATURES } from '../local-server/discovery';
+import { createLocalServer } from '../local-server/scim-server';
+import { log } from '../utils/logger';
+
+test.describe('SCIM Capability Gating', () => {
+  let apiContext: ApiTestContext;
+
+  test.beforeAll(async ({ request }) => {
+    apiContext = await createApiTestContext(request);
+  });
+
+  test('Reads capabilities from ServiceProviderConfig', async ({ request }) => {
+    const capabilities = await loadCapabilities(new ScimClient(request, apiContext));
+
+    expect(typeof capabilities.patch).toBe('boolean');
+    expect(capabilities.filter.maxResults).toBeGreaterThanOrEqual(0);
+    expect(capabilities.authenticationSchemes).toContain('oauthbearertoken');
+    log.info(`patch=${capabilities.patch} bulk=${capabilities.bulk.supported} sort=${capabilities.sort} etag=${capabilities.etag}`);
+  });
+
+  test('Runs PATCH only when the server supports it', async ({ request }) => {
+    const scim = new ScimClient(request, apiContext);
+    await requireCapabilities(scim, ['patch']);
+
+    const { body: group } = await scim.createGroup({ displayName: `CAPGROUP_${Date.now()}_${test.info().workerIndex}` }, { expectedStatus: 201 });
+    try {
+      await scim.patchGroup(group.id!, ScimPatch.add('members', [{ value: '106' }]).build(), { expectedStatus: 200 });
+    } finally {
+      await scim.deleteGroup(group.id!);
+    }
+  });
+
+  test('Sorts users only when the server supports it', async ({ request }) => {
+    const scim = new ScimClient(request, apiContext);
+    await requireCapabilities(scim, ['sort']);
+
+    const { body } = await scim.listUsers({ sortBy: 'userName', sortOrder: 'ascending', count: 10 }, { expectedStatus: 200 });
+    const userNames = body.Resources.map(user => user.userName.toLowerCase());
+    expect(userNames).toEqual([...userNames].sort());
+  });
+
+  test('Expects 200 from /Bulk, or 501 when bulk is unsupported', async ({ request }) => {
+    const scim = new ScimClient(request, apiContext);
+    const bulk = await requireCapabilities(scim, ['bulk'], { whenUnsupported: 'expect-501' });
+
+    const response = await scim.bulk(ScimBulk.request().delete('/Users/BULK_CAPABILITY_MISSING').build());
+    expect(response.status).toBe(bulk.expectedStatus(200));
+    expect(test.info().annotations.filter(annotation => annotation.type === 'config-mismatch')).toEqual([]);
+  });
+
+  test('Reports undeclared use of an unsupported feature as a config mismatch', async ({ playwright }) => {
+    const server = createLocalServer({ port: 0, oem: false, defaultInstitutionId: '102', features: { ...DEFAULT_FEATURES, patch: false } });
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    const baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+    const request = await playwright.request.newContext();
+
+    try {
+      const scim = new ScimClient(request, { ...apiContext, baseUrl });
+      const capabilities = await loadCapabilities(scim);
+      expect(capabilities.patch).toBe(false);
+
+      const patch = ScimPatch.replace('displayName', 'Renamed').build();
+      const undeclared = await scim.patchUser('106', patch);
+      expect(undeclared.status).toBe(501);
+      expect(test.info().annotations).toContainEqual({
+        type: 'config-mismatch',
+        description: `PATCH ${ApiEndpoints.users()}/106 uses 'patch', which /ServiceProviderConfig reports as unsupported (got 501)`
+      });
+    } finally {
+      await request.dispose();
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * SCIM Capability Detection Tests
+ *
+ * Checks which ServiceProviderConfig features utils/scim-capabilities.ts attributes to a request
+ */
+
+import { test, expect } from '@playwright/test';
+import { ScimSchemas } from '../utils/api-config';
+import { featuresUsed, isSupported, parseCapabilities } from '../utils/scim-capabilities';
+
+test.describe('SCIM Capability Detection', () => {
+  test('Parses ServiceProviderConfig, treating missing sections as unsupported', () => {
+    const capabilities = parseCapabilities({
+      schemas: [ScimSchemas.SERVICE_PROVIDER_CONFIG],
+      patch: { supported: true },
+      bulk: { supported: true, maxOperations: 10, maxPayloadSize: 1048576 },
+      filter: { supported: true, maxResults: 200 },
+      authenticationSchemes: [{ type: 'oauthbearertoken', name: 'OAuth Bearer Token' }]
+    } as any);
+
+    expect(capabilities.bulk).toEqual({ supported: true, maxOperations: 10, maxPayloadSize: 1048576 });
+    expect(capabilities.filter.maxResults).toBe(200);
+    expect(isSupported(capabilities, 'patch')).toBe(true);
+    expect(isSupported(capabilities, 'etag')).toBe(false);
+    expect(isSupported(capabilities, 'changePassword')).toBe(false);
+    expect(capabilities.authenticationSchemes).toEqual(['oauthbearertoken']);
+  });
+
+  const requests: [string, string, string, any, string[]][] = [
+    ['plain GET', 'GET', '/obscim/v2/Users/106', {}, []],
+    ['GET with filter and sortBy', 'GET', '/obscim/v2/Users', { query: { filter: 'userName pr', sortBy: 'userName' } }, ['filter', 'sort']],
+    ['.search with sortBy', 'POST', '/obscim/v2/Users/.search', { data: { sortBy: 'userName' } }, ['sort']],
+    ['PATCH', 'PATCH', '/obscim/v2/Groups/1', { data: { Operations: [{ op: 'add', path: 'members', value: [] }] } }, ['patch']],
+    ['PATCH setting a password', 'PATCH', '/obscim/v2/Users/1', { data: { Operations: [{ op: 'replace', path: 'password', value: 'x' }] } }, ['patch', 'changePassword']],
+    ['PUT with a password', 'PUT', '/obscim/v2/Users/1', { data: { userName: 'A', password: 'x' } }, ['changePassword']],
+    ['conditional GET', 'GET', '/obscim/v2/Users/1', { headers: { 'If-None-Match': 'W/"1"' } }, ['etag']],
+    ['bulk', 'POST', '/obscim/v2/Bulk', { data: {} }, ['bulk']]
+  ];
+
+  for (const [name, method, endpoint, request, expected] of requests) {
+    test(`Detects features used by ${name}`, () => {
+      expect(featuresUsed(method, endpoint, request).sort()).toEqual(expected.sort());
+    });
+  }
+});
@@ -0,0 +1,147 @@
+/**
+ * Record / Replay Cassette Tests
+ *
+ * Checks request normalization, secret scrubbing, replay matching and volatile-value mapping
+ * in utils/scim-cassette.ts
+ */
+
+import { test, expect } from '@playwright/test';
+import type { APIRequestContext, APIResponse } from '@playwright/test';
+import fs from 'fs';
+import { Cassette, CassetteFile, normalizeRequest } from '../utils/scim-cassette';
+import { decodeJwt, signJwt } from '../utils/jwt';
+import { removeTempFiles, tempFile } from './unit-helpers';
+
+function fakeResponse(status: number, body: any, headers: Record<string, string> = { 'content-type': 'application/scim+json' }): APIResponse {
+  const text = typeof body === 'string' ? body : JSON.stringify(body);
+  return {
+    status: () => status,
+    statusText: () => (status < 300 ? 'OK' : 'Error'),
+    headers: () => ({ ...headers, date: 'Thu, 01 Jan 2026 00:00:00 GMT' }),
+    body: async () => Buffer.from(text),
+    text: async () => text,
+    json: async () => JSON.parse(text)
+  } as unknown as APIResponse;
+}
+
+// Answers with the queued responses and remembers what was sent
+function fakeRequest(responses: APIResponse[]) {
+  const sent: { url: string; options: any }[] = [];
+  const request = {
+    fetch: async (url: string, options: any) => {
+      sent.push({ url, options });
+      return responses.shift()!;
+    }
+  } as unknown as APIRequestContext;
+  return { request, sent };
+}
+
+test.describe('Record / Replay Cassettes', () => {
+  test.afterEach(removeTempFiles);
+
+  test('Normalizes path, query and body for matching', async () => {
+    expect(normalizeRequest('get', 'https://rdv/obscim/v2/Users?startIndex=1', { params: { count: 10, filter: 'userName eq "a"' } })).toEqual({
+      method: 'GET',
+      path: '/obscim/v2/Users',
+      query: 'count=10&filter=userName eq "a"&startIndex=1'
+    });
+
+    const body = normalizeRequest('POST', '/obscim/v2/Users', { data: { userName: 'a', schemas: ['s'], password: 'hunter2' } }).body;
+    expect(body).toBe('{"password":"[REDACTED]","schemas":["s"],"userName":"a"}');
+  });
+
+  test('Scrubs client credentials from token requests', async () => {
+    const form = normalizeRequest('POST', 'https://idp/connect/token', {
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      data: 'grant_type=client_credentials&scope=read&client_id=abc&client_secret=xyz'
+    });
+    expect(form.body).toBe('client_id=[REDACTED]&client_secret=[REDACTED]&grant_type=client_credentials&scope=read');
+    expect(normalizeRequest('POST', 'https://idp/connect/token', { form: { scope: 'read', client_secret: 'xyz', grant_type: 'client_credentials', client_id: 'abc' } }).body)
+      .toBe(form.body);
+  });
+
+  test('Records scrubbed interactions and replays them in order', async () => {
+    const file = tempFile('cassette.json');
+    const token = signJwt({ client_id: 'abc-client', sub: 'abc-client', scope: 'read', exp: 2000000000 }, 'signing-key');
+    const { request, sent } = fakeRequest([
+      fakeResponse(200, { access_token: token, token_type: 'Bearer', expires_in: 3600 }, { 'content-type': 'application/json' }),
+      fakeResponse(200, { id: '1', version: 'W/"1"' }),
+      fakeResponse(200, { id: '1', version: 'W/"2"' })
+    ]);
+
+    const recorder = new Cassette(file, 'record', 'suite › test');
+    const recording = recorder.wrap(request);
+    await recording.post('https://idp/connect/token', { form: { client_id: 'abc', client_secret: 'xyz' } });
+    await recording.get('https://rdv/obscim/v2/Users/1', { headers: { Authorization: `Bearer ${token}` } });
+    await recording.fetch('https://rdv/obscim/v2/Users/1', { method: 'GET' });
+    recorder.save();
+    expect(sent.map(({ options }) => options.method)).toEqual(['POST', 'GET', 'GET']);
+
+    const saved: CassetteFile = JSON.parse(fs.readFileSync(file, 'utf8'));
+    const stored = JSON.stringify(saved);
+    expect(stored).not.toContain(token);
+    expect(stored).not.toContain('xyz');
+    // CLIENT_ID is a secret to the logger, so the token's client claims are masked too
+    expect(decodeJwt(saved.interactions[0].response.body.access_token).claims).toEqual({ client_id: '[REDACTED]', sub: '[REDACTED]', scope: 'read', exp: 2000000000 });
+    expect(saved.interactions[1].response.headers).toEqual({ 'content-type': 'application/scim+json' });
+
+    const replay = new Cassette(file, 'replay', 'suite › test').wrap(fakeRequest([]).request);
+    const tokenResponse = await replay.post('https://other-idp/connect/token', { form: { client_id: 'local', client_secret: 'other' } });
+    const replayedToken = (await tokenResponse.json()).access_token;
+    // ...and name the client this run asked for on replay
+    expect(decodeJwt(replayedToken).claims).toEqual({ client_id: 'local', sub: 'local', scope: 'read', exp: 2000000000 });
+    expect(decodeJwt(replayedToken).signature).toBe('');
+
+    expect((await (await replay.get('http://localhost:3000/obscim/v2/Users/1')).json()).version).toBe('W/"1"');
+    const second = await replay.get('http://localhost:3000/obscim/v2/Users/1');
+    expect(second.status()).toBe(200);
+    expect((await second.json()).version).toBe('W/"2"');
+  });
+
+  test('Masks token claims that hold a secret env value', async () => {
+    process.env.CASSETTE_TENANT_SECRET = 'tenant-0042';
+    try {
+      const file = tempFile('cassette.json');
+      const token = signJwt({ tenant: 'tenant-0042', scope: 'read', exp: 2000000000 }, 'signing-key');
+      const { request } = fakeRequest([fakeResponse(200, { access_token: token }, { 'content-type': 'application/json' })]);
+      const recorder = new Cassette(file, 'record', 'test');
+      await recorder.wrap(request).post('https://idp/connect/token', { form: { client_id: 'abc' } });
+      recorder.save();
+
+      const saved: CassetteFile = JSON.parse(fs.readFileSync(file, 'utf8'));
+      expect(decodeJwt(saved.interactions[0].response.body.access_token).claims.tenant).toBe('[REDACTED]');
+    } finally {
+      delete process.env.CASSETTE_TENANT_SECRET;
+    }
+  });
+
+  test('Maps generated names from the recording onto the replayed run', async () => {
+    const file = tempFile('cassette.json');
+    const recorded = 'ETAG_USER_1760000000000_0';
+    const { request } = fakeRequest([fakeResponse(201, { id: '7', userName: recorded }), fakeResponse(200, { id: '7', userName: recorded })]);
+    const recorder = new Cassette(file, 'record', 'test');
+    await recorder.wrap(request).post('https://rdv/obscim/v2/Users', { data: { userName: recorded } });
+    await recorder.wrap(request).get('https://rdv/obscim/v2/Users/7');
+    recorder.save();
+
+    const replay = new Cassette(file, 'replay', 'test').wrap(fakeRequest([]).request);
+    const live = 'ETAG_USER_1761111111111_3';
+    expect((await (await replay.post('https://rdv/obscim/v2/Users', { data: { userName: live } })).json()).userName).toBe(live);
+    expect((await (await replay.get('https://rdv/obscim/v2/Users/7')).json()).userName).toBe(live);
+  });
+
+  test('Fails clearly when a request has no recording', async () => {
+    const file = tempFile('cassette.json');
+    const { request } = fakeRequest([fakeResponse(200, { id: '1' })]);
+    const recorder = new Cassette(file, 'record', 'test');
+    await recorder.wrap(request).get('https://rdv/obscim/v2/Users/1');
+    recorder.save();
+
+    const replay = new Cassette(file, 'replay', 'test').wrap(fakeRequest([]).request);
+    await expect(replay.get('https://rdv/obscim/v2/Users/2')).rejects.toThrow(
+      /no recording for GET \/obscim\/v2\/Users\/2\nCassette: .*\nRecorded requests:\n  GET \/obscim\/v2\/Users\/1/
+    );
+    await expect(new Cassette(`${file}.missing`, 'replay', 'test').wrap(request).get('https://rdv/obscim/v2/Users/1'))
+      .rejects.toThrow('missing or empty - record it with SCIM_MODE=record');
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Cleanup Registry Tests
+ *
+ * Checks deletion order, failure collection and the leftover report in utils/scim-cleanup.ts
+ */
+
+import { test, expect } from '@playwright/test';
+import fs from 'fs';
+import { CleanupRegistry, recordLeftovers, reportLeftovers } from '../utils/scim-cleanup';
+
+test.describe('Cleanup Registry', () => {
+  test('Deletes groups before users, newest first', async () => {
+    const registry = new CleanupRegistry();
+    const deleted: string[] = [];
+    const remove = (name: string) => async () => { deleted.push(name); };
+
+    registry.register({ kind: 'User', id: '1', name: 'user-1', source: 'api' }, remove('user-1'));
+    registry.register({ kind: 'Group', id: '10', name: 'group-10', source: 'api' }, remove('group-10'));
+    registry.register({ kind: 'User', id: '2', name: 'user-2', source: 'database' }, remove('user-2'));
+    registry.register({ kind: 'Group', id: '11', name: 'group-11', source: 'api' }, remove('group-11'));
+
+    expect(await registry.cleanup()).toEqual([]);
+    expect(deleted).toEqual(['group-11', 'group-10', 'user-2', 'user-1']);
+    expect(registry.resources).toEqual([]);
+  });
+
+  test('Attempts every deletion and returns the failures', async () => {
+    const registry = new CleanupRegistry();
+    const deleted: string[] = [];
+
+    registry.register({ kind: 'User', id: '1', name: 'user-1', source: 'api' }, async () => { deleted.push('user-1'); });
+    registry.register({ kind: 'Group', id: '10', name: 'group-10', source: 'api' }, async () => { throw new Error('DELETE returned 500'); });
+    registry.register({ kind: 'User', id: '2', name: 'user-2', source: 'api' }, async () => { throw new Error('timeout'); });
+
+    const leftovers = await registry.cleanup();
+    expect(deleted).toEqual(['user-1']);
+    expect(leftovers).toEqual([
+      { kind: 'Group', id: '10', name: 'group-10', source: 'api', error: 'DELETE returned 500' },
+      { kind: 'User', id: '2', name: 'user-2', source: 'api', error: 'timeout' }
+    ]);
+  });
+
+  test('Forgets resources the test deleted itself', async () => {
+    const registry = new CleanupRegistry();
+    registry.register({ kind: 'User', id: '1', name: 'user-1', source: 'api' }, async () => { throw new Error('already gone'); });
+    registry.register({ kind: 'Group', id: '1', name: 'group-1', source: 'api' }, async () => {});
+
+    registry.forget('User', '1');
+    expect(registry.resources.map(resource => resource.kind)).toEqual(['Group']);
+    expect(await registry.cleanup()).toEqual([]);
+  });
+
+  test('Collects leftovers from every worker into one report', async () => {
+    const leftoversFile = test.info().outputPath('leftovers.jsonl');
+    const reportFile = test.info().outputPath('report', 'cleanup-leftovers.json');
+    const leftover = { kind: 'User' as const, id: '7', name: 'user-7', source: 'api' as const, error: 'DELETE returned 500' };
+
+    expect(reportLeftovers(leftoversFile, reportFile)).toEqual([]);
+    expect(fs.existsSync(reportFile)).toBe(false);
+
+    recordLeftovers([{ ...leftover, test: 'first' }], leftoversFile);
+    recordLeftovers([], leftoversFile);
+    recordLeftovers([{ ...leftover, id: '8', test: 'second' }], leftoversFile);
+
+    const reported = reportLeftovers(leftoversFile, reportFile);
+    expect(reported.map(entry => `${entry.id}:${entry.test}`)).toEqual(['7:first', '8:second']);
+    expect(JSON.parse(fs.readFileSync(reportFile, 'utf8'))).toEqual(reported);
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * RFC 7643/7644 Conformance Tests
+ *
+ * Runs the conformance catalog (utils/scim-conformance-checks.ts) against the current endpoint
+ * type, one step per check, and attaches the per-section compliance matrix as JSON and HTML.
+ * Failed MUST requirements fail the test; failed SHOULD requirements are annotated.
+ */
+
+import { test, expect } from '../utils/scim-fixtures';
+import { loadCapabilities } from '../utils/scim-capabilities';
+import {
+  complianceMatrix,
+  complianceMatrixHtml,
+  ConformanceResult,
+  failedChecks,
+  runConformanceCheck
+} from '../utils/scim-conformance';
+import { CONFORMANCE_CHECKS } from '../utils/scim-conformance-checks';
+
+test.describe('RFC 7643/7644 Conformance', () => {
+  test('Compliance matrix', async ({ scimData }) => {
+    const context = { scim: scimData.scim, data: scimData, capabilities: await loadCapabilities(scimData.scim) };
+
+    const results: ConformanceResult[] = [];
+    for (const check of CONFORMANCE_CHECKS) {
+      results.push(await test.step(`RFC ${check.rfc} §${check.section} ${check.level}: ${check.title}`, () => runConformanceCheck(check, context)));
+    }
+
+    const matrix = complianceMatrix(results);
+    await test.info().attach('scim-compliance.json', { body: JSON.stringify(matrix, null, 2), contentType: 'application/json' });
+    await test.info().attach('scim-compliance.html', { body: complianceMatrixHtml(matrix), contentType: 'text/html' });
+
+    for (const check of failedChecks(matrix, ['SHOULD', 'MAY'])) {
+      test.info().annotations.push({ type: `RFC ${check.rfc} §${check.section} ${check.level}`, description: `${check.id}: ${check.detail}` });
+    }
+    expect(failedChecks(matrix).map(check => `RFC ${check.rfc} §${check.section} ${check.id}: ${check.detail}`), 'failed MUST requirements').toEqual([]);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Conformance Runner Tests
+ *
+ * Checks check outcomes, the per-section compliance matrix and its HTML in utils/scim-conformance.ts
+ */
+
+import { test, expect } from '@playwright/test';
+import { parseCapabilities } from '../utils/scim-capabilities';
+import { ScimClient } from '../utils/scim-client';
+import { ScimDataFactory } from '../utils/scim-fixtures';
+import {
+  complianceMatrix,
+  complianceMatrixHtml,
+  ConformanceCheck,
+  ConformanceContext,
+  conformanceFailure,
+  ConformanceResult,
+  failedChecks,
+  runConformanceCheck
+} from '../utils/scim-conformance';
+import { CONFORMANCE_CHECKS } from '../utils/scim-conformance-checks';
+
+const context: ConformanceContext = {
+  scim: {} as ScimClient,
+  data: {} as ScimDataFactory,
+  capabilities: parseCapabilities({ schemas: [], patch: { supported: true }, etag: { supported: false } } as any)
+};
+
+function check(overrides: Partial<ConformanceCheck>): ConformanceCheck {
+  return { id: 'check', title: 'A requirement', rfc: '7644', section: '3.3', level: 'MUST', run: async () => {}, ...overrides };
+}
+
+function result(section: string, status: ConformanceResult['status'], overrides: Partial<ConformanceResult> = {}): ConformanceResult {
+  return { id: `check-${section}-${status}`, title: 'A requirement', rfc: '7644', section, level: 'MUST', status, ...overrides };
+}
+
+test.describe('Conformance Runner', () => {
+  test('Every catalog entry has a unique id, a section and a level', async () => {
+    const ids = CONFORMANCE_CHECKS.map(entry => entry.id);
+    expect(new Set(ids).size).toBe(ids.length);
+    for (const entry of CONFORMANCE_CHECKS) {
+      expect(entry.section, entry.id).toMatch(/^\d+(\.\d+)*$/);
+      expect(['MUST', 'SHOULD', 'MAY'], entry.id).toContain(entry.level);
+    }
+  });
+
+  test('Passes, fails with the message, or is not applicable', async () => {
+    expect(await runConformanceCheck(check({}), context)).toMatchObject({ id: 'check', status: 'pass' });
+    expect(await runConformanceCheck(check({ run: async () => conformanceFailure(false, 'POST /Users returned 200') }), context))
+      .toMatchObject({ status: 'fail', detail: 'POST /Users returned 200' });
+    expect(await runConformanceCheck(check({ requires: ['patch', 'etag'], run: async () => { throw new Error('not run'); } }), context))
+      .toMatchObject({ status: 'n/a', detail: 'ServiceProviderConfig: etag not supported' });
+  });
+
+  test('Checks that send filters are not applicable without filter support', async () => {
+    const withoutFilter = { ...context, capabilities: parseCapabilities({ schemas: [], filter: { supported: false } } as any) };
+    for (const id of ['list-response', 'filter-case-insensitive', 'invalid-filter']) {
+      const entry = CONFORMANCE_CHECKS.find(candidate => candidate.id === id)!;
+      expect(await runConformanceCheck(entry, withoutFilter), id).toMatchObject({ status: 'n/a', detail: 'ServiceProviderConfig: filter not supported' });
+    }
+  });
+
+  test('Groups results into sections in RFC order', async () => {
+    const matrix = complianceMatrix([
+      result('3.12', 'pass'),
+      result('3.4.2.2', 'pass'),
+      result('3.4.2.2', 'fail'),
+      result('3.14', 'n/a'),
+      result('3', 'pass', { rfc: '7643' }),
+      result('3.4.2', 'pass')
+    ], 'scim');
+
+    expect(matrix.endpointType).toBe('scim');
+    expect(matrix.summary).toEqual({ pass: 4, fail: 1, 'n/a': 1 });
+    expect(matrix.sections.map(section => `${section.rfc} §${section.section} ${section.status}`)).toEqual([
+      '7643 §3 pass',
+      '7644 §3.4.2 pass',
+      '7644 §3.4.2.2 fail',
+      '7644 §3.12 pass',
+      '7644 §3.14 n/a'
+    ]);
+    expect(matrix.sections[2].title).toBe('Filtering');
+  });
+
+  test('Lists failures by level', async () => {
+    const matrix = complianceMatrix([
+      result('3.8', 'fail', { id: 'must' }),
+      result('3.8', 'fail', { id: 'should', level: 'SHOULD' }),
+      result('3.9', 'pass')
+    ], 'apiserver');
+    expect(failedChecks(matrix).map(check => check.id)).toEqual(['must']);
+    expect(failedChecks(matrix, ['SHOULD', 'MAY']).map(check => check.id)).toEqual(['should']);
+  });
+
+  test('Renders the matrix as HTML with escaped details', async () => {
+    const html = complianceMatrixHtml(complianceMatrix([
+      result('3.12', 'fail', { id: 'error-response-body', detail: 'schemas is ["<none>"]' }),
+      result('3.14', 'n/a')
+    ], 'scim'));
+    expect(html).toContain('<tr class="section fail"><th colspan="3">RFC 7644 §3.12 HTTP Status and Error Response Handling</th><th>fail</th></tr>');
+    expect(html).toContain('<small>schemas is [&quot;&lt;none&gt;&quot;]</small>');
+    expect(html).toContain('<tr class="section na">');
+    expect(html).toContain('0 passed, 1 failed, 1 not applicable');
+  });
+});
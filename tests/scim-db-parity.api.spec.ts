@@ -0,0 +1,98 @@
+/**
+ * API-to-Database Parity Tests
+ *
+ * Creates, updates and regroups Users through the API and checks the OnBase tables hold
+ * the same values. Against the local stand-in, an in-process server's store writes through to
+ * the row tables of an InMemoryDatabase.
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { createApiTestContext, ProjectConfig } from '../utils/api-config';
+import { CleanupRegistry } from '../utils/scim-cleanup';
+import { isReplayMode } from '../utils/scim-cassette';
+import { ScimClient } from '../utils/scim-client';
+import { assertParity } from '../utils/scim-db-parity';
+import { test, expect, ScimDataFactory } from '../utils/scim-fixtures';
+import { ScimPatch } from '../utils/scim-patch';
+import { setTestDatabase } from '../utils/db-config';
+import { TestDatabase } from '../utils/test-database';
+import { createLocalServer } from '../local-server/scim-server';
+import { InMemoryScimStore } from '../local-server/scim-store';
+import { InMemoryDatabase } from '../local-server/memory-database';
+
+test.describe('API-to-Database Parity', () => {
+  // Cassettes hold API traffic only; the database side cannot be replayed
+  test.skip(isReplayMode(), 'Database reads are not recorded (SCIM_MODE=replay)');
+
+  let server: http.Server | undefined;
+  let baseUrl: string | undefined;
+  let previousDatabase: TestDatabase | null = null;
+
+  test.beforeAll(async () => {
+    if (!ProjectConfig.localServer.enabled) return;
+    const store = new InMemoryScimStore({ oem: false, defaultInstitutionId: '102' });
+    server = createLocalServer({ port: 0, oem: false, defaultInstitutionId: '102', store });
+    await new Promise<void>(resolve => server!.listen(0, resolve));
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+    // Rows are copies written on each store write, so parity compares two separate copies
+    previousDatabase = setTestDatabase(new InMemoryDatabase(store));
+  });
+
+  test.afterAll(async () => {
+    setTestDatabase(previousDatabase);
+    if (server) await new Promise(resolve => server!.close(resolve));
+  });
+
+  /**
+   * Run a test with test data on the server whose database is checked
+   */
+  async function withScimData(request: any, fn: (scimData: ScimDataFactory) => Promise<void>): Promise<void> {
+    const apiContext = await createApiTestContext(request);
+    const scim = new ScimClient(request, { ...apiContext, baseUrl: baseUrl ?? apiContext.baseUrl });
+    const scimData = new ScimDataFactory(scim, new CleanupRegistry(), { prefix: 'PARITY', workerIndex: test.info().workerIndex });
+    try {
+      await fn(scimData);
+    } finally {
+      expect(await scimData.cleanup()).toEqual([]);
+    }
+  }
+
+  test('Created and updated users match hsi.useraccount', async ({ request }) => {
+    await withScimData(request, async scimData => {
+      const user = await scimData.createUser();
+      await assertParity(user);
+
+      const { body: updated } = await scimData.scim.patchUser(
+        user.id!,
+        ScimPatch.replace('active', false).replace('displayName', 'Parity Check').build(),
+        { expectedStatus: 200 }
+      );
+      const result = await assertParity(updated);
+      expect(result.mismatches).toEqual([]);
+    });
+  });
+
+  test('Group members match hsi.userxusergroup', async ({ request }) => {
+    await withScimData(request, async scimData => {
+      const users = await scimData.createUsers(2);
+      const group = await scimData.createGroup({}, users);
+      await assertParity(group);
+
+      const { body: shrunk } = await scimData.scim.patchGroup(
+        group.id!,
+        ScimPatch.remove(`members[value eq "${users[0].id}"]`).build(),
+        { expectedStatus: 200 }
+      );
+      await assertParity(shrunk);
+    });
+  });
+
+  test('Users inserted into the database are served by the API', async ({ request }) => {
+    await withScimData(request, async scimData => {
+      const user = await scimData.createUser({}, { source: 'database' });
+      expect(user.userName).toMatch(/^PARITY_/);
+      await assertParity(user);
+    });
+  });
+});
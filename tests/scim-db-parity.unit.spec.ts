@@ -0,0 +1,83 @@
+/**
+ * API-to-Database Parity Tests
+ *
+ * Checks the SCIM ↔ OnBase column mappings and mismatch reporting in utils/scim-db-parity.ts,
+ * with rows from a fake TestDatabase
+ */
+
+import { test, expect } from '@playwright/test';
+import { ScimSchemas } from '../utils/api-config';
+import { assertParity, GroupParityRow, verifyParity } from '../utils/scim-db-parity';
+import { ScimGroup, ScimUser } from '../utils/scim-types';
+import { TestDatabase, UserAccountRow } from '../utils/test-database';
+
+const user: ScimUser = {
+  schemas: [ScimSchemas.USER],
+  id: '1042',
+  userName: 'jdoe',
+  displayName: 'Jane Doe',
+  active: true,
+  emails: [
+    { value: 'jane.home@example.com', type: 'home' },
+    { value: 'jane@example.com', type: 'work', primary: true }
+  ]
+};
+
+const userRow: UserAccountRow = { usernum: 1042, username: 'JDOE', realname: 'Jane Doe', emailaddress: 'jane@example.com', disablelogin: 0 };
+
+const group: ScimGroup = {
+  schemas: [ScimSchemas.GROUP],
+  id: '77',
+  displayName: 'CLAIMS',
+  members: [{ value: '1042' }, { value: '9' }]
+};
+
+const groupRow: GroupParityRow = { usergroupnum: 77, usergroupname: 'CLAIMS', members: [9, 1042] };
+
+function loader(users: Record<number, UserAccountRow>, groups: Record<number, GroupParityRow> = {}): TestDatabase {
+  return {
+    getUserById: async (userNum: number) => users[userNum] ?? null,
+    getGroupById: async (groupNum: number) => groups[groupNum] ?? null,
+    getGroupMembers: async (groupNum: number) => groups[groupNum]?.members ?? []
+  } as Partial<TestDatabase> as TestDatabase;
+}
+
+test.describe('API-to-Database Parity', () => {
+  test('User matching its row has no mismatches', async () => {
+    const result = await verifyParity(user, loader({ 1042: userRow }));
+    expect(result).toEqual({ kind: 'User', id: '1042', found: true, mismatches: [] });
+  });
+
+  test('Reports each mismatched User field with its column', async () => {
+    const row = { ...userRow, realname: 'Jane Q. Doe', emailaddress: null, disablelogin: true };
+    const result = await verifyParity(user, loader({ 1042: row }));
+
+    expect(result.mismatches).toEqual([
+      { attribute: 'displayName', column: 'realname', scimValue: 'Jane Doe', dbValue: 'Jane Q. Doe' },
+      { attribute: 'emails[primary eq true].value', column: 'emailaddress', scimValue: 'jane@example.com', dbValue: null },
+      { attribute: 'active', column: '!disablelogin', scimValue: true, dbValue: false }
+    ]);
+  });
+
+  test('Treats empty and missing values alike', async () => {
+    const { emails, displayName, ...bare } = user;
+    const result = await verifyParity(bare as ScimUser, loader({ 1042: { ...userRow, realname: '', emailaddress: null } }));
+    expect(result.mismatches).toEqual([]);
+  });
+
+  test('Compares group members with hsi.userxusergroup in any order', async () => {
+    expect((await verifyParity(group, loader({}, { 77: groupRow }))).mismatches).toEqual([]);
+
+    const result = await verifyParity(group, loader({}, { 77: { ...groupRow, members: [9] } }));
+    expect(result.mismatches).toEqual([
+      { attribute: 'members.value', column: 'hsi.userxusergroup.usernum', scimValue: ['1042', '9'], dbValue: ['9'] }
+    ]);
+  });
+
+  test('assertParity fails on missing rows and lists mismatches', async () => {
+    await expect(assertParity(user, loader({}))).rejects.toThrow('User 1042 is not in the database');
+    await expect(assertParity(group, loader({}, { 77: { ...groupRow, usergroupname: 'CLAIMS_OLD' } })))
+      .rejects.toThrow('Group 77 differs from the database:\n  displayName (usergroupname): API "CLAIMS" vs. DB "CLAIMS_OLD"');
+    await expect(assertParity({ ...user, id: 'abc' }, loader({}))).rejects.toThrow('numeric OnBase id');
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Cross-Endpoint Parity Tests
+ *
+ * Sends read-only requests to both /obscim/v2 and /ApiServer/onbase/SCIM/v2, and runs
+ * create/update/delete scenarios on each in isolation, failing on any difference not listed
+ * in endpoint-parity-allowlist.json. The structured diff is attached to each test.
+ */
+
+import { test } from '../utils/scim-fixtures';
+import { createApiTestContext, ApiTestContext } from '../utils/api-config';
+import { ScimClient } from '../utils/scim-client';
+import { assertEndpointParity, compareRead, compareScenario, EndpointParityResult, ParityRequest } from '../utils/scim-endpoint-parity';
+import { ScimPatch } from '../utils/scim-patch';
+
+const READ_REQUESTS: ParityRequest[] = [
+  { path: '/ServiceProviderConfig' },
+  { path: '/ResourceTypes' },
+  { path: '/Schemas' },
+  { path: '/Users/106' },
+  { path: '/Users', query: { filter: 'userName eq "USER1"' } },
+  { path: '/Users', query: { startIndex: 1, count: 2 } },
+  { path: '/Groups/3' },
+  { path: '/Groups', query: { filter: 'displayName eq "TESTGROUP"' } },
+  { path: '/Users/999999999' }
+];
+
+async function attachDiff(result: EndpointParityResult): Promise<void> {
+  await test.info().attach('endpoint-parity.json', { body: JSON.stringify(result, null, 2), contentType: 'application/json' });
+}
+
+test.describe('SCIM vs. ApiServer Endpoint Parity', () => {
+  let apiContext: ApiTestContext;
+
+  test.beforeAll(async ({ request }) => {
+    apiContext = await createApiTestContext(request);
+  });
+
+  for (const readRequest of READ_REQUESTS) {
+    test(`GET ${readRequest.path}${readRequest.query ? ` ${JSON.stringify(readRequest.query)}` : ''}`, async ({ request }) => {
+      const result = await compareRead(new ScimClient(request, apiContext), readRequest);
+      await attachDiff(result);
+      assertEndpointParity(result);
+    });
+  }
+
+  test('User create, patch, replace and delete', async ({ request }) => {
+    const result = await compareScenario('User lifecycle', new ScimClient(request, apiContext), async scim => {
+      const userName = `PARITY_${Date.now()}_${test.info().workerIndex}`;
+      const created = await scim.createUser({ userName, displayName: 'Parity User', active: true }, { expectedStatus: 201 });
+      const id = created.body.id!;
+      try {
+        return [
+          created,
+          await scim.patchUser(id, ScimPatch.replace('displayName', 'Parity User (patched)').build()),
+          await scim.replaceUser(id, { ...created.body, displayName: 'Parity User (replaced)' }),
+          await scim.deleteUser(id),
+          await scim.getUser(id)
+        ];
+      } finally {
+        await scim.deleteUser(id);
+      }
+    });
+    await attachDiff(result);
+    assertEndpointParity(result);
+  });
+
+  test('Group create with members, patch and delete', async ({ request }) => {
+    const result = await compareScenario('Group lifecycle', new ScimClient(request, apiContext), async scim => {
+      const displayName = `PARITYGROUP_${Date.now()}_${test.info().workerIndex}`;
+      const created = await scim.createGroup({ displayName, members: [{ value: '106' }] }, { expectedStatus: 201 });
+      const id = created.body.id!;
+      try {
+        return [
+          created,
+          await scim.patchGroup(id, ScimPatch.add('members', [{ value: '143' }]).build()),
+          await scim.getGroup(id),
+          await scim.deleteGroup(id)
+        ];
+      } finally {
+        await scim.deleteGroup(id);
+      }
+    });
+    await attachDiff(result);
+    assertEndpointParity(result);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Cross-Endpoint Parity Tests (unit)
+ *
+ * Checks response normalization, leaf diffs, allowlist matching and the failure message
+ * in utils/scim-endpoint-parity.ts
+ */
+
+import { test, expect } from '@playwright/test';
+import os from 'os';
+import path from 'path';
+import {
+  assertEndpointParity,
+  diffValues,
+  loadParityAllowlist,
+  normalizeForParity,
+  parityResult
+} from '../utils/scim-endpoint-parity';
+import { removeTempFiles, tempFile } from './unit-helpers';
+
+function user(base: string, id: string) {
+  return {
+    status: 201,
+    headers: { 'content-type': 'application/scim+json', etag: 'W/"1"', location: `http://localhost:3000${base}/Users/${id}` },
+    body: {
+      schemas: ['urn:ietf:params:scim:schemas:core:2.0:User'],
+      id,
+      userName: 'PARITY_USER',
+      meta: { resourceType: 'User', created: '2026-01-01T00:00:00Z', lastModified: '2026-01-01T00:00:00Z', version: 'W/"1"', location: `http://localhost:3000${base}/Users/${id}` }
+    }
+  };
+}
+
+test.describe('Cross-Endpoint Parity', () => {
+  test.afterEach(removeTempFiles);
+
+  test('Normalizes base paths, hosts and generated ids', async () => {
+    const scim = normalizeForParity(user('/obscim/v2', '1000'));
+    const apiserver = normalizeForParity(user('/ApiServer/onbase/SCIM/v2', '1001'));
+    expect(scim).toEqual(apiserver);
+    expect(scim.headers).toEqual({ etag: '<present>', 'content-type': 'application/scim+json', location: '<host>{base}/Users/<id>' });
+
+    const notFound = { status: 404, headers: {}, body: { detail: 'User 1000 not found', status: '404' } };
+    expect((normalizeForParity(notFound, ['1000']).body as any).detail).toBe('User <id> not found');
+    expect((normalizeForParity(notFound, ['100']).body as any).detail).toBe('User 1000 not found');
+  });
+
+  test('Reports every differing leaf by path', async () => {
+    const differences = diffValues(
+      { status: 200, body: { Resources: [{ userName: 'a', active: true }], totalResults: 1 } },
+      { status: 200, body: { Resources: [{ userName: 'a' }, { userName: 'b' }], totalResults: 2 } }
+    );
+    expect(differences).toEqual([
+      { path: 'body.Resources[0].active', scim: true, apiserver: undefined },
+      { path: 'body.Resources[1]', scim: undefined, apiserver: { userName: 'b' } },
+      { path: 'body.totalResults', scim: 1, apiserver: 2 }
+    ]);
+    expect(diffValues([{ status: 204 }], [{ status: 204 }], 'responses')).toEqual([]);
+  });
+
+  test('Marks allowlisted differences and leaves the rest unexpected', async () => {
+    const allowlist = loadParityAllowlist(tempFile('allowlist.json', {
+      differences: [{ request: 'GET /Users*', path: 'headers.*', reason: 'ApiServer adds its own headers' }]
+    }));
+    const differences = [
+      { path: 'headers.content-type', scim: 'application/scim+json', apiserver: 'application/json' },
+      { path: 'status', scim: 200, apiserver: 404 }
+    ];
+
+    const result = parityResult('GET /Users/106', differences, allowlist);
+    expect(result.differences[0].allowed).toBe('ApiServer adds its own headers');
+    expect(result.unexpected).toEqual([differences[1]]);
+    expect(parityResult('GET /Groups/3', differences, allowlist).unexpected).toHaveLength(2);
+  });
+
+  test('Rejects allowlist entries without a reason', async () => {
+    expect(() => loadParityAllowlist(tempFile('allowlist.json', { differences: [{ request: 'GET /Users', path: 'status' }] })))
+      .toThrow('differences[0] needs reason');
+    expect(() => loadParityAllowlist(tempFile('allowlist.json', []))).toThrow('expected { "differences": [...] }');
+    expect(loadParityAllowlist(path.join(os.tmpdir(), 'no-such-allowlist.json'))).toEqual([]);
+  });
+
+  test('Fails with one line per unexpected difference', async () => {
+    const result = parityResult('GET /Users/106', [{ path: 'body.active', scim: true, apiserver: false }], []);
+    expect(() => assertEndpointParity(result)).toThrow(
+      'GET /Users/106: 1 unexpected differences between /obscim/v2 and /ApiServer/onbase/SCIM/v2\n' +
+      '  body.active: scim true vs. apiserver false\n' +
+      'List intended differences in endpoint-parity-allowlist.json'
+    );
+    expect(() => assertEndpointParity(parityResult('GET /Users/106', [], []))).not.toThrow();
+  });
+});
@@ -0,0 +1,25 @@
+/**
+ * SCIM Error Response Tests
+ *
+ * Sends every request of the negative-case catalog (utils/scim-negative-cases.ts) and checks the
+ * status, the scimType and the Error message body (RFC 7644 §3.12)
+ */
+
+import { test } from '../utils/scim-fixtures';
+import { requireCapabilities } from '../utils/scim-capabilities';
+import { assertScimError } from '../utils/scim-errors';
+import { NEGATIVE_CASES } from '../utils/scim-negative-cases';
+import { log } from '../utils/logger';
+
+test.describe('SCIM Error Responses', () => {
+  for (const negativeCase of NEGATIVE_CASES) {
+    const expected = [negativeCase.expectedStatus, negativeCase.scimType].filter(Boolean).join(' ');
+    test(`${negativeCase.title} -> ${expected}`, async ({ scimData }) => {
+      if (negativeCase.requires) await requireCapabilities(scimData.scim, negativeCase.requires);
+
+      const response = await negativeCase.send(scimData);
+      assertScimError(response, negativeCase.expectedStatus, negativeCase.scimType, negativeCase.id);
+      log.info(`${response.status} ${response.body.scimType ?? '-'}: ${response.body.detail}`);
+    });
+  }
+});
@@ -0,0 +1,60 @@
+/**
+ * SCIM Error Validator Tests
+ *
+ * Checks the Error message validation in utils/scim-errors.ts and the shape of the
+ * negative-case catalog
+ */
+
+import { test, expect } from '@playwright/test';
+import { ScimSchemas } from '../utils/api-config';
+import { ScimResponse } from '../utils/scim-client';
+import { assertScimError, checkScimError, isScimErrorType } from '../utils/scim-errors';
+import { NEGATIVE_CASES } from '../utils/scim-negative-cases';
+
+function error(overrides: Record<string, any> = {}): Record<string, any> {
+  return { schemas: [ScimSchemas.ERROR], status: '409', scimType: 'uniqueness', detail: 'userName jdoe is already in use', ...overrides };
+}
+
+function response(status: number, body: any): ScimResponse {
+  return { status, body, headers: {}, durationMs: 1, response: undefined as any };
+}
+
+test.describe('SCIM Error Validator', () => {
+  test('Accepts an RFC 7644 Error message', async () => {
+    expect(checkScimError(409, error())).toEqual([]);
+    expect(checkScimError(409, error(), 'uniqueness')).toEqual([]);
+    expect(checkScimError(404, error({ status: '404', scimType: undefined, detail: 'User 9 not found' }))).toEqual([]);
+  });
+
+  test('Reports every problem with the body', async () => {
+    expect(checkScimError(409, error({ schemas: ['urn:example'], status: 409, scimType: 'duplicate', detail: '' }))).toEqual([
+      `schemas is ["urn:example"] (must contain ${ScimSchemas.ERROR})`,
+      'status is 409 (must be the string "409")',
+      'scimType "duplicate" is not one of invalidFilter, tooMany, uniqueness, mutability, invalidSyntax, invalidPath, noTarget, invalidValue, invalidVers, sensitive',
+      'detail is "" (must describe the error)'
+    ]);
+    expect(checkScimError(400, error({ detail: undefined }))).toEqual([
+      'status "409" does not match the HTTP status 400',
+      'detail is missing (must describe the error)'
+    ]);
+    expect(checkScimError(400, error({ status: '400', scimType: undefined }), 'invalidFilter')).toEqual(['scimType is undefined, expected "invalidFilter"']);
+    expect(checkScimError(500, '<html>Internal error</html>')).toEqual(['body is not a SCIM Error message: "<html>Internal error</html>"']);
+  });
+
+  test('Asserts the status along with the body', async () => {
+    expect(() => assertScimError(response(409, error()), 409, 'uniqueness')).not.toThrow();
+    expect(() => assertScimError(response(201, { id: '7', userName: 'jdoe' }), 409, 'uniqueness', 'duplicate-username'))
+      .toThrow(/^duplicate-username is not the expected SCIM Error:\n {2}- HTTP status is 201, expected 409\n {2}- schemas is undefined/);
+  });
+
+  test('Catalog cases expect a status and an RFC scimType', async () => {
+    const ids = NEGATIVE_CASES.map(negativeCase => negativeCase.id);
+    expect(new Set(ids).size).toBe(ids.length);
+    for (const negativeCase of NEGATIVE_CASES) {
+      expect(negativeCase.expectedStatus, negativeCase.id).toBeGreaterThanOrEqual(400);
+      if (negativeCase.scimType !== undefined) expect(isScimErrorType(negativeCase.scimType), negativeCase.id).toBe(true);
+    }
+    expect(isScimErrorType('invalidVers')).toBe(true);
+    expect(isScimErrorType('InvalidVers')).toBe(false);
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * SCIM ETag / Optimistic Concurrency Tests
+ *
+ * Checks that Users and Groups carry a consistent ETag and meta.version, that
+ * If-None-Match reads answer 304 Not Modified and that stale If-Match updates and
+ * deletes answer 412 Precondition Failed (RFC 7644 §3.14).
+ * Tests skip when /ServiceProviderConfig does not advertise etag.
+ */
+
+import { test, expect } from '../utils/scim-fixtures';
+import { createApiTestContext, ApiTestContext, ApiEndpoints, ScimSchemas } from '../utils/api-config';
+import { ScimBulk } from '../utils/scim-bulk';
+import { requireCapabilities } from '../utils/scim-capabilities';
+import { ScimClient } from '../utils/scim-client';
+import { assertVersioned } from '../utils/scim-etag';
+import { ScimPatch } from '../utils/scim-patch';
+import { ScimResource } from '../utils/scim-types';
+import { log } from '../utils/logger';
+
+interface VersionedKind {
+  kind: 'User' | 'Group';
+  endpoint: () => string;
+  // New resource body with a worker-unique name
+  create: (name: string) => ScimResource;
+}
+
+const kinds: VersionedKind[] = [
+  { kind: 'User', endpoint: () => ApiEndpoints.users(), create: name => ({ schemas: [ScimSchemas.USER], userName: name, displayName: 'ETag User' }) },
+  { kind: 'Group', endpoint: () => ApiEndpoints.groups(), create: name => ({ schemas: [ScimSchemas.GROUP], displayName: name }) }
+];
+
+test.describe('SCIM ETag Versioning', () => {
+  let apiContext: ApiTestContext;
+
+  test.beforeAll(async ({ request }) => {
+    apiContext = await createApiTestContext(request);
+  });
+
+  for (const { kind, endpoint, create } of kinds) {
+    /**
+     * Create a resource for the test and delete it afterwards
+     */
+    async function withResource(scim: ScimClient, run: (path: string, created: ScimResource, version: string) => Promise<void>) {
+      const name = `ETAG_${kind.toUpperCase()}_${Date.now()}_${test.info().workerIndex}`;
+      const { body: created, headers } = await scim.send<ScimResource>('POST', endpoint(), { data: create(name), expectedStatus: 201 });
+      const path = `${endpoint()}/${encodeURIComponent(created.id!)}`;
+      try {
+        await run(path, created, assertVersioned(headers, created, `Created ${kind}`));
+      } finally {
+        await scim.send('DELETE', path);
+      }
+    }
+
+    test(`${kind} responses carry an ETag matching meta.version`, async ({ request }) => {
+      const scim = new ScimClient(request, apiContext);
+      await requireCapabilities(scim, ['etag', 'patch']);
+
+      await withResource(scim, async (path, created, version) => {
+        const fetched = await scim.send<ScimResource>('GET', path, { expectedStatus: 200 });
+        expect(assertVersioned(fetched.headers, fetched.body, `Fetched ${kind}`)).toBe(version);
+
+        const patched = await scim.send<ScimResource>('PATCH', path, {
+          data: ScimPatch.replace('displayName', `${created.displayName}_PATCHED`).build(),
+          expectedStatus: 200
+        });
+        const patchedVersion = assertVersioned(patched.headers, patched.body, `Patched ${kind}`);
+        expect(patchedVersion).not.toBe(version);
+
+        const replaced = await scim.send<ScimResource>('PUT', path, {
+          data: { ...create(created.userName ?? created.displayName), displayName: `${created.displayName}_REPLACED` },
+          expectedStatus: 200
+        });
+        expect(assertVersioned(replaced.headers, replaced.body, `Replaced ${kind}`)).not.toBe(patchedVersion);
+      });
+    });
+
+    test(`${kind} GET with If-None-Match answers 304 until the resource changes`, async ({ request }) => {
+      const scim = new ScimClient(request, apiContext);
+      await requireCapabilities(scim, ['etag', 'patch']);
+
+      await withResource(scim, async (path, created, version) => {
+        const notModified = await scim.send('GET', path, { ifNoneMatch: version, expectedStatus: 304 });
+        expect(notModified.body).toBeUndefined();
+        expect(notModified.headers.etag).toBe(version);
+
+        await scim.send('PATCH', path, { data: ScimPatch.replace('displayName', `${created.displayName}_CHANGED`).build(), expectedStatus: 200 });
+
+        const modified = await scim.send<ScimResource>('GET', path, { ifNoneMatch: version, expectedStatus: 200 });
+        expect(modified.body.displayName).toBe(`${created.displayName}_CHANGED`);
+        log.info(`${kind} If-None-Match: 304 while current, 200 after a change`);
+      });
+    });
+
+    test(`${kind} PUT, PATCH and DELETE with a stale If-Match answer 412`, async ({ request }) => {
+      const scim = new ScimClient(request, apiContext);
+      await requireCapabilities(scim, ['etag', 'patch']);
+
+      await withResource(scim, async (path, created, staleVersion) => {
+        const update = await scim.send<ScimResource>('PATCH', path, {
+          data: ScimPatch.replace('displayName', `${created.displayName}_FIRST`).build(),
+          ifMatch: staleVersion,
+          expectedStatus: 200
+        });
+        const currentVersion = update.headers.etag;
+
+        const stalePatch = await scim.send('PATCH', path, {
+          data: ScimPatch.replace('displayName', `${created.displayName}_LOST`).build(),
+          ifMatch: staleVersion,
+          expectedStatus: 412
+        });
+        expect(stalePatch.body.schemas).toContain(ScimSchemas.ERROR);
+        await scim.send('PUT', path, { data: create(created.userName ?? created.displayName), ifMatch: staleVersion, expectedStatus: 412 });
+        await scim.send('DELETE', path, { ifMatch: staleVersion, expectedStatus: 412 });
+
+        const { body: unchanged } = await scim.send<ScimResource>('GET', path, { expectedStatus: 200 });
+        expect(unchanged.displayName).toBe(`${created.displayName}_FIRST`);
+        expect(unchanged.meta?.version).toBe(currentVersion);
+
+        await scim.send('DELETE', path, { ifMatch: currentVersion, expectedStatus: 204 });
+        log.info(`${kind} stale If-Match rejected with 412; current version accepted`);
+      });
+    });
+  }
+
+  test('Client sends tracked versions and detects a concurrent update', async ({ request }) => {
+    const writer = new ScimClient(request, apiContext, { conditionalRequests: true });
+    const other = new ScimClient(request, apiContext);
+    await requireCapabilities(writer, ['etag', 'patch']);
+
+    const { body: user } = await writer.createUser({ userName: `ETAG_TRACKED_${Date.now()}_${test.info().workerIndex}` }, { expectedStatus: 201 });
+    const path = `${ApiEndpoints.users()}/${user.id}`;
+    try {
+      expect(writer.etags.get(path)).toBe(user.meta?.version);
+      await writer.getUser(user.id!, { expectedStatus: 304 });
+
+      await other.patchUser(user.id!, ScimPatch.replace('title', 'Changed elsewhere').build(), { expectedStatus: 200 });
+      await writer.patchUser(user.id!, ScimPatch.replace('title', 'Overwrite').build(), { expectedStatus: 412 });
+
+      const { body: refreshed } = await writer.getUser(user.id!, { expectedStatus: 200 });
+      expect(writer.etags.get(path)).toBe(refreshed.meta?.version);
+      await writer.patchUser(user.id!, ScimPatch.replace('title', 'Overwrite').build(), { expectedStatus: 200 });
+    } finally {
+      await other.deleteUser(user.id!);
+    }
+  });
+
+  test('Bulk operations with a stale version fail with 412', async ({ request }) => {
+    const scim = new ScimClient(request, apiContext);
+    await requireCapabilities(scim, ['etag', 'bulk', 'patch']);
+
+    const { body: user } = await scim.createUser({ userName: `ETAG_BULK_${Date.now()}_${test.info().workerIndex}` }, { expectedStatus: 201 });
+    try {
+      await scim.patchUser(user.id!, ScimPatch.replace('title', 'Newer').build(), { expectedStatus: 200 });
+
+      const { body } = await scim.bulk(
+        ScimBulk.request().patch(`/Users/${user.id}`, ScimPatch.replace('title', 'Stale'), user.meta?.version).build(),
+        { expectedStatus: 200 }
+      );
+      expect(body.Operations[0].status).toBe('412');
+      expect(body.Operations[0].response.schemas).toContain(ScimSchemas.ERROR);
+    } finally {
+      await scim.deleteUser(user.id!);
+    }
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * SCIM ETag Helper Tests
+ *
+ * Checks entity tag parsing, weak comparison, version header checks and the
+ * per-resource ETag store in utils/scim-etag.ts
+ */
+
+import { test, expect } from '@playwright/test';
+import { ScimSchemas } from '../utils/api-config';
+import { checkVersionHeaders, etagMatches, isValidETag, parseETagList, ScimETagStore } from '../utils/scim-etag';
+
+const USERS = '/obscim/v2/Users';
+
+test.describe('SCIM ETag Helpers', () => {
+  test('Recognizes strong and weak entity tags', () => {
+    expect(isValidETag('"abc"')).toBe(true);
+    expect(isValidETag('W/"abc"')).toBe(true);
+    expect(isValidETag('abc')).toBe(false);
+    expect(isValidETag('w/"abc"')).toBe(false);
+    expect(isValidETag(undefined)).toBe(false);
+  });
+
+  test('Parses If-Match lists and compares weakly', () => {
+    expect(parseETagList('W/"1", "2" ,*')).toEqual(['W/"1"', '"2"', '*']);
+    expect(parseETagList(undefined)).toEqual([]);
+
+    expect(etagMatches('"1"', 'W/"1"')).toBe(true);
+    expect(etagMatches('W/"1", W/"2"', 'W/"2"')).toBe(true);
+    expect(etagMatches('*', 'W/"9"')).toBe(true);
+    expect(etagMatches('W/"1"', 'W/"2"')).toBe(false);
+    expect(etagMatches('*', undefined)).toBe(false);
+  });
+
+  test('Requires an ETag header that matches meta.version', () => {
+    const resource = (version?: string) => ({ schemas: [ScimSchemas.USER], id: '1', meta: { version } });
+
+    expect(checkVersionHeaders({ etag: 'W/"1"' }, resource('W/"1"'))).toEqual([]);
+    expect(checkVersionHeaders({ etag: 'W/"1"' }, undefined)).toEqual([]);
+    expect(checkVersionHeaders({}, resource())).toEqual(['ETag header is missing', 'meta.version is missing']);
+    expect(checkVersionHeaders({ ETag: '1' }, resource('W/"1"'))).toEqual([
+      'ETag header is not an entity tag: 1',
+      'meta.version W/"1" does not match the ETag header 1'
+    ]);
+    expect(checkVersionHeaders({ etag: 'W/"1"' }, resource('W/"2"'))).toEqual(['meta.version W/"2" does not match the ETag header W/"1"']);
+  });
+
+  test('Tracks versions by resource endpoint', () => {
+    const etags = new ScimETagStore();
+
+    etags.capture('POST', USERS, 201, { etag: 'W/"1"' }, { schemas: [ScimSchemas.USER], id: 'a b' });
+    expect(etags.get(`${USERS}/a%20b`)).toBe('W/"1"');
+
+    etags.capture('PATCH', `${USERS}/a%20b`, 200, {}, { schemas: [ScimSchemas.USER], id: 'a b', meta: { version: 'W/"2"' } });
+    expect(etags.get(`${USERS}/a%20b`)).toBe('W/"2"');
+
+    etags.capture('PUT', `${USERS}/a%20b`, 412, { etag: 'W/"3"' }, { schemas: [ScimSchemas.ERROR] });
+    etags.capture('POST', `${USERS}/.search`, 200, {}, { schemas: [ScimSchemas.LIST_RESPONSE], Resources: [] });
+    expect(etags.get(`${USERS}/a%20b`)).toBe('W/"2"');
+
+    etags.capture('DELETE', `${USERS}/a%20b`, 204, {}, undefined);
+    expect(etags.get(`${USERS}/a%20b`)).toBeUndefined();
+  });
+});
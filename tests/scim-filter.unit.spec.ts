@@ -0,0 +1,190 @@
+/**
+ * SCIM Filter Tests
+ *
+ * Covers the RFC 7644 §3.4.2.2 builder, parser, formatter and evaluator in utils/scim-filter.ts
+ */
+
+import { test, expect } from '@playwright/test';
+import {
+  FilterParseError,
+  ScimFilter,
+  evaluateFilter,
+  formatFilter,
+  parseFilter
+} from '../utils/scim-filter';
+import { buildListQuery, buildSearchRequest } from '../utils/scim-query';
+import { isOemEnvironment } from '../utils/api-config';
+import { getInstitutionId } from '../utils/db-config';
+
+const user = {
+  schemas: ['urn:ietf:params:scim:schemas:core:2.0:User'],
+  id: '106',
+  userName: 'USER1',
+  displayName: 'User "One"',
+  active: true,
+  name: { givenName: 'User', familyName: 'One' },
+  emails: [
+    { value: 'user1@example.com', type: 'work', primary: true },
+    { value: 'user1@home.example', type: 'home' }
+  ],
+  meta: { lastModified: '2025-01-15T10:00:00Z' }
+};
+
+test.describe('SCIM Filter Builder', () => {
+  test('Builds every comparison operator', () => {
+    const attr = ScimFilter.attr('userName');
+    expect(attr.eq('USER1').toString()).toBe('userName eq "USER1"');
+    expect(attr.ne('USER1').toString()).toBe('userName ne "USER1"');
+    expect(attr.co('SER').toString()).toBe('userName co "SER"');
+    expect(attr.sw('US').toString()).toBe('userName sw "US"');
+    expect(attr.ew('1').toString()).toBe('userName ew "1"');
+    expect(attr.pr().toString()).toBe('userName pr');
+    expect(ScimFilter.attr('meta.lastModified').gt('2025-01-01T00:00:00Z').toString())
+      .toBe('meta.lastModified gt "2025-01-01T00:00:00Z"');
+    expect(ScimFilter.attr('x').ge(1).toString()).toBe('x ge 1');
+    expect(ScimFilter.attr('x').lt(2.5).toString()).toBe('x lt 2.5');
+    expect(ScimFilter.attr('active').eq(true).toString()).toBe('active eq true');
+    expect(ScimFilter.attr('title').eq(null).toString()).toBe('title eq null');
+  });
+
+  test('Escapes quotes, backslashes and control characters', () => {
+    const filter = ScimFilter.attr('displayName').eq('O"Brien \\ line\nbreak').toString();
+    expect(filter).toBe('displayName eq "O\\"Brien \\\\ line\\nbreak"');
+    expect(parseFilter(filter)).toEqual({
+      type: 'compare',
+      attributePath: 'displayName',
+      operator: 'eq',
+      value: 'O"Brien \\ line\nbreak'
+    });
+  });
+
+  test('Combines with and/or/not and parenthesizes by precedence', () => {
+    const userName = ScimFilter.attr('userName').eq('USER1');
+    const active = ScimFilter.attr('active').eq(true);
+    const title = ScimFilter.attr('title').pr();
+
+    expect(userName.and(active).toString()).toBe('userName eq "USER1" and active eq true');
+    expect(userName.or(active).and(title).toString()).toBe('(userName eq "USER1" or active eq true) and title pr');
+    expect(ScimFilter.not(userName.or(active)).toString()).toBe('not (userName eq "USER1" or active eq true)');
+    expect(ScimFilter.and(userName, active, title).toString()).toBe('userName eq "USER1" and active eq true and title pr');
+  });
+
+  test('Builds value path filters', () => {
+    const filter = ScimFilter.attr('emails').where(
+      ScimFilter.attr('type').eq('work').and(ScimFilter.attr('value').co('@example.com'))
+    );
+    expect(filter.toString()).toBe('emails[type eq "work" and value co "@example.com"]');
+  });
+
+  test('Rejects invalid attribute paths', () => {
+    expect(() => ScimFilter.attr('user name')).toThrow(/Invalid attribute path/);
+  });
+});
+
+test.describe('SCIM Filter Parser', () => {
+  test('Parses and/or precedence, grouping and not', () => {
+    const ast = parseFilter('userName eq "a" or userName eq "b" and not (active eq false)');
+    expect(ast).toEqual({
+      type: 'logical',
+      operator: 'or',
+      left: { type: 'compare', attributePath: 'userName', operator: 'eq', value: 'a' },
+      right: {
+        type: 'logical',
+        operator: 'and',
+        left: { type: 'compare', attributePath: 'userName', operator: 'eq', value: 'b' },
+        right: { type: 'not', filter: { type: 'compare', attributePath: 'active', operator: 'eq', value: false } }
+      }
+    });
+  });
+
+  test('Parses operators and keywords case-insensitively', () => {
+    expect(formatFilter(parseFilter('userName EQ "USER1" AND title PR'))).toBe('userName eq "USER1" and title pr');
+  });
+
+  test('Parses URN-qualified attributes and value paths', () => {
+    const ast = parseFilter('urn:ietf:params:scim:schemas:core:2.0:User:userName sw "U" and emails[type eq "work"]');
+    expect(formatFilter(ast)).toBe('urn:ietf:params:scim:schemas:core:2.0:User:userName sw "U" and emails[type eq "work"]');
+  });
+
+  test('Round-trips the OEM search guide filters', () => {
+    for (const filter of [
+      'userName eq "USER1"',
+      'userName eq "TESTUSER1" and institutionid eq "101"',
+      'id eq "143" or id eq "2"'
+    ]) {
+      expect(formatFilter(parseFilter(filter))).toBe(filter);
+    }
+  });
+
+  const invalidFilters: [string, RegExp][] = [
+    ['userName eq "USER1', /Unterminated or invalid string/],
+    ['userName eq USER1', /strings must be quoted/],
+    ['userName equals "USER1"', /Unknown operator 'equals'/],
+    ['userName eq "a" and', /filter ended/],
+    ['(userName eq "a"', /Expected '\)'/],
+    ['emails[type eq "work"', /Expected '\]'/],
+    ['emails[type[value eq "x"]]', /cannot be nested/],
+    ['not userName eq "a"', /'\(' after not/],
+    ['', /empty/]
+  ];
+
+  for (const [filter, message] of invalidFilters) {
+    test(`Rejects malformed filter: ${filter || '(empty)'}`, () => {
+      expect(() => parseFilter(filter)).toThrow(FilterParseError);
+      expect(() => parseFilter(filter)).toThrow(message);
+      expect(ScimFilter.validate(filter)).toMatch(message);
+    });
+  }
+});
+
+test.describe('SCIM Filter Evaluator', () => {
+  const cases: [string, boolean][] = [
+    ['userName eq "user1"', true],
+    ['userName ne "USER1"', false],
+    ['displayName co "\\"One\\""', true],
+    ['userName sw "USE"', true],
+    ['userName ew "2"', false],
+    ['name.familyName eq "One"', true],
+    ['title pr', false],
+    ['emails pr', true],
+    ['emails eq "user1@example.com"', true],
+    ['emails.type eq "home"', true],
+    ['emails[type eq "work" and value ew "example.com"]', true],
+    ['emails[type eq "home" and primary eq true]', false],
+    ['meta.lastModified gt "2025-01-01T00:00:00Z"', true],
+    ['meta.lastModified lt "2025-01-01T00:00:00Z"', false],
+    ['urn:ietf:params:scim:schemas:core:2.0:User:userName eq "USER1"', true],
+    ['not (active eq false) and (id eq "1" or id eq "106")', true]
+  ];
+
+  for (const [filter, expected] of cases) {
+    test(`Evaluates ${filter} as ${expected}`, () => {
+      expect(evaluateFilter(filter, user)).toBe(expected);
+    });
+  }
+
+  test('Rejects ordering comparisons on booleans', () => {
+    expect(() => evaluateFilter('active gt true', user)).toThrow(FilterParseError);
+  });
+});
+
+test.describe('Environment-Aware Queries', () => {
+  test('Builds GET and POST .search filters from one source', () => {
+    const filter = ScimFilter.attr('userName').eq('USER1');
+    const query = buildListQuery(filter, { count: 10 });
+    const search = buildSearchRequest(filter);
+
+    expect(search.filter).toBe(query.filter);
+    expect(search.schemas).toEqual(['urn:ietf:params:scim:api:messages:2.0:SearchRequest']);
+    expect(query.count).toBe(10);
+
+    const institutionId = getInstitutionId();
+    if (isOemEnvironment() && institutionId) {
+      expect(query.filter).toBe(`userName eq "USER1" and institutionid eq "${institutionId}"`);
+      expect(search.attributes).toEqual(['displayName', 'userName']);
+    } else {
+      expect(query.filter).toBe('userName eq "USER1"');
+      expect(search.attributes).toBeUndefined();
+    }
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Test Data Fixture Tests
+ *
+ * Checks that the scimData fixture creates unique, realistic Users and Groups and deletes
+ * them after the test - groups before their members, and also when the test fails
+ */
+
+import { test, expect, createScimDataFactory } from '../utils/scim-fixtures';
+import { ProjectConfig } from '../utils/api-config';
+import { log } from '../utils/logger';
+
+test.describe('scimData Fixture', () => {
+  test('Creates users with unique, realistic attributes', async ({ scimData }) => {
+    const [first, second] = await scimData.createUsers(2);
+
+    expect(first.userName).not.toBe(second.userName);
+    expect(first.userName).toMatch(/^SCIMDATA_/);
+    expect(first.emails?.find(email => email.primary)?.value).toBe(`${first.userName.toLowerCase()}@example.com`);
+    expect(first.name?.givenName).toBeTruthy();
+    expect(first.active).toBe(true);
+
+    const { body } = await scimData.scim.getUser(first.id!, { expectedStatus: 200 });
+    expect(body.userName).toBe(first.userName);
+    expect(scimData.registry.resources.map(resource => resource.id)).toEqual([first.id, second.id]);
+    log.info(`Created ${first.userName} and ${second.userName}`);
+  });
+
+  test('Creates groups with members', async ({ scimData }) => {
+    const users = await scimData.createUsers(2);
+    const group = await scimData.createGroup({}, users);
+
+    const { body } = await scimData.scim.getGroup(group.id!, { expectedStatus: 200 });
+    expect(body.members?.map(member => member.value).sort()).toEqual(users.map(user => user.id).sort());
+    expect(scimData.registry.resources.map(resource => resource.kind)).toEqual(['User', 'User', 'Group']);
+  });
+
+  test('Cleanup deletes everything and tolerates resources the test already deleted', async ({ request }) => {
+    const factory = await createScimDataFactory(request);
+    const user = await factory.createUser();
+    const deletedByTest = await factory.createUser();
+    const group = await factory.createGroup({}, [user, deletedByTest]);
+    await factory.scim.deleteUser(deletedByTest.id!, { expectedStatus: 204 });
+
+    expect(await factory.cleanup()).toEqual([]);
+    await factory.scim.getGroup(group.id!, { expectedStatus: 404 });
+    await factory.scim.getUser(user.id!, { expectedStatus: 404 });
+    log.info('Group and remaining user deleted');
+  });
+
+  test('Database-created users need a real environment', async ({ scimData }) => {
+    if (ProjectConfig.localServer.enabled) {
+      await expect(scimData.createUser({}, { source: 'database' })).rejects.toThrow('needs a real environment');
+      return;
+    }
+    const user = await scimData.createUser({}, { source: 'database' });
+    expect(scimData.registry.resources).toEqual([expect.objectContaining({ id: user.id, source: 'database' })]);
+  });
+});
+
+test.describe('scimData Fixture cleanup after a failure', () => {
+  test.describe.configure({ mode: 'serial' });
+  let createdIds: { user: string; group: string } | undefined;
+
+  test('Failing test leaves its data to the fixture', async ({ scimData }) => {
+    test.fail();
+    const user = await scimData.createUser();
+    const group = await scimData.createGroup({}, [user]);
+    createdIds = { user: user.id!, group: group.id! };
+    expect(user.userName, 'Intentional failure').toBe('');
+  });
+
+  test('Data from the failed test was deleted', async ({ scimData }) => {
+    expect(createdIds).toBeDefined();
+    await scimData.scim.getGroup(createdIds!.group, { expectedStatus: 404 });
+    await scimData.scim.getUser(createdIds!.user, { expectedStatus: 404 });
+  });
+});
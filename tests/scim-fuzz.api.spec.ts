@@ -0,0 +1,123 @@
+/**
+ * Property-Based Fuzzing Tests
+ *
+ * Creates Users and Groups from generated payloads (utils/scim-fuzz.ts) and checks after every
+ * request: no 5xx, a rejected payload gets a valid SCIM Error, a GET returns what was written,
+ * and a filter built from a resource finds it. A failing input is shrunk, saved to fuzz-seeds/
+ * and replayed on every run; SCIM_FUZZ_SEED regenerates a whole run.
+ */
+
+import { ScimDataFactory, test } from '../utils/scim-fixtures';
+import { ScimResponse } from '../utils/scim-client';
+import { isReplayMode } from '../utils/scim-cassette';
+import { checkScimError } from '../utils/scim-errors';
+import { FilterExpression, ScimFilter } from '../utils/scim-filter';
+import {
+  Arbitrary,
+  checkProperty,
+  filterFor,
+  formatCounterexample,
+  Fuzz,
+  fuzzGroup,
+  fuzzMaxLength,
+  fuzzOptionsFromEnv,
+  FuzzRandom,
+  fuzzUser,
+  roundTripDifferences
+} from '../utils/scim-fuzz';
+import { buildSearchRequest } from '../utils/scim-query';
+import { ScimUser } from '../utils/scim-types';
+import { log } from '../utils/logger';
+
+// Room left in maximum-length names for the unique prefix
+const PREFIX_LENGTH = 64;
+const MAX_FILTER_DEPTH = 8;
+
+/**
+ * Accepted (with the given status) or rejected with a valid SCIM Error; never a 5xx
+ */
+function checkResponse(response: ScimResponse, description: string, acceptedStatus: number): boolean {
+  if (response.status >= 500) throw new Error(`${description} returned ${response.status}: ${JSON.stringify(response.body)}`);
+  if (response.status === acceptedStatus) return true;
+  const violations = checkScimError(response.status, response.body);
+  if (response.status < 400 || violations.length > 0) {
+    throw new Error(`${description} returned ${response.status} without a valid SCIM Error: ${[...violations, JSON.stringify(response.body)].join('; ')}`);
+  }
+  return false;
+}
+
+async function createFuzzUser(data: ScimDataFactory, fragment: Partial<ScimUser>): Promise<{ written: Partial<ScimUser>; id?: string }> {
+  const written = { ...fragment, userName: `${data.uniqueName('FUZZ')}_${fragment.userName}` };
+  const response = await data.scim.createUser(written);
+  if (response.status === 201) data.track('User', response.body.id!, response.body.userName);
+  return { written, id: checkResponse(response, 'POST /Users', 201) ? response.body.id : undefined };
+}
+
+async function runProperty<T>(data: ScimDataFactory, name: string, arbitrary: Arbitrary<T>, property: (value: T) => Promise<void>): Promise<void> {
+  const options = fuzzOptionsFromEnv();
+  test.info().annotations.push({ type: 'fuzz seed', description: `SCIM_FUZZ_SEED=${options.seed} (${options.runs} runs)` });
+
+  const result = await checkProperty(name, arbitrary, property, options);
+  if (result.counterexample) {
+    await test.info().attach('counterexample.json', { body: JSON.stringify(result.counterexample, null, 2), contentType: 'application/json' });
+    throw new Error(formatCounterexample(result.counterexample, result.file));
+  }
+  log.info(`${name}: ${result.runs} runs (seed ${options.seed})`);
+}
+
+test.describe('SCIM Property-Based Fuzzing', () => {
+  test.beforeEach(() => {
+    test.skip(isReplayMode(), 'Generated requests are not in the cassettes (SCIM_MODE=replay)');
+  });
+
+  test('User payloads round-trip', async ({ scimData }) => {
+    await runProperty(scimData, 'User payloads round-trip', fuzzUser(fuzzMaxLength() - PREFIX_LENGTH), async user => {
+      const { written, id } = await createFuzzUser(scimData, user);
+      if (!id) return;
+
+      const read = await scimData.scim.getUser(id);
+      checkResponse(read, `GET /Users/${id}`, 200);
+      const differences = roundTripDifferences(written, read.body);
+      if (differences.length > 0) throw new Error(`GET /Users/${id} does not return what was written: ${differences.join('; ')}`);
+    });
+  });
+
+  test('Group payloads round-trip', async ({ scimData }) => {
+    await runProperty(scimData, 'Group payloads round-trip', fuzzGroup(fuzzMaxLength() - PREFIX_LENGTH), async ({ group, withMember }) => {
+      const written = {
+        ...group,
+        displayName: `${scimData.uniqueName('FUZZGROUP')}_${group.displayName}`,
+        ...(withMember ? { members: [{ value: (await scimData.createUser()).id! }] } : {})
+      };
+      const response = await scimData.scim.createGroup(written);
+      if (response.status === 201) scimData.track('Group', response.body.id!, response.body.displayName);
+      if (!checkResponse(response, 'POST /Groups', 201)) return;
+
+      const read = await scimData.scim.getGroup(response.body.id!);
+      checkResponse(read, `GET /Groups/${response.body.id}`, 200);
+      const differences = roundTripDifferences(written, read.body);
+      if (differences.length > 0) throw new Error(`GET /Groups/${response.body.id} does not return what was written: ${differences.join('; ')}`);
+    });
+  });
+
+  test('Filters match the resource they were built from', async ({ scimData }) => {
+    const input = Fuzz.record({
+      user: fuzzUser(fuzzMaxLength() - PREFIX_LENGTH),
+      filterSeed: Fuzz.integer(0, 2 ** 31 - 1),
+      depth: Fuzz.integer(0, MAX_FILTER_DEPTH)
+    });
+    await runProperty(scimData, 'Filters match the resource they were built from', input, async ({ user, filterSeed, depth }) => {
+      const { id } = await createFuzzUser(scimData, user);
+      if (!id) return;
+      const { body: resource } = await scimData.scim.getUser(id);
+
+      // The userName conjunct keeps the result to this one User; the generated filter decides whether it is found
+      const filter = new FilterExpression(filterFor(resource, new FuzzRandom(filterSeed), depth)).and(ScimFilter.attr('userName').eq(resource.userName));
+      const search = await scimData.scim.searchUsers(buildSearchRequest(filter));
+      checkResponse(search, 'POST /Users/.search', 200);
+      if (!search.body.Resources?.some(found => found.id === id)) {
+        throw new Error(`POST /Users/.search does not find User ${id} with ${filter}`);
+      }
+    });
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Property-Based Fuzzing Tests
+ *
+ * Checks the seeded generators, the filters built from a resource, shrinking and the saved
+ * counterexamples in utils/scim-fuzz.ts, with properties that make no HTTP calls
+ */
+
+import { test, expect } from '@playwright/test';
+import { evaluateFilter, formatFilter, parseFilter } from '../utils/scim-filter';
+import {
+  checkProperty,
+  filterFor,
+  formatCounterexample,
+  Fuzz,
+  FuzzOptions,
+  fuzzOptionsFromEnv,
+  FuzzRandom,
+  fuzzUser,
+  readCounterexamples,
+  roundTripDifferences
+} from '../utils/scim-fuzz';
+import { withEnv } from './unit-helpers';
+
+function options(overrides: Partial<FuzzOptions> = {}): FuzzOptions {
+  return { runs: 50, seed: 42, maxShrinks: 500, seedsDir: test.info().outputPath('fuzz-seeds'), ...overrides };
+}
+
+test.describe('Property-Based Fuzzing', () => {
+  test('Generates the same inputs from the same seed', async () => {
+    const users = fuzzUser(255);
+    const first = Array.from({ length: 5 }, (_, run) => users.generate(new FuzzRandom(run), 50));
+    const second = Array.from({ length: 5 }, (_, run) => users.generate(new FuzzRandom(run), 50));
+    expect(second).toEqual(first);
+    expect(new Set(first.map(user => user.userName)).size).toBe(5);
+  });
+
+  test('Uses a fixed seed unless a seed or "random" is given', async () => {
+    const seed = (value: string | undefined) => withEnv({ SCIM_FUZZ_SEED: value }, fuzzOptionsFromEnv).seed;
+    expect(seed(undefined)).toBe(seed(''));
+    expect(seed(undefined)).toBe(seed(undefined));
+    expect(seed('42')).toBe(42);
+    expect(new Set(Array.from({ length: 5 }, () => seed('random'))).size).toBeGreaterThan(1);
+    expect(() => seed('soon')).toThrow('SCIM_FUZZ_SEED must be a whole number >= 0, got "soon"');
+  });
+
+  test('Generates text within its length from every pool', async () => {
+    const random = new FuzzRandom(7);
+    const values = Array.from({ length: 300 }, () => Fuzz.text({ minLength: 2, maxLength: 20 }).generate(random, 100));
+    for (const value of values) {
+      expect(Array.from(value).length).toBeGreaterThanOrEqual(2);
+      expect(Array.from(value).length).toBeLessThanOrEqual(20);
+    }
+    expect(values.some(value => Array.from(value).length === 20), 'maximum length').toBe(true);
+    expect(values.some(value => /[\u0590-\u06ff]/.test(value)), 'RTL').toBe(true);
+    expect(values.some(value => /["\\]/.test(value)), 'quotes and backslashes').toBe(true);
+    expect(values.some(value => /[^\u0000-\u007f]/u.test(value) && !/[\u0590-\u06ff]/.test(value)), 'other unicode').toBe(true);
+  });
+
+  test('Builds filters of any depth that match the resource they were built from', async () => {
+    const users = fuzzUser(40);
+    for (let seed = 0; seed < 200; seed++) {
+      const random = new FuzzRandom(seed);
+      const user = { ...users.generate(random, 100), userName: `FUZZ_${seed}` };
+      const depth = random.int(0, 8);
+      const filter = filterFor(user, random, depth);
+      const text = formatFilter(filter);
+      expect(evaluateFilter(filter, user), `seed ${seed}: ${text}`).toBe(true);
+      expect(evaluateFilter(parseFilter(text), user), `seed ${seed} formatted: ${text}`).toBe(true);
+      expect(evaluateFilter(filterFor(user, random, depth, false), user), `seed ${seed}: false filter`).toBe(false);
+    }
+  });
+
+  test('Shrinks a failing input to a minimal case', async () => {
+    const result = await checkProperty('no quote', Fuzz.text({ maxLength: 50 }), async value => {
+      if (value.includes('"')) throw new Error(`contains a quote: ${value}`);
+    }, options());
+
+    expect(result.counterexample).toMatchObject({ property: 'no quote', seed: 42, value: '"', error: 'contains a quote: "' });
+    expect(result.counterexample!.original).not.toBe('"');
+    expect(formatCounterexample(result.counterexample!, result.file)).toContain('regenerate the sequence with SCIM_FUZZ_SEED=42');
+
+    const record = Fuzz.record<{ name?: string; count: number }>({ name: Fuzz.text({ maxLength: 10 }), count: Fuzz.integer(0, 1000) }, ['name']);
+    const shrunk = await checkProperty('small count', record, async ({ count }) => {
+      if (count >= 10) throw new Error('count >= 10');
+    }, options());
+    expect(shrunk.counterexample!.value).toEqual({ count: 10 });
+  });
+
+  test('Saves counterexamples and replays them first', async () => {
+    const settings = options();
+    let calls = 0;
+    const failing = await checkProperty('short text', Fuzz.text({ maxLength: 30 }), async value => {
+      calls++;
+      if (Array.from(value).length > 3) throw new Error('too long');
+    }, settings);
+    expect(failing.counterexample!.value).toBe('aaaa');
+    expect(readCounterexamples('short text', settings.seedsDir).map(({ counterexample }) => counterexample.value)).toEqual(['aaaa']);
+
+    // A later run with another seed replays the saved input before generating anything
+    calls = 0;
+    const replayed = await checkProperty('short text', Fuzz.text({ maxLength: 30 }), async value => {
+      calls++;
+      if (Array.from(value).length > 3) throw new Error('still too long');
+    }, { ...settings, seed: 1 });
+    expect(calls).toBe(1);
+    expect(replayed.counterexample).toMatchObject({ value: 'aaaa', error: 'still too long', replayed: failing.file });
+
+    // Once fixed, the replay passes and the runs go ahead
+    expect(await checkProperty('short text', Fuzz.text({ maxLength: 30 }), async () => {}, { ...settings, runs: 5 })).toEqual({ runs: 5 });
+  });
+
+  test('Lists values that do not round-trip', async () => {
+    const written = { userName: 'a"b', name: { givenName: 'שלום' }, active: false, emails: [{ value: '"q"@example.com', type: 'work' }] };
+    expect(roundTripDifferences(written, {
+      id: '1', userName: 'a"b', name: { givenName: 'שלום', familyName: 'x' }, active: false,
+      emails: [{ value: 'other@example.com' }, { value: '"q"@example.com', type: 'work', primary: false }]
+    })).toEqual([]);
+    expect(roundTripDifferences(written, { userName: 'a\\"b', name: {}, active: 'false', emails: [{ value: 'q@example.com', type: 'work' }] })).toEqual([
+      'userName: wrote "a\\"b", read "a\\\\\\"b"',
+      'name.givenName: wrote "שלום", read undefined',
+      'active: wrote false, read "false"',
+      'emails[0]: {"value":"\\"q\\"@example.com","type":"work"} is missing from [{"value":"q@example.com","type":"work"}]'
+    ]);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Latency Budget and Trend Tests
+ *
+ * Checks operation naming, budgets, the history file and regression detection in utils/scim-latency.ts
+ */
+
+import { test, expect } from '@playwright/test';
+import fs from 'fs';
+import {
+  LatencyRun,
+  latencyBudget,
+  latencyOperation,
+  LatencyTracker,
+  latencyTrendHtml,
+  latencyTrends,
+  overBudget,
+  readLatencyHistory,
+  readLatencySamples,
+  recordLatencySamples,
+  saveLatencyRun,
+  summarizeLatency
+} from '../utils/scim-latency';
+
+const OPTIONS = { baselineRuns: 3, minBaselineRuns: 2, thresholdPct: 25, minDeltaMs: 50 };
+
+function run(startedAt: string, medians: Record<string, number>, variant: string = 'scim-oem'): LatencyRun {
+  return {
+    startedAt,
+    variant,
+    operations: Object.fromEntries(Object.entries(medians).map(([operation, median]) => [operation, { count: 10, median, p95: median * 2 }]))
+  };
+}
+
+test.describe('Latency Budgets and Trends', () => {
+  test('Names operations by method and path below the base path', async () => {
+    expect(latencyOperation('get', '/obscim/v2/Users/106')).toBe('GET /Users/{id}');
+    expect(latencyOperation('GET', '/ApiServer/onbase/SCIM/v2/Users?filter=x')).toBe('GET /Users');
+    expect(latencyOperation('POST', '/obscim/v2/Users/.search')).toBe('POST /Users/.search');
+    expect(latencyOperation('PATCH', '/ApiServer/onbase/SCIM/v2/Groups/3')).toBe('PATCH /Groups/{id}');
+    expect(latencyOperation('GET', '/obscim/v2/ServiceProviderConfig')).toBe('GET /ServiceProviderConfig');
+  });
+
+  test('Tracks samples only while a test runs', async () => {
+    const tracker = new LatencyTracker();
+    tracker.record('GET', '/obscim/v2/Users', 200, 5);
+    tracker.startTest();
+    tracker.record('DELETE', '/obscim/v2/Users/7', 204, 12);
+    expect(tracker.endTest()).toEqual([{ operation: 'DELETE /Users/{id}', status: 204, durationMs: 12 }]);
+    expect(tracker.endTest()).toEqual([]);
+  });
+
+  test('Checks samples against the profile budgets', async () => {
+    const profile = { latencyBudgets: { '*': 2000, 'GET /Users': 4000 } };
+    expect(latencyBudget('GET /Users', profile)).toBe(4000);
+    expect(latencyBudget('GET /Users/{id}', profile)).toBe(2000);
+    expect(latencyBudget('GET /Users', {})).toBeUndefined();
+    expect(overBudget([
+      { operation: 'GET /Users', status: 200, durationMs: 3000 },
+      { operation: 'GET /Users/{id}', status: 200, durationMs: 2500 }
+    ], profile)).toEqual(['GET /Users/{id} took 2500ms (budget 2000ms)']);
+  });
+
+  test('Summarizes run samples and keeps one history entry per run', async () => {
+    const samplesFile = test.info().outputPath('samples.jsonl');
+    recordLatencySamples([
+      { operation: 'GET /Users', status: 200, durationMs: 30 },
+      { operation: 'GET /Users', status: 200, durationMs: 10 },
+      { operation: 'GET /Users', status: 200, durationMs: 20 }
+    ], samplesFile);
+    recordLatencySamples([{ operation: 'POST /Users', status: 201, durationMs: 40 }], samplesFile);
+    expect(summarizeLatency(readLatencySamples(samplesFile))).toEqual({
+      'GET /Users': { count: 3, median: 20, p95: 30 },
+      'POST /Users': { count: 1, median: 40, p95: 40 }
+    });
+
+    const historyFile = test.info().outputPath('history', 'latency-history.json');
+    saveLatencyRun(run('2026-01-01T00:00:00.000Z', { 'GET /Users': 20 }), historyFile);
+    saveLatencyRun(run('2026-01-02T00:00:00.000Z', { 'GET /Users': 25 }), historyFile);
+    // A retried trend test saves the same run again
+    saveLatencyRun(run('2026-01-02T00:00:00.000Z', { 'GET /Users': 30 }), historyFile);
+    expect(readLatencyHistory(historyFile).map(entry => entry.operations['GET /Users'].median)).toEqual([20, 30]);
+
+    fs.writeFileSync(historyFile, '[]');
+    expect(() => readLatencyHistory(historyFile)).toThrow('expected { "runs": [...] }');
+  });
+
+  test('Flags medians that grew past the rolling baseline', async () => {
+    const history = [
+      run('2026-01-01', { 'GET /Users': 900, 'GET /Users/{id}': 10 }),
+      run('2026-01-02', { 'GET /Users': 200, 'GET /Users/{id}': 10 }),
+      run('2026-01-03', { 'GET /Users': 210, 'GET /Users/{id}': 12 }),
+      run('2026-01-04', { 'GET /Users': 190, 'GET /Users/{id}': 11 }),
+      run('2026-01-04', { 'GET /Users': 5000 }, 'scim-local')
+    ];
+    const current = run('2026-01-05', { 'GET /Users': 300, 'GET /Users/{id}': 30, 'POST /Users': 100 });
+
+    expect(latencyTrends(current, [...history, current], OPTIONS)).toEqual([
+      // Baseline: median of the last 3 runs of the same variant (200, 210, 190)
+      { operation: 'GET /Users', median: 300, baseline: 200, changePct: 50, regressed: true },
+      // +172.7%, but only 19ms slower
+      { operation: 'GET /Users/{id}', median: 30, baseline: 11, changePct: 172.7, regressed: false },
+      // No history yet
+      { operation: 'POST /Users', median: 100, regressed: false }
+    ]);
+    expect(latencyTrends(current, history.slice(3), OPTIONS).every(trend => trend.baseline === undefined)).toBe(true);
+  });
+
+  test('Renders the trend table with regressions highlighted', async () => {
+    const current = run('2026-01-05', { 'GET /Users': 300, 'POST /Users/<script>': 20 });
+    const html = latencyTrendHtml(current, [
+      { operation: 'GET /Users', median: 300, baseline: 200, changePct: 50, regressed: true },
+      { operation: 'POST /Users/<script>', median: 20, regressed: false }
+    ]);
+    expect(html).toContain('<tr class="regressed"><td>GET /Users</td><td>10</td><td>300ms</td><td>600ms</td><td>200ms</td><td>+50%</td><td>REGRESSED</td></tr>');
+    expect(html).toContain('<td>POST /Users/&lt;script&gt;</td>');
+  });
+});
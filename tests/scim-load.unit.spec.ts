@@ -0,0 +1,159 @@
+/**
+ * Load Harness Tests
+ *
+ * Checks percentiles, per-operation statistics, thresholds, option parsing and both load
+ * models in utils/scim-load.ts, with scenarios that make no HTTP calls
+ */
+
+import { test, expect } from '@playwright/test';
+import { ScimClient, ScimResponse } from '../utils/scim-client';
+import { ScimDataFactory } from '../utils/scim-fixtures';
+import { percentile } from '../utils/scim-latency';
+import {
+  assertLoadThresholds,
+  checkLoadThresholds,
+  LoadReport,
+  LoadScenario,
+  LoadScenarios,
+  loadOptionsFromEnv,
+  parseDuration,
+  runLoad,
+  selectedLoadScenarios,
+  summarizeSamples
+} from '../utils/scim-load';
+import { withEnv } from './unit-helpers';
+
+const scim = {} as ScimClient;
+const data = {} as ScimDataFactory;
+
+function response(status: number, durationMs: number): ScimResponse {
+  return { status, durationMs, headers: {}, body: undefined, response: undefined as any };
+}
+
+function report(overrides: Partial<LoadReport['operations'][number]>): LoadReport {
+  return {
+    scenario: 'listUsers',
+    mode: '4 virtual users',
+    elapsedMs: 1000,
+    iterations: 100,
+    dropped: 0,
+    operations: [{ operation: 'listUsers', count: 100, errors: 0, errorRate: 0, throughput: 100, p50: 10, p95: 20, p99: 30, max: 40, errorSamples: [], ...overrides }]
+  };
+}
+
+test.describe('Load Harness', () => {
+  test('Computes nearest-rank percentiles', async () => {
+    const values = Array.from({ length: 100 }, (_, index) => 100 - index);
+    expect(percentile(values, 50)).toBe(50);
+    expect(percentile(values, 95)).toBe(95);
+    expect(percentile(values, 99)).toBe(99);
+    expect(percentile([7], 99)).toBe(7);
+    expect(percentile([], 50)).toBe(0);
+  });
+
+  test('Summarizes samples per operation', async () => {
+    const stats = summarizeSamples([
+      { operation: 'listUsers', durationMs: 10, status: 200 },
+      { operation: 'createUser', durationMs: 30, status: 201 },
+      { operation: 'createUser', durationMs: 50, status: 409, error: '409 (expected 201)' }
+    ], 2000);
+    expect(stats.map(({ operation, count, errors, errorRate, throughput, p50, max, errorSamples }) => ({ operation, count, errors, errorRate, throughput, p50, max, errorSamples }))).toEqual([
+      { operation: 'createUser', count: 2, errors: 1, errorRate: 0.5, throughput: 1, p50: 30, max: 50, errorSamples: ['409 (expected 201)'] },
+      { operation: 'listUsers', count: 1, errors: 0, errorRate: 0, throughput: 0.5, p50: 10, max: 10, errorSamples: [] }
+    ]);
+  });
+
+  test('Reports every crossed threshold', async () => {
+    const thresholds = { '*': { p95: 50, maxErrorRate: 0.01 }, listUsers: { p99: 25, minThroughput: 200 } };
+    expect(checkLoadThresholds(report({}), thresholds)).toEqual([
+      'listUsers: p99 30ms > 25ms',
+      'listUsers: throughput 100/s < 200/s'
+    ]);
+    expect(checkLoadThresholds(report({ operation: 'searchUsers', errorRate: 0.05, errorSamples: ['500'] }), thresholds))
+      .toEqual(['searchUsers: error rate 5% > 1% (500)']);
+    expect(() => assertLoadThresholds(report({}), { '*': { p95: 100 } })).not.toThrow();
+    expect(() => assertLoadThresholds(report({}), thresholds)).toThrow(/listUsers: 2 load thresholds crossed\n {2}listUsers: p99 30ms > 25ms\n[\s\S]*operation +count/);
+  });
+
+  test('Reads load options from the environment', async () => {
+    expect(parseDuration('500ms')).toBe(500);
+    expect(parseDuration('30s')).toBe(30000);
+    expect(parseDuration('2m')).toBe(120000);
+    expect(parseDuration('1500')).toBe(1500);
+    expect(() => parseDuration('soon')).toThrow('Invalid duration "soon"');
+
+    const env = { SCIM_LOAD_DURATION: undefined, SCIM_LOAD_CONCURRENCY: undefined, SCIM_LOAD_RATE: undefined, SCIM_LOAD_MAX_IN_FLIGHT: undefined };
+    expect(withEnv(env, loadOptionsFromEnv)).toEqual({ durationMs: 2000, concurrency: 4 });
+    expect(withEnv({ ...env, SCIM_LOAD_DURATION: '1m', SCIM_LOAD_RATE: '25', SCIM_LOAD_MAX_IN_FLIGHT: '10' }, loadOptionsFromEnv))
+      .toEqual({ durationMs: 60000, arrivalRate: 25, maxInFlight: 10 });
+    expect(() => withEnv({ ...env, SCIM_LOAD_CONCURRENCY: '0' }, loadOptionsFromEnv)).toThrow('SCIM_LOAD_CONCURRENCY must be a positive number');
+
+    expect(selectedLoadScenarios('listUsers, groupMembership').map(scenario => scenario.name)).toEqual(['listUsers', 'groupMembership']);
+    expect(() => selectedLoadScenarios('listUsers,soak')).toThrow('Unknown load scenario "soak"');
+  });
+
+  test('Keeps a fixed number of virtual users busy', async () => {
+    let running = 0;
+    let peak = 0;
+    const slots = new Set<number>();
+    const scenario: LoadScenario<string> = {
+      name: 'closed',
+      setup: async (_, count) => `setup for ${count}`,
+      iteration: async ({ state, slot, measure }) => {
+        expect(state).toBe('setup for 3');
+        slots.add(slot);
+        running++;
+        peak = Math.max(peak, running);
+        await new Promise(resolve => setTimeout(resolve, 20));
+        running--;
+        await measure('ok', async () => response(200, 20));
+        await measure('failing', async () => response(500, 5));
+      }
+    };
+
+    const result = await runLoad(scim, data, scenario, { durationMs: 200, concurrency: 3 });
+    expect(peak).toBe(3);
+    expect([...slots].sort()).toEqual([0, 1, 2]);
+    expect(result.iterations).toBeGreaterThanOrEqual(9);
+    expect(result.operations.find(stats => stats.operation === 'ok')!.errorRate).toBe(0);
+    expect(result.operations.find(stats => stats.operation === 'failing')).toMatchObject({ errorRate: 1, errorSamples: expect.arrayContaining(['500']) });
+  });
+
+  test('Starts iterations at the arrival rate and drops them when every slot is busy', async () => {
+    const scenario: LoadScenario = {
+      name: 'open',
+      iteration: async ({ measure }) => {
+        await measure('slow', async () => {
+          await new Promise(resolve => setTimeout(resolve, 150));
+          return response(200, 150);
+        }, 200);
+      }
+    };
+
+    const result = await runLoad(scim, data, scenario, { durationMs: 300, arrivalRate: 40, maxInFlight: 2 });
+    expect(result.iterations + result.dropped).toBe(12);
+    expect(result.iterations).toBeLessThanOrEqual(6);
+    expect(result.dropped).toBeGreaterThan(0);
+    expect(result.elapsedMs).toBeGreaterThanOrEqual(300);
+
+    await expect(runLoad(scim, data, scenario, { durationMs: 100, arrivalRate: 0 })).rejects.toThrow('Invalid load options');
+  });
+
+  test('Stops a createDeleteUser iteration whose create fails', async () => {
+    const calls: string[] = [];
+    const failingScim = {
+      createUser: async () => { calls.push('create'); return { ...response(409, 5), body: { status: '409', detail: 'userName is taken' } }; },
+      deleteUser: async (id: string) => { calls.push(`delete ${id}`); return response(204, 5); }
+    } as unknown as ScimClient;
+    const trackingData = {
+      userAttributes: () => ({ userName: 'LOADUSER' }),
+      track: (_: string, id: string) => calls.push(`track ${id}`),
+      forget: (_: string, id: string) => calls.push(`forget ${id}`)
+    } as unknown as ScimDataFactory;
+
+    const result = await runLoad(failingScim, trackingData, LoadScenarios.createDeleteUser, { durationMs: 50, concurrency: 1 });
+    expect(new Set(calls)).toEqual(new Set(['create']));
+    expect(result.operations.map(stats => stats.operation)).toEqual(['createUser']);
+    expect(result.operations[0]).toMatchObject({ errorRate: 1, errorSamples: expect.arrayContaining(['409 (expected 201)']) });
+  });
+});
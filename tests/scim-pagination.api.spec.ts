@@ -0,0 +1,98 @@
+/**
+ * SCIM Pagination Tests
+ *
+ * Walks ListResponse endpoints page by page with utils/scim-pagination.ts,
+ * checking ids never repeat and page sizes add up to totalResults.
+ */
+
+import { test, expect } from '../utils/scim-fixtures';
+import { createApiTestContext, ApiTestContext, ProjectConfig } from '../utils/api-config';
+import { ScimClient } from '../utils/scim-client';
+import { checkPagingEdgeCases, collectAll, paginate, ScimPages } from '../utils/scim-pagination';
+import { ScimFilter } from '../utils/scim-filter';
+import { ScimListQuery, ScimListResponse, ScimUser } from '../utils/scim-types';
+import { log } from '../utils/logger';
+
+const PAGED_USER_COUNT = 23;
+
+test.describe('SCIM Pagination', () => {
+  let apiContext: ApiTestContext;
+  let query: ScimListQuery;
+  const createdIds: string[] = [];
+
+  test.beforeAll(async ({ request }, testInfo) => {
+    apiContext = await createApiTestContext(request);
+    // beforeAll runs once per worker, so each worker pages through its own users;
+    // filtering on the prefix keeps parallel specs from shifting totalResults mid-walk
+    const prefix = `PAGED_${testInfo.workerIndex}_${Date.now()}_`;
+    query = { filter: ScimFilter.attr('userName').sw(prefix).toString() };
+    const scim = new ScimClient(request, apiContext);
+
+    for (let i = 1; i <= PAGED_USER_COUNT; i++) {
+      const { body } = await scim.createUser(
+        { userName: `${prefix}${String(i).padStart(2, '0')}`, displayName: `Paged User ${i}` },
+        { expectedStatus: 201 }
+      );
+      createdIds.push(body.id!);
+    }
+    log.info(`Created ${createdIds.length} users with prefix ${prefix}`);
+  });
+
+  test.afterAll(async ({ request }) => {
+    const scim = new ScimClient(request, apiContext);
+    for (const id of createdIds) {
+      await scim.deleteUser(id);
+    }
+  });
+
+  for (const count of [1, 5, 7, 23, 50]) {
+    test(`Walks every page of GET /Users with count=${count}`, async ({ request }) => {
+      const scim = new ScimClient(request, apiContext);
+      const pageSizes: number[] = [];
+
+      for await (const page of paginate(ScimPages.users(scim, query), { count })) {
+        pageSizes.push(page.itemsPerPage);
+        expect(page.totalResults).toBe(PAGED_USER_COUNT);
+      }
+
+      expect(pageSizes).toHaveLength(Math.ceil(PAGED_USER_COUNT / count));
+      log.info(`count=${count}: page sizes ${pageSizes.join(', ')}`);
+    });
+  }
+
+  test('Walks POST /Users/.search and returns the same users as GET', async ({ request }) => {
+    const scim = new ScimClient(request, apiContext);
+
+    const listed = await collectAll(ScimPages.users(scim, query), { count: 4 });
+    const searched = await collectAll(ScimPages.searchUsers(scim, query), { count: 6 });
+
+    expect(listed.map(user => user.id).sort()).toEqual([...createdIds].sort());
+    expect(searched.map(user => user.id).sort()).toEqual([...createdIds].sort());
+  });
+
+  test('Starts from a later startIndex', async ({ request }) => {
+    const scim = new ScimClient(request, apiContext);
+
+    const remaining = await collectAll(ScimPages.users(scim, query), { startIndex: 11, count: 5 });
+    expect(remaining).toHaveLength(PAGED_USER_COUNT - 10);
+  });
+
+  test('Pages both the SCIM and API Server base paths', async ({ request }) => {
+    const scim = new ScimClient(request, apiContext);
+
+    for (const basePath of [ProjectConfig.api.endpoints.scim, ProjectConfig.api.endpoints.apiserver]) {
+      const users = await collectAll<ScimUser>(
+        page => scim.send<ScimListResponse<ScimUser>>('GET', `${basePath}/Users`, { query: { ...query, ...page } }),
+        { count: 10 }
+      );
+      expect(users).toHaveLength(PAGED_USER_COUNT);
+    }
+  });
+
+  test('Handles out-of-range startIndex and zero/negative count', async ({ request }) => {
+    const scim = new ScimClient(request, apiContext);
+
+    await checkPagingEdgeCases(ScimPages.users(scim, query));
+    await checkPagingEdgeCases(ScimPages.searchUsers(scim, query));
+  });
+});
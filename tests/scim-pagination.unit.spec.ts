@@ -0,0 +1,97 @@
+/**
+ * SCIM Pagination Consistency Tests
+ *
+ * Feeds utils/scim-pagination.ts deliberately broken pages to check each problem is caught
+ */
+
+import { test, expect } from '@playwright/test';
+import { ScimSchemas } from '../utils/api-config';
+import { checkPagingEdgeCases, collectAll, ListPageFetcher } from '../utils/scim-pagination';
+import { ScimUser } from '../utils/scim-types';
+
+const users: ScimUser[] = Array.from({ length: 10 }, (_, i) => ({
+  schemas: [ScimSchemas.USER],
+  id: String(i + 1),
+  userName: `USER${i + 1}`
+}));
+
+/**
+ * Well-behaved pager over `users`; `tamper` can rewrite each page
+ */
+function fakeEndpoint(tamper: (page: ScimUser[], startIndex: number, count: number) => ScimUser[] = page => page): ListPageFetcher<ScimUser> {
+  return async ({ startIndex, count }) => {
+    const from = Math.max(1, startIndex) - 1;
+    const page = tamper(users.slice(from, from + Math.max(0, count)), startIndex, count);
+    return {
+      status: 200,
+      body: {
+        schemas: [ScimSchemas.LIST_RESPONSE],
+        totalResults: users.length,
+        itemsPerPage: page.length,
+        startIndex: Math.max(1, startIndex),
+        Resources: page
+      }
+    };
+  };
+}
+
+test.describe('SCIM Pagination Consistency Checks', () => {
+  test('Accepts a consistent endpoint', async () => {
+    expect(await collectAll(fakeEndpoint(), { count: 3 })).toEqual(users);
+    await checkPagingEdgeCases(fakeEndpoint());
+  });
+
+  test('Detects ids repeated across pages', async () => {
+    // Off-by-one: every page after the first starts one item early
+    const overlapping: ListPageFetcher<ScimUser> = async ({ startIndex, count }) =>
+      fakeEndpoint()({ startIndex: startIndex > 1 ? startIndex - 1 : startIndex, count });
+
+    await expect(collectAll(overlapping, { count: 3 })).rejects.toThrow(/id 3 was already returned on page 1/);
+  });
+
+  test('Detects pages larger than count', async () => {
+    const oversized = fakeEndpoint((_, startIndex, count) => users.slice(startIndex - 1, startIndex + count));
+    await expect(collectAll(oversized, { count: 3 })).rejects.toThrow(/returned 4 resources, more than count=3/);
+  });
+
+  test('Detects page sizes that do not add up to totalResults', async () => {
+    const shortEnding = fakeEndpoint((page, startIndex) => (startIndex > 6 ? [] : page));
+    await expect(collectAll(shortEnding, { count: 3 })).rejects.toThrow(/Empty page at startIndex=7 after 6 of 10 results/);
+  });
+
+  test('Detects itemsPerPage that disagrees with Resources', async () => {
+    const fetcher: ListPageFetcher<ScimUser> = async page => {
+      const response = await fakeEndpoint()(page);
+      return { ...response, body: { ...response.body, itemsPerPage: page.count } };
+    };
+    await expect(collectAll(fetcher, { count: 4 })).rejects.toThrow(/itemsPerPage=4 but 2 resources were returned/);
+  });
+
+  test('Detects totalResults changing mid-walk', async () => {
+    const fetcher: ListPageFetcher<ScimUser> = async page => {
+      const response = await fakeEndpoint()(page);
+      return { ...response, body: { ...response.body, totalResults: page.startIndex > 1 ? 11 : 10 } };
+    };
+    await expect(collectAll(fetcher, { count: 5 })).rejects.toThrow(/totalResults changed from 10 to 11/);
+  });
+
+  test('Reports zero/negative count and out-of-range startIndex handling', async () => {
+    // Treats count <= 0 as "use the default page size" and rejects startIndex < 1
+    const lenient: ListPageFetcher<ScimUser> = async ({ startIndex, count }) => {
+      if (startIndex < 1) {
+        return { status: 400, body: { schemas: [ScimSchemas.ERROR], totalResults: 0, Resources: [] } };
+      }
+      return fakeEndpoint()({ startIndex, count: count <= 0 ? 10 : count });
+    };
+
+    const error = await checkPagingEdgeCases(lenient).catch((e: Error) => e);
+    expect(error).toBeInstanceOf(Error);
+    expect((error as Error).message).toContain('startIndex=1, count=0: expected no resources');
+    expect((error as Error).message).toContain('startIndex=1, count=-1: expected no resources');
+    expect((error as Error).message).toContain('startIndex=0: expected the same first resource');
+  });
+
+  test('Rejects a non-positive page size for walking', async () => {
+    await expect(collectAll(fakeEndpoint(), { count: 0 })).rejects.toThrow(/positive page size/);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * SCIM PATCH Expected-State Tests
+ *
+ * Computes the expected "after" resource with utils/scim-patch.ts, sends the same
+ * PatchOp to the server and checks the response and a fresh GET both match it.
+ */
+
+import { test, expect } from '../utils/scim-fixtures';
+import { createApiTestContext, ApiTestContext, ScimSchemas } from '../utils/api-config';
+import { ScimClient } from '../utils/scim-client';
+import { ScimFilter } from '../utils/scim-filter';
+import { PatchBuilder, ScimPatch, ScimPatchError } from '../utils/scim-patch';
+import { ScimError, ScimPatchRequest, ScimResource } from '../utils/scim-types';
+import { log } from '../utils/logger';
+
+// Server-maintained attributes the applier does not predict
+const SERVER_MANAGED = ['meta', 'groups'];
+
+/**
+ * The server may add sub-attributes (e.g. members.display/$ref), so compare with
+ * toMatchObject but require the same top-level attributes
+ */
+function expectPatched(actual: ScimResource, expected: ScimResource): void {
+  const withoutServerManaged = (resource: ScimResource) =>
+    Object.fromEntries(Object.entries(resource).filter(([name]) => !SERVER_MANAGED.includes(name)));
+
+  expect(Object.keys(withoutServerManaged(actual)).sort()).toEqual(Object.keys(withoutServerManaged(expected)).sort());
+  expect(actual).toMatchObject(withoutServerManaged(expected));
+}
+
+test.describe('SCIM PATCH Expected State', () => {
+  let apiContext: ApiTestContext;
+
+  test.beforeAll(async ({ request }) => {
+    apiContext = await createApiTestContext(request);
+  });
+
+  const userPatches: [string, PatchBuilder][] = [
+    ['replace single-valued attributes', ScimPatch.replace('displayName', 'Patched User').add('title', 'Tester')],
+    ['merge sub-attributes of name', ScimPatch.add('name', { givenName: 'Pat' }).replace('name.familyName', 'Ched')],
+    ['add a primary email', ScimPatch.add('emails', [{ value: 'patched@example.com', type: 'home', primary: true }])],
+    ['update a filtered email sub-attribute', ScimPatch.replace('emails[type eq "work"].value', 'work@example.com')],
+    ['remove a filtered email', ScimPatch.add('emails', [{ value: 'other@example.com', type: 'other' }]).remove('emails[type eq "other"]')],
+    ['add attributes without a path', ScimPatch.add({ nickName: 'Patchy', title: 'QA' })]
+  ];
+
+  for (const [name, patch] of userPatches) {
+    test(`User PATCH matches the RFC result: ${name}`, async ({ request }) => {
+      const scim = new ScimClient(request, apiContext);
+      const { body: created } = await scim.createUser(
+        {
+          userName: `PATCH_${Date.now()}_${test.info().workerIndex}`,
+          displayName: 'Patch User',
+          emails: [{ value: 'before@example.com', type: 'work', primary: true }]
+        },
+        { expectedStatus: 201 }
+      );
+
+      try {
+        const { body: before } = await scim.getUser(created.id!, { expectedStatus: 200 });
+        const expected = patch.applyTo(before);
+        log.debug(`Operations: ${JSON.stringify(patch.toOperations())}`);
+
+        const { body: patched } = await scim.patchUser(created.id!, patch.build(), { expectedStatus: 200 });
+        expectPatched(patched, expected);
+
+        const { body: after } = await scim.getUser(created.id!, { expectedStatus: 200 });
+        expectPatched(after, expected);
+        log.info('Response and persisted state match the expected resource');
+      } finally {
+        await scim.deleteUser(created.id!);
+      }
+    });
+  }
+
+  test('Group PATCH merges and removes members', async ({ request }) => {
+    const scim = new ScimClient(request, apiContext);
+    const { body: created } = await scim.createGroup(
+      { displayName: `PATCHGROUP_${Date.now()}_${test.info().workerIndex}`, members: [{ value: '106' }, { value: '143' }] },
+      { expectedStatus: 201 }
+    );
+
+    try {
+      const patch = ScimPatch.add('members', [{ value: '143' }, { value: '164' }])
+        .remove(ScimFilter.attr('members').where(ScimFilter.attr('value').eq('106')));
+
+      const { body: before } = await scim.getGroup(created.id!, { expectedStatus: 200 });
+      const expected = patch.applyTo(before);
+      expect(expected.members!.map(member => member.value)).toEqual(['143', '164']);
+
+      const { body: patched } = await scim.patchGroup(created.id!, patch.build(), { expectedStatus: 200 });
+      expectPatched(patched, expected);
+    } finally {
+      await scim.deleteGroup(created.id!);
+    }
+  });
+
+  const errorPatches: [string, ScimPatchRequest][] = [
+    ['noTarget for a filter that matches nothing', ScimPatch.remove('emails[type eq "fax"]').build()],
+    ['invalidPath for a sub-attribute of a simple attribute', ScimPatch.replace('userName.first', 'x').build()],
+    ['noTarget for remove without a path', { schemas: [ScimSchemas.PATCH_OP], Operations: [{ op: 'remove' }] }]
+  ];
+
+  for (const [name, patch] of errorPatches) {
+    test(`User PATCH fails like the applier: ${name}`, async ({ request }) => {
+      const scim = new ScimClient(request, apiContext);
+      const { body: user } = await scim.getUser('106', { expectedStatus: 200 });
+
+      let expectedError: ScimPatchError | undefined;
+      try {
+        ScimPatch.apply(user, patch);
+      } catch (error) {
+        if (!(error instanceof ScimPatchError)) throw error;
+        expectedError = error;
+      }
+      expect(expectedError, 'the applier should reject these operations').toBeDefined();
+
+      const response = await scim.patchUser('106', patch);
+      const error = response.body as unknown as ScimError;
+      expect(response.status).toBe(expectedError!.status);
+      expect(error.scimType).toBe(expectedError!.scimType);
+      log.info(`${response.status} ${error.scimType}: ${error.detail}`);
+    });
+  }
+});
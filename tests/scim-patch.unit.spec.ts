@@ -0,0 +1,199 @@
+/**
+ * SCIM PATCH Tests
+ *
+ * Covers the PatchOp builder and the RFC 7644 §3.5.2 applier in utils/scim-patch.ts
+ */
+
+import { test, expect } from '@playwright/test';
+import { ScimSchemas } from '../utils/api-config';
+import { ScimFilter } from '../utils/scim-filter';
+import { applyPatch, parsePatchPath, ScimPatch, ScimPatchError } from '../utils/scim-patch';
+import { ScimGroup, ScimPatchOperation, ScimUser } from '../utils/scim-types';
+
+const ENTERPRISE = 'urn:ietf:params:scim:schemas:extension:enterprise:2.0:User';
+
+const user: ScimUser = {
+  schemas: [ScimSchemas.USER],
+  id: '106',
+  userName: 'USER1',
+  displayName: 'User One',
+  name: { givenName: 'User', familyName: 'One' },
+  emails: [
+    { value: 'user1@example.com', type: 'work', primary: true },
+    { value: 'user1@home.example', type: 'home' }
+  ]
+};
+
+const group: ScimGroup = {
+  schemas: [ScimSchemas.GROUP],
+  id: '3',
+  displayName: 'TESTGROUP',
+  members: [{ value: '106', display: 'USER1' }, { value: '143', display: 'USER2' }]
+};
+
+/**
+ * Run the applier and return the ScimPatchError it throws
+ */
+function patchError(resource: any, operations: ScimPatchOperation[]): ScimPatchError {
+  try {
+    applyPatch(resource, operations);
+  } catch (error) {
+    if (error instanceof ScimPatchError) return error;
+    throw error;
+  }
+  throw new Error('Expected the patch to fail');
+}
+
+test.describe('SCIM PatchOp Builder', () => {
+  test('Builds a PatchOp message', () => {
+    const patch = ScimPatch.replace('displayName', 'Renamed')
+      .add('members', [{ value: '164' }])
+      .remove(ScimFilter.attr('members').where(ScimFilter.attr('value').eq('143')))
+      .add({ externalId: 'ext-1' })
+      .build();
+
+    expect(patch).toEqual({
+      schemas: [ScimSchemas.PATCH_OP],
+      Operations: [
+        { op: 'replace', path: 'displayName', value: 'Renamed' },
+        { op: 'add', path: 'members', value: [{ value: '164' }] },
+        { op: 'remove', path: 'members[value eq "143"]' },
+        { op: 'add', value: { externalId: 'ext-1' } }
+      ]
+    });
+  });
+
+  test('Formats paths with value filters and sub-attributes', () => {
+    expect(ScimPatch.path('emails', ScimFilter.attr('type').eq('work'), 'value')).toBe('emails[type eq "work"].value');
+    expect(ScimPatch.path('members', 'value EQ "143"')).toBe('members[value eq "143"]');
+    expect(ScimPatch.path('name', undefined, 'givenName')).toBe('name.givenName');
+  });
+
+  test('Parses paths', () => {
+    expect(parsePatchPath('name.givenName')).toEqual({ attribute: 'name', subAttribute: 'givenName' });
+    expect(parsePatchPath(`${ScimSchemas.USER}:userName`)).toEqual({ attribute: 'userName' });
+    expect(parsePatchPath(`${ENTERPRISE}:manager.value`)).toEqual({ schema: ENTERPRISE, attribute: 'manager', subAttribute: 'value' });
+    expect(parsePatchPath('emails[type eq "work"].value')).toMatchObject({
+      attribute: 'emails',
+      filter: { type: 'compare', attributePath: 'type', operator: 'eq', value: 'work' },
+      subAttribute: 'value'
+    });
+  });
+
+  test('Rejects malformed paths as they are added', () => {
+    expect(() => ScimPatch.remove('members[value eq "143]')).toThrow(/Invalid filter in path/);
+    expect(() => ScimPatch.replace('name.givenName.first', 'x')).toThrow(/Invalid path/);
+    expect(() => ScimPatch.remove('members[value eq "143"')).toThrow(ScimPatchError);
+  });
+});
+
+test.describe('SCIM PatchOp Applier', () => {
+  test('Does not modify the input resource', () => {
+    const before = JSON.parse(JSON.stringify(user));
+    ScimPatch.replace('displayName', 'Renamed').remove('emails').applyTo(user);
+    expect(user).toEqual(before);
+  });
+
+  test('add sets missing attributes and replaces single-valued ones', () => {
+    const after = ScimPatch.add('title', 'Engineer').add('displayName', 'Renamed').applyTo(user);
+    expect(after.title).toBe('Engineer');
+    expect(after.displayName).toBe('Renamed');
+  });
+
+  test('add merges into multi-valued attributes without duplicating values', () => {
+    const after = ScimPatch.add('members', [{ value: '143' }, { value: '164' }]).applyTo(group);
+    expect(after.members).toEqual([
+      { value: '106', display: 'USER1' },
+      { value: '143', display: 'USER2' },
+      { value: '164' }
+    ]);
+  });
+
+  test('add of a primary value clears primary on the others', () => {
+    const after = ScimPatch.add('emails', { value: 'new@example.com', type: 'other', primary: true }).applyTo(user);
+    expect(after.emails!.map(email => [email.value, email.primary])).toEqual([
+      ['user1@example.com', false],
+      ['user1@home.example', undefined],
+      ['new@example.com', true]
+    ]);
+  });
+
+  test('add and replace merge sub-attributes of complex attributes', () => {
+    expect(ScimPatch.add('name', { middleName: 'Q' }).applyTo(user).name)
+      .toEqual({ givenName: 'User', familyName: 'One', middleName: 'Q' });
+    expect(ScimPatch.replace('name', { familyName: 'Two' }).applyTo(user).name)
+      .toEqual({ givenName: 'User', familyName: 'Two' });
+    expect(ScimPatch.replace('name.givenName', 'Jane').applyTo(user).name)
+      .toEqual({ givenName: 'Jane', familyName: 'One' });
+  });
+
+  test('add without a path applies each attribute, including extension schemas', () => {
+    const after = ScimPatch.add({ nickName: 'U1', [ENTERPRISE]: { employeeNumber: '42' } }).applyTo(user);
+    expect(after.nickName).toBe('U1');
+    expect(after[ENTERPRISE]).toEqual({ employeeNumber: '42' });
+    expect(after.schemas).toEqual([ScimSchemas.USER, ENTERPRISE]);
+  });
+
+  test('replace without a filter replaces every value of a multi-valued attribute', () => {
+    const after = ScimPatch.replace('members', [{ value: '2' }]).applyTo(group);
+    expect(after.members).toEqual([{ value: '2' }]);
+  });
+
+  test('replace with a value filter replaces the matched values', () => {
+    const after = ScimPatch.replace('emails[type eq "home"]', { value: 'moved@home.example', type: 'home' }).applyTo(user);
+    expect(after.emails).toEqual([
+      { value: 'user1@example.com', type: 'work', primary: true },
+      { value: 'moved@home.example', type: 'home' }
+    ]);
+  });
+
+  test('replace with a value filter and sub-attribute updates only that sub-attribute', () => {
+    const after = ScimPatch.replace('emails[type eq "home"].primary', true).applyTo(user);
+    expect(after.emails).toEqual([
+      { value: 'user1@example.com', type: 'work', primary: false },
+      { value: 'user1@home.example', type: 'home', primary: true }
+    ]);
+  });
+
+  test('remove with a value filter removes the matched values', () => {
+    const after = ScimPatch.remove('members[value eq "143"]').applyTo(group);
+    expect(after.members).toEqual([{ value: '106', display: 'USER1' }]);
+
+    const emptied = ScimPatch.remove('members[value eq "106" or value eq "143"]').applyTo(group);
+    expect(emptied.members).toBeUndefined();
+  });
+
+  test('remove drops single-valued, complex and sub-attributes', () => {
+    const after = ScimPatch.remove('displayName').remove('name.givenName').remove('emails[type eq "work"].primary').applyTo(user);
+    expect(after.displayName).toBeUndefined();
+    expect(after.name).toEqual({ familyName: 'One' });
+    expect(after.emails![0]).toEqual({ value: 'user1@example.com', type: 'work' });
+  });
+
+  test('Attribute names are case-insensitive', () => {
+    const after = ScimPatch.replace('DISPLAYNAME', 'Renamed').applyTo(user);
+    expect(after.displayName).toBe('Renamed');
+    expect(Object.keys(after)).not.toContain('DISPLAYNAME');
+  });
+
+  const errorCases: [string, any, ScimPatchOperation[], string][] = [
+    ['remove without a path', user, [{ op: 'remove' }], 'noTarget'],
+    ['filter matching no values', group, [{ op: 'remove', path: 'members[value eq "999"]' }], 'noTarget'],
+    ['replace with a filter matching no values', user, [{ op: 'replace', path: 'emails[type eq "other"].value', value: 'x' }], 'noTarget'],
+    ['filter on a single-valued attribute', user, [{ op: 'replace', path: 'userName[value eq "USER1"]', value: 'x' }], 'invalidPath'],
+    ['sub-attribute of a simple attribute', user, [{ op: 'replace', path: 'userName.first', value: 'x' }], 'invalidPath'],
+    ['malformed path', user, [{ op: 'add', path: 'emails[type eq', value: 'x' }], 'invalidPath'],
+    ['unknown op', user, [{ op: 'move' as any, path: 'userName', value: 'x' }], 'invalidSyntax'],
+    ['add without a value', user, [{ op: 'add', path: 'title' }], 'invalidValue'],
+    ['replace without a path and a non-object value', user, [{ op: 'replace', value: 'x' }], 'invalidValue'],
+    ['replace of id', user, [{ op: 'replace', path: 'id', value: '1' }], 'mutability']
+  ];
+
+  for (const [name, resource, operations, scimType] of errorCases) {
+    test(`Fails with ${scimType}: ${name}`, () => {
+      const error = patchError(resource, operations);
+      expect(error.scimType).toBe(scimType);
+      expect(error.status).toBe(400);
+    });
+  }
+});
@@ -0,0 +1,71 @@
+/**
+ * SCIM Schema Conformance Tests
+ *
+ * Loads the server's /Schemas once and checks User and Group responses against it,
+ * so attribute drift between releases fails with the JSON path that changed.
+ */
+
+import { test, expect } from '../utils/scim-fixtures';
+import { createApiTestContext, ApiTestContext, ScimSchemas } from '../utils/api-config';
+import { ScimClient } from '../utils/scim-client';
+import { loadSchemaValidator } from '../utils/scim-schema';
+
+test.describe('SCIM Schema Conformance', () => {
+  let apiContext: ApiTestContext;
+
+  test.beforeAll(async ({ request }) => {
+    apiContext = await createApiTestContext(request);
+  });
+
+  test('Publishes the core User and Group schemas', async ({ request }) => {
+    const validator = await loadSchemaValidator(new ScimClient(request, apiContext));
+    expect(validator.schemaIds).toEqual(expect.arrayContaining([ScimSchemas.USER, ScimSchemas.GROUP]));
+  });
+
+  test('Users match the User schema', async ({ request }) => {
+    const scim = new ScimClient(request, apiContext);
+    const validator = await loadSchemaValidator(scim);
+
+    const { body: user } = await scim.getUser('106', { expectedStatus: 200 });
+    validator.assertValid(user, 'User 106');
+
+    const { body: list } = await scim.listUsers({ count: 20 }, { expectedStatus: 200 });
+    list.Resources.forEach(resource => validator.assertValid(resource, `User ${resource.id}`));
+
+    const { body: projected } = await scim.listUsers({ attributes: ['displayName'], count: 5 }, { expectedStatus: 200 });
+    projected.Resources.forEach(resource => validator.assertValid(resource, `User ${resource.id} (displayName only)`, { partial: true }));
+  });
+
+  test('Created users match the schema and never return the password', async ({ request }) => {
+    const scim = new ScimClient(request, apiContext);
+    const validator = await loadSchemaValidator(scim);
+
+    const { body: created } = await scim.createUser(
+      {
+        userName: `SCHEMA_${Date.now()}_${test.info().workerIndex}`,
+        password: 'Sch3ma-Check!',
+        name: { givenName: 'Schema', familyName: 'Check' },
+        emails: [{ value: 'schema@example.com', type: 'work', primary: true }],
+        phoneNumbers: [{ value: '555-0100', type: 'mobile' }]
+      },
+      { expectedStatus: 201 }
+    );
+
+    try {
+      validator.assertValid(created, 'Created user');
+      const { body: fetched } = await scim.getUser(created.id!, { expectedStatus: 200 });
+      validator.assertValid(fetched, 'Fetched user');
+    } finally {
+      await scim.deleteUser(created.id!);
+    }
+  });
+
+  test('Groups match the Group schema', async ({ request }) => {
+    const scim = new ScimClient(request, apiContext);
+    const validator = await loadSchemaValidator(scim);
+
+    const { body: list } = await scim.listGroups({}, { expectedStatus: 200 });
+    expect(list.Resources.length).toBeGreaterThan(0);
+    list.Resources.forEach(resource => validator.assertValid(resource, `Group ${resource.id}`));
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * SCIM Schema Validator Tests
+ *
+ * Runs utils/scim-schema.ts against the local server's /Schemas definitions
+ */
+
+import { test, expect } from '@playwright/test';
+import { ScimSchemas } from '../utils/api-config';
+import { ScimSchemaValidator } from '../utils/scim-schema';
+import { ScimSchemaDefinition } from '../utils/scim-types';
+import { buildSchemas } from '../local-server/discovery';
+
+const ENTERPRISE = 'urn:ietf:params:scim:schemas:extension:enterprise:2.0:User';
+
+const enterpriseSchema: ScimSchemaDefinition = {
+  schemas: [ScimSchemas.SCHEMA],
+  id: ENTERPRISE,
+  attributes: [
+    { name: 'employeeNumber', type: 'string', multiValued: false, required: true, mutability: 'readWrite', returned: 'default' },
+    { name: 'costCenter', type: 'integer', multiValued: false, required: false, mutability: 'readWrite', returned: 'default' }
+  ]
+};
+
+const validator = new ScimSchemaValidator([...buildSchemas('http://localhost/obscim/v2'), enterpriseSchema]);
+
+const validUser = {
+  schemas: [ScimSchemas.USER],
+  id: '106',
+  userName: 'USER1',
+  name: { givenName: 'User', familyName: 'One' },
+  active: true,
+  emails: [{ value: 'user1@example.com', type: 'work', primary: true }],
+  groups: [{ value: '2', display: 'EVERYONE', type: 'direct', $ref: 'http://localhost/obscim/v2/Groups/2' }],
+  meta: { resourceType: 'User', created: '2025-01-15T10:00:00Z' }
+};
+
+test.describe('SCIM Schema Validator', () => {
+  test('Accepts resources that match their schema', () => {
+    expect(validator.validate(validUser)).toEqual([]);
+    expect(validator.validate({ schemas: [ScimSchemas.GROUP], id: '1', displayName: 'ADMINISTRATIVE', members: [{ value: '2', type: 'User' }] })).toEqual([]);
+    expect(() => validator.assertValid(validUser, 'User 106')).not.toThrow();
+  });
+
+  test('Reports every violation with its JSON path', () => {
+    const violations = validator.validate({
+      schemas: [ScimSchemas.USER],
+      id: 106,
+      active: 'yes',
+      name: { givenName: 7, nickname: 'U' },
+      emails: { value: 'user1@example.com' },
+      phoneNumbers: [{ value: '555', type: 'satellite' }],
+      password: 'secret',
+      favouriteColour: 'green'
+    } as any);
+
+    expect(violations).toEqual([
+      { path: '$.id', message: 'expected string, got number' },
+      { path: '$.userName', message: 'required attribute is missing' },
+      { path: '$.name.givenName', message: 'expected string (string), got number' },
+      { path: '$.name.nickname', message: 'attribute is not defined in the schema' },
+      { path: '$.active', message: 'expected boolean, got string' },
+      { path: '$.password', message: 'attribute has returned "never" and must not be in a response' },
+      { path: '$.emails', message: 'multi-valued attribute must be an array' },
+      { path: '$.phoneNumbers[0].type', message: '"satellite" is not one of the canonical values: work, home, mobile, fax, pager, other' },
+      { path: '$.favouriteColour', message: 'attribute is not defined in the schema' }
+    ]);
+  });
+
+  test('Matches attribute names and canonical values case-insensitively', () => {
+    expect(validator.validate({
+      schemas: [ScimSchemas.USER],
+      USERNAME: 'USER1',
+      Emails: [{ Value: 'user1@example.com', TYPE: 'WORK' }]
+    })).toEqual([]);
+  });
+
+  test('Rejects arrays for single-valued attributes', () => {
+    expect(validator.validate({ ...validUser, displayName: ['One', 'Two'] })).toEqual([
+      { path: '$.displayName', message: 'single-valued attribute must not be an array' }
+    ]);
+  });
+
+  test('Validates extension attributes under their schema URN', () => {
+    const violations = validator.validate({
+      ...validUser,
+      schemas: [ScimSchemas.USER, ENTERPRISE],
+      [ENTERPRISE]: { costCenter: 1.5 }
+    });
+    expect(violations).toEqual([
+      { path: `$['${ENTERPRISE}'].employeeNumber`, message: 'required attribute is missing' },
+      { path: `$['${ENTERPRISE}'].costCenter`, message: 'expected integer, got 1.5' }
+    ]);
+
+    expect(validator.validate({ ...validUser, [ENTERPRISE]: { employeeNumber: '1' } })).toEqual([
+      { path: `$['${ENTERPRISE}']`, message: 'extension is not listed in schemas' }
+    ]);
+  });
+
+  test('Reports schemas the server does not publish', () => {
+    expect(validator.validate({ schemas: ['urn:example:Unknown'], id: '1' })).toEqual([
+      { path: '$.schemas', message: 'schema urn:example:Unknown is not published on /Schemas' }
+    ]);
+  });
+
+  test('Skips required checks for projected responses', () => {
+    const projected = { schemas: [ScimSchemas.USER], id: '106', displayName: 'User One' };
+    expect(validator.validate(projected)).toEqual([{ path: '$.userName', message: 'required attribute is missing' }]);
+    expect(validator.validate(projected, { partial: true })).toEqual([]);
+  });
+
+  test('assertValid lists all violations in the error', () => {
+    expect(() => validator.assertValid({ schemas: [ScimSchemas.GROUP], members: 'x' }, 'Group'))
+      .toThrow(/Group does not match its schema \(2 violations\):\n  - \$\.displayName: required attribute is missing\n  - \$\.members: multi-valued attribute must be an array/);
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * SCIM Response Snapshot Tests
+ *
+ * Pins the discovery endpoints and the shape of created Users and Groups, so schema or
+ * serialization changes in a build show up as a snapshot diff. Update with --update-snapshots.
+ */
+
+import { test } from '../utils/scim-fixtures';
+import { createApiTestContext, ApiTestContext } from '../utils/api-config';
+import { ScimClient } from '../utils/scim-client';
+import { expectScimSnapshot } from '../utils/scim-snapshot';
+
+test.describe('SCIM Response Snapshots', () => {
+  let apiContext: ApiTestContext;
+
+  test.beforeAll(async ({ request }) => {
+    apiContext = await createApiTestContext(request);
+  });
+
+  test('/Schemas', async ({ request }) => {
+    const { body } = await new ScimClient(request, apiContext).getSchemas({ expectedStatus: 200 });
+    expectScimSnapshot(body, 'schemas');
+  });
+
+  test('/ResourceTypes', async ({ request }) => {
+    const { body } = await new ScimClient(request, apiContext).getResourceTypes({ expectedStatus: 200 });
+    expectScimSnapshot(body, 'resource-types');
+  });
+
+  test('/ServiceProviderConfig', async ({ request }) => {
+    const { body } = await new ScimClient(request, apiContext).getServiceProviderConfig({ expectedStatus: 200 });
+    expectScimSnapshot(body, 'service-provider-config');
+  });
+
+  test('Created User and Group', async ({ scimData }) => {
+    const user = await scimData.createUser();
+    const group = await scimData.createGroup({}, [user]);
+
+    const { body: fetchedUser } = await scimData.scim.getUser(user.id!, { expectedStatus: 200 });
+    expectScimSnapshot(fetchedUser, 'user');
+    const { body: fetchedGroup } = await scimData.scim.getGroup(group.id!, { expectedStatus: 200 });
+    expectScimSnapshot(fetchedGroup, 'group');
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * SCIM Response Snapshot Tests
+ *
+ * Checks volatile-field masking and stable ordering in utils/scim-snapshot.ts
+ */
+
+import { test, expect } from '@playwright/test';
+import { ScimSchemas } from '../utils/api-config';
+import { MASK, scimSnapshot } from '../utils/scim-snapshot';
+
+test.describe('SCIM Response Snapshots', () => {
+  test('Masks ids, meta and generated names of stored resources', async () => {
+    const user = {
+      schemas: [ScimSchemas.USER],
+      id: '1042',
+      userName: 'ETAG_USER_1760000000000_0',
+      emails: [{ value: 'scimdata_user_w0_mgx4k2pq_1@example.com', primary: true }],
+      groups: [{ value: '77', $ref: 'https://rdv-010318/obscim/v2/Groups/77', display: 'Claims' }],
+      meta: {
+        resourceType: 'User',
+        created: '2026-01-02T03:04:05Z',
+        lastModified: '2026-01-02T03:04:06Z',
+        version: 'W/"3"',
+        location: 'https://rdv-010318/obscim/v2/Users/1042'
+      }
+    };
+
+    expect(JSON.parse(scimSnapshot(user))).toEqual({
+      schemas: [ScimSchemas.USER],
+      id: MASK.id,
+      userName: `ETAG_USER_${MASK.generated}`,
+      emails: [{ value: `scimdata_user_${MASK.generated}_1@example.com`, primary: true }],
+      groups: [{ value: MASK.id, $ref: `${MASK.host}/obscim/v2/Groups/${MASK.id}`, display: 'Claims' }],
+      meta: {
+        resourceType: 'User',
+        created: MASK.timestamp,
+        lastModified: MASK.timestamp,
+        version: MASK.version,
+        location: `${MASK.host}/obscim/v2/Users/${MASK.id}`
+      }
+    });
+  });
+
+  test('Keeps discovery ids but masks their host', async () => {
+    const resourceType = {
+      schemas: ['urn:ietf:params:scim:schemas:core:2.0:ResourceType'],
+      id: 'User',
+      meta: { resourceType: 'ResourceType', location: 'http://localhost:4010/obscim/v2/ResourceTypes/User' }
+    };
+    expect(JSON.parse(scimSnapshot(resourceType))).toMatchObject({
+      id: 'User',
+      meta: { location: `${MASK.host}/obscim/v2/ResourceTypes/User` }
+    });
+  });
+
+  test('Sorts keys and multi-valued attributes into a stable order', async () => {
+    const a = { schemas: ['b', 'a'], emails: [{ value: 'y@example.com' }, { type: 'work', value: 'x@example.com' }], active: true };
+    const b = { active: true, emails: [{ value: 'x@example.com', type: 'work' }, { value: 'y@example.com' }], schemas: ['a', 'b'] };
+
+    expect(scimSnapshot(a)).toBe(scimSnapshot(b));
+    // One value per line, so a diff points at the attribute that changed
+    expect(scimSnapshot({ b: 1, a: [2] })).toBe('{\n  "a": [\n    2\n  ],\n  "b": 1\n}\n');
+  });
+});
@@ -0,0 +1,31 @@
+/**
+ * SCIM Load Tests
+ *
+ * Runs each load scenario (utils/scim-load.ts) for SCIM_LOAD_DURATION at SCIM_LOAD_CONCURRENCY
+ * virtual users or SCIM_LOAD_RATE iterations per second, attaches the per-operation report and
+ * fails when a threshold in load-thresholds.json is crossed. The defaults are a short smoke run;
+ * before a release, run e.g.
+ *
+ *   LOCAL_SERVER=false SCIM_ENV=oem SCIM_LOAD_DURATION=2m SCIM_LOAD_CONCURRENCY=20 npm run test:load
+ */
+
+import { test } from '../utils/scim-fixtures';
+import { log } from '../utils/logger';
+import { assertLoadThresholds, formatLoadReport, loadOptionsFromEnv, runLoad, selectedLoadScenarios } from '../utils/scim-load';
+
+const options = loadOptionsFromEnv();
+
+test.describe('SCIM Load', () => {
+  for (const scenario of selectedLoadScenarios()) {
+    test(scenario.name, async ({ scimData }) => {
+      // The run itself, plus setup and cleanup of the data it creates
+      test.setTimeout(options.durationMs + 120000);
+
+      const report = await runLoad(scimData.scim, scimData, scenario, options);
+      log.info(`Load report\n${formatLoadReport(report)}`);
+      await test.info().attach('load-report.json', { body: JSON.stringify(report, null, 2), contentType: 'application/json' });
+
+      assertLoadThresholds(report);
+    });
+  }
+});
@@ -0,0 +1,69 @@
+/**
+ * Token Manager Tests
+ *
+ * Checks that spec files share cached tokens, that token claims match the request,
+ * and that ScimClient retries once with a new token when the server answers 401
+ */
+
+import { test, expect } from '../utils/scim-fixtures';
+import { AddressInfo } from 'net';
+import { createApiTestContext, getDefaultTokenRequest, ProjectConfig } from '../utils/api-config';
+import { ScimClient } from '../utils/scim-client';
+import { tokenClaims, tokenManager } from '../utils/token-manager';
+import { createLocalServer } from '../local-server/scim-server';
+import { DEFAULT_AUDIENCE, loadTokenServerOptions } from '../local-server/token-server';
+import { log } from '../utils/logger';
+
+test.describe('Token Manager', () => {
+  test('Token claims carry the requested client, scope and lifetime', async ({ request }) => {
+    const token = await tokenManager.getToken(request, getDefaultTokenRequest());
+
+    expect(token.claims.client_id).toBe(ProjectConfig.oauth.clientId);
+    expect(token.claims.scope?.split(' ')).toEqual(expect.arrayContaining(ProjectConfig.oauth.defaultScope.split(' ')));
+    expect(token.claims.aud).toBeDefined();
+    if (ProjectConfig.localServer.enabled) {
+      expect(token.claims.aud).toBe(process.env.LOCAL_OAUTH_AUDIENCE || DEFAULT_AUDIENCE);
+    }
+    expect(Math.abs(token.claims.exp! * 1000 - token.expiresAt)).toBeLessThan(5000);
+    log.info(`Token scope "${token.claims.scope}", aud ${token.claims.aud}`);
+  });
+
+  test('Spec contexts share one cached token', async ({ request }) => {
+    const first = await createApiTestContext(request);
+    const second = await createApiTestContext(request);
+
+    expect(second.accessToken).toBe(first.accessToken);
+    expect(second.headers.Authorization).toBe(`Bearer ${first.accessToken}`);
+  });
+
+  test('Retries once with a new token after a 401', async ({ playwright }) => {
+    const oauth = loadTokenServerOptions();
+    const server = createLocalServer({ port: 0, oem: false, defaultInstitutionId: '102', oauth });
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    const baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+    const request = await playwright.request.newContext();
+
+    try {
+      const tokenRequest = { ...getDefaultTokenRequest(), tokenUrl: `${baseUrl}/identityservice${ProjectConfig.oauth.tokenEndpoint}` };
+      const apiContext = { ...(await createApiTestContext(request, tokenRequest)), baseUrl };
+      const scim = new ScimClient(request, apiContext);
+      await scim.getUser('106', { expectedStatus: 200 });
+
+      // Rotating the signing key invalidates every token issued so far
+      const rejectedToken = apiContext.accessToken;
+      oauth.signingKey = 'rotated-signing-key';
+
+      await scim.getUser('106', { expectedStatus: 200 });
+      expect(apiContext.accessToken).not.toBe(rejectedToken);
+      expect(apiContext.headers.Authorization).toBe(`Bearer ${apiContext.accessToken}`);
+      expect(tokenClaims(apiContext.accessToken).client_id).toBe(tokenRequest.clientId);
+
+      const tampered = await scim.getUser('106', { headers: { Authorization: `Bearer ${rejectedToken}` } });
+      expect(tampered.status).toBe(401);
+      log.info('Rejected token replaced after one 401; explicit Authorization headers are not retried');
+    } finally {
+      await request.dispose();
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+});
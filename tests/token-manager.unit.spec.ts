@@ -0,0 +1,164 @@
+/**
+ * Token Manager Tests
+ *
+ * Checks token caching by (client_id, scope, grant_type), refresh before expiry, sharing
+ * through the cache file and 401 refreshes in utils/token-manager.ts, with a fake token endpoint
+ */
+
+import { test, expect } from '@playwright/test';
+import fs from 'fs';
+import { signJwt } from '../utils/jwt';
+import { log } from '../utils/logger';
+import { TokenManager, TokenRequest, tokenCacheKey, tokenClaims } from '../utils/token-manager';
+
+const tokenRequest: TokenRequest = {
+  tokenUrl: 'http://localhost/identityservice/connect/token',
+  clientId: 'client-a',
+  clientSecret: 'secret',
+  scope: 'read write',
+  grantType: 'client_credentials'
+};
+
+/**
+ * Fake token endpoint issuing numbered JWTs, with a settable clock
+ */
+function fakeEndpoint(expiresIn: number = 3600) {
+  const endpoint = {
+    clock: 1_000_000,
+    issued: [] as string[],
+    now: () => endpoint.clock,
+    fetchToken: async (_request: any, { clientId, scope }: TokenRequest) => {
+      await new Promise(resolve => setTimeout(resolve, 10));
+      const accessToken = signJwt({ client_id: clientId, scope, aud: 'scim-api', jti: String(endpoint.issued.length + 1) }, 'key');
+      endpoint.issued.push(accessToken);
+      return { access_token: accessToken, expires_in: expiresIn, token_type: 'Bearer', scope };
+    }
+  };
+  return endpoint;
+}
+
+test.describe('Token Manager', () => {
+  test('Caches tokens by client, scope and grant type', async () => {
+    const endpoint = fakeEndpoint();
+    const manager = new TokenManager({ fetchToken: endpoint.fetchToken, now: endpoint.now });
+
+    const [first, concurrent] = await Promise.all([
+      manager.getToken(undefined as any, tokenRequest),
+      manager.getToken(undefined as any, tokenRequest)
+    ]);
+    const reordered = await manager.getToken(undefined as any, { ...tokenRequest, scope: 'write  read' });
+    const otherScope = await manager.getToken(undefined as any, { ...tokenRequest, scope: 'read' });
+    const otherClient = await manager.getToken(undefined as any, { ...tokenRequest, clientId: 'client-b' });
+
+    expect(concurrent.accessToken).toBe(first.accessToken);
+    expect(reordered.accessToken).toBe(first.accessToken);
+    expect(endpoint.issued).toEqual([first.accessToken, otherScope.accessToken, otherClient.accessToken]);
+    expect(tokenCacheKey(tokenRequest)).toBe(tokenCacheKey({ ...tokenRequest, scope: 'write read' }));
+  });
+
+  test('Decodes JWT claims and tolerates opaque tokens', async () => {
+    const endpoint = fakeEndpoint();
+    const manager = new TokenManager({ fetchToken: endpoint.fetchToken, now: endpoint.now });
+
+    const token = await manager.getToken(undefined as any, tokenRequest);
+    expect(token.claims).toMatchObject({ client_id: 'client-a', scope: 'read write', aud: 'scim-api' });
+    expect(token.expiresAt - token.obtainedAt).toBe(3600 * 1000);
+    expect(tokenClaims('opaque-token')).toEqual({});
+  });
+
+  test('Refreshes a token before it expires', async () => {
+    const endpoint = fakeEndpoint(600);
+    const manager = new TokenManager({ fetchToken: endpoint.fetchToken, now: endpoint.now, refreshMarginSeconds: 120 });
+
+    const first = await manager.getToken(undefined as any, tokenRequest);
+    endpoint.clock += 470 * 1000;
+    expect((await manager.getToken(undefined as any, tokenRequest)).accessToken).toBe(first.accessToken);
+
+    endpoint.clock += 20 * 1000;
+    const refreshed = await manager.getToken(undefined as any, tokenRequest);
+    expect(refreshed.accessToken).not.toBe(first.accessToken);
+    expect(endpoint.issued).toHaveLength(2);
+  });
+
+  test('Caps the refresh margin for short-lived tokens', async () => {
+    const endpoint = fakeEndpoint(30);
+    const manager = new TokenManager({ fetchToken: endpoint.fetchToken, now: endpoint.now, refreshMarginSeconds: 60 });
+
+    const first = await manager.getToken(undefined as any, tokenRequest);
+    expect((await manager.getToken(undefined as any, tokenRequest)).accessToken).toBe(first.accessToken);
+    endpoint.clock += 16 * 1000;
+    expect((await manager.getToken(undefined as any, tokenRequest)).accessToken).not.toBe(first.accessToken);
+  });
+
+  test('Shares tokens between workers through the cache file', async () => {
+    const cacheFile = test.info().outputPath('token-cache.json');
+    const endpoint = fakeEndpoint();
+    const workers = [1, 2, 3].map(() => new TokenManager({ cacheFile, fetchToken: endpoint.fetchToken, now: endpoint.now }));
+
+    const tokens = await Promise.all(workers.map(worker => worker.getToken(undefined as any, tokenRequest)));
+    expect(new Set(tokens.map(token => token.accessToken)).size).toBe(1);
+    expect(endpoint.issued).toHaveLength(1);
+    expect(tokens[2].claims.client_id).toBe('client-a');
+    expect(fs.existsSync(`${cacheFile}.lock`)).toBe(false);
+  });
+
+  test('Replaces a rejected token once, reusing a newer token from another worker', async () => {
+    const cacheFile = test.info().outputPath('token-cache.json');
+    const endpoint = fakeEndpoint();
+    const [worker1, worker2] = [1, 2].map(() => new TokenManager({ cacheFile, fetchToken: endpoint.fetchToken, now: endpoint.now }));
+
+    const rejected = await worker1.getToken(undefined as any, tokenRequest);
+    await worker2.getToken(undefined as any, tokenRequest);
+
+    const replacement = await worker1.refresh(undefined as any, tokenRequest, rejected.accessToken);
+    expect(replacement.accessToken).not.toBe(rejected.accessToken);
+
+    const shared = await worker2.refresh(undefined as any, tokenRequest, rejected.accessToken);
+    expect(shared.accessToken).toBe(replacement.accessToken);
+    expect(endpoint.issued).toHaveLength(2);
+  });
+
+  test('Logs obtained and shared tokens without the client id', async () => {
+    const cacheFile = test.info().outputPath('token-cache.json');
+    const endpoint = fakeEndpoint();
+    const [worker1, worker2] = [1, 2].map(() => new TokenManager({ cacheFile, fetchToken: endpoint.fetchToken, now: endpoint.now }));
+
+    log.startTest('token logging');
+    await worker1.getToken(undefined as any, tokenRequest);
+    await worker2.getToken(undefined as any, tokenRequest);
+    const entries = log.endTest();
+
+    expect(entries.map(entry => entry.message)).toEqual([
+      'Obtained token for scope "read write", expires in 3600s',
+      'Reusing shared token for scope "read write", expires in 3600s'
+    ]);
+    expect(JSON.stringify(entries)).not.toContain(tokenRequest.clientId);
+  });
+
+  test('Breaks a lock left behind by a crashed worker', async () => {
+    const cacheFile = test.info().outputPath('token-cache.json');
+    fs.writeFileSync(`${cacheFile}.lock`, '12345');
+    const stale = new Date(Date.now() - 60000);
+    fs.utimesSync(`${cacheFile}.lock`, stale, stale);
+
+    const endpoint = fakeEndpoint();
+    const manager = new TokenManager({ cacheFile, fetchToken: endpoint.fetchToken, now: endpoint.now });
+    await manager.getToken(undefined as any, tokenRequest);
+    expect(endpoint.issued).toHaveLength(1);
+  });
+
+  test('Does not cache a failed token request', async () => {
+    let attempts = 0;
+    const endpoint = fakeEndpoint();
+    const manager = new TokenManager({
+      now: endpoint.now,
+      fetchToken: async (request, tokenRequest) => {
+        if (++attempts === 1) throw new Error('Authentication failed: 503');
+        return endpoint.fetchToken(request, tokenRequest);
+      }
+    });
+
+    await expect(manager.getToken(undefined as any, tokenRequest)).rejects.toThrow('Authentication failed: 503');
+    await expect(manager.getToken(undefined as any, tokenRequest)).resolves.toMatchObject({ scope: 'read write' });
+  });
+});
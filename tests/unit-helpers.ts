@@ -0,0 +1,45 @@
+/**
+ * Unit Test Helpers
+ * Shared by the *.unit.spec.ts files (not a spec itself)
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+/**
+ * Run fn with env vars set (undefined removes them), restoring them afterwards
+ */
+export function withEnv<T>(values: Record<string, string | undefined>, fn: () => T): T {
+  const saved = Object.fromEntries(Object.keys(values).map(key => [key, process.env[key]]));
+  const assign = (entries: Record<string, string | undefined>) => {
+    for (const [key, value] of Object.entries(entries)) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+  };
+  assign(values);
+  try {
+    return fn();
+  } finally {
+    assign(saved);
+  }
+}
+
+const tempDirs: string[] = [];
+
+/**
+ * Path of a file in a new temporary directory, written as JSON when content is given.
+ * removeTempFiles() deletes the directories (register it with test.afterEach)
+ */
+export function tempFile(name: string, content?: unknown): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'scim-unit-'));
+  tempDirs.push(dir);
+  const file = path.join(dir, name);
+  if (content !== undefined) fs.writeFileSync(file, JSON.stringify(content));
+  return file;
+}
+
+export function removeTempFiles(): void {
+  for (const dir of tempDirs.splice(0)) fs.rmSync(dir, { recursive: true, force: true });
+}
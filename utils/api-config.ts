@@ -3,6 +3,9 @@
  * Handles authentication and API endpoint configuration
  */
 
+import { log } from './logger';
+import { requestToken, TokenRequest, tokenManager } from './token-manager';
+
 /**
  * API endpoint types supported by the project
  */
@@ -52,6 +55,18 @@ export const ProjectConfig = {
       }
     }
   },
+  localServer: {
+    // Local SCIM/OAuth stand-in (local-server/) - used unless LOCAL_SERVER=false
+    get enabled() {
+      return process.env.LOCAL_SERVER?.toLowerCase() !== 'false';
+    },
+    get port() {
+      return parseInt(process.env.LOCAL_SERVER_PORT || '4010');
+    },
+    get baseUrl() {
+      return `http://localhost:${this.port}`;
+    }
+  },
   timeouts: {
     get api() {
       return parseInt(process.env.API_TIMEOUT || '30000');
@@ -62,6 +77,15 @@ export const ProjectConfig = {
   }
 };
 
+/**
+ * Check if current environment is OEM
+ * Set OEM=true (or 1, yes, oem) for OEM environments
+ */
+export function isOemEnvironment(): boolean {
+  const oemParam = process.env.OEM?.toLowerCase();
+  return oemParam === 'true' || oemParam === '1' || oemParam === 'yes' || oemParam === 'oem';
+}
+
 /**
  * OAuth2 Token Response interface
  */
@@ -79,64 +103,59 @@ export interface ApiTestContext {
   accessToken: string;
   baseUrl: string;
   headers: Record<string, string>;
+  // Token the context was created with; ScimClient keeps it current through the token manager
+  tokenRequest?: TokenRequest;
 }
 
 /**
- * Authentication utility - generates OAuth2 token for API tests
+ * Token request for the configured client, scope and grant type
  */
-export async function getAuthToken(request: any): Promise<OAuth2TokenResponse> {
-  console.log('🔐 Getting OAuth2 authentication token...');
-  
-  const formData = new URLSearchParams();
-  formData.append('grant_type', ProjectConfig.oauth.defaultGrantType);
-  formData.append('scope', ProjectConfig.oauth.defaultScope);
-  formData.append('client_id', ProjectConfig.oauth.clientId);
-  formData.append('client_secret', ProjectConfig.oauth.clientSecret);
-  
-  const tokenUrl = `${ProjectConfig.oauth.baseUrl}${ProjectConfig.oauth.tokenEndpoint}`;
-  console.log(`📍 Token URL: ${tokenUrl}`);
-  
-  const response = await request.post(tokenUrl, {
-    headers: {
-      'Content-Type': 'application/x-www-form-urlencoded',
-      'Accept': 'application/json'
-    },
-    data: formData.toString(),
+export function getDefaultTokenRequest(): TokenRequest {
+  return {
+    tokenUrl: getTokenUrl(),
+    clientId: ProjectConfig.oauth.clientId,
+    clientSecret: ProjectConfig.oauth.clientSecret,
+    scope: ProjectConfig.oauth.defaultScope,
+    grantType: ProjectConfig.oauth.defaultGrantType,
     timeout: ProjectConfig.timeouts.request
-  });
-  
-  if (response.status() !== 200) {
-    const errorBody = await response.text();
-    throw new Error(`Authentication failed: ${response.status()} - ${errorBody}`);
-  }
-  
-  const tokenData = await response.json();
-  console.log(`✅ Token obtained successfully (expires in ${tokenData.expires_in} seconds)`);
-  
+  };
+}
+
+/**
+ * Authentication utility - requests a new OAuth2 token, bypassing the token cache
+ */
+export async function getAuthToken(request: any): Promise<OAuth2TokenResponse> {
+  log.debug('Requesting OAuth2 token', { tokenUrl: getTokenUrl() });
+
+  const tokenData = await requestToken(request, getDefaultTokenRequest());
+  log.info(`Token obtained (expires in ${tokenData.expires_in} seconds)`);
+
   return tokenData;
 }
 
 /**
  * Create API test context with authentication
+ * The token comes from the token manager, so workers and spec files share it until it nears expiry
  */
-export async function createApiTestContext(request: any): Promise<ApiTestContext> {
+export async function createApiTestContext(request: any, tokenRequest: TokenRequest = getDefaultTokenRequest()): Promise<ApiTestContext> {
   // Validate endpoint configuration before proceeding
   validateEndpointConfiguration();
   
-  const tokenResponse = await getAuthToken(request);
+  const token = await tokenManager.getToken(request, tokenRequest);
   
   const context: ApiTestContext = {
-    accessToken: tokenResponse.access_token,
+    accessToken: token.accessToken,
     baseUrl: ProjectConfig.api.baseUrl,
+    tokenRequest,
     headers: {
-      'Authorization': `Bearer ${tokenResponse.access_token}`,
+      'Authorization': `Bearer ${token.accessToken}`,
       'Accept': 'application/json',
       'Content-Type': 'application/json',
       'User-Agent': 'Playwright-SCIM-API-Tests/1.0'
     }
   };
   
-  console.log(`🚀 API test context created for base URL: ${context.baseUrl}`);
+  log.debug(`API test context created for ${context.baseUrl}`);
   logEndpointConfiguration();
   return context;
 }
@@ -159,11 +178,11 @@ export function getCurrentEndpointType(): ApiEndpointType {
  * Utility function to log current endpoint configuration
  */
 export function logEndpointConfiguration(): void {
-  console.log('🔧 API Endpoint Configuration:');
-  console.log(`📍 Current Type: ${getCurrentEndpointType().toUpperCase()}`);
-  console.log(`🌐 Base URL: ${ProjectConfig.api.baseUrl}`);
-  console.log(`📁 Endpoint Path: ${getCurrentEndpointPath()}`);
-  console.log(`✅ Full URL: ${ProjectConfig.api.baseUrl}${getCurrentEndpointPath()}`);
+  log.debug(`Endpoint: ${ProjectConfig.api.baseUrl}${getCurrentEndpointPath()}`, {
+    endpointType: getCurrentEndpointType(),
+    baseUrl: ProjectConfig.api.baseUrl,
+    endpointPath: getCurrentEndpointPath()
+  });
 }
 
 /**
@@ -203,6 +222,9 @@ export const ApiEndpoints = {
   userSearch: () => `${getCurrentEndpointPath()}/Users/.search`,
   groupSearch: () => `${getCurrentEndpointPath()}/Groups/.search`,
   
+  // Bulk endpoint (RFC 7644 §3.7)
+  bulk: () => `${getCurrentEndpointPath()}/Bulk`,
+  
   // Health check endpoints (context-aware for SCIM vs API Server)
   healthcheck: () => getCurrentEndpointType() === 'scim' ? `/obscim/healthcheck` : `/healthcheck`,
   diagnostics: () => getCurrentEndpointType() === 'scim' ? `/obscim/diagnostics/details` : `/diagnostics/details`,
@@ -220,6 +242,8 @@ export const ScimSchemas = {
   LIST_RESPONSE: 'urn:ietf:params:scim:api:messages:2.0:ListResponse',
   SEARCH_REQUEST: 'urn:ietf:params:scim:api:messages:2.0:SearchRequest',
   PATCH_OP: 'urn:ietf:params:scim:api:messages:2.0:PatchOp',
+  BULK_REQUEST: 'urn:ietf:params:scim:api:messages:2.0:BulkRequest',
+  BULK_RESPONSE: 'urn:ietf:params:scim:api:messages:2.0:BulkResponse',
   ERROR: 'urn:ietf:params:scim:api:messages:2.0:Error',
   SERVICE_PROVIDER_CONFIG: 'urn:ietf:params:scim:schemas:core:2.0:ServiceProviderConfig',
   SCHEMA: 'urn:ietf:params:scim:schemas:core:2.0:Schema',
@@ -230,8 +254,7 @@ export const ScimSchemas = {
  * Utility function to log API request details
  */
 export function logApiRequest(method: string, endpoint: string, description?: string): void {
-  console.log(`🌐 ${method.toUpperCase()} Request: ${endpoint}`);
-  if (description) console.log(`📝 Description: ${description}`);
+  log.debug(`${method.toUpperCase()} ${endpoint}`, description ? { description } : undefined);
 }
 
 /**
@@ -242,13 +265,13 @@ export const ApiValidators = {
     if (response.status() !== expectedStatus) {
       throw new Error(`Expected status ${expectedStatus}, got ${response.status()}`);
     }
-    console.log(`✅ Response status validation passed (${response.status()})`);
+    log.debug(`Response status ${response.status()} as expected`);
   },
   
   validateJsonResponse: async (response: any) => {
     try {
       const body = await response.json();
-      console.log('✅ Valid JSON response received');
+      log.debug('Valid JSON response received');
       return body;
     } catch (error) {
       throw new Error(`Invalid JSON response: ${error}`);
@@ -265,7 +288,7 @@ export const ApiValidators = {
       throw new Error(`Expected resourceType ${resourceType}, got ${responseBody.meta?.resourceType}`);
     }
     
-    console.log('✅ SCIM response validation passed');
+    log.debug('SCIM response validation passed');
   },
 
   /**
@@ -274,12 +297,10 @@ export const ApiValidators = {
    */
   validateResponseTime: (startTime: number, maxTimeMs: number = 2000, operationName: string = 'API call') => {
     const responseTime = Date.now() - startTime;
-    console.log(`⏱️  Response time: ${responseTime}ms`);
-    
     if (responseTime > maxTimeMs) {
-      console.log(`⚠️  Warning: ${operationName} took ${responseTime}ms (exceeds ${maxTimeMs}ms threshold)`);
+      log.warn(`${operationName} took ${responseTime}ms (exceeds ${maxTimeMs}ms threshold)`);
     } else {
-      console.log(`✅ Response time acceptable (< ${maxTimeMs}ms)`);
+      log.debug(`${operationName} took ${responseTime}ms (< ${maxTimeMs}ms)`);
     }
     
     return responseTime;
@@ -301,7 +322,7 @@ export const ApiValidators = {
       throw new Error(`${objectName} missing required fields: ${missingFields.join(', ')}`);
     }
     
-    console.log(`✅ All required fields present in ${objectName}`);
+    log.debug(`All required fields present in ${objectName}`);
   },
 
   /**
@@ -321,7 +342,7 @@ export const ApiValidators = {
       throw new Error(`Type validation failed: ${typeErrors.join('; ')}`);
     }
     
-    console.log('✅ All field types match expected types');
+    log.debug('All field types match expected types');
   }
 };
 
@@ -427,17 +448,16 @@ export function getTokenUrl(): string {
  * Utility function to log test parameters (with sensitive data hidden)
  */
 export function logTestParams(params: OAuth2TestParams): void {
-  console.log('📝 Test parameters:');
-  console.log(`  - Description: ${params.test_description || 'No description'}`);
-  console.log(`  - Grant Type: ${params.grant_type || 'Not specified'}`);
-  console.log(`  - Scope: ${params.scope || 'Not specified'}`);
-  console.log(`  - Client ID: ${params.client_id || 'Not specified'}`);
-  console.log(`  - Client Secret: ${params.client_secret ? '[SET]' : '[NOT SET]'}`);
-  console.log(`  - Expected Status: ${params.expected_status || 'Not specified'}`);
-  
-  if (params.additional_params && Object.keys(params.additional_params).length > 0) {
-    console.log(`  - Additional Params: ${Object.keys(params.additional_params).join(', ')}`);
-  }
+  log.info(`Test parameters: ${params.test_description || 'No description'}`, {
+    grantType: params.grant_type || 'Not specified',
+    scope: params.scope || 'Not specified',
+    clientIdSet: !!params.client_id,
+    clientSecretSet: !!params.client_secret,
+    expectedStatus: params.expected_status || 'Not specified',
+    ...(params.additional_params && Object.keys(params.additional_params).length > 0
+      ? { additionalParams: Object.keys(params.additional_params) }
+      : {})
+  });
 }
 
 /**
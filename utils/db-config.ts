@@ -1,176 +1,321 @@
 import sql from 'mssql';
 import * as dotenv from 'dotenv';
+import { isOemEnvironment } from './api-config';
+import { EnvironmentProfile, getEnvironmentProfile, resolveSecret } from './environments';
+import { log } from './logger';
+import { TestDatabase, UserAccountRow, UserGroupRow } from './test-database';
 
 // Load environment variables
 dotenv.config();
 
 /**
- * Environment-specific database configurations
- * OEM and Non-OEM environments with their database and API settings
+ * SQL Server connection settings for an environment profile (the password comes from its passwordEnv)
  */
-interface EnvironmentDbConfig {
-  server: string;
-  database: string;
-  user: string;
-  password: string;
-  apiBaseUrl: string;
-  oauthBaseUrl: string;
-  institutionId?: string; // Optional: Used for OEM environment searches
-}
-
-const environmentConfigs = {
-  oem: {
-    server: 'RDV-009275\\QASQL17LOCAL',
-    database: 'LocalOBTestingTwo',
-    user: 'hsi',
-    password: 'wstinol',
-    apiBaseUrl: 'https://rdv-009275.hylandqa.net',
-    oauthBaseUrl: 'https://rdv-009275.hylandqa.net/identityservice',
-    institutionId: '102' // Default institution ID for OEM searches
-  },
-  nonOem: {
-    server: 'RDV-010318\\LOCALSQLSERVER22',
-    database: 'LocalOBTesting',
-    user: 'hsi',
-    password: 'wstinol',
-    apiBaseUrl: 'https://rdv-010318.hylandqa.net',
-    oauthBaseUrl: 'https://rdv-010318.hylandqa.net/identityservice'
+export function getSqlServerConfig(profile: EnvironmentProfile = getEnvironmentProfile()): sql.config {
+  const database = profile.database;
+  if (!database) {
+    throw new Error(`Environment "${profile.name}" has no database configured in environments.json`);
   }
-};
+  return {
+    server: database.server,
+    database: database.database,
+    user: database.user,
+    password: resolveSecret(database.passwordEnv, `The database password for "${profile.name}"`),
+    options: {
+      encrypt: database.encrypt ?? process.env.DB_ENCRYPT === 'true',
+      trustServerCertificate: database.trustServerCertificate ?? process.env.DB_TRUST_SERVER_CERTIFICATE === 'true',
+      enableArithAbort: true,
+      connectTimeout: 60000, // Increased from 30s to 60s
+      requestTimeout: 60000  // Increased from 30s to 60s
+    },
+    pool: {
+      max: 50,
+      min: 0, // Changed from 2 to 0 - don't pre-create connections
+      idleTimeoutMillis: 60000, // Increased from 30s to 60s
+      acquireTimeoutMillis: 60000 // Increased from 30s to 60s
+    }
+  };
+}
 
 /**
- * Get database and API configuration based on the OEM environment variable
- * Set OEM=true or OEM=1 for OEM environment, otherwise defaults to Non-OEM
+ * OnBase SQL Server adapter - opens the shared connection pool on the first query
  */
-function getDbConfigForEnvironment(): EnvironmentDbConfig {
-  // Check if OEM parameter is set (can be 'true', '1', 'yes', or 'oem')
-  const oemParam = process.env.OEM?.toLowerCase();
-  const isOem = oemParam === 'true' || oemParam === '1' || oemParam === 'yes' || oemParam === 'oem';
-  
-  const selectedConfig = isOem ? environmentConfigs.oem : environmentConfigs.nonOem;
-  
-  console.log(`🔧 Environment: ${isOem ? 'OEM (rdv-009275)' : 'Non-OEM (rdv-010318)'}`);
-  console.log(`📍 API URL: ${selectedConfig.apiBaseUrl}`);
-  console.log(`ðŸ—„ï¸  Database: ${selectedConfig.server}\\${selectedConfig.database}`);
-  
-  // Set the API_BASE_URL and OAUTH_BASE_URL for the test context
-  process.env.API_BASE_URL = selectedConfig.apiBaseUrl;
-  process.env.OAUTH_BASE_URL = selectedConfig.oauthBaseUrl;
-  
-  return selectedConfig;
-}
+export class SqlServerDatabase implements TestDatabase {
+  private poolPromise: Promise<sql.ConnectionPool> | null = null;
+
+  constructor(private readonly profile: EnvironmentProfile) {}
 
-// Get the appropriate database configuration for the current environment
-const envDbConfig = getDbConfigForEnvironment();
-
-// SQL Server configuration with environment-specific or fallback values
-const dbConfig: sql.config = {
-  server: envDbConfig.server,
-  database: envDbConfig.database,
-  user: envDbConfig.user,
-  password: envDbConfig.password,
-  options: {
-    encrypt: process.env.DB_ENCRYPT === 'true',
-    trustServerCertificate: process.env.DB_TRUST_SERVER_CERTIFICATE === 'true',
-    enableArithAbort: true,
-    connectTimeout: 60000, // Increased from 30s to 60s
-    requestTimeout: 60000  // Increased from 30s to 60s
-  },
-  pool: {
-    max: 50,
-    min: 0, // Changed from 2 to 0 - don't pre-create connections
-    idleTimeoutMillis: 60000, // Increased from 30s to 60s
-    acquireTimeoutMillis: 60000 // Increased from 30s to 60s
+  get description(): string {
+    return `SQL Server ${this.profile.database?.server}/${this.profile.database?.database} (${this.profile.name})`;
   }
-};
 
-// Shared connection pool
-let poolPromise: Promise<sql.ConnectionPool> | null = null;
+  /**
+   * Get or create the shared connection pool
+   */
+  private async getPool(): Promise<sql.ConnectionPool> {
+    if (!this.poolPromise) {
+      const dbConfig = getSqlServerConfig(this.profile);
+      log.debug('Creating database connection pool', { server: dbConfig.server, database: dbConfig.database });
 
-/**
- * Get or create a shared connection pool
- */
-async function getPool(): Promise<sql.ConnectionPool> {
-  if (!poolPromise) {
-    console.log(`⏳ Creating database connection pool...`);
-    console.log(`   Server: ${dbConfig.server}`);
-    console.log(`   Database: ${dbConfig.database}`);
-    
-    poolPromise = new sql.ConnectionPool(dbConfig)
-      .connect()
-      .then(pool => {
-        console.log('✅ Database connection pool successfully created and connected');
-        pool.on('error', err => {
-          console.error('❌ Database pool error:', err.message);
-          poolPromise = null;
+      this.poolPromise = new sql.ConnectionPool(dbConfig)
+        .connect()
+        .then(pool => {
+          log.info('Database connection pool connected');
+          pool.on('error', err => {
+            log.error(`Database pool error: ${err.message}`);
+            this.poolPromise = null;
+          });
+          return pool;
+        })
+        .catch(err => {
+          log.error(`Failed to create database pool: ${err.message}`, { code: err.code });
+          this.poolPromise = null;
+          throw err;
         });
-        return pool;
-      })
-      .catch(err => {
-        console.error('❌ Failed to create database pool:', err.message);
-        console.error('   Error details:', err);
-        poolPromise = null;
-        throw err;
-      });
+    }
+    return this.poolPromise;
   }
-  return poolPromise;
-}
 
-/**
- * Retry a database operation with exponential backoff
- */
-async function retryOperation<T>(
-  operation: () => Promise<T>,
-  maxRetries: number = 3,
-  initialDelay: number = 1000
-): Promise<T> {
-  let lastError: any;
-  
-  for (let attempt = 0; attempt < maxRetries; attempt++) {
-    try {
-      return await operation();
-    } catch (error: any) {
-      lastError = error;
-      
-      // Don't retry if it's not a connection error
-      if (!error.message?.includes('Failed to connect') && 
-          !error.message?.includes('Connection') &&
-          !error.code?.includes('ECONNREFUSED')) {
-        throw error;
-      }
-      
-      // If this is the last attempt, throw the error
-      if (attempt === maxRetries - 1) {
-        break;
-      }
-      
-      // Calculate delay with exponential backoff
-      const delay = initialDelay * Math.pow(2, attempt);
-      console.log(`Database connection attempt ${attempt + 1} failed, retrying in ${delay}ms...`);
-      await new Promise(resolve => setTimeout(resolve, delay));
-      
-      // Reset pool on connection errors
-      if (poolPromise) {
-        try {
-          const pool = await poolPromise;
-          await pool.close();
-        } catch (e) {
-          // Ignore errors when closing
+  /**
+   * Retry a database operation with exponential backoff
+   */
+  private async retryOperation<T>(
+    operation: (pool: sql.ConnectionPool) => Promise<T>,
+    maxRetries: number = 3,
+    initialDelay: number = 1000
+  ): Promise<T> {
+    let lastError: any;
+
+    for (let attempt = 0; attempt < maxRetries; attempt++) {
+      try {
+        return await operation(await this.getPool());
+      } catch (error: any) {
+        lastError = error;
+
+        // Don't retry if it's not a connection error
+        if (!error.message?.includes('Failed to connect') &&
+            !error.message?.includes('Connection') &&
+            !error.code?.includes('ECONNREFUSED')) {
+          throw error;
         }
-        poolPromise = null;
+
+        // If this is the last attempt, throw the error
+        if (attempt === maxRetries - 1) {
+          break;
+        }
+
+        // Calculate delay with exponential backoff
+        const delay = initialDelay * Math.pow(2, attempt);
+        log.warn(`Database connection attempt ${attempt + 1} failed, retrying in ${delay}ms`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+
+        // Reset pool on connection errors
+        await this.close().catch(() => undefined);
       }
     }
+
+    throw lastError;
   }
-  
-  throw lastError;
+
+  getUserByName(username: string): Promise<UserAccountRow | null> {
+    return this.retryOperation(async pool => {
+      const result = await pool.request()
+        .input('username', sql.NVarChar, username)
+        .query(`
+          SELECT 
+            usernum,
+            username,
+            realname,
+            emailaddress,
+            disablelogin,
+            lastlogon,
+            lastpwchange,
+            obuniqueid,
+            usertype
+          FROM hsi.useraccount
+          WHERE username = @username
+        `);
+
+      return result.recordset.length > 0 ? result.recordset[0] : null;
+    });
+  }
+
+  getUserById(userNum: number): Promise<UserAccountRow | null> {
+    return this.retryOperation(async pool => {
+      const result = await pool.request()
+        .input('userNum', sql.BigInt, userNum)
+        .query(`
+          SELECT 
+            usernum,
+            username,
+            realname,
+            emailaddress,
+            disablelogin,
+            lastlogon,
+            lastpwchange,
+            obuniqueid,
+            usertype
+          FROM hsi.useraccount
+          WHERE usernum = @userNum
+        `);
+
+      return result.recordset.length > 0 ? result.recordset[0] : null;
+    });
+  }
+
+  getGroupById(groupNum: number): Promise<UserGroupRow | null> {
+    return this.retryOperation(async pool => {
+      const result = await pool.request()
+        .input('groupNum', sql.BigInt, groupNum)
+        .query(`
+          SELECT 
+            usergroupnum,
+            usergroupname
+          FROM hsi.usergroup
+          WHERE usergroupnum = @groupNum
+        `);
+
+      return result.recordset.length > 0 ? result.recordset[0] : null;
+    });
+  }
+
+  getGroupByName(groupName: string): Promise<UserGroupRow | null> {
+    return this.retryOperation(async pool => {
+      const result = await pool.request()
+        .input('groupName', sql.NVarChar, groupName)
+        .query(`
+          SELECT 
+            usergroupnum,
+            usergroupname
+          FROM hsi.usergroup
+          WHERE usergroupname = @groupName
+        `);
+
+      return result.recordset.length > 0 ? result.recordset[0] : null;
+    });
+  }
+
+  isUserGroupMember(userNum: number, groupNum: number): Promise<boolean> {
+    return this.retryOperation(async pool => {
+      const result = await pool.request()
+        .input('userNum', sql.BigInt, userNum)
+        .input('groupNum', sql.BigInt, groupNum)
+        .query(`
+          SELECT 
+            usernum,
+            groupnum
+          FROM hsi.userxusergroup
+          WHERE usernum = @usernum AND usergroupnum = @groupnum
+        `);
+
+      return result.recordset.length > 0;
+    });
+  }
+
+  getGroupMembers(groupNum: number): Promise<number[]> {
+    return this.retryOperation(async pool => {
+      const result = await pool.request()
+        .input('groupNum', sql.BigInt, groupNum)
+        .query(`
+          SELECT 
+            usernum
+          FROM hsi.userxusergroup
+          WHERE usergroupnum = @groupnum
+        `);
+
+      return result.recordset.map(row => parseInt(row.usernum));
+    });
+  }
+
+  createTestUser(username: string, institutionId?: string): Promise<number> {
+    return this.retryOperation(async pool => {
+      // Generate a unique numeric ID for obuniqueid (based on timestamp)
+      const obUniqueId = Date.now();
+
+      const result = await pool.request()
+        .input('username', sql.NVarChar, username)
+        .input('realname', sql.NVarChar, `Test User ${username}`)
+        .input('emailaddress', sql.NVarChar, `${username}@test.com`)
+        .input('disablelogin', sql.Bit, 0)
+        .input('obuniqueid', sql.BigInt, obUniqueId)
+        .query(`
+          INSERT INTO hsi.useraccount (
+            username,
+            realname,
+            emailaddress,
+            disablelogin,
+            obuniqueid
+          )
+          OUTPUT INSERTED.usernum
+          VALUES (
+            @username,
+            @realname,
+            @emailaddress,
+            @disablelogin,
+            @obuniqueid
+          )
+        `);
+
+      return result.recordset[0].usernum;
+    });
+  }
+
+  deleteTestUser(userNum: number): Promise<void> {
+    return this.retryOperation(async pool => {
+      // First delete any group memberships
+      await pool.request()
+        .input('userNum', sql.BigInt, userNum)
+        .query(`DELETE FROM hsi.userxusergroup WHERE usernum = @userNum`);
+
+      // Then delete the user
+      await pool.request()
+        .input('userNum', sql.BigInt, userNum)
+        .query(`DELETE FROM hsi.useraccount WHERE usernum = @userNum`);
+    });
+  }
+
+  async close(): Promise<void> {
+    if (this.poolPromise) {
+      try {
+        const pool = await this.poolPromise;
+        await pool.close();
+        log.debug('Database connection pool closed');
+      } finally {
+        this.poolPromise = null;
+      }
+    }
+  }
+}
+
+// Database used by the functions below; created on first use
+let testDatabase: TestDatabase | null = null;
+
+/**
+ * The database DB-backed helpers use (SQL Server for the current environment unless replaced)
+ */
+export function getTestDatabase(): TestDatabase {
+  if (!testDatabase) {
+    testDatabase = new SqlServerDatabase(getEnvironmentProfile());
+  }
+  return testDatabase;
+}
+
+/**
+ * Point the DB-backed helpers at another database, e.g. an InMemoryDatabase sharing the
+ * local server's store (null goes back to the default). Returns the previous one so tests can restore it.
+ */
+export function setTestDatabase(database: TestDatabase | null): TestDatabase | null {
+  const previous = testDatabase;
+  testDatabase = database;
+  if (database) log.info(`Test database: ${database.description}`);
+  return previous;
 }
 
 // Export database connection info for logging
-export const getDatabaseInfo = () => ({
-  server: dbConfig.server,
-  database: dbConfig.database,
-  user: dbConfig.user
-});
+export const getDatabaseInfo = () => {
+  const database = getEnvironmentProfile().database;
+  return { server: database?.server, database: database?.database, user: database?.user };
+};
 
 /**
  * Query the useraccount table to verify user exists
@@ -178,28 +323,7 @@ export const getDatabaseInfo = () => ({
  * @returns User record if found, null otherwise
  */
 export async function getUserFromDatabase(username: string) {
-  return retryOperation(async () => {
-    const pool = await getPool();
-    
-    const result = await pool.request()
-      .input('username', sql.NVarChar, username)
-      .query(`
-        SELECT 
-          usernum,
-          username,
-          realname,
-          emailaddress,
-          disablelogin,
-          lastlogon,
-          lastpwchange,
-          obuniqueid,
-          usertype
-        FROM hsi.useraccount
-        WHERE username = @username
-      `);
-    
-    return result.recordset.length > 0 ? result.recordset[0] : null;
-  });
+  return getTestDatabase().getUserByName(username);
 }
 
 /**
@@ -208,28 +332,7 @@ export async function getUserFromDatabase(username: string) {
  * @returns User record if found, null otherwise
  */
 export async function getUserByIdFromDatabase(userNum: number) {
-  return retryOperation(async () => {
-    const pool = await getPool();
-    
-    const result = await pool.request()
-      .input('userNum', sql.BigInt, userNum)
-      .query(`
-        SELECT 
-          usernum,
-          username,
-          realname,
-          emailaddress,
-          disablelogin,
-          lastlogon,
-          lastpwchange,
-          obuniqueid,
-          usertype
-        FROM hsi.useraccount
-        WHERE usernum = @userNum
-      `);
-    
-    return result.recordset.length > 0 ? result.recordset[0] : null;
-  });
+  return getTestDatabase().getUserById(userNum);
 }
 
 /**
@@ -238,21 +341,7 @@ export async function getUserByIdFromDatabase(userNum: number) {
  * @returns Group record if found, null otherwise
  */
 export async function getGroupByIdFromDatabase(groupNum: number) {
-  return retryOperation(async () => {
-    const pool = await getPool();
-    
-    const result = await pool.request()
-      .input('groupNum', sql.BigInt, groupNum)
-      .query(`
-        SELECT 
-          usergroupnum,
-          usergroupname
-        FROM hsi.usergroup
-        WHERE usergroupnum = @groupNum
-      `);
-    
-    return result.recordset.length > 0 ? result.recordset[0] : null;
-  });
+  return getTestDatabase().getGroupById(groupNum);
 }
 
 /**
@@ -261,21 +350,7 @@ export async function getGroupByIdFromDatabase(groupNum: number) {
  * @returns Group record if found, null otherwise
  */
 export async function getGroupByNameFromDatabase(groupName: string) {
-  return retryOperation(async () => {
-    const pool = await getPool();
-    
-    const result = await pool.request()
-      .input('groupName', sql.NVarChar, groupName)
-      .query(`
-        SELECT 
-          usergroupnum,
-          usergroupname
-        FROM hsi.usergroup
-        WHERE usergroupname = @groupName
-      `);
-    
-    return result.recordset.length > 0 ? result.recordset[0] : null;
-  });
+  return getTestDatabase().getGroupByName(groupName);
 }
 
 /**
@@ -285,22 +360,7 @@ export async function getGroupByNameFromDatabase(groupName: string) {
  * @returns true if user is member, false otherwise
  */
 export async function isUserGroupMember(userNum: number, groupNum: number) {
-  return retryOperation(async () => {
-    const pool = await getPool();
-    
-    const result = await pool.request()
-      .input('userNum', sql.BigInt, userNum)
-      .input('groupNum', sql.BigInt, groupNum)
-      .query(`
-        SELECT 
-          usernum,
-          groupnum
-        FROM hsi.userxusergroup
-        WHERE usernum = @usernum AND usergroupnum = @groupnum
-      `);
-    
-    return result.recordset.length > 0;
-  });
+  return getTestDatabase().isUserGroupMember(userNum, groupNum);
 }
 
 /**
@@ -309,35 +369,17 @@ export async function isUserGroupMember(userNum: number, groupNum: number) {
  * @returns Array of user IDs in the group
  */
 export async function getGroupMembers(groupNum: number) {
-  return retryOperation(async () => {
-    const pool = await getPool();
-    
-    const result = await pool.request()
-      .input('groupNum', sql.BigInt, groupNum)
-      .query(`
-        SELECT 
-          usernum
-        FROM hsi.userxusergroup
-        WHERE usergroupnum = @groupnum
-      `);
-    
-    return result.recordset.map(row => parseInt(row.usernum));
-  });
+  return getTestDatabase().getGroupMembers(groupNum);
 }
 
-/**
- * Check if current environment is OEM
- */
-export function isOemEnvironment(): boolean {
-  const oemParam = process.env.OEM?.toLowerCase();
-  return oemParam === 'true' || oemParam === '1' || oemParam === 'yes' || oemParam === 'oem';
-}
+// Re-exported for existing imports from db-config
+export { isOemEnvironment };
 
 /**
  * Get institution ID for OEM environment (returns undefined for Non-OEM)
  */
 export function getInstitutionId(): string | undefined {
-  return isOemEnvironment() ? envDbConfig.institutionId : undefined;
+  return isOemEnvironment() ? getEnvironmentProfile().defaultInstitutionId : undefined;
 }
 
 /**
@@ -347,40 +389,9 @@ export function getInstitutionId(): string | undefined {
  * @returns The created user's UserNum
  */
 export async function createTestUserInDatabase(username: string, institutionId?: string): Promise<number> {
-  return retryOperation(async () => {
-    const pool = await getPool();
-    
-    // Generate a unique numeric ID for obuniqueid (based on timestamp)
-    const obUniqueId = Date.now();
-    
-    const result = await pool.request()
-      .input('username', sql.NVarChar, username)
-      .input('realname', sql.NVarChar, `Test User ${username}`)
-      .input('emailaddress', sql.NVarChar, `${username}@test.com`)
-      .input('disablelogin', sql.Bit, 0)
-      .input('obuniqueid', sql.BigInt, obUniqueId)
-      .query(`
-        INSERT INTO hsi.useraccount (
-          username,
-          realname,
-          emailaddress,
-          disablelogin,
-          obuniqueid
-        )
-        OUTPUT INSERTED.usernum
-        VALUES (
-          @username,
-          @realname,
-          @emailaddress,
-          @disablelogin,
-          @obuniqueid
-        )
-      `);
-    
-    const userNum = result.recordset[0].usernum;
-    console.log(`✅ Created test user in database: ${username} (ID: ${userNum}, InstitutionId: ${institutionId || 'N/A'})`);
-    return userNum;
-  });
+  const userNum = await getTestDatabase().createTestUser(username, institutionId);
+  log.info(`Created test user in database: ${username} (ID: ${userNum}, InstitutionId: ${institutionId || 'N/A'})`);
+  return userNum;
 }
 
 /**
@@ -388,36 +399,19 @@ export async function createTestUserInDatabase(username: string, institutionId?:
  * @param userNum - The UserNum to delete
  */
 export async function deleteTestUserFromDatabase(userNum: number): Promise<void> {
-  return retryOperation(async () => {
-    const pool = await getPool();
-    
-    // First delete any group memberships
-    await pool.request()
-      .input('userNum', sql.BigInt, userNum)
-      .query(`DELETE FROM hsi.userxusergroup WHERE usernum = @userNum`);
-    
-    // Then delete the user
-    await pool.request()
-      .input('userNum', sql.BigInt, userNum)
-      .query(`DELETE FROM hsi.useraccount WHERE usernum = @userNum`);
-    
-    console.log(`🗑️  Cleaned up test user from database (ID: ${userNum})`);
-  });
+  await getTestDatabase().deleteTestUser(userNum);
+  log.debug(`Cleaned up test user from database (ID: ${userNum})`);
 }
 
 /**
  * Close all SQL connections
  */
 export async function closeDatabaseConnections() {
-  if (poolPromise) {
+  if (testDatabase) {
     try {
-      const pool = await poolPromise;
-      await pool.close();
-      console.log('Database connection pool closed');
+      await testDatabase.close();
     } catch (error) {
-      console.error('Error closing database pool:', error);
-    } finally {
-      poolPromise = null;
+      log.error(`Error closing database pool: ${(error as Error).message}`);
     }
   }
 }
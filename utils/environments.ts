@@ -0,0 +1,191 @@
+/**
+ * Environment Profiles
+ * Named test environments (API/OAuth URLs, database, OEM flag, institutions, endpoint type)
+ * from environments.json, validated against environments.schema.json and selected with SCIM_ENV
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { ApiEndpointType, isOemEnvironment } from './api-config';
+
+/**
+ * SQL Server connection for a profile; the password is read from the named env var
+ */
+export interface DatabaseProfile {
+  server: string;
+  database: string;
+  user: string;
+  passwordEnv: string;
+  encrypt?: boolean;
+  trustServerCertificate?: boolean;
+}
+
+export interface EnvironmentProfile {
+  name: string;
+  description?: string;
+  apiBaseUrl: string;
+  oauthBaseUrl: string;
+  oem: boolean;
+  // Institutions with test data (OEM only)
+  institutionIds: string[];
+  // Institution used for OEM searches and new users
+  defaultInstitutionId?: string;
+  endpointType: ApiEndpointType;
+  database?: DatabaseProfile;
+  // Most a single request may take, in ms, by operation ("GET /Users/{id}") with "*" as the fallback
+  latencyBudgets?: Record<string, number>;
+}
+
+export interface EnvironmentsFile {
+  default: string;
+  profiles: Record<string, Omit<EnvironmentProfile, 'name'>>;
+}
+
+export const SCIM_ENV = 'SCIM_ENV';
+// Overrides the environments file location
+export const ENVIRONMENTS_FILE_ENV = 'SCIM_ENVIRONMENTS_FILE';
+
+const DEFAULT_ENVIRONMENTS_FILE = path.resolve(__dirname, '..', 'environments.json');
+const SCHEMA_FILE = path.resolve(__dirname, '..', 'environments.schema.json');
+
+// "*" or an operation name as produced by latencyOperation (utils/scim-latency.ts)
+const LATENCY_OPERATION = /^(\*|(GET|POST|PUT|PATCH|DELETE) \/\S*)$/;
+
+// Keys that would hold a secret inline instead of naming the env var that holds it
+const INLINE_SECRET = /^(password|secret|clientsecret|connectionstring)$/i;
+
+/**
+ * Validate a value against the JSON Schema subset environments.schema.json uses
+ * (type, required, properties, additionalProperties, minProperties, items, enum, pattern, minLength)
+ */
+export function validateJsonSchema(value: any, schema: any, at: string = '$'): string[] {
+  const errors: string[] = [];
+  const actualType = Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value;
+
+  if (schema.type && schema.type !== actualType) {
+    return [`${at}: expected ${schema.type}, got ${actualType}`];
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(`${at}: must be one of ${schema.enum.join(', ')}`);
+  }
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) errors.push(`${at}: must not be empty`);
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) errors.push(`${at}: "${value}" does not match ${schema.pattern}`);
+  }
+  if (actualType === 'array' && schema.items) {
+    value.forEach((item: any, index: number) => errors.push(...validateJsonSchema(item, schema.items, `${at}[${index}]`)));
+  }
+  if (actualType === 'object') {
+    for (const key of schema.required ?? []) {
+      if (!(key in value)) errors.push(`${at}.${key}: required`);
+    }
+    if (schema.minProperties !== undefined && Object.keys(value).length < schema.minProperties) {
+      errors.push(`${at}: needs at least ${schema.minProperties} entr${schema.minProperties === 1 ? 'y' : 'ies'}`);
+    }
+    for (const [key, child] of Object.entries(value)) {
+      const childSchema = schema.properties?.[key] ?? schema.additionalProperties;
+      if (childSchema === false) {
+        errors.push(INLINE_SECRET.test(key)
+          ? `${at}.${key}: secrets must not be stored inline - reference an env var instead (e.g. passwordEnv)`
+          : `${at}.${key}: unknown property`);
+      } else if (childSchema && childSchema !== true) {
+        errors.push(...validateJsonSchema(child, childSchema, `${at}.${key}`));
+      }
+    }
+  }
+  return errors;
+}
+
+/**
+ * Read and validate the environments file; throws listing every problem
+ */
+export function loadEnvironments(file: string = process.env[ENVIRONMENTS_FILE_ENV] || DEFAULT_ENVIRONMENTS_FILE): EnvironmentsFile {
+  let environments: EnvironmentsFile;
+  try {
+    environments = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (error: any) {
+    throw new Error(`Cannot read environments file ${file}: ${error.message}`);
+  }
+
+  const errors = validateJsonSchema(environments, JSON.parse(fs.readFileSync(SCHEMA_FILE, 'utf8')));
+  if (errors.length === 0) {
+    if (!(environments.default in environments.profiles)) {
+      errors.push(`$.default: no profile named "${environments.default}"`);
+    }
+    for (const [name, profile] of Object.entries(environments.profiles)) {
+      if (profile.oem && !profile.defaultInstitutionId) {
+        errors.push(`$.profiles.${name}.defaultInstitutionId: required for OEM profiles`);
+      }
+      if (profile.defaultInstitutionId && !profile.institutionIds.includes(profile.defaultInstitutionId)) {
+        errors.push(`$.profiles.${name}.defaultInstitutionId: must be one of institutionIds`);
+      }
+      for (const [operation, budget] of Object.entries(profile.latencyBudgets ?? {})) {
+        if (!LATENCY_OPERATION.test(operation)) {
+          errors.push(`$.profiles.${name}.latencyBudgets: "${operation}" is not "*" or "<METHOD> /<path>"`);
+        } else if (!(budget > 0)) {
+          errors.push(`$.profiles.${name}.latencyBudgets.${operation}: must be a positive number of ms`);
+        }
+      }
+    }
+  }
+  if (errors.length > 0) {
+    throw new Error(`Invalid environments file ${file}:\n  ${errors.join('\n  ')}`);
+  }
+  return environments;
+}
+
+/**
+ * Profile name for this run: SCIM_ENV, else "oem" when OEM is set, else the file's default
+ */
+export function selectEnvironmentName(environments: EnvironmentsFile): string {
+  const requested = process.env[SCIM_ENV];
+  if (requested) return requested;
+  return isOemEnvironment() && 'oem' in environments.profiles ? 'oem' : environments.default;
+}
+
+// Validated environments files by path
+const loaded = new Map<string, EnvironmentsFile>();
+
+/**
+ * The selected environment profile (the file is read and validated once per process)
+ */
+export function getEnvironmentProfile(file: string = process.env[ENVIRONMENTS_FILE_ENV] || DEFAULT_ENVIRONMENTS_FILE): EnvironmentProfile {
+  let environments = loaded.get(file);
+  if (!environments) {
+    environments = loadEnvironments(file);
+    loaded.set(file, environments);
+  }
+
+  const name = selectEnvironmentName(environments);
+  if (!(name in environments.profiles)) {
+    throw new Error(`Unknown ${SCIM_ENV} "${name}". Profiles: ${Object.keys(environments.profiles).join(', ')}`);
+  }
+  return { name, ...environments.profiles[name] };
+}
+
+/**
+ * Value of the env var a profile names for a secret
+ */
+export function resolveSecret(envName: string, purpose: string): string {
+  const value = process.env[envName];
+  if (!value) {
+    throw new Error(`${purpose} is read from ${envName}, which is not set (add it to .env or the CI secrets)`);
+  }
+  return value;
+}
+
+/**
+ * Export a profile to the env vars ProjectConfig reads. URLs are skipped when the local
+ * server stands in; an endpoint type set by the caller (ENDPOINT_TYPE / API_ENDPOINT_TYPE) wins.
+ */
+export function applyEnvironmentProfile(profile: EnvironmentProfile, options: { urls: boolean }): void {
+  if (options.urls) {
+    process.env.API_BASE_URL = profile.apiBaseUrl;
+    process.env.OAUTH_BASE_URL = profile.oauthBaseUrl;
+  }
+  process.env.OEM = String(profile.oem);
+  if (!process.env.ENDPOINT_TYPE && !process.env.API_ENDPOINT_TYPE) {
+    process.env.ENDPOINT_TYPE = profile.endpointType;
+  }
+  process.env[SCIM_ENV] = profile.name;
+}
@@ -0,0 +1,106 @@
+/**
+ * JWT Utilities
+ * Minimal HS256 signing, decoding and verification for access tokens
+ * (used by the local token server and by tests that inspect token claims)
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Registered and OAuth-specific claims carried by access tokens
+ */
+export interface JwtClaims {
+  iss?: string;
+  sub?: string;
+  aud?: string | string[];
+  exp?: number;
+  iat?: number;
+  nbf?: number;
+  jti?: string;
+  client_id?: string;
+  scope?: string;
+  [claim: string]: any;
+}
+
+export interface DecodedJwt {
+  header: Record<string, any>;
+  claims: JwtClaims;
+  signature: string;
+}
+
+/**
+ * Encode a JWT header or claims object as a base64url segment
+ */
+export function encodeJwtSegment(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function hmacSha256(input: string, key: string): string {
+  return createHmac('sha256', key).update(input).digest('base64url');
+}
+
+/**
+ * Sign claims as an HS256 JWT
+ */
+export function signJwt(claims: JwtClaims, key: string, header: Record<string, any> = {}): string {
+  const encodedHeader = encodeJwtSegment({ alg: 'HS256', typ: 'JWT', ...header });
+  const encodedClaims = encodeJwtSegment(claims);
+  const signingInput = `${encodedHeader}.${encodedClaims}`;
+  return `${signingInput}.${hmacSha256(signingInput, key)}`;
+}
+
+/**
+ * Decode a JWT without verifying it
+ */
+export function decodeJwt(token: string): DecodedJwt {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new Error('Token does not appear to be a valid JWT structure');
+  }
+
+  try {
+    return {
+      header: JSON.parse(Buffer.from(parts[0], 'base64url').toString('utf8')),
+      claims: JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8')),
+      signature: parts[2]
+    };
+  } catch (error) {
+    throw new Error(`Token header or claims are not valid JSON: ${error}`);
+  }
+}
+
+/**
+ * Verify an HS256 JWT's signature and time-based claims, returning its claims
+ * Throws with the reason when the token is not acceptable
+ */
+export function verifyJwt(token: string, key: string, options: { audience?: string; now?: number } = {}): JwtClaims {
+  const { header, claims, signature } = decodeJwt(token);
+
+  if (header.alg !== 'HS256') {
+    throw new Error(`Unsupported token algorithm: ${header.alg}`);
+  }
+
+  const [encodedHeader, encodedClaims] = token.split('.');
+  const expected = Buffer.from(hmacSha256(`${encodedHeader}.${encodedClaims}`, key));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    throw new Error('Token signature is invalid');
+  }
+
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  if (claims.exp === undefined || claims.exp <= now) {
+    throw new Error('Token has expired');
+  }
+  if (claims.nbf !== undefined && claims.nbf > now) {
+    throw new Error('Token is not yet valid');
+  }
+
+  if (options.audience) {
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(options.audience)) {
+      throw new Error(`Token audience does not include ${options.audience}`);
+    }
+  }
+
+  return claims;
+}
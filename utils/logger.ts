@@ -0,0 +1,211 @@
+/**
+ * Structured Test Logger
+ * Levelled log entries (SCIM_LOG_LEVEL=quiet|info|debug|trace) written as human-readable
+ * lines or JSON lines (SCIM_LOG_FORMAT=human|json), tagged with the current test and worker.
+ * Bearer tokens, client secrets and passwords are redacted from every entry. While a test runs,
+ * every entry (whatever the level) is kept so the fixture can attach the full log to the result.
+ */
+
+export type LogLevel = 'quiet' | 'info' | 'debug' | 'trace';
+export type LogSeverity = 'error' | 'warn' | 'info' | 'debug' | 'trace';
+export type LogFormat = 'human' | 'json';
+
+export interface LogEntry {
+  time: string;
+  level: LogSeverity;
+  message: string;
+  test?: string;
+  worker?: number;
+  [field: string]: any;
+}
+
+export interface LoggerOptions {
+  level?: LogLevel;
+  format?: LogFormat;
+  // Where console output goes (defaults to stdout/stderr)
+  write?: (line: string, severity: LogSeverity) => void;
+  now?: () => Date;
+}
+
+export const LOG_LEVELS: LogLevel[] = ['quiet', 'info', 'debug', 'trace'];
+
+// Lowest level at which each severity is printed
+const PRINTED_FROM: Record<LogSeverity, LogLevel> = {
+  error: 'quiet',
+  warn: 'quiet',
+  info: 'info',
+  debug: 'debug',
+  trace: 'trace'
+};
+
+const REDACTED = '[REDACTED]';
+// Env vars whose values never appear in logs
+const SECRET_ENV = /(SECRET|PASSWORD|_TOKEN)$|^CLIENT_ID$/i;
+// Field names whose values never appear in logs
+const SECRET_FIELD = /^(client_?secret|password|passwd|pwd|access_?token|refresh_?token|authorization|client_?id)$/i;
+
+export interface RedactOptions {
+  // Also replace the values of secret env vars (off where output must not depend on the environment)
+  envValues?: boolean;
+}
+
+/**
+ * Replace bearer tokens, JWTs, secret form/JSON fields and the values of secret env vars
+ */
+export function redact(text: string, options: RedactOptions = {}): string {
+  let result = text
+    .replace(/(Bearer|Basic)\s+[A-Za-z0-9._~+/=-]+/gi, `$1 ${REDACTED}`)
+    .replace(/eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g, REDACTED)
+    .replace(/((?:client_secret|password|access_token|refresh_token)=)[^&\s"]+/gi, `$1${REDACTED}`)
+    .replace(/("(?:client_secret|clientSecret|password|access_token|accessToken|refresh_token)"\s*:\s*)"[^"]*"/g, `$1"${REDACTED}"`);
+
+  if (options.envValues === false) return result;
+  for (const value of secretEnvValues()) {
+    if (result.includes(value)) result = result.split(value).join(REDACTED);
+  }
+  return result;
+}
+
+function secretEnvValues(): string[] {
+  return Object.entries(process.env)
+    .filter(([name, value]) => value && value.length >= 4 && SECRET_ENV.test(name))
+    .map(([, value]) => value!);
+}
+
+/**
+ * Whether a value is that of a secret env var (e.g. CLIENT_ID)
+ */
+export function isSecretEnvValue(value: string): boolean {
+  return secretEnvValues().includes(value);
+}
+
+/**
+ * Redact an object field: Errors keep their name, message and stack, and values JSON cannot
+ * serialize (e.g. circular objects) are logged as their string form
+ */
+function redactObject(value: object, options: RedactOptions): any {
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: redact(value.message, options),
+      ...(value.stack ? { stack: redact(value.stack, options) } : {})
+    };
+  }
+  try {
+    return JSON.parse(redact(JSON.stringify(value), options));
+  } catch {
+    return redact(String(value), options);
+  }
+}
+
+/**
+ * Redact log fields: values of secret-named fields are replaced, other values go through redact()
+ */
+export function redactFields(fields: Record<string, any>, options: RedactOptions = {}): Record<string, any> {
+  return Object.fromEntries(Object.entries(fields).map(([key, value]) => {
+    if (SECRET_FIELD.test(key) && value !== undefined && value !== null && value !== '') return [key, REDACTED];
+    if (typeof value === 'string') return [key, redact(value, options)];
+    if (value && typeof value === 'object') return [key, redactObject(value, options)];
+    return [key, value];
+  }));
+}
+
+export function parseLogLevel(value: string | undefined): LogLevel {
+  const level = (value || 'info').toLowerCase() as LogLevel;
+  if (!LOG_LEVELS.includes(level)) {
+    throw new Error(`Invalid SCIM_LOG_LEVEL: ${value}. Must be one of: ${LOG_LEVELS.join(', ')}`);
+  }
+  return level;
+}
+
+/**
+ * Format an entry as one human-readable line
+ */
+export function formatHuman(entry: LogEntry): string {
+  const { time, level, message, test, worker, ...fields } = entry;
+  const where = worker !== undefined ? ` [w${worker}]` : '';
+  const extra = Object.keys(fields).length > 0 ? ` ${JSON.stringify(fields)}` : '';
+  return `${time.slice(11, 23)} ${level.toUpperCase().padEnd(5)}${where} ${message}${extra}`;
+}
+
+export class Logger {
+  private testTitle?: string;
+  private captured: LogEntry[] | null = null;
+
+  constructor(private readonly options: LoggerOptions = {}) {}
+
+  get level(): LogLevel {
+    return this.options.level ?? parseLogLevel(process.env.SCIM_LOG_LEVEL);
+  }
+
+  get format(): LogFormat {
+    return this.options.format ?? (process.env.SCIM_LOG_FORMAT?.toLowerCase() === 'json' ? 'json' : 'human');
+  }
+
+  error(message: string, fields?: Record<string, any>): void { this.log('error', message, fields); }
+  warn(message: string, fields?: Record<string, any>): void { this.log('warn', message, fields); }
+  info(message: string, fields?: Record<string, any>): void { this.log('info', message, fields); }
+  debug(message: string, fields?: Record<string, any>): void { this.log('debug', message, fields); }
+  trace(message: string, fields?: Record<string, any>): void { this.log('trace', message, fields); }
+
+  /**
+   * Whether entries of this severity are printed at the current level
+   */
+  enabled(severity: LogSeverity): boolean {
+    return LOG_LEVELS.indexOf(this.level) >= LOG_LEVELS.indexOf(PRINTED_FROM[severity]);
+  }
+
+  /**
+   * Start collecting every entry for a test (called by the test fixture)
+   */
+  startTest(title: string): void {
+    this.testTitle = title;
+    this.captured = [];
+  }
+
+  /**
+   * Stop collecting and return the test's entries
+   */
+  endTest(): LogEntry[] {
+    const entries = this.captured ?? [];
+    this.testTitle = undefined;
+    this.captured = null;
+    return entries;
+  }
+
+  /**
+   * Entries rendered in the current format, one per line
+   */
+  render(entries: LogEntry[]): string {
+    return entries.map(entry => this.format === 'json' ? JSON.stringify(entry) : formatHuman(entry)).join('\n');
+  }
+
+  log(level: LogSeverity, message: string, fields: Record<string, any> = {}): void {
+    const worker = process.env.TEST_WORKER_INDEX;
+    const entry: LogEntry = {
+      time: (this.options.now?.() ?? new Date()).toISOString(),
+      level,
+      message: redact(message),
+      ...(this.testTitle ? { test: this.testTitle } : {}),
+      ...(worker !== undefined ? { worker: Number(worker) } : {}),
+      ...redactFields(fields)
+    };
+
+    this.captured?.push(entry);
+    if (!this.enabled(level)) return;
+
+    const line = this.render([entry]);
+    if (this.options.write) {
+      this.options.write(line, level);
+    } else if (level === 'error' || level === 'warn') {
+      console.error(line);
+    } else {
+      console.log(line);
+    }
+  }
+}
+
+/**
+ * Logger shared by the helpers in this process
+ */
+export const log = new Logger();
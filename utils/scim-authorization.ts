@@ -0,0 +1,208 @@
+/**
+ * SCIM Authorization
+ * The Users/Groups operations a token may perform for each scope set it is requested with, and
+ * the tampered tokens (expired, unsigned, re-signed, wrong audience, missing Bearer) every
+ * ApiEndpoints route must reject. Expected outcomes live in authorization-matrix.json.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { ApiEndpoints, ScimSchemas } from './api-config';
+import { decodeJwt, encodeJwtSegment, signJwt } from './jwt';
+import { ScimClient, ScimResponse } from './scim-client';
+import { ScimFilter } from './scim-filter';
+import { ScimDataFactory } from './scim-fixtures';
+import { ScimPatch } from './scim-patch';
+import { buildSearchRequest } from './scim-query';
+import { ScimGroup, ScimUser } from './scim-types';
+import { TokenRequestError } from './token-manager';
+
+// Overrides the matrix location
+export const AUTHORIZATION_MATRIX_ENV = 'SCIM_AUTHZ_MATRIX';
+
+const DEFAULT_MATRIX_FILE = path.resolve(__dirname, '..', 'authorization-matrix.json');
+
+export interface AuthorizationMatrix {
+  // Status of an operation the token's scopes do not allow
+  deniedStatus: number;
+  // Scope set (space-separated, as requested) -> operations it allows
+  scopes: Record<string, { allowed: string[] }>;
+  invalidTokens: {
+    status: number;
+    // ApiEndpoints keys that answer without a token
+    publicRoutes: string[];
+  };
+}
+
+/**
+ * Resources the operations act on, created with full access before the scoped requests
+ */
+export interface AuthorizationTargets {
+  user: ScimUser;
+  group: ScimGroup;
+  // Deleted by DELETE when allowed
+  disposableUser: ScimUser;
+  disposableGroup: ScimGroup;
+}
+
+export type AuthorizedOperation = (scim: ScimClient, targets: AuthorizationTargets, data: ScimDataFactory) => Promise<ScimResponse>;
+
+/**
+ * Register a resource a scoped token created, so the run cleans it up
+ */
+async function tracked(data: ScimDataFactory, kind: 'User' | 'Group', created: Promise<ScimResponse>): Promise<ScimResponse> {
+  const response = await created;
+  if (response.status === 201 && response.body?.id) data.track(kind, response.body.id, response.body.userName ?? response.body.displayName);
+  return response;
+}
+
+// Operations by the names the latency budgets use
+export const AUTHORIZATION_OPERATIONS: Record<string, AuthorizedOperation> = {
+  'GET /Users': scim => scim.listUsers({ count: 1 }),
+  'GET /Users/{id}': (scim, { user }) => scim.getUser(user.id!),
+  'POST /Users/.search': (scim, { user }) => scim.searchUsers(buildSearchRequest(ScimFilter.attr('userName').eq(user.userName))),
+  'POST /Users': (scim, _, data) => tracked(data, 'User', scim.createUser(data.userAttributes())),
+  'PUT /Users/{id}': (scim, { user }) => scim.replaceUser(user.id!, { userName: user.userName, name: user.name, emails: user.emails, title: 'Authorized' }),
+  'PATCH /Users/{id}': (scim, { user }) => scim.patchUser(user.id!, ScimPatch.replace('title', 'Authorized').build()),
+  'DELETE /Users/{id}': (scim, { disposableUser }) => scim.deleteUser(disposableUser.id!),
+  'GET /Groups': scim => scim.listGroups({ count: 1 }),
+  'GET /Groups/{id}': (scim, { group }) => scim.getGroup(group.id!),
+  'POST /Groups/.search': (scim, { group }) => scim.searchGroups(buildSearchRequest(ScimFilter.attr('displayName').eq(group.displayName))),
+  'POST /Groups': (scim, _, data) => tracked(data, 'Group', scim.createGroup({ displayName: data.uniqueName('AUTHZGROUP') })),
+  'PUT /Groups/{id}': (scim, { group }) => scim.replaceGroup(group.id!, { displayName: group.displayName, members: group.members }),
+  'PATCH /Groups/{id}': (scim, { group }) => scim.patchGroup(group.id!, ScimPatch.replace('displayName', `${group.displayName}_PATCHED`).build()),
+  'DELETE /Groups/{id}': (scim, { disposableGroup }) => scim.deleteGroup(disposableGroup.id!)
+};
+
+export function loadAuthorizationMatrix(file: string = process.env[AUTHORIZATION_MATRIX_ENV] || DEFAULT_MATRIX_FILE): AuthorizationMatrix {
+  const matrix = JSON.parse(fs.readFileSync(file, 'utf8')) as AuthorizationMatrix;
+  if (typeof matrix.deniedStatus !== 'number' || !matrix.scopes || typeof matrix.invalidTokens?.status !== 'number') {
+    throw new Error(`${file}: expected { "deniedStatus": 403, "scopes": { ... }, "invalidTokens": { "status": 401, "publicRoutes": [...] } }`);
+  }
+
+  for (const [scope, { allowed }] of Object.entries(matrix.scopes)) {
+    const unknown = (allowed ?? []).filter(operation => !AUTHORIZATION_OPERATIONS[operation]);
+    if (!Array.isArray(allowed) || unknown.length > 0) {
+      throw new Error(`${file}: scopes["${scope}"].allowed must list operations of ${Object.keys(AUTHORIZATION_OPERATIONS).join(', ')}${unknown.length > 0 ? ` (unknown: ${unknown.join(', ')})` : ''}`);
+    }
+  }
+  const unknownRoutes = (matrix.invalidTokens.publicRoutes ?? []).filter(route => !(route in ApiEndpoints));
+  if (unknownRoutes.length > 0) {
+    throw new Error(`${file}: invalidTokens.publicRoutes are not ApiEndpoints routes: ${unknownRoutes.join(', ')}`);
+  }
+  return matrix;
+}
+
+/**
+ * Whether a token request failed because the token endpoint refuses the requested scopes
+ * (RFC 6749 §5.2 invalid_scope, also given when the client may not have them), as opposed to
+ * the endpoint being unreachable, misconfigured or broken
+ */
+export function isScopeRefused(error: unknown): boolean {
+  return error instanceof TokenRequestError && error.status === 400 && error.body?.error === 'invalid_scope';
+}
+
+/**
+ * Mismatch between a scoped request's status and the matrix (undefined when it matches).
+ * Allowed operations may answer anything but 401/403 (e.g. 501 for an unsupported PATCH).
+ */
+export function checkAuthorization(matrix: AuthorizationMatrix, scope: string, operation: string, status: number): string | undefined {
+  const allowed = matrix.scopes[scope]?.allowed.includes(operation) ?? false;
+  if (allowed && (status === 401 || status === 403)) {
+    return `${operation}: ${status}, expected it to be allowed for "${scope}"`;
+  }
+  if (!allowed && status !== matrix.deniedStatus) {
+    return `${operation}: ${status}, expected ${matrix.deniedStatus} for "${scope}"`;
+  }
+  return undefined;
+}
+
+// ---------- Tampered tokens ----------
+
+export const TAMPERED_TOKENS = ['expired', 'alg-none', 're-signed', 'wrong-audience', 'missing-bearer', 'no-authorization'] as const;
+
+export type TamperedToken = typeof TAMPERED_TOKENS[number];
+
+export interface TamperOptions {
+  // Key the server signs with; without it, expired and wrong-audience tokens keep the original
+  // signature (and are also rejected for that)
+  signingKey?: string;
+}
+
+/**
+ * Authorization header carrying a tampered version of a valid access token
+ * (undefined for no-authorization)
+ */
+export function tamperedAuthorization(kind: TamperedToken, accessToken: string, options: TamperOptions = {}): string | undefined {
+  const { header, claims, signature } = decodeJwt(accessToken);
+  const now = Math.floor(Date.now() / 1000);
+  const withClaims = (changes: object) => {
+    const changed = { ...claims, ...changes };
+    return options.signingKey
+      ? signJwt(changed, options.signingKey, header)
+      : `${encodeJwtSegment(header)}.${encodeJwtSegment(changed)}.${signature}`;
+  };
+
+  switch (kind) {
+    case 'expired':
+      return `Bearer ${withClaims({ iat: now - 7200, nbf: now - 7200, exp: now - 3600 })}`;
+    case 'alg-none':
+      return `Bearer ${encodeJwtSegment({ ...header, alg: 'none' })}.${encodeJwtSegment(claims)}.`;
+    case 're-signed':
+      return `Bearer ${signJwt(claims, 'not-the-signing-key', header)}`;
+    case 'wrong-audience':
+      return `Bearer ${withClaims({ aud: 'https://attacker.example' })}`;
+    case 'missing-bearer':
+      return accessToken;
+    case 'no-authorization':
+      return undefined;
+  }
+}
+
+export interface AuthorizationRoute {
+  // ApiEndpoints key
+  name: string;
+  method: 'GET' | 'POST';
+  endpoint: string;
+  data?: any;
+}
+
+/**
+ * One request per ApiEndpoints route (except the custom builder): GET, or POST with a
+ * minimal message for the search and Bulk endpoints
+ */
+export function authorizationRoutes(): AuthorizationRoute[] {
+  const bodies: Record<string, any> = {
+    userSearch: { schemas: [ScimSchemas.SEARCH_REQUEST], count: 1 },
+    groupSearch: { schemas: [ScimSchemas.SEARCH_REQUEST], count: 1 },
+    bulk: { schemas: [ScimSchemas.BULK_REQUEST], Operations: [] }
+  };
+  return Object.entries(ApiEndpoints)
+    .filter(([name]) => name !== 'custom')
+    .map(([name, endpoint]) => ({
+      name,
+      method: name in bodies ? 'POST' : 'GET',
+      endpoint: (endpoint as () => string)(),
+      ...(name in bodies ? { data: bodies[name] } : {})
+    }));
+}
+
+/**
+ * Mismatch between a tampered-token request's response and the matrix (undefined when it
+ * matches): protected routes answer the invalid-token status with a Bearer challenge
+ * (RFC 6750 §3), public routes anything but that status
+ */
+export function checkTamperedResponse(matrix: AuthorizationMatrix, route: AuthorizationRoute, response: ScimResponse): string | undefined {
+  const { status, publicRoutes } = matrix.invalidTokens;
+  if (publicRoutes.includes(route.name)) {
+    return response.status === status ? `${route.method} ${route.endpoint} (public): ${response.status}` : undefined;
+  }
+  if (response.status !== status) {
+    return `${route.method} ${route.endpoint}: ${response.status}, expected ${status}`;
+  }
+  const challenge = Object.entries(response.headers).find(([name]) => name.toLowerCase() === 'www-authenticate')?.[1];
+  if (status === 401 && !/^Bearer\b/i.test(challenge ?? '')) {
+    return `${route.method} ${route.endpoint}: 401 without a WWW-Authenticate: Bearer challenge`;
+  }
+  return undefined;
+}
@@ -0,0 +1,255 @@
+/**
+ * SCIM Bulk Requests (RFC 7644 §3.7)
+ * Builder for BulkRequest messages with bulkId cross-references, limit checks against
+ * the ServiceProviderConfig, and a checker for per-operation results in the BulkResponse
+ */
+
+import { ScimSchemas } from './api-config';
+import { ScimCapabilities } from './scim-capabilities';
+import { log } from './logger';
+import { PatchBuilder } from './scim-patch';
+import {
+  ScimBulkOperation,
+  ScimBulkOperationResponse,
+  ScimBulkRequest,
+  ScimBulkResponse,
+  ScimGroup,
+  ScimPatchRequest,
+  ScimUser
+} from './scim-types';
+
+const BULK_ID_PREFIX = 'bulkId:';
+const BULK_ID_REFERENCE_PATTERN = /bulkId:([^"\/\s]+)/g;
+
+/**
+ * Reference to a resource created earlier (or later) in the same bulk request
+ */
+export function bulkIdRef(bulkId: string): string {
+  return `${BULK_ID_PREFIX}${bulkId}`;
+}
+
+/**
+ * bulkIds referenced anywhere in an operation's path or data
+ */
+export function referencedBulkIds(operation: ScimBulkOperation): string[] {
+  const text = `${operation.path} ${JSON.stringify(operation.data ?? null)}`;
+  return [...new Set([...text.matchAll(BULK_ID_REFERENCE_PATTERN)].map(match => match[1]))];
+}
+
+/**
+ * Fluent BulkRequest builder
+ *
+ *   ScimBulk.request()
+ *     .createUser('user1', { userName: 'BULK_USER1' })
+ *     .createGroup('group1', { displayName: 'BULK_GROUP', members: [{ value: bulkIdRef('user1') }] })
+ *     .failOnErrors(1)
+ *     .build()
+ */
+export class BulkRequestBuilder {
+  private readonly operations: ScimBulkOperation[] = [];
+  private failOnErrorsLimit?: number;
+
+  post(path: string, bulkId: string, data: any): this {
+    if (this.operations.some(operation => operation.bulkId === bulkId)) {
+      throw new Error(`Duplicate bulkId: ${bulkId}`);
+    }
+    this.operations.push({ method: 'POST', path, bulkId, data });
+    return this;
+  }
+
+  put(path: string, data: any, version?: string): this {
+    this.operations.push({ method: 'PUT', path, data, ...(version ? { version } : {}) });
+    return this;
+  }
+
+  patch(path: string, patch: ScimPatchRequest | PatchBuilder, version?: string): this {
+    const data = patch instanceof PatchBuilder ? patch.build() : patch;
+    this.operations.push({ method: 'PATCH', path, data, ...(version ? { version } : {}) });
+    return this;
+  }
+
+  delete(path: string, version?: string): this {
+    this.operations.push({ method: 'DELETE', path, ...(version ? { version } : {}) });
+    return this;
+  }
+
+  createUser(bulkId: string, user: Partial<ScimUser>): this {
+    return this.post('/Users', bulkId, { schemas: [ScimSchemas.USER], ...user });
+  }
+
+  createGroup(bulkId: string, group: Partial<ScimGroup>): this {
+    return this.post('/Groups', bulkId, { schemas: [ScimSchemas.GROUP], ...group });
+  }
+
+  /**
+   * Number of errors the server accepts before it stops processing the request
+   */
+  failOnErrors(limit: number): this {
+    this.failOnErrorsLimit = limit;
+    return this;
+  }
+
+  get operationCount(): number {
+    return this.operations.length;
+  }
+
+  /**
+   * Serialized request size in bytes, as compared with bulk.maxPayloadSize
+   */
+  get payloadSize(): number {
+    return Buffer.byteLength(JSON.stringify(this.toRequest()), 'utf8');
+  }
+
+  /**
+   * Build the request, checking every bulkId reference points at a POST in the same request
+   */
+  build(): ScimBulkRequest {
+    const bulkIds = new Set(this.operations.map(operation => operation.bulkId).filter(Boolean));
+    for (const operation of this.operations) {
+      const unknown = referencedBulkIds(operation).filter(bulkId => !bulkIds.has(bulkId));
+      if (unknown.length > 0) {
+        throw new Error(`${operation.method} ${operation.path} references unknown bulkId: ${unknown.join(', ')}`);
+      }
+    }
+    return this.toRequest();
+  }
+
+  /**
+   * Throw when the request exceeds the ServiceProviderConfig bulk limits
+   */
+  assertWithinLimits(capabilities: ScimCapabilities): void {
+    const { supported, maxOperations, maxPayloadSize } = capabilities.bulk;
+    if (!supported) {
+      throw new Error('ServiceProviderConfig does not support bulk');
+    }
+    if (this.operationCount > maxOperations) {
+      throw new Error(`Bulk request has ${this.operationCount} operations, over maxOperations=${maxOperations}`);
+    }
+    if (this.payloadSize > maxPayloadSize) {
+      throw new Error(`Bulk request is ${this.payloadSize} bytes, over maxPayloadSize=${maxPayloadSize}`);
+    }
+  }
+
+  private toRequest(): ScimBulkRequest {
+    return {
+      schemas: [ScimSchemas.BULK_REQUEST],
+      ...(this.failOnErrorsLimit !== undefined ? { failOnErrors: this.failOnErrorsLimit } : {}),
+      Operations: this.operations.map(operation => ({ ...operation }))
+    };
+  }
+}
+
+// ---------- Response checks ----------
+
+/**
+ * One operation result, matched to the request operation it answers
+ */
+export interface BulkOperationResult {
+  index: number;
+  request: ScimBulkOperation;
+  response: ScimBulkOperationResponse;
+  status: number;
+  // Resource id taken from the location
+  id?: string;
+}
+
+export interface BulkCheckResult {
+  results: BulkOperationResult[];
+  // Created resource ids by bulkId
+  ids: Record<string, string>;
+  errorCount: number;
+  violations: string[];
+}
+
+const SUCCESS_STATUS: Record<string, number> = { POST: 201, PUT: 200, PATCH: 200, DELETE: 204 };
+
+/**
+ * Match each response operation to its request operation (by bulkId for POST, else by order)
+ * and check status, location, error bodies and failOnErrors handling
+ */
+export function checkBulkResponse(request: ScimBulkRequest, response: ScimBulkResponse): BulkCheckResult {
+  const violations: string[] = [];
+  const results: BulkOperationResult[] = [];
+  const ids: Record<string, string> = {};
+
+  if (!response?.schemas?.includes(ScimSchemas.BULK_RESPONSE)) {
+    violations.push(`BulkResponse is missing the ${ScimSchemas.BULK_RESPONSE} schema`);
+  }
+  if (!Array.isArray(response?.Operations)) {
+    return { results, ids, errorCount: 0, violations: [...violations, 'BulkResponse has no Operations array'] };
+  }
+
+  const unmatched = request.Operations.map((operation, index) => ({ operation, index }));
+  response.Operations.forEach((result, position) => {
+    const label = `Operations[${position}] (${result.method} ${result.bulkId ?? ''})`.replace(' )', ')');
+    const matchIndex = result.bulkId !== undefined
+      ? unmatched.findIndex(candidate => candidate.operation.bulkId === result.bulkId)
+      : unmatched.findIndex(candidate => candidate.operation.bulkId === undefined && candidate.operation.method?.toUpperCase() === result.method?.toUpperCase());
+    if (matchIndex < 0) {
+      violations.push(`${label}: does not answer any request operation`);
+      return;
+    }
+    const [{ operation, index }] = unmatched.splice(matchIndex, 1);
+    // Servers may be sent (and echo) lower-case methods
+    const method = String(operation.method).toUpperCase();
+
+    const status = Number(result.status);
+    if (typeof result.status !== 'string' || !/^\d{3}$/.test(result.status)) {
+      violations.push(`${label}: status must be an HTTP status code string, got ${JSON.stringify(result.status)}`);
+    }
+
+    let id: string | undefined;
+    if (status < 400) {
+      const expected = SUCCESS_STATUS[method];
+      if (expected !== undefined && status !== expected && !(method === 'PATCH' && status === 204)) {
+        violations.push(`${label}: expected status ${expected} for a successful ${method}, got ${status}`);
+      }
+      if (method !== 'DELETE') {
+        if (!result.location) violations.push(`${label}: successful ${method} must include a location`);
+        else id = decodeURIComponent(result.location.replace(/\/+$/, '').split('/').pop()!);
+      }
+      if (method === 'POST' && id && operation.bulkId) ids[operation.bulkId] = id;
+    } else if (!result.response?.schemas?.includes(ScimSchemas.ERROR)) {
+      violations.push(`${label}: failed operation (${status}) must include a SCIM Error response`);
+    }
+
+    results.push({ index, request: operation, response: result, status, id });
+  });
+
+  const errorCount = results.filter(result => result.status >= 400).length;
+  const limit = request.failOnErrors;
+
+  if (limit !== undefined && errorCount >= limit) {
+    if (errorCount > limit) {
+      violations.push(`${errorCount} operations failed, but failOnErrors=${limit} should have stopped processing`);
+    }
+    const lastError = Math.max(...results.map((result, position) => (result.status >= 400 ? position : -1)));
+    if (lastError !== results.length - 1) {
+      violations.push(`Operations were processed after failOnErrors=${limit} was reached`);
+    }
+  } else if (unmatched.length > 0) {
+    violations.push(`No result for ${unmatched.map(({ operation, index }) => `Operations[${index}] (${operation.method} ${operation.path})`).join(', ')}`);
+  }
+
+  return { results, ids, errorCount, violations };
+}
+
+/**
+ * checkBulkResponse that throws with every violation
+ */
+export function assertBulkResponse(request: ScimBulkRequest, response: ScimBulkResponse): BulkCheckResult {
+  const checked = checkBulkResponse(request, response);
+  if (checked.violations.length > 0) {
+    throw new Error(`BulkResponse check failed:\n  - ${checked.violations.join('\n  - ')}`);
+  }
+  log.debug(`BulkResponse: ${checked.results.length} operations, ${checked.errorCount} errors`);
+  return checked;
+}
+
+/**
+ * Entry points for bulk requests
+ */
+export const ScimBulk = {
+  request: () => new BulkRequestBuilder(),
+  ref: bulkIdRef
+};
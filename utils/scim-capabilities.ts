@@ -0,0 +1,192 @@
+/**
+ * SCIM Capability Gating
+ * Reads /ServiceProviderConfig once and lets tests declare the optional features they need
+ * (RFC 7643 §5): unsupported features skip the test or flip it to expect 501, and a request
+ * that uses a feature the server says it does not support is reported as a config mismatch
+ */
+
+import { test } from '@playwright/test';
+import { ApiEndpoints } from './api-config';
+import { log } from './logger';
+import { ScimClient } from './scim-client';
+import { ScimListQuery, ScimServiceProviderConfig } from './scim-types';
+
+/**
+ * Optional features advertised on /ServiceProviderConfig
+ */
+export type ScimCapability = 'patch' | 'bulk' | 'filter' | 'changePassword' | 'sort' | 'etag';
+
+export const SCIM_CAPABILITIES: ScimCapability[] = ['patch', 'bulk', 'filter', 'changePassword', 'sort', 'etag'];
+
+/**
+ * Flattened view of the ServiceProviderConfig
+ */
+export interface ScimCapabilities {
+  patch: boolean;
+  bulk: { supported: boolean; maxOperations: number; maxPayloadSize: number };
+  filter: { supported: boolean; maxResults: number };
+  changePassword: boolean;
+  sort: boolean;
+  etag: boolean;
+  authenticationSchemes: string[];
+  config: ScimServiceProviderConfig;
+}
+
+export interface CapabilityRequirement {
+  // Whether every declared capability is supported
+  supported: boolean;
+  missing: ScimCapability[];
+  // Status to expect: the success status when supported, otherwise 501 Not Implemented
+  expectedStatus: (successStatus: number) => number;
+}
+
+/**
+ * Read the ServiceProviderConfig into ScimCapabilities (missing sections count as unsupported)
+ */
+export function parseCapabilities(config: ScimServiceProviderConfig): ScimCapabilities {
+  return {
+    patch: config.patch?.supported === true,
+    bulk: {
+      supported: config.bulk?.supported === true,
+      maxOperations: config.bulk?.maxOperations ?? 0,
+      maxPayloadSize: config.bulk?.maxPayloadSize ?? 0
+    },
+    filter: { supported: config.filter?.supported === true, maxResults: config.filter?.maxResults ?? 0 },
+    changePassword: config.changePassword?.supported === true,
+    sort: config.sort?.supported === true,
+    etag: config.etag?.supported === true,
+    authenticationSchemes: (config.authenticationSchemes ?? []).map(scheme => scheme.type),
+    config
+  };
+}
+
+export function isSupported(capabilities: ScimCapabilities, capability: ScimCapability): boolean {
+  const value = capabilities[capability];
+  return typeof value === 'boolean' ? value : value.supported;
+}
+
+// Capabilities already loaded in this worker, keyed by the ServiceProviderConfig URL
+const capabilityCache = new Map<string, Promise<ScimCapabilities>>();
+// Loaded results, for the synchronous mismatch check in ScimClient.send
+const loadedCapabilities = new Map<string, ScimCapabilities>();
+// Capabilities each test declared with requireCapabilities, keyed by testId
+const declaredCapabilities = new Map<string, Set<ScimCapability>>();
+
+function configUrl(baseUrl: string): string {
+  return `${baseUrl}${ApiEndpoints.serviceProviderConfig()}`;
+}
+
+/**
+ * Load /ServiceProviderConfig once per worker and reuse it
+ */
+export function loadCapabilities(scim: ScimClient): Promise<ScimCapabilities> {
+  const url = configUrl(scim.baseUrl);
+  let capabilities = capabilityCache.get(url);
+  if (!capabilities) {
+    capabilities = scim.getServiceProviderConfig({ expectedStatus: 200 }).then(({ body }) => {
+      const parsed = parseCapabilities(body);
+      const supported = SCIM_CAPABILITIES.filter(capability => isSupported(parsed, capability));
+      log.info(`ServiceProviderConfig: ${supported.length ? supported.join(', ') : 'no optional features'} supported`);
+      loadedCapabilities.set(url, parsed);
+      return parsed;
+    });
+    capabilities.catch(() => capabilityCache.delete(url));
+    capabilityCache.set(url, capabilities);
+  }
+  return capabilities;
+}
+
+function currentTestId(): string | undefined {
+  try {
+    return test.info().testId;
+  } catch {
+    // Called outside a running test (e.g. beforeAll)
+    return undefined;
+  }
+}
+
+/**
+ * Declare the capabilities a test needs.
+ *
+ * whenUnsupported 'skip' (default) skips the running test; 'expect-501' lets it continue
+ * and use expectedStatus() to assert the 501 Not Implemented a compliant server returns.
+ */
+export async function requireCapabilities(
+  scim: ScimClient,
+  required: ScimCapability[],
+  options: { whenUnsupported?: 'skip' | 'expect-501' } = {}
+): Promise<CapabilityRequirement> {
+  const capabilities = await loadCapabilities(scim);
+  const missing = required.filter(capability => !isSupported(capabilities, capability));
+
+  const testId = currentTestId();
+  if (testId) {
+    const declared = declaredCapabilities.get(testId) ?? new Set<ScimCapability>();
+    required.forEach(capability => declared.add(capability));
+    declaredCapabilities.set(testId, declared);
+  }
+
+  if (missing.length > 0 && (options.whenUnsupported ?? 'skip') === 'skip') {
+    test.skip(true, `ServiceProviderConfig does not support: ${missing.join(', ')}`);
+  }
+
+  return {
+    supported: missing.length === 0,
+    missing,
+    expectedStatus: (successStatus: number) => (missing.length === 0 ? successStatus : 501)
+  };
+}
+
+/**
+ * Optional features a request uses, judged from its method, endpoint, query, headers and body
+ */
+export function featuresUsed(
+  method: string,
+  endpoint: string,
+  request: { query?: ScimListQuery; headers?: Record<string, string>; data?: any }
+): ScimCapability[] {
+  const used = new Set<ScimCapability>();
+  const data = request.data;
+  const headerNames = Object.keys(request.headers ?? {}).map(name => name.toLowerCase());
+
+  if (method === 'PATCH') used.add('patch');
+  if (/\/Bulk$/i.test(endpoint)) used.add('bulk');
+  if (request.query?.filter !== undefined || (endpoint.endsWith('/.search') && data?.filter !== undefined)) used.add('filter');
+  if (request.query?.sortBy !== undefined || (endpoint.endsWith('/.search') && data?.sortBy !== undefined)) used.add('sort');
+  if (headerNames.includes('if-match') || headerNames.includes('if-none-match')) used.add('etag');
+
+  const setsPassword = method === 'PUT'
+    ? data?.password !== undefined
+    : method === 'PATCH' && Array.isArray(data?.Operations) && data.Operations.some((operation: any) =>
+      /^password$/i.test(operation?.path ?? '') || (operation?.path === undefined && operation?.value?.password !== undefined));
+  if (setsPassword) used.add('changePassword');
+
+  return [...used];
+}
+
+/**
+ * Report features used by a request that the server advertises as unsupported, unless the
+ * running test declared them with requireCapabilities. Only checks once capabilities are loaded.
+ */
+export function reportCapabilityMismatches(
+  baseUrl: string,
+  method: string,
+  endpoint: string,
+  request: { query?: ScimListQuery; headers?: Record<string, string>; data?: any },
+  status: number
+): ScimCapability[] {
+  const capabilities = loadedCapabilities.get(configUrl(baseUrl));
+  if (!capabilities) return [];
+
+  const testId = currentTestId();
+  const declared = testId ? declaredCapabilities.get(testId) : undefined;
+  const mismatches = featuresUsed(method, endpoint, request)
+    .filter(capability => !isSupported(capabilities, capability) && !declared?.has(capability));
+
+  for (const capability of mismatches) {
+    const description = `${method} ${endpoint} uses '${capability}', which /ServiceProviderConfig reports as unsupported (got ${status})`;
+    log.warn(`Config mismatch: ${description}`);
+    if (testId) test.info().annotations.push({ type: 'config-mismatch', description });
+  }
+  return mismatches;
+}
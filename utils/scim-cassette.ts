@@ -0,0 +1,375 @@
+/**
+ * Record / Replay Cassettes
+ * SCIM_MODE=record saves every request made through a test's `request` fixture (SCIM calls
+ * through ApiTestContext/ScimClient and token requests from getAuthToken and the token manager)
+ * with its response to one cassette file per test, secrets scrubbed. SCIM_MODE=replay serves
+ * the responses from those files instead of the network, matching on method, path, query and body.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { APIRequestContext, APIResponse, TestInfo } from '@playwright/test';
+import { getTokenUrl } from './api-config';
+import { decodeJwt, encodeJwtSegment } from './jwt';
+import { isSecretEnvValue, log, redact, redactFields } from './logger';
+
+export type ScimMode = 'live' | 'record' | 'replay';
+
+export const SCIM_MODE_ENV = 'SCIM_MODE';
+// Overrides the cassette directory
+export const CASSETTE_DIR_ENV = 'SCIM_CASSETTE_DIR';
+
+const SCIM_MODES: ScimMode[] = ['live', 'record', 'replay'];
+const DEFAULT_CASSETTE_DIR = path.resolve(__dirname, '..', 'cassettes');
+const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete', 'head'];
+// Not stored: per-connection, per-run or credentials
+const DROPPED_HEADERS = new Set(['authorization', 'set-cookie', 'date', 'connection', 'keep-alive', 'transfer-encoding', 'content-length']);
+
+/**
+ * Values that differ on every run but are copied from request to response, matched as
+ * placeholders and mapped back on replay (worker indexes included, as workers vary between runs):
+ * - Date.now() in generated names, e.g. ETAG_USER_1760000000000_0 or PAGED_0_1760000000000_
+ * - the scimData factory's base-36 time stamp, e.g. SCIMDATA_USER_W0_MGX4K2PQ_1 (lower-cased in emails)
+ */
+export const VOLATILE = /(?<!\d)(?:\d+_)?1\d{12}(?:_\d+)?(?!\d)|(?<=_)[Ww]\d+_[0-9A-Za-z]{8}(?=_\d)/g;
+
+// Responses the suite caches per worker or per run (tokens, discovery), so whichever test ran
+// first recorded them; on replay they may come from any cassette
+const SHARED_PATHS = [/\/ServiceProviderConfig$/, /\/Schemas$/, /\/ResourceTypes$/];
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  // Sorted, e.g. "count=10&startIndex=1"
+  query: string;
+  // JSON with sorted keys, or the form/text body; secrets scrubbed
+  body?: string;
+}
+
+export interface RecordedResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  // Parsed when the response is JSON
+  body: any;
+}
+
+export interface Interaction {
+  request: RecordedRequest;
+  response: RecordedResponse;
+}
+
+export interface CassetteFile {
+  test: string;
+  recordedAt: string;
+  interactions: Interaction[];
+}
+
+export function getScimMode(): ScimMode {
+  const mode = (process.env[SCIM_MODE_ENV] || 'live').toLowerCase() as ScimMode;
+  if (!SCIM_MODES.includes(mode)) {
+    throw new Error(`Invalid ${SCIM_MODE_ENV}: ${process.env[SCIM_MODE_ENV]}. Must be one of: ${SCIM_MODES.join(', ')}`);
+  }
+  return mode;
+}
+
+export function isReplayMode(): boolean {
+  return getScimMode() === 'replay';
+}
+
+function cassetteDir(): string {
+  return process.env[CASSETTE_DIR_ENV] || DEFAULT_CASSETTE_DIR;
+}
+
+function slug(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 120);
+}
+
+/**
+ * Cassette file for a test: <dir>/<project>/<spec path>/<describe-and-title>.json
+ */
+export function cassettePath(testInfo: Pick<TestInfo, 'file' | 'titlePath' | 'project'>, dir: string = cassetteDir()): string {
+  const spec = path.relative(testInfo.project.testDir, testInfo.file).replace(/\.ts$/, '');
+  return path.join(dir, slug(testInfo.project.name), spec, `${slug(testInfo.titlePath.slice(1).join(' '))}.json`);
+}
+
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function formBody(entries: [string, string][]): string {
+  const scrubbed = redactFields(Object.fromEntries(entries), { envValues: false });
+  return Object.keys(scrubbed).sort().map(key => `${key}=${scrubbed[key]}`).join('&');
+}
+
+function headerValue(headers: Record<string, string> | undefined, name: string): string | undefined {
+  return Object.entries(headers ?? {}).find(([key]) => key.toLowerCase() === name)?.[1];
+}
+
+/**
+ * The parts of a request a recording is matched on, with secrets scrubbed. Env var values are
+ * not substituted, so a recording made against one environment replays in another.
+ */
+export function normalizeRequest(method: string, url: string, options: Record<string, any> = {}): RecordedRequest {
+  const parsed = new URL(url, 'http://cassette.invalid');
+  const query = [...parsed.searchParams.entries()];
+  if (options.params) {
+    const params = typeof options.params === 'string' || options.params instanceof URLSearchParams
+      ? [...new URLSearchParams(options.params).entries()]
+      : Object.entries(options.params).map(([key, value]) => [key, String(value)] as [string, string]);
+    query.push(...params);
+  }
+
+  let body: string | undefined;
+  if (options.form !== undefined) {
+    body = formBody(options.form instanceof URLSearchParams ? [...options.form.entries()] : Object.entries(options.form).map(([key, value]) => [key, String(value)]));
+  } else if (options.data !== undefined) {
+    const data = Buffer.isBuffer(options.data) ? options.data.toString('utf8') : options.data;
+    if (typeof data !== 'string') {
+      body = stableStringify(data);
+    } else if (headerValue(options.headers, 'content-type')?.includes('x-www-form-urlencoded')) {
+      body = formBody([...new URLSearchParams(data).entries()]);
+    } else {
+      try {
+        body = stableStringify(JSON.parse(data));
+      } catch {
+        body = data;
+      }
+    }
+  }
+
+  return {
+    method: method.toUpperCase(),
+    path: parsed.pathname,
+    query: query.map(([key, value]) => `${key}=${value}`).sort().join('&'),
+    ...(body !== undefined ? { body: redact(body, { envValues: false }) } : {})
+  };
+}
+
+function describeRequest(request: RecordedRequest): string {
+  return `${request.method} ${request.path}${request.query ? `?${request.query}` : ''}${request.body ? ` ${request.body}` : ''}`;
+}
+
+function matchKey(request: RecordedRequest): string {
+  return describeRequest(request).replace(VOLATILE, '{volatile}');
+}
+
+function volatileValues(request: RecordedRequest): string[] {
+  return describeRequest(request).match(VOLATILE) ?? [];
+}
+
+// Claims naming the client, which the logger treats as a secret (CLIENT_ID)
+const CLIENT_CLAIMS = ['client_id', 'sub'];
+const MASKED_CLAIM = '[REDACTED]';
+
+function encodeUnsigned(claims: object): string {
+  return `${encodeJwtSegment({ alg: 'none', typ: 'JWT' })}.${encodeJwtSegment(claims)}.`;
+}
+
+// Token responses keep their claims (the token manager and token tests read them) but lose the
+// signature, which is what makes a token usable, and the client id and any secret env value
+function unsignedToken(token: string): string {
+  try {
+    const { claims } = decodeJwt(token);
+    return encodeUnsigned(Object.fromEntries(Object.entries(claims).map(([name, value]) => [
+      name,
+      CLIENT_CLAIMS.includes(name) || (typeof value === 'string' && isSecretEnvValue(value)) ? MASKED_CLAIM : value
+    ])));
+  } catch {
+    return '[REDACTED]';
+  }
+}
+
+// client_id of a token request's form body
+function requestedClientId(options: Record<string, any>): string | undefined {
+  const form = options.form !== undefined
+    ? new URLSearchParams(options.form instanceof URLSearchParams ? options.form : Object.entries(options.form).map(([key, value]) => [key, String(value)]))
+    : typeof options.data === 'string' ? new URLSearchParams(options.data) : undefined;
+  return form?.get('client_id') ?? undefined;
+}
+
+/**
+ * On replay, masked client claims of a recorded token name the client this run requested it for
+ */
+function withClientClaims(body: string, clientId: string | undefined): string {
+  if (!clientId) return body;
+  try {
+    const parsed = JSON.parse(body);
+    if (typeof parsed?.access_token !== 'string') return body;
+    const { claims } = decodeJwt(parsed.access_token);
+    const restored = Object.fromEntries(Object.entries(claims).map(([name, value]) => [
+      name,
+      CLIENT_CLAIMS.includes(name) && value === MASKED_CLAIM ? clientId : value
+    ]));
+    return JSON.stringify({ ...parsed, access_token: encodeUnsigned(restored) });
+  } catch {
+    return body;
+  }
+}
+
+async function recordResponse(response: APIResponse): Promise<RecordedResponse> {
+  const text = (await response.body()).toString('utf8');
+  const headers = Object.fromEntries(Object.entries(response.headers())
+    .filter(([name]) => !DROPPED_HEADERS.has(name.toLowerCase()))
+    .map(([name, value]) => [name, redact(value)]));
+
+  let body: any = redact(text);
+  if (headers['content-type']?.includes('json')) {
+    try {
+      body = JSON.parse(body);
+      const accessToken = JSON.parse(text).access_token;
+      if (typeof accessToken === 'string') body.access_token = unsignedToken(accessToken);
+    } catch {
+      // Not valid JSON after all - keep the text
+    }
+  }
+  return { status: response.status(), statusText: response.statusText(), headers, body };
+}
+
+function replayedResponse(url: string, recorded: RecordedResponse, text: string): APIResponse {
+  const buffer = Buffer.from(text, 'utf8');
+  return {
+    url: () => url,
+    status: () => recorded.status,
+    statusText: () => recorded.statusText,
+    ok: () => recorded.status >= 200 && recorded.status <= 299,
+    headers: () => ({ ...recorded.headers }),
+    headersArray: () => Object.entries(recorded.headers).map(([name, value]) => ({ name, value })),
+    body: async () => buffer,
+    text: async () => text,
+    json: async () => JSON.parse(text),
+    dispose: async () => undefined
+  } as unknown as APIResponse;
+}
+
+// Shared responses recorded anywhere in the cassette directory, by directory
+const sharedInteractions = new Map<string, Interaction[]>();
+
+function isShared(request: RecordedRequest): boolean {
+  return request.path === new URL(getTokenUrl()).pathname || (request.method === 'GET' && SHARED_PATHS.some(shared => shared.test(request.path)));
+}
+
+function loadSharedInteractions(dir: string): Interaction[] {
+  let interactions = sharedInteractions.get(dir);
+  if (!interactions) {
+    const files = fs.existsSync(dir) ? fs.readdirSync(dir, { recursive: true }).map(String).filter(file => file.endsWith('.json')) : [];
+    interactions = files.flatMap(file => (JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8')) as CassetteFile).interactions)
+      .filter(interaction => isShared(interaction.request));
+    sharedInteractions.set(dir, interactions);
+  }
+  return interactions;
+}
+
+export class Cassette {
+  private readonly interactions: Interaction[];
+  private readonly used = new Set<number>();
+  // Volatile values from the recording -> the values this run sent instead
+  private readonly remapped = new Map<string, string>();
+
+  constructor(readonly file: string, readonly mode: 'record' | 'replay', readonly test: string) {
+    if (mode === 'replay') {
+      this.interactions = fs.existsSync(file) ? (JSON.parse(fs.readFileSync(file, 'utf8')) as CassetteFile).interactions : [];
+    } else {
+      this.interactions = [];
+    }
+  }
+
+  get size(): number {
+    return this.interactions.length;
+  }
+
+  /**
+   * A request context that records through `request`, or replays without touching it
+   */
+  wrap(request: APIRequestContext): APIRequestContext {
+    const send = (method: string, url: string, options: Record<string, any> = {}) =>
+      this.mode === 'replay' ? this.replay(method, url, options) : this.record(request, method, url, options);
+
+    return new Proxy(request, {
+      get: (target, property, receiver) => {
+        if (property === 'fetch') {
+          return (urlOrRequest: string | { url(): string; method(): string }, options: Record<string, any> = {}) => typeof urlOrRequest === 'string'
+            ? send(options.method ?? 'GET', urlOrRequest, options)
+            : send(options.method ?? urlOrRequest.method(), urlOrRequest.url(), options);
+        }
+        if (typeof property === 'string' && HTTP_METHODS.includes(property)) {
+          return (url: string, options: Record<string, any> = {}) => send(property, url, options);
+        }
+        const value = Reflect.get(target, property, receiver);
+        return typeof value === 'function' ? value.bind(target) : value;
+      }
+    });
+  }
+
+  /**
+   * Write the recorded interactions (record mode; nothing is written for a test without requests)
+   */
+  save(): void {
+    if (this.mode !== 'record' || this.interactions.length === 0) return;
+    const cassette: CassetteFile = { test: this.test, recordedAt: new Date().toISOString(), interactions: this.interactions };
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    fs.writeFileSync(this.file, `${JSON.stringify(cassette, null, 2)}\n`);
+    log.debug(`Recorded ${this.interactions.length} requests to ${path.relative(process.cwd(), this.file)}`);
+  }
+
+  private async record(request: APIRequestContext, method: string, url: string, options: Record<string, any>): Promise<APIResponse> {
+    const response = await request.fetch(url, { ...options, method: method.toUpperCase() });
+    this.interactions.push({ request: normalizeRequest(method, url, options), response: await recordResponse(response) });
+    return response;
+  }
+
+  private async replay(method: string, url: string, options: Record<string, any>): Promise<APIResponse> {
+    const request = normalizeRequest(method, url, options);
+    const key = matchKey(request);
+
+    // Recordings are used in order, so repeated requests get successive responses
+    const index = this.interactions.findIndex((interaction, i) => !this.used.has(i) && matchKey(interaction.request) === key);
+    let interaction: Interaction | undefined = this.interactions[index];
+    if (interaction) {
+      this.used.add(index);
+    } else if (isShared(request)) {
+      interaction = loadSharedInteractions(cassetteDir()).find(shared => matchKey(shared.request) === key);
+    }
+    if (!interaction) {
+      const recorded = this.interactions.map(({ request }, i) => `  ${this.used.has(i) ? '(used) ' : ''}${describeRequest(request)}`);
+      throw new Error(
+        `${SCIM_MODE_ENV}=replay: no recording for ${describeRequest(request)}\n` +
+        `Cassette: ${this.file}${this.interactions.length === 0 ? ' (missing or empty - record it with SCIM_MODE=record)' : `\nRecorded requests:\n${recorded.join('\n')}`}`
+      );
+    }
+
+    const live = volatileValues(request);
+    volatileValues(interaction.request).forEach((value, i) => {
+      if (live[i] !== undefined && live[i] !== value) this.remapped.set(value, live[i]);
+    });
+
+    let text = typeof interaction.response.body === 'string' ? interaction.response.body : JSON.stringify(interaction.response.body);
+    for (const [recordedValue, liveValue] of this.remapped) {
+      text = text.split(recordedValue).join(liveValue);
+    }
+    text = withClientClaims(text, requestedClientId(options));
+    log.trace(`Replayed ${describeRequest(request)} -> ${interaction.response.status}`);
+    return replayedResponse(url, interaction.response, text);
+  }
+}
+
+// The cassette being filled; beforeAll hooks get the first test's TestInfo, so they share its cassette
+let current: { id: string; cassette: Cassette } | null = null;
+
+/**
+ * The cassette for a test (null in live mode)
+ */
+export function cassetteFor(testInfo: TestInfo): Cassette | null {
+  const mode = getScimMode();
+  if (mode === 'live') return null;
+
+  const id = `${testInfo.testId}#${testInfo.retry}`;
+  if (current?.id !== id) {
+    current = { id, cassette: new Cassette(cassettePath(testInfo), mode, testInfo.titlePath.join(' › ')) };
+  }
+  return current.cassette;
+}
@@ -0,0 +1,116 @@
+/**
+ * Test Data Cleanup Registry
+ * Records every resource a test creates and deletes them in reverse dependency order;
+ * resources that could not be deleted are collected in a run-wide file and reported at teardown
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { log } from './logger';
+
+export type CleanupKind = 'Group' | 'User';
+
+/**
+ * A resource created by a test
+ */
+export interface RegisteredResource {
+  kind: CleanupKind;
+  id: string;
+  name: string;
+  // How the resource was created (and is deleted)
+  source: 'api' | 'database';
+}
+
+/**
+ * A resource whose deletion failed
+ */
+export interface CleanupLeftover extends RegisteredResource {
+  error: string;
+  test?: string;
+}
+
+// Groups reference users as members, so they go first
+const CLEANUP_ORDER: CleanupKind[] = ['Group', 'User'];
+
+export const LEFTOVERS_FILE_ENV = 'SCIM_LEFTOVERS_FILE';
+
+interface RegistryEntry {
+  resource: RegisteredResource;
+  remove: () => Promise<void>;
+}
+
+/**
+ * Per-test registry of created resources
+ */
+export class CleanupRegistry {
+  private entries: RegistryEntry[] = [];
+
+  get resources(): RegisteredResource[] {
+    return this.entries.map(entry => entry.resource);
+  }
+
+  /**
+   * Record a resource and how to delete it
+   */
+  register(resource: RegisteredResource, remove: () => Promise<void>): void {
+    this.entries.push({ resource, remove });
+  }
+
+  /**
+   * Stop tracking a resource the test deleted itself
+   */
+  forget(kind: CleanupKind, id: string): void {
+    this.entries = this.entries.filter(entry => entry.resource.kind !== kind || entry.resource.id !== id);
+  }
+
+  /**
+   * Delete everything registered: groups before users, newest first within a kind.
+   * Every deletion is attempted; the ones that fail are returned.
+   */
+  async cleanup(): Promise<CleanupLeftover[]> {
+    const ordered = CLEANUP_ORDER.flatMap(kind => this.entries.filter(entry => entry.resource.kind === kind).reverse());
+    this.entries = [];
+
+    const leftovers: CleanupLeftover[] = [];
+    for (const { resource, remove } of ordered) {
+      try {
+        await remove();
+        log.debug(`Deleted ${resource.kind} ${resource.name} (${resource.id})`);
+      } catch (error: any) {
+        leftovers.push({ ...resource, error: error?.message ?? String(error) });
+      }
+    }
+    return leftovers;
+  }
+}
+
+/**
+ * Append leftovers to the run's leftovers file (shared by all workers)
+ */
+export function recordLeftovers(leftovers: CleanupLeftover[], leftoversFile: string | undefined = process.env[LEFTOVERS_FILE_ENV]): void {
+  for (const leftover of leftovers) {
+    log.warn(`Could not delete ${leftover.kind} ${leftover.name} (${leftover.id}): ${leftover.error}`);
+  }
+  if (leftoversFile && leftovers.length > 0) {
+    fs.appendFileSync(leftoversFile, leftovers.map(leftover => `${JSON.stringify(leftover)}\n`).join(''));
+  }
+}
+
+/**
+ * Read the leftovers recorded during the run, log a summary and save it as a JSON report
+ */
+export function reportLeftovers(leftoversFile: string, reportFile: string): CleanupLeftover[] {
+  const leftovers: CleanupLeftover[] = fs.existsSync(leftoversFile)
+    ? fs.readFileSync(leftoversFile, 'utf8').split('\n').filter(Boolean).map(line => JSON.parse(line))
+    : [];
+  if (leftovers.length === 0) return leftovers;
+
+  log.warn(`${leftovers.length} test resources could not be deleted`);
+  for (const leftover of leftovers) {
+    log.warn(`  - ${leftover.kind} ${leftover.name} (${leftover.id}, ${leftover.source}) from "${leftover.test}": ${leftover.error}`);
+  }
+  fs.mkdirSync(path.dirname(reportFile), { recursive: true });
+  fs.writeFileSync(reportFile, JSON.stringify(leftovers, null, 2));
+  log.warn(`Leftover report: ${reportFile}`);
+  return leftovers;
+}
@@ -0,0 +1,306 @@
+/**
+ * Typed SCIM Client
+ * Wraps Playwright's APIRequestContext and the authenticated ApiTestContext
+ * so specs can call SCIM operations without rebuilding URLs, headers and validation
+ */
+
+import { APIRequestContext, APIResponse } from '@playwright/test';
+import {
+  ApiTestContext,
+  ApiEndpoints,
+  ApiValidators,
+  ProjectConfig,
+  ScimSchemas,
+  logApiRequest
+} from './api-config';
+import { log } from './logger';
+import { reportCapabilityMismatches } from './scim-capabilities';
+import { latencyTracker } from './scim-latency';
+import { ScimETagStore } from './scim-etag';
+import { ManagedToken, tokenManager } from './token-manager';
+import {
+  ScimBulkRequest,
+  ScimBulkResponse,
+  ScimGroup,
+  ScimListQuery,
+  ScimListResponse,
+  ScimPatchOperation,
+  ScimPatchRequest,
+  ScimResource,
+  ScimSearchRequest,
+  ScimServiceProviderConfig,
+  ScimUser
+} from './scim-types';
+
+/**
+ * Per-request options
+ */
+export interface ScimRequestOptions {
+  // When set, the response status is validated with ApiValidators.validateResponseStatus
+  expectedStatus?: number;
+  // Extra headers merged over the context headers
+  headers?: Record<string, string>;
+  timeout?: number;
+  description?: string;
+  // Conditional request headers (RFC 7644 §3.14); override the versions tracked by the client
+  ifMatch?: string;
+  ifNoneMatch?: string;
+}
+
+export interface ScimClientOptions {
+  // Send the last seen ETag as If-Match on PUT/PATCH/DELETE and If-None-Match on GET
+  conditionalRequests?: boolean;
+}
+
+/**
+ * Parsed response returned by every ScimClient method
+ */
+export interface ScimResponse<T = any> {
+  status: number;
+  headers: Record<string, string>;
+  body: T;
+  durationMs: number;
+  response: APIResponse;
+}
+
+type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+interface SendOptions extends ScimRequestOptions {
+  query?: ScimListQuery;
+  data?: any;
+}
+
+/**
+ * Convert list query parameters into the query string values Playwright expects
+ */
+function toQueryParams(query?: ScimListQuery): Record<string, string | number> | undefined {
+  if (!query) return undefined;
+
+  const params: Record<string, string | number> = {};
+  if (query.filter !== undefined) params.filter = query.filter;
+  if (query.startIndex !== undefined) params.startIndex = query.startIndex;
+  if (query.count !== undefined) params.count = query.count;
+  if (query.attributes?.length) params.attributes = query.attributes.join(',');
+  if (query.excludedAttributes?.length) params.excludedAttributes = query.excludedAttributes.join(',');
+  if (query.sortBy !== undefined) params.sortBy = query.sortBy;
+  if (query.sortOrder !== undefined) params.sortOrder = query.sortOrder;
+
+  return Object.keys(params).length > 0 ? params : undefined;
+}
+
+/**
+ * Parse a response body as JSON, falling back to raw text (or undefined when empty)
+ */
+async function parseBody(response: APIResponse): Promise<any> {
+  const text = await response.text();
+  if (!text) return undefined;
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Build a SearchRequest body, adding the SearchRequest schema when it is missing
+ */
+function toSearchRequest(search: Partial<ScimSearchRequest>): ScimSearchRequest {
+  return {
+    ...search,
+    schemas: search.schemas ?? [ScimSchemas.SEARCH_REQUEST]
+  };
+}
+
+/**
+ * Build a PatchOp body from either a full request or a list of operations
+ */
+function toPatchRequest(patch: ScimPatchRequest | ScimPatchOperation[]): ScimPatchRequest {
+  return Array.isArray(patch)
+    ? { schemas: [ScimSchemas.PATCH_OP], Operations: patch }
+    : patch;
+}
+
+/**
+ * SCIM client bound to one authenticated API test context
+ */
+export class ScimClient {
+  // Latest ETag of every resource this client has read or written
+  readonly etags = new ScimETagStore();
+
+  constructor(
+    private readonly request: APIRequestContext,
+    private readonly context: ApiTestContext,
+    private readonly options: ScimClientOptions = {}
+  ) {}
+
+  get baseUrl(): string {
+    return this.context.baseUrl;
+  }
+
+  // ---------- Users ----------
+
+  getUser(id: string, options?: ScimRequestOptions): Promise<ScimResponse<ScimUser>> {
+    return this.send('GET', `${ApiEndpoints.users()}/${encodeURIComponent(id)}`, options);
+  }
+
+  listUsers(query?: ScimListQuery, options?: ScimRequestOptions): Promise<ScimResponse<ScimListResponse<ScimUser>>> {
+    return this.send('GET', ApiEndpoints.users(), { ...options, query });
+  }
+
+  createUser(user: Partial<ScimUser>, options?: ScimRequestOptions): Promise<ScimResponse<ScimUser>> {
+    return this.send('POST', ApiEndpoints.users(), { ...options, data: { schemas: [ScimSchemas.USER], ...user } });
+  }
+
+  replaceUser(id: string, user: Partial<ScimUser>, options?: ScimRequestOptions): Promise<ScimResponse<ScimUser>> {
+    return this.send('PUT', `${ApiEndpoints.users()}/${encodeURIComponent(id)}`, {
+      ...options,
+      data: { schemas: [ScimSchemas.USER], ...user }
+    });
+  }
+
+  patchUser(id: string, patch: ScimPatchRequest | ScimPatchOperation[], options?: ScimRequestOptions): Promise<ScimResponse<ScimUser>> {
+    return this.send('PATCH', `${ApiEndpoints.users()}/${encodeURIComponent(id)}`, { ...options, data: toPatchRequest(patch) });
+  }
+
+  deleteUser(id: string, options?: ScimRequestOptions): Promise<ScimResponse<void>> {
+    return this.send('DELETE', `${ApiEndpoints.users()}/${encodeURIComponent(id)}`, options);
+  }
+
+  searchUsers(search: Partial<ScimSearchRequest>, options?: ScimRequestOptions): Promise<ScimResponse<ScimListResponse<ScimUser>>> {
+    return this.send('POST', ApiEndpoints.userSearch(), { ...options, data: toSearchRequest(search) });
+  }
+
+  // ---------- Groups ----------
+
+  getGroup(id: string, options?: ScimRequestOptions): Promise<ScimResponse<ScimGroup>> {
+    return this.send('GET', `${ApiEndpoints.groups()}/${encodeURIComponent(id)}`, options);
+  }
+
+  listGroups(query?: ScimListQuery, options?: ScimRequestOptions): Promise<ScimResponse<ScimListResponse<ScimGroup>>> {
+    return this.send('GET', ApiEndpoints.groups(), { ...options, query });
+  }
+
+  createGroup(group: Partial<ScimGroup>, options?: ScimRequestOptions): Promise<ScimResponse<ScimGroup>> {
+    return this.send('POST', ApiEndpoints.groups(), { ...options, data: { schemas: [ScimSchemas.GROUP], ...group } });
+  }
+
+  replaceGroup(id: string, group: Partial<ScimGroup>, options?: ScimRequestOptions): Promise<ScimResponse<ScimGroup>> {
+    return this.send('PUT', `${ApiEndpoints.groups()}/${encodeURIComponent(id)}`, {
+      ...options,
+      data: { schemas: [ScimSchemas.GROUP], ...group }
+    });
+  }
+
+  patchGroup(id: string, patch: ScimPatchRequest | ScimPatchOperation[], options?: ScimRequestOptions): Promise<ScimResponse<ScimGroup>> {
+    return this.send('PATCH', `${ApiEndpoints.groups()}/${encodeURIComponent(id)}`, { ...options, data: toPatchRequest(patch) });
+  }
+
+  deleteGroup(id: string, options?: ScimRequestOptions): Promise<ScimResponse<void>> {
+    return this.send('DELETE', `${ApiEndpoints.groups()}/${encodeURIComponent(id)}`, options);
+  }
+
+  searchGroups(search: Partial<ScimSearchRequest>, options?: ScimRequestOptions): Promise<ScimResponse<ScimListResponse<ScimGroup>>> {
+    return this.send('POST', ApiEndpoints.groupSearch(), { ...options, data: toSearchRequest(search) });
+  }
+
+  // ---------- Bulk ----------
+
+  bulk(bulkRequest: ScimBulkRequest, options?: ScimRequestOptions): Promise<ScimResponse<ScimBulkResponse>> {
+    return this.send('POST', ApiEndpoints.bulk(), { ...options, data: bulkRequest });
+  }
+
+  // ---------- Discovery ----------
+
+  getSchemas(options?: ScimRequestOptions): Promise<ScimResponse<ScimListResponse>> {
+    return this.send('GET', ApiEndpoints.schemas(), options);
+  }
+
+  getResourceTypes(options?: ScimRequestOptions): Promise<ScimResponse<ScimListResponse>> {
+    return this.send('GET', ApiEndpoints.resourceTypes(), options);
+  }
+
+  getServiceProviderConfig(options?: ScimRequestOptions): Promise<ScimResponse<ScimServiceProviderConfig>> {
+    return this.send('GET', ApiEndpoints.serviceProviderConfig(), options);
+  }
+
+  /**
+   * Send a request to any endpoint path (relative to the context base URL)
+   */
+  async send<T = any>(method: HttpMethod, endpoint: string, options: SendOptions = {}): Promise<ScimResponse<T>> {
+    logApiRequest(method, endpoint, options.description);
+
+    const headers = { ...this.conditionalHeaders(method, endpoint, options), ...options.headers };
+    // Tests that send their own Authorization header get exactly that header, with no refresh or retry
+    const managedAuth = this.context.tokenRequest !== undefined
+      && !Object.keys(headers).some(name => name.toLowerCase() === 'authorization');
+
+    const attempt = () => this.request.fetch(`${this.context.baseUrl}${endpoint}`, {
+      method,
+      headers: { ...this.context.headers, ...headers },
+      params: toQueryParams(options.query),
+      data: options.data,
+      timeout: options.timeout ?? ProjectConfig.timeouts.api
+    });
+
+    if (managedAuth) this.useToken(await tokenManager.getToken(this.request, this.context.tokenRequest!));
+    let startTime = Date.now();
+    let response = await attempt();
+    if (response.status() === 401 && managedAuth) {
+      const refreshStart = Date.now();
+      this.useToken(await tokenManager.refresh(this.request, this.context.tokenRequest!, this.context.accessToken));
+      log.info('401 Unauthorized - retrying once with a new token', { endpoint, refreshMs: Date.now() - refreshStart });
+      // Only the retried request counts towards latency, not the refresh or the rejected attempt
+      startTime = Date.now();
+      response = await attempt();
+    }
+    const durationMs = Date.now() - startTime;
+    latencyTracker.record(method, endpoint, response.status(), durationMs);
+
+    reportCapabilityMismatches(this.context.baseUrl, method, endpoint, { ...options, headers }, response.status());
+
+    if (options.expectedStatus !== undefined) {
+      ApiValidators.validateResponseStatus(response, options.expectedStatus);
+    }
+
+    const body = await parseBody(response);
+    log.trace(`${method} ${endpoint} -> ${response.status()} (${durationMs}ms)`, {
+      ...(options.query ? { query: options.query } : {}),
+      ...(options.data !== undefined ? { request: options.data } : {}),
+      response: body
+    });
+    this.etags.capture(method, endpoint, response.status(), response.headers(), body);
+
+    return {
+      status: response.status(),
+      headers: response.headers(),
+      body,
+      durationMs,
+      response
+    };
+  }
+
+  /**
+   * Point the context at the current token (the context is shared by the spec, so it sees the new token too)
+   */
+  private useToken(token: ManagedToken): void {
+    if (token.accessToken === this.context.accessToken) return;
+    this.context.accessToken = token.accessToken;
+    this.context.headers.Authorization = `Bearer ${token.accessToken}`;
+  }
+
+  /**
+   * If-Match / If-None-Match headers from the explicit options, or from the tracked
+   * versions when the client was created with conditionalRequests
+   */
+  private conditionalHeaders(method: HttpMethod, endpoint: string, options: SendOptions): Record<string, string> {
+    const headers: Record<string, string> = {};
+    const tracked = this.options.conditionalRequests ? this.etags.get(endpoint) : undefined;
+
+    const ifMatch = options.ifMatch ?? (['PUT', 'PATCH', 'DELETE'].includes(method) ? tracked : undefined);
+    const ifNoneMatch = options.ifNoneMatch ?? (method === 'GET' ? tracked : undefined);
+    if (ifMatch !== undefined) headers['If-Match'] = ifMatch;
+    if (ifNoneMatch !== undefined) headers['If-None-Match'] = ifNoneMatch;
+    return headers;
+  }
+}
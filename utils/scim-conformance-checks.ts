@@ -0,0 +1,297 @@
+/**
+ * RFC 7643/7644 Conformance Catalog
+ * One entry per requirement, tagged with its RFC section and level (SHALL counts as MUST).
+ * Checks create their own Users through the data factory, so they run on any environment.
+ */
+
+import { ApiEndpoints, ScimSchemas } from './api-config';
+import { ConformanceCheck, conformanceFailure } from './scim-conformance';
+import { checkScimError } from './scim-errors';
+import { checkVersionHeaders } from './scim-etag';
+import { ScimPatch } from './scim-patch';
+import { buildListQuery } from './scim-query';
+
+const SCIM_MEDIA_TYPE = 'application/scim+json';
+
+function contentType(headers: Record<string, string>): string {
+  return (headers['content-type'] ?? '').split(';')[0].trim().toLowerCase();
+}
+
+export const CONFORMANCE_CHECKS: ConformanceCheck[] = [
+  // ---------- RFC 7643: Core Schema ----------
+  {
+    id: 'attribute-names-case-insensitive',
+    title: 'Attribute names are case insensitive (attributes=USERNAME returns userName)',
+    rfc: '7643', section: '2.1', level: 'MUST',
+    run: async ({ scim, data }) => {
+      const user = await data.createUser();
+      const projected = await scim.send('GET', `${ApiEndpoints.users()}/${user.id}`, { query: { attributes: ['USERNAME'] } });
+      conformanceFailure(projected.status === 200, `GET /Users/{id}?attributes=USERNAME returned ${projected.status}`);
+      conformanceFailure(projected.body?.userName === user.userName, `userName missing from a response for attributes=USERNAME: ${JSON.stringify(projected.body)}`);
+    }
+  },
+  {
+    id: 'schemas-on-every-resource',
+    title: 'Every resource and message carries a non-empty schemas attribute',
+    rfc: '7643', section: '3', level: 'MUST',
+    run: async ({ scim, data }) => {
+      const user = await data.createUser();
+      const responses = {
+        'GET /Users/{id}': (await scim.getUser(user.id!)).body,
+        'GET /Users': (await scim.listUsers({ count: 5 })).body,
+        'GET /ServiceProviderConfig': (await scim.getServiceProviderConfig()).body,
+        'GET /ResourceTypes': (await scim.getResourceTypes()).body,
+        'GET /Schemas': (await scim.getSchemas()).body
+      };
+      for (const [request, body] of Object.entries(responses)) {
+        const resources = [body, ...(Array.isArray(body?.Resources) ? body.Resources : [])];
+        const missing = resources.findIndex(resource => !Array.isArray(resource?.schemas) || resource.schemas.length === 0);
+        conformanceFailure(missing < 0, `${request}: ${missing === 0 ? 'response' : `Resources[${missing - 1}]`} has no schemas`);
+      }
+    }
+  },
+  {
+    id: 'common-attributes',
+    title: 'Resources have a non-empty id and meta.resourceType, meta.location',
+    rfc: '7643', section: '3.1', level: 'MUST',
+    run: async ({ scim, data }) => {
+      const user = await data.createUser();
+      const { body } = await scim.getUser(user.id!);
+      conformanceFailure(typeof body?.id === 'string' && body.id !== '', `id is ${JSON.stringify(body?.id)} (must be a non-empty string)`);
+      conformanceFailure(body.meta?.resourceType === 'User', `meta.resourceType is ${JSON.stringify(body.meta?.resourceType)}`);
+      conformanceFailure(typeof body.meta?.location === 'string' && body.meta.location.endsWith(`/Users/${body.id}`), `meta.location is ${JSON.stringify(body.meta?.location)}`);
+    }
+  },
+  {
+    id: 'username-required',
+    title: 'userName is required: a User without it is rejected with 400',
+    rfc: '7643', section: '4.1.1', level: 'MUST',
+    run: async ({ scim, data }) => {
+      const { userName, ...withoutUserName } = data.userAttributes();
+      const { status, body } = await scim.createUser(withoutUserName);
+      if (status === 201 && body?.id) data.track('User', body.id, userName);
+      conformanceFailure(status === 400, `POST /Users without userName returned ${status}`);
+    }
+  },
+  {
+    id: 'service-provider-config',
+    title: '/ServiceProviderConfig describes patch, bulk, filter, changePassword, sort, etag and authenticationSchemes',
+    rfc: '7643', section: '5', level: 'MUST',
+    run: async ({ scim }) => {
+      const { status, body } = await scim.getServiceProviderConfig();
+      conformanceFailure(status === 200, `GET /ServiceProviderConfig returned ${status}`);
+      const missing = ['patch', 'bulk', 'filter', 'changePassword', 'sort', 'etag']
+        .filter(feature => typeof (body as any)?.[feature]?.supported !== 'boolean');
+      conformanceFailure(missing.length === 0, `No "supported" boolean for ${missing.join(', ')}`);
+      conformanceFailure(Array.isArray(body.authenticationSchemes), 'authenticationSchemes is missing');
+    }
+  },
+  {
+    id: 'resource-types',
+    title: '/ResourceTypes lists User and Group with their endpoint and schema',
+    rfc: '7643', section: '6', level: 'MUST',
+    run: async ({ scim }) => {
+      const { status, body } = await scim.getResourceTypes();
+      conformanceFailure(status === 200, `GET /ResourceTypes returned ${status}`);
+      for (const [name, endpoint, schema] of [['User', '/Users', ScimSchemas.USER], ['Group', '/Groups', ScimSchemas.GROUP]]) {
+        const resourceType = body.Resources?.find((resource: any) => resource.name === name);
+        conformanceFailure(resourceType, `No ${name} resource type`);
+        conformanceFailure(resourceType.endpoint === endpoint && resourceType.schema === schema,
+          `${name}: endpoint ${resourceType.endpoint}, schema ${resourceType.schema}`);
+      }
+    }
+  },
+  {
+    id: 'schema-definitions',
+    title: '/Schemas defines the User and Group schemas with their attributes',
+    rfc: '7643', section: '7', level: 'MUST',
+    run: async ({ scim }) => {
+      const { status, body } = await scim.getSchemas();
+      conformanceFailure(status === 200, `GET /Schemas returned ${status}`);
+      for (const id of [ScimSchemas.USER, ScimSchemas.GROUP]) {
+        const schema = body.Resources?.find((resource: any) => resource.id === id);
+        conformanceFailure(Array.isArray(schema?.attributes) && schema.attributes.length > 0, `${id} is missing or has no attributes`);
+      }
+    }
+  },
+
+  // ---------- RFC 7644: Protocol ----------
+  {
+    id: 'create-location-header',
+    title: 'POST answers 201 with a Location header equal to meta.location',
+    rfc: '7644', section: '3.3', level: 'MUST',
+    run: async ({ scim, data }) => {
+      const { status, headers, body } = await scim.createUser(data.userAttributes());
+      if (body?.id) data.track('User', body.id, body.userName);
+      conformanceFailure(status === 201, `POST /Users returned ${status}`);
+      conformanceFailure(headers.location, 'No Location header');
+      conformanceFailure(headers.location === body.meta?.location, `Location ${headers.location} differs from meta.location ${body.meta?.location}`);
+    }
+  },
+  {
+    id: 'create-uniqueness',
+    title: 'Creating a User with a userName in use answers 409 with scimType uniqueness',
+    rfc: '7644', section: '3.3', level: 'MUST',
+    run: async ({ scim, data }) => {
+      const user = await data.createUser();
+      const { status, body } = await scim.createUser(data.userAttributes({ userName: user.userName }));
+      if (status === 201 && body?.id) data.track('User', body.id, body.userName);
+      conformanceFailure(status === 409, `Duplicate userName returned ${status}`);
+      conformanceFailure(body?.scimType === 'uniqueness', `scimType is ${JSON.stringify(body?.scimType)}`);
+    }
+  },
+  {
+    id: 'get-by-id',
+    title: 'GET /Users/{id} returns the resource with that id',
+    rfc: '7644', section: '3.4.1', level: 'MUST',
+    run: async ({ scim, data }) => {
+      const user = await data.createUser();
+      const { status, body } = await scim.getUser(user.id!);
+      conformanceFailure(status === 200, `GET /Users/{id} returned ${status}`);
+      conformanceFailure(body.id === user.id && body.userName === user.userName, `Returned ${body.id} ${body.userName}`);
+    }
+  },
+  {
+    id: 'list-response',
+    title: 'Queries answer a ListResponse with totalResults and Resources',
+    rfc: '7644', section: '3.4.2', level: 'MUST',
+    requires: ['filter'],
+    run: async ({ scim, data }) => {
+      const user = await data.createUser();
+      const { status, body } = await scim.listUsers(buildListQuery(`userName eq "${user.userName}"`));
+      conformanceFailure(status === 200, `GET /Users?filter= returned ${status}`);
+      conformanceFailure(body.schemas?.includes(ScimSchemas.LIST_RESPONSE), `schemas is ${JSON.stringify(body.schemas)}`);
+      conformanceFailure(typeof body.totalResults === 'number', 'totalResults is missing');
+      conformanceFailure(Array.isArray(body.Resources) && body.Resources.length === 1, `Resources has ${body.Resources?.length} entries, expected 1`);
+    }
+  },
+  {
+    id: 'filter-case-insensitive',
+    title: 'Attribute names and operators in filters are case insensitive',
+    rfc: '7644', section: '3.4.2.2', level: 'MUST',
+    requires: ['filter'],
+    run: async ({ scim, data }) => {
+      const user = await data.createUser();
+      const { status, body } = await scim.listUsers(buildListQuery(`USERNAME EQ "${user.userName}"`));
+      conformanceFailure(status === 200, `USERNAME EQ "..." returned ${status}`);
+      conformanceFailure(body.Resources?.some((resource: any) => resource.id === user.id), 'USERNAME EQ "..." did not find the user');
+    }
+  },
+  {
+    id: 'invalid-filter',
+    title: 'A malformed filter answers 400 with scimType invalidFilter',
+    rfc: '7644', section: '3.4.2.2', level: 'MUST',
+    requires: ['filter'],
+    run: async ({ scim }) => {
+      const { status, body } = await scim.send('GET', ApiEndpoints.users(), { query: { filter: 'userName eq' } });
+      conformanceFailure(status === 400, `filter=userName eq returned ${status}`);
+      conformanceFailure(body?.scimType === 'invalidFilter', `scimType is ${JSON.stringify(body?.scimType)}`);
+    }
+  },
+  {
+    id: 'pagination-count',
+    title: 'count limits the page, and itemsPerPage reports its size',
+    rfc: '7644', section: '3.4.2.4', level: 'MUST',
+    run: async ({ scim, data }) => {
+      await data.createUsers(2);
+      const { status, body } = await scim.listUsers({ startIndex: 1, count: 1 });
+      conformanceFailure(status === 200, `GET /Users?count=1 returned ${status}`);
+      conformanceFailure((body.Resources ?? []).length <= 1, `count=1 returned ${body.Resources?.length} resources`);
+      conformanceFailure(body.itemsPerPage === (body.Resources ?? []).length, `itemsPerPage is ${body.itemsPerPage} for ${body.Resources?.length} resources`);
+    }
+  },
+  {
+    id: 'patch-replace',
+    title: 'PATCH replace updates the attribute (200 with the resource or 204)',
+    rfc: '7644', section: '3.5.2', level: 'MUST',
+    requires: ['patch'],
+    run: async ({ scim, data }) => {
+      const user = await data.createUser();
+      const { status, body } = await scim.patchUser(user.id!, ScimPatch.replace('displayName', 'Conformance Check').build());
+      conformanceFailure(status === 200 || status === 204, `PATCH returned ${status}`);
+      const current = status === 200 ? body : (await scim.getUser(user.id!)).body;
+      conformanceFailure(current.displayName === 'Conformance Check', `displayName is ${JSON.stringify(current.displayName)}`);
+    }
+  },
+  {
+    id: 'delete-then-404',
+    title: 'DELETE answers 204, and the resource is gone (404) afterwards',
+    rfc: '7644', section: '3.6', level: 'MUST',
+    run: async ({ scim, data }) => {
+      const user = await data.createUser();
+      const deleted = await scim.deleteUser(user.id!);
+      conformanceFailure(deleted.status === 204, `DELETE returned ${deleted.status}`);
+      data.forget('User', user.id!);
+      const { status } = await scim.getUser(user.id!);
+      conformanceFailure(status === 404, `GET after DELETE returned ${status}`);
+    }
+  },
+  {
+    id: 'scim-media-type',
+    title: 'Responses use application/scim+json for Accept: application/scim+json',
+    rfc: '7644', section: '3.8', level: 'MUST',
+    run: async ({ scim, data }) => {
+      const user = await data.createUser();
+      const { status, headers } = await scim.getUser(user.id!, { headers: { Accept: SCIM_MEDIA_TYPE } });
+      conformanceFailure(status === 200, `GET with Accept: ${SCIM_MEDIA_TYPE} returned ${status}`);
+      conformanceFailure(contentType(headers) === SCIM_MEDIA_TYPE, `Content-Type is ${headers['content-type']}`);
+    }
+  },
+  {
+    id: 'accept-application-json',
+    title: 'Requests with Accept: application/json are served',
+    rfc: '7644', section: '3.8', level: 'SHOULD',
+    run: async ({ scim, data }) => {
+      const user = await data.createUser();
+      const { status } = await scim.getUser(user.id!, { headers: { Accept: 'application/json' } });
+      conformanceFailure(status === 200, `GET with Accept: application/json returned ${status}`);
+    }
+  },
+  {
+    id: 'attributes-parameter',
+    title: 'attributes returns the listed attributes plus id and schemas, and nothing else by default',
+    rfc: '7644', section: '3.9', level: 'MUST',
+    run: async ({ scim, data }) => {
+      const user = await data.createUser();
+      const { status, body } = await scim.send('GET', `${ApiEndpoints.users()}/${user.id}`, { query: { attributes: ['userName'] } });
+      conformanceFailure(status === 200, `attributes=userName returned ${status}`);
+      conformanceFailure(body.userName === user.userName && body.id === user.id && Array.isArray(body.schemas), `Missing userName, id or schemas: ${JSON.stringify(body)}`);
+      conformanceFailure(body.emails === undefined && body.name === undefined, 'emails / name returned although not requested');
+    }
+  },
+  {
+    id: 'excluded-attributes-parameter',
+    title: 'excludedAttributes removes the listed attributes and keeps the rest',
+    rfc: '7644', section: '3.9', level: 'MUST',
+    run: async ({ scim, data }) => {
+      const user = await data.createUser();
+      const { status, body } = await scim.send('GET', `${ApiEndpoints.users()}/${user.id}`, { query: { excludedAttributes: ['emails'] } });
+      conformanceFailure(status === 200, `excludedAttributes=emails returned ${status}`);
+      conformanceFailure(body.emails === undefined, 'emails returned although excluded');
+      conformanceFailure(body.userName === user.userName, 'userName missing');
+    }
+  },
+  {
+    id: 'error-response-body',
+    title: 'Errors carry the Error schema, status as a string and a detail (404 for an unknown id)',
+    rfc: '7644', section: '3.12', level: 'MUST',
+    run: async ({ scim }) => {
+      const { status, body } = await scim.getUser('999999999');
+      conformanceFailure(status === 404, `GET /Users/999999999 returned ${status}`);
+      const violations = checkScimError(status, body);
+      conformanceFailure(violations.length === 0, violations.join('; '));
+    }
+  },
+  {
+    id: 'etag-version',
+    title: 'Versioned resources return an ETag header matching meta.version',
+    rfc: '7644', section: '3.14', level: 'MUST',
+    requires: ['etag'],
+    run: async ({ scim, data }) => {
+      const user = await data.createUser();
+      const { headers, body } = await scim.getUser(user.id!);
+      const violations = checkVersionHeaders(headers, body);
+      conformanceFailure(violations.length === 0, violations.join('; '));
+    }
+  }
+];
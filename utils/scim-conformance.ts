@@ -0,0 +1,192 @@
+/**
+ * RFC 7643/7644 Conformance
+ * Runs a catalog of checks (utils/scim-conformance-checks.ts), each tagged with the RFC section it
+ * covers and its requirement level, against the current endpoint type, and builds a compliance
+ * matrix: per section, whether it passes, fails or is not applicable, as JSON and as HTML.
+ */
+
+import { getCurrentEndpointType } from './api-config';
+import { isSupported, ScimCapabilities, ScimCapability } from './scim-capabilities';
+import { ScimClient } from './scim-client';
+import { ScimDataFactory } from './scim-fixtures';
+import { escapeHtml } from './scim-latency';
+
+export type ScimRfc = '7643' | '7644';
+export type RequirementLevel = 'MUST' | 'SHOULD' | 'MAY';
+export type ConformanceStatus = 'pass' | 'fail' | 'n/a';
+
+export interface ConformanceContext {
+  scim: ScimClient;
+  // Creates (and cleans up) the Users and Groups a check needs
+  data: ScimDataFactory;
+  capabilities: ScimCapabilities;
+}
+
+export interface ConformanceCheck {
+  id: string;
+  title: string;
+  rfc: ScimRfc;
+  // e.g. "3.4.2.2"
+  section: string;
+  level: RequirementLevel;
+  // Optional features the requirement depends on; not applicable when the server does not advertise them
+  requires?: ScimCapability[];
+  // Throws (e.g. with conformanceFailure) when the server does not conform
+  run: (context: ConformanceContext) => Promise<void>;
+}
+
+export interface ConformanceResult {
+  id: string;
+  title: string;
+  rfc: ScimRfc;
+  section: string;
+  level: RequirementLevel;
+  status: ConformanceStatus;
+  // Failure message or why the check does not apply
+  detail?: string;
+}
+
+export interface ComplianceSection {
+  rfc: ScimRfc;
+  section: string;
+  title: string;
+  // fail when any check fails, n/a when none applies, else pass
+  status: ConformanceStatus;
+  checks: ConformanceResult[];
+}
+
+export interface ComplianceMatrix {
+  endpointType: string;
+  generatedAt: string;
+  summary: Record<ConformanceStatus, number>;
+  sections: ComplianceSection[];
+}
+
+// Section headings, for the report
+export const RFC_SECTIONS: Record<string, string> = {
+  '7643 §2.1': 'Attributes',
+  '7643 §3': 'SCIM Resources',
+  '7643 §3.1': 'Common Attributes',
+  '7643 §4.1.1': 'User: Singular Attributes',
+  '7643 §5': 'Service Provider Configuration Schema',
+  '7643 §6': 'ResourceType Schema',
+  '7643 §7': 'Schema Definition',
+  '7644 §3.3': 'Creating Resources',
+  '7644 §3.4.1': 'Retrieving a Known Resource',
+  '7644 §3.4.2': 'Query Resources: List Response',
+  '7644 §3.4.2.2': 'Filtering',
+  '7644 §3.4.2.4': 'Pagination',
+  '7644 §3.5.2': 'Modifying with PATCH',
+  '7644 §3.6': 'Deleting Resources',
+  '7644 §3.8': 'Data Input/Output Formats',
+  '7644 §3.9': 'Additional Operation Response Parameters',
+  '7644 §3.12': 'HTTP Status and Error Response Handling',
+  '7644 §3.14': 'Versioning Resources'
+};
+
+/**
+ * Error thrown by a check whose requirement is not met
+ */
+export class ConformanceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConformanceError';
+  }
+}
+
+/**
+ * Throw a ConformanceError with the message unless the condition holds
+ */
+export function conformanceFailure(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new ConformanceError(message);
+}
+
+export function sectionKey(rfc: ScimRfc, section: string): string {
+  return `${rfc} §${section}`;
+}
+
+/**
+ * Run one check: n/a when a required capability is not advertised, fail when it throws
+ */
+export async function runConformanceCheck(check: ConformanceCheck, context: ConformanceContext): Promise<ConformanceResult> {
+  const { run, requires, ...result } = check;
+  const missing = (requires ?? []).filter(capability => !isSupported(context.capabilities, capability));
+  if (missing.length > 0) {
+    return { ...result, status: 'n/a', detail: `ServiceProviderConfig: ${missing.join(', ')} not supported` };
+  }
+  try {
+    await run(context);
+    return { ...result, status: 'pass' };
+  } catch (error: any) {
+    return { ...result, status: 'fail', detail: error.message };
+  }
+}
+
+// "3.4.2.2" before "3.4.10", numerically
+function compareSections(a: string, b: string): number {
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+  for (let index = 0; index < Math.max(left.length, right.length); index++) {
+    const difference = (left[index] ?? -1) - (right[index] ?? -1);
+    if (difference !== 0) return difference;
+  }
+  return 0;
+}
+
+/**
+ * Group results by RFC section
+ */
+export function complianceMatrix(results: ConformanceResult[], endpointType: string = getCurrentEndpointType()): ComplianceMatrix {
+  const bySection = new Map<string, ConformanceResult[]>();
+  for (const result of results) {
+    const key = sectionKey(result.rfc, result.section);
+    if (!bySection.has(key)) bySection.set(key, []);
+    bySection.get(key)!.push(result);
+  }
+
+  const sections = [...bySection.values()]
+    .map(checks => {
+      const { rfc, section } = checks[0];
+      const status: ConformanceStatus = checks.some(check => check.status === 'fail') ? 'fail'
+        : checks.some(check => check.status === 'pass') ? 'pass' : 'n/a';
+      return { rfc, section, title: RFC_SECTIONS[sectionKey(rfc, section)] ?? '', status, checks };
+    })
+    .sort((a, b) => a.rfc.localeCompare(b.rfc) || compareSections(a.section, b.section));
+
+  const summary: Record<ConformanceStatus, number> = { pass: 0, fail: 0, 'n/a': 0 };
+  for (const result of results) summary[result.status]++;
+
+  return { endpointType, generatedAt: new Date().toISOString(), summary, sections };
+}
+
+/**
+ * Checks that failed at the given levels
+ */
+export function failedChecks(matrix: ComplianceMatrix, levels: RequirementLevel[] = ['MUST']): ConformanceResult[] {
+  return matrix.sections.flatMap(section => section.checks)
+    .filter(check => check.status === 'fail' && levels.includes(check.level));
+}
+
+/**
+ * The matrix as a standalone HTML page (attached to the HTML report)
+ */
+export function complianceMatrixHtml(matrix: ComplianceMatrix): string {
+  const rows = matrix.sections.flatMap(section => [
+    `<tr class="section ${section.status === 'n/a' ? 'na' : section.status}"><th colspan="3">RFC ${section.rfc} §${escapeHtml(section.section)} ${escapeHtml(section.title)}</th><th>${section.status}</th></tr>`,
+    ...section.checks.map(check => `<tr class="${check.status === 'n/a' ? 'na' : check.status}">` +
+      `<td>${escapeHtml(check.id)}</td><td>${check.level}</td><td>${escapeHtml(check.title)}` +
+      `${check.detail ? `<br><small>${escapeHtml(check.detail)}</small>` : ''}</td><td>${check.status}</td></tr>`)
+  ]);
+  const { pass, fail } = matrix.summary;
+  return [
+    '<!DOCTYPE html>',
+    `<html><head><meta charset="utf-8"><title>SCIM compliance ${escapeHtml(matrix.endpointType)}</title>`,
+    '<style>body{font-family:sans-serif}table{border-collapse:collapse}td,th{border:1px solid #ccc;padding:4px 8px;text-align:left}',
+    '.pass td:last-child,.pass th:last-child{color:#070}.fail{background:#fdd}.na{color:#777}.section th{background:#eee}</style></head><body>',
+    `<h1>RFC 7643/7644 compliance: ${escapeHtml(matrix.endpointType)}</h1>`,
+    `<p>${pass} passed, ${fail} failed, ${matrix.summary['n/a']} not applicable (${escapeHtml(matrix.generatedAt)})</p>`,
+    '<table><tr><th>Check</th><th>Level</th><th>Requirement</th><th>Result</th></tr>',
+    ...rows,
+    '</table></body></html>'
+  ].join('\n');
+}
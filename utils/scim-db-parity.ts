@@ -0,0 +1,130 @@
+/**
+ * SCIM ↔ OnBase Database Parity
+ * Declares how SCIM User/Group attributes map to hsi.useraccount, hsi.usergroup and
+ * hsi.userxusergroup, and diffs a resource returned by the API against the stored rows
+ */
+
+import { ScimSchemas } from './api-config';
+import { getTestDatabase } from './db-config';
+import { log } from './logger';
+import { ScimGroup, ScimResource, ScimUser } from './scim-types';
+import { TestDatabase, UserAccountRow, UserGroupRow } from './test-database';
+
+/**
+ * hsi.usergroup row plus its hsi.userxusergroup member usernums
+ */
+export interface GroupParityRow extends UserGroupRow {
+  members: number[];
+}
+
+/**
+ * One SCIM attribute and the column(s) it is stored in
+ */
+export interface AttributeMapping<R extends ScimResource, Row> {
+  attribute: string;
+  column: string;
+  fromResource: (resource: R) => unknown;
+  fromRow: (row: Row) => unknown;
+  // OnBase stores user names upper-cased
+  caseInsensitive?: boolean;
+}
+
+export const USER_MAPPINGS: AttributeMapping<ScimUser, UserAccountRow>[] = [
+  { attribute: 'id', column: 'usernum', fromResource: user => user.id, fromRow: row => String(row.usernum) },
+  { attribute: 'userName', column: 'username', fromResource: user => user.userName, fromRow: row => row.username, caseInsensitive: true },
+  { attribute: 'displayName', column: 'realname', fromResource: user => user.displayName, fromRow: row => row.realname },
+  {
+    attribute: 'emails[primary eq true].value',
+    column: 'emailaddress',
+    fromResource: user => (user.emails?.find(email => email.primary) ?? user.emails?.[0])?.value,
+    fromRow: row => row.emailaddress
+  },
+  { attribute: 'active', column: '!disablelogin', fromResource: user => user.active, fromRow: row => !Number(row.disablelogin) }
+];
+
+export const GROUP_MAPPINGS: AttributeMapping<ScimGroup, GroupParityRow>[] = [
+  { attribute: 'id', column: 'usergroupnum', fromResource: group => group.id, fromRow: row => String(row.usergroupnum) },
+  { attribute: 'displayName', column: 'usergroupname', fromResource: group => group.displayName, fromRow: row => row.usergroupname },
+  {
+    attribute: 'members.value',
+    column: 'hsi.userxusergroup.usernum',
+    fromResource: group => (group.members ?? []).map(member => member.value).sort(),
+    fromRow: row => row.members.map(String).sort()
+  }
+];
+
+/**
+ * A SCIM attribute whose value differs from the database
+ */
+export interface ParityMismatch {
+  attribute: string;
+  column: string;
+  scimValue: unknown;
+  dbValue: unknown;
+}
+
+export interface ParityResult {
+  kind: 'User' | 'Group';
+  id: string;
+  // false when there is no row for the resource id
+  found: boolean;
+  mismatches: ParityMismatch[];
+}
+
+// null, undefined and '' all mean "not set"
+function normalize(value: unknown, caseInsensitive?: boolean): unknown {
+  if (value === null || value === undefined || value === '') return undefined;
+  return caseInsensitive && typeof value === 'string' ? value.toUpperCase() : value;
+}
+
+/**
+ * Compare a resource with its row using the given mappings
+ */
+export function diffParity<R extends ScimResource, Row>(resource: R, row: Row, mappings: AttributeMapping<R, Row>[]): ParityMismatch[] {
+  const mismatches: ParityMismatch[] = [];
+  for (const mapping of mappings) {
+    const scimValue = mapping.fromResource(resource);
+    const dbValue = mapping.fromRow(row);
+    if (JSON.stringify(normalize(scimValue, mapping.caseInsensitive)) !== JSON.stringify(normalize(dbValue, mapping.caseInsensitive))) {
+      mismatches.push({ attribute: mapping.attribute, column: mapping.column, scimValue, dbValue });
+    }
+  }
+  return mismatches;
+}
+
+/**
+ * Diff a User or Group returned by the API against what is stored in the database
+ */
+export async function verifyParity(resource: ScimUser | ScimGroup, database: TestDatabase = getTestDatabase()): Promise<ParityResult> {
+  const id = resource.id;
+  if (!id || !/^\d+$/.test(id)) {
+    throw new Error(`Parity check needs a numeric OnBase id, got "${id}"`);
+  }
+
+  if (resource.schemas?.includes(ScimSchemas.GROUP)) {
+    const group = await database.getGroupById(Number(id));
+    const row = group && { ...group, members: await database.getGroupMembers(Number(id)) };
+    return { kind: 'Group', id, found: !!row, mismatches: row ? diffParity(resource as ScimGroup, row, GROUP_MAPPINGS) : [] };
+  }
+  if (resource.schemas?.includes(ScimSchemas.USER)) {
+    const row = await database.getUserById(Number(id));
+    return { kind: 'User', id, found: !!row, mismatches: row ? diffParity(resource as ScimUser, row, USER_MAPPINGS) : [] };
+  }
+  throw new Error(`Parity check supports Users and Groups, got schemas ${JSON.stringify(resource.schemas)}`);
+}
+
+/**
+ * verifyParity that throws with one line per mismatched field
+ */
+export async function assertParity(resource: ScimUser | ScimGroup, database?: TestDatabase): Promise<ParityResult> {
+  const result = await verifyParity(resource, database);
+  if (!result.found) {
+    throw new Error(`${result.kind} ${result.id} is not in the database`);
+  }
+  if (result.mismatches.length > 0) {
+    const lines = result.mismatches.map(m => `  ${m.attribute} (${m.column}): API ${JSON.stringify(m.scimValue)} vs. DB ${JSON.stringify(m.dbValue)}`);
+    throw new Error(`${result.kind} ${result.id} differs from the database:\n${lines.join('\n')}`);
+  }
+  log.debug(`${result.kind} ${result.id} matches the database`);
+  return result;
+}
@@ -0,0 +1,216 @@
+/**
+ * Cross-Endpoint Parity
+ * Sends the same request (or runs the same scenario) against /obscim/v2 and
+ * /ApiServer/onbase/SCIM/v2 and diffs status codes, headers and normalized bodies.
+ * Intended differences are listed, with a reason, in endpoint-parity-allowlist.json.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { ApiEndpointType, ProjectConfig } from './api-config';
+import { ScimClient, ScimResponse } from './scim-client';
+import { MASK, scimSnapshot } from './scim-snapshot';
+import { ScimListQuery } from './scim-types';
+
+export const ENDPOINT_TYPES: ApiEndpointType[] = ['scim', 'apiserver'];
+// Overrides the allowlist location
+export const PARITY_ALLOWLIST_ENV = 'SCIM_PARITY_ALLOWLIST';
+
+const DEFAULT_ALLOWLIST_FILE = path.resolve(__dirname, '..', 'endpoint-parity-allowlist.json');
+// Compared by value; ETag only by presence (versions are per resource, not per endpoint)
+const COMPARED_HEADERS = ['content-type', 'location'];
+
+/**
+ * A read-only request, relative to the SCIM base path
+ */
+export interface ParityRequest {
+  path: string;
+  query?: ScimListQuery;
+}
+
+export interface ParityDifference {
+  // e.g. "status", "headers.content-type", "body.Resources[0].meta.location"
+  path: string;
+  scim: unknown;
+  apiserver: unknown;
+  // Reason from the allowlist entry that covers this difference
+  allowed?: string;
+}
+
+export interface EndpointParityResult {
+  // "GET /Users/106" or the scenario name
+  name: string;
+  differences: ParityDifference[];
+  // Differences not covered by the allowlist
+  unexpected: ParityDifference[];
+}
+
+/**
+ * An intended difference; `request` and `path` may use * wildcards
+ */
+export interface ParityAllowlistEntry {
+  request: string;
+  path: string;
+  reason: string;
+}
+
+/**
+ * Run fn with ApiEndpoints (and so ScimClient) pointing at the given endpoint type
+ */
+export async function withEndpointType<T>(type: ApiEndpointType, fn: () => Promise<T>): Promise<T> {
+  const previous = { ENDPOINT_TYPE: process.env.ENDPOINT_TYPE, API_ENDPOINT_TYPE: process.env.API_ENDPOINT_TYPE };
+  process.env.ENDPOINT_TYPE = type;
+  delete process.env.API_ENDPOINT_TYPE;
+  try {
+    return await fn();
+  } finally {
+    for (const [name, value] of Object.entries(previous)) {
+      if (value === undefined) delete process.env[name];
+      else process.env[name] = value;
+    }
+  }
+}
+
+// Base paths differ by design; ids of resources created per endpoint differ by run
+function normalizeLocation(location: string): string {
+  let normalized = location.replace(/^[a-z]+:\/\/[^/]+/i, MASK.host);
+  for (const type of ENDPOINT_TYPES) {
+    normalized = normalized.split(ProjectConfig.api.endpoints[type]).join('{base}');
+  }
+  return normalized.replace(/\/\d+$/, `/${MASK.id}`);
+}
+
+/**
+ * Status, compared headers and snapshot-normalized body (utils/scim-snapshot.ts) of a response.
+ * `ids` are ids the run generated; they are masked wherever they appear (e.g. in error details).
+ */
+export function normalizeForParity(response: Pick<ScimResponse, 'status' | 'headers' | 'body'>, ids: string[] = []): Record<string, unknown> {
+  let bodyText = JSON.stringify(response.body ?? null);
+  for (const type of ENDPOINT_TYPES) {
+    bodyText = bodyText.split(ProjectConfig.api.endpoints[type]).join('{base}');
+  }
+  for (const id of ids) {
+    bodyText = bodyText.replace(new RegExp(`(?<![\\w-])${escapeRegExp(id)}(?![\\w-])`, 'g'), MASK.id);
+  }
+
+  const headers: Record<string, unknown> = { etag: response.headers.etag !== undefined ? '<present>' : undefined };
+  for (const name of COMPARED_HEADERS) {
+    const value = response.headers[name];
+    headers[name] = name === 'location' && value ? normalizeLocation(value) : value;
+  }
+  return { status: response.status, headers, body: JSON.parse(scimSnapshot(JSON.parse(bodyText))) };
+}
+
+/**
+ * Every leaf where the two values differ, by path
+ */
+export function diffValues(scim: unknown, apiserver: unknown, at: string = '', differences: ParityDifference[] = []): ParityDifference[] {
+  const bothArrays = Array.isArray(scim) && Array.isArray(apiserver);
+  const bothObjects = !bothArrays && isObject(scim) && isObject(apiserver);
+
+  if (bothArrays) {
+    for (let i = 0; i < Math.max(scim.length, apiserver.length); i++) {
+      diffValues(scim[i], apiserver[i], `${at}[${i}]`, differences);
+    }
+  } else if (bothObjects) {
+    const keys = [...new Set([...Object.keys(scim), ...Object.keys(apiserver)])].sort();
+    for (const key of keys) {
+      diffValues(scim[key], apiserver[key], at ? `${at}.${key}` : key, differences);
+    }
+  } else if (JSON.stringify(scim) !== JSON.stringify(apiserver)) {
+    differences.push({ path: at, scim, apiserver });
+  }
+  return differences;
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function wildcard(pattern: string): RegExp {
+  return new RegExp(`^${pattern.split('*').map(escapeRegExp).join('.*')}$`);
+}
+
+/**
+ * Read the allowlist; every entry needs a request, a path and a reason
+ */
+export function loadParityAllowlist(file: string = process.env[PARITY_ALLOWLIST_ENV] || DEFAULT_ALLOWLIST_FILE): ParityAllowlistEntry[] {
+  if (!fs.existsSync(file)) return [];
+  const { differences } = JSON.parse(fs.readFileSync(file, 'utf8')) as { differences?: ParityAllowlistEntry[] };
+  if (!Array.isArray(differences)) {
+    throw new Error(`${file}: expected { "differences": [...] }`);
+  }
+  differences.forEach((entry, index) => {
+    const missing = (['request', 'path', 'reason'] as const).filter(key => typeof entry[key] !== 'string' || !entry[key]);
+    if (missing.length > 0) {
+      throw new Error(`${file}: differences[${index}] needs ${missing.join(', ')}`);
+    }
+  });
+  return differences;
+}
+
+/**
+ * Build the result for a request/scenario, marking the differences the allowlist covers
+ */
+export function parityResult(name: string, differences: ParityDifference[], allowlist: ParityAllowlistEntry[] = loadParityAllowlist()): EndpointParityResult {
+  const marked = differences.map(difference => {
+    const entry = allowlist.find(allowed => wildcard(allowed.request).test(name) && wildcard(allowed.path).test(difference.path));
+    return entry ? { ...difference, allowed: entry.reason } : difference;
+  });
+  return { name, differences: marked, unexpected: marked.filter(difference => !difference.allowed) };
+}
+
+/**
+ * Send a read-only GET to both endpoints and diff the responses
+ */
+export async function compareRead(scim: ScimClient, request: ParityRequest, allowlist?: ParityAllowlistEntry[]): Promise<EndpointParityResult> {
+  const [scimResponse, apiserverResponse] = await Promise.all(ENDPOINT_TYPES.map(type =>
+    scim.send('GET', `${ProjectConfig.api.endpoints[type]}${request.path}`, { query: request.query, description: `Parity (${type})` })
+  ));
+  const name = `GET ${request.path}${request.query ? ` ${JSON.stringify(request.query)}` : ''}`;
+  return parityResult(name, diffValues(normalizeForParity(scimResponse), normalizeForParity(apiserverResponse)), allowlist);
+}
+
+/**
+ * Run a (mutating) scenario once per endpoint, each on its own data, and diff the responses it
+ * returns pairwise. The scenario must create everything it touches and clean it up.
+ */
+export async function compareScenario(
+  name: string,
+  scim: ScimClient,
+  scenario: (scim: ScimClient) => Promise<ScimResponse[]>,
+  allowlist?: ParityAllowlistEntry[]
+): Promise<EndpointParityResult> {
+  // One after the other: the endpoint type is process-wide
+  const scimResponses = await withEndpointType('scim', () => scenario(scim));
+  const apiserverResponses = await withEndpointType('apiserver', () => scenario(scim));
+  const normalized = (responses: ScimResponse[]) => {
+    const ids = createdIds(responses);
+    return responses.map(response => normalizeForParity(response, ids));
+  };
+  return parityResult(name, diffValues(normalized(scimResponses), normalized(apiserverResponses), 'responses'), allowlist);
+}
+
+// Ids of the resources a scenario created, so later responses that mention them compare equal
+function createdIds(responses: ScimResponse[]): string[] {
+  return [...new Set(responses
+    .filter(response => response.status === 201 && response.body?.id !== undefined)
+    .map(response => String(response.body.id)))];
+}
+
+/**
+ * Throw with one line per difference the allowlist does not cover
+ */
+export function assertEndpointParity(result: EndpointParityResult): void {
+  if (result.unexpected.length === 0) return;
+  const lines = result.unexpected.map(d => `  ${d.path}: scim ${JSON.stringify(d.scim)} vs. apiserver ${JSON.stringify(d.apiserver)}`);
+  throw new Error(
+    `${result.name}: ${result.unexpected.length} unexpected differences between /obscim/v2 and /ApiServer/onbase/SCIM/v2\n` +
+    `${lines.join('\n')}\n` +
+    `List intended differences in endpoint-parity-allowlist.json`
+  );
+}
@@ -0,0 +1,73 @@
+/**
+ * SCIM Error Responses (RFC 7644 §3.12)
+ * Validates Error message bodies: the Error schema, `status` as the HTTP status code in a string,
+ * a `scimType` from the RFC's list and a `detail`
+ */
+
+import { ScimSchemas } from './api-config';
+import { ScimResponse } from './scim-client';
+
+// scimType values defined by RFC 7644 §3.12 (Table 9)
+export const SCIM_ERROR_TYPES = [
+  'invalidFilter',
+  'tooMany',
+  'uniqueness',
+  'mutability',
+  'invalidSyntax',
+  'invalidPath',
+  'noTarget',
+  'invalidValue',
+  'invalidVers',
+  'sensitive'
+] as const;
+
+export type ScimErrorType = typeof SCIM_ERROR_TYPES[number];
+
+export function isScimErrorType(value: unknown): value is ScimErrorType {
+  return SCIM_ERROR_TYPES.includes(value as ScimErrorType);
+}
+
+/**
+ * Problems with an error response body, given the HTTP status it came with (and, when given,
+ * the scimType it must carry)
+ */
+export function checkScimError(httpStatus: number, body: any, scimType?: ScimErrorType): string[] {
+  if (body === null || typeof body !== 'object' || Array.isArray(body)) {
+    return [`body is not a SCIM Error message: ${JSON.stringify(body)}`];
+  }
+
+  const violations: string[] = [];
+  if (!Array.isArray(body.schemas) || !body.schemas.includes(ScimSchemas.ERROR)) {
+    violations.push(`schemas is ${JSON.stringify(body.schemas)} (must contain ${ScimSchemas.ERROR})`);
+  }
+
+  if (typeof body.status !== 'string') {
+    violations.push(`status is ${JSON.stringify(body.status)} (must be the string "${httpStatus}")`);
+  } else if (body.status !== String(httpStatus)) {
+    violations.push(`status "${body.status}" does not match the HTTP status ${httpStatus}`);
+  }
+
+  if (body.scimType !== undefined && !isScimErrorType(body.scimType)) {
+    violations.push(`scimType ${JSON.stringify(body.scimType)} is not one of ${SCIM_ERROR_TYPES.join(', ')}`);
+  }
+  if (scimType !== undefined && body.scimType !== scimType) {
+    violations.push(`scimType is ${JSON.stringify(body.scimType)}, expected "${scimType}"`);
+  }
+
+  if (typeof body.detail !== 'string' || body.detail.trim() === '') {
+    violations.push(`detail is ${body.detail === undefined ? 'missing' : JSON.stringify(body.detail)} (must describe the error)`);
+  }
+  return violations;
+}
+
+/**
+ * Throw unless the response has the expected status and a valid Error body (with the
+ * expected scimType, when given)
+ */
+export function assertScimError(response: ScimResponse, expectedStatus: number, scimType?: ScimErrorType, objectName: string = 'Response'): void {
+  const violations = response.status === expectedStatus ? [] : [`HTTP status is ${response.status}, expected ${expectedStatus}`];
+  violations.push(...checkScimError(response.status, response.body, scimType));
+  if (violations.length > 0) {
+    throw new Error(`${objectName} is not the expected SCIM Error:\n  - ${violations.join('\n  - ')}`);
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * SCIM Resource Versioning (RFC 7644 §3.14)
+ * Reads ETags from the ETag header and meta.version, remembers the latest version of
+ * each resource a client has seen, and compares If-Match / If-None-Match values
+ */
+
+import { ScimSchemas } from './api-config';
+import { log } from './logger';
+import { ScimResource } from './scim-types';
+
+const ETAG_PATTERN = /^(W\/)?"[^"]*"$/;
+
+/**
+ * Whether a value is a well-formed entity tag: "xyz" or W/"xyz"
+ */
+export function isValidETag(value: string | undefined): boolean {
+  return typeof value === 'string' && ETAG_PATTERN.test(value);
+}
+
+/**
+ * Entity tags in an If-Match / If-None-Match header value ('*' is kept as is)
+ */
+export function parseETagList(header: string | undefined): string[] {
+  if (!header) return [];
+  return header.match(/\*|(W\/)?"[^"]*"/g) ?? [];
+}
+
+/**
+ * Weak comparison (RFC 7232 §2.3.2): W/"1" and "1" match. SCIM servers mostly issue weak
+ * ETags and accept them in If-Match, so both preconditions use it.
+ */
+export function etagMatches(header: string | undefined, etag: string | undefined): boolean {
+  if (!etag) return false;
+  const opaque = (value: string) => value.replace(/^W\//, '');
+  return parseETagList(header).some(candidate => candidate === '*' || opaque(candidate) === opaque(etag));
+}
+
+/**
+ * The version of a resource response: the ETag header, falling back to meta.version
+ */
+export function resourceVersion(headers: Record<string, string>, body: any): string | undefined {
+  const header = Object.entries(headers ?? {}).find(([name]) => name.toLowerCase() === 'etag')?.[1];
+  return header ?? (typeof body?.meta?.version === 'string' ? body.meta.version : undefined);
+}
+
+/**
+ * Problems with the version information on a single-resource response
+ */
+export function checkVersionHeaders(headers: Record<string, string>, body: ScimResource | undefined): string[] {
+  const violations: string[] = [];
+  const header = Object.entries(headers ?? {}).find(([name]) => name.toLowerCase() === 'etag')?.[1];
+  const version = body?.meta?.version;
+
+  if (header === undefined) violations.push('ETag header is missing');
+  else if (!isValidETag(header)) violations.push(`ETag header is not an entity tag: ${header}`);
+
+  if (body !== undefined) {
+    if (version === undefined) violations.push('meta.version is missing');
+    else if (!isValidETag(version)) violations.push(`meta.version is not an entity tag: ${version}`);
+    else if (header !== undefined && version !== header) violations.push(`meta.version ${version} does not match the ETag header ${header}`);
+  }
+  return violations;
+}
+
+/**
+ * Throw when a resource response does not carry a consistent ETag / meta.version
+ */
+export function assertVersioned(headers: Record<string, string>, body: ScimResource | undefined, objectName: string = 'Resource'): string {
+  const violations = checkVersionHeaders(headers, body);
+  if (violations.length > 0) {
+    throw new Error(`${objectName} is not versioned correctly:\n  - ${violations.join('\n  - ')}`);
+  }
+  const version = resourceVersion(headers, body)!;
+  log.debug(`${objectName} version ${version}`);
+  return version;
+}
+
+/**
+ * Latest ETag seen per resource endpoint (e.g. /obscim/v2/Users/106)
+ */
+export class ScimETagStore {
+  private readonly etags = new Map<string, string>();
+
+  get(endpoint: string): string | undefined {
+    return this.etags.get(endpoint);
+  }
+
+  set(endpoint: string, etag: string): void {
+    this.etags.set(endpoint, etag);
+  }
+
+  delete(endpoint: string): void {
+    this.etags.delete(endpoint);
+  }
+
+  /**
+   * Record the version from a successful GET/POST/PUT/PATCH and forget deleted resources.
+   * POST responses are stored under the created resource's endpoint.
+   */
+  capture(method: string, endpoint: string, status: number, headers: Record<string, string>, body: any): void {
+    if (status < 200 || status >= 300) return;
+    if (method === 'DELETE') {
+      this.delete(endpoint);
+      return;
+    }
+    if (!body?.id || body.schemas?.includes(ScimSchemas.LIST_RESPONSE)) return;
+
+    const version = resourceVersion(headers, body);
+    if (!version) return;
+    const resourceEndpoint = method === 'POST' ? `${endpoint}/${encodeURIComponent(body.id)}` : endpoint;
+    this.set(resourceEndpoint, version);
+  }
+}
@@ -0,0 +1,429 @@
+/**
+ * SCIM Filter Expressions (RFC 7644 §3.4.2.2)
+ * Fluent builder for writing filters, a parser producing an AST for checking them,
+ * a formatter with correct string escaping, and an evaluator for matching resources
+ */
+
+/**
+ * Comparison operators
+ */
+export type CompareOperator = 'eq' | 'ne' | 'co' | 'sw' | 'ew' | 'gt' | 'ge' | 'lt' | 'le';
+
+export type FilterValue = string | number | boolean | null;
+
+/**
+ * Filter AST
+ */
+export type FilterNode =
+  | { type: 'compare'; attributePath: string; operator: CompareOperator; value: FilterValue }
+  | { type: 'present'; attributePath: string }
+  | { type: 'logical'; operator: 'and' | 'or'; left: FilterNode; right: FilterNode }
+  | { type: 'not'; filter: FilterNode }
+  | { type: 'valuePath'; attributePath: string; filter: FilterNode };
+
+/**
+ * Thrown for filters that do not follow the grammar (a server answers 400 invalidFilter)
+ */
+export class FilterParseError extends Error {
+  constructor(message: string, public readonly position?: number) {
+    super(position === undefined ? message : `${message} (at position ${position})`);
+  }
+}
+
+const COMPARE_OPERATORS: CompareOperator[] = ['eq', 'ne', 'co', 'sw', 'ew', 'gt', 'ge', 'lt', 'le'];
+
+// ---------- Tokenizer ----------
+
+type TokenType = 'lparen' | 'rparen' | 'lbracket' | 'rbracket' | 'string' | 'number' | 'word';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  position: number;
+}
+
+const TOKEN_RULES: [TokenType, RegExp][] = [
+  ['lparen', /\(/y],
+  ['rparen', /\)/y],
+  ['lbracket', /\[/y],
+  ['rbracket', /\]/y],
+  ['string', /"(?:[^"\\\u0000-\u001f]|\\["\\/bfnrt]|\\u[0-9a-fA-F]{4})*"/y],
+  ['number', /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?(?![\w.:$-])/y],
+  // Attribute paths (optionally URN-qualified), keywords and literals
+  ['word', /[A-Za-z$][\w.:$-]*/y]
+];
+
+function tokenize(filter: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < filter.length) {
+    if (/\s/.test(filter[position])) {
+      position++;
+      continue;
+    }
+
+    const rule = TOKEN_RULES.find(([, pattern]) => {
+      pattern.lastIndex = position;
+      return pattern.test(filter);
+    });
+    if (!rule) {
+      const reason = filter[position] === '"' ? 'Unterminated or invalid string' : `Unexpected character '${filter[position]}'`;
+      throw new FilterParseError(reason, position);
+    }
+
+    const [type, pattern] = rule;
+    tokens.push({ type, text: filter.slice(position, pattern.lastIndex), position });
+    position = pattern.lastIndex;
+  }
+
+  return tokens;
+}
+
+// ---------- Parser ----------
+
+class FilterParser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[], private readonly length: number) {}
+
+  parse(): FilterNode {
+    if (this.tokens.length === 0) throw new FilterParseError('Filter is empty', 0);
+    const node = this.parseOr(false);
+    if (this.peek()) throw new FilterParseError(`Unexpected '${this.peek()!.text}'`, this.peek()!.position);
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(expected: string): Token {
+    const token = this.tokens[this.index++];
+    if (!token) throw new FilterParseError(`Expected ${expected} but the filter ended`, this.length);
+    return token;
+  }
+
+  private expect(type: TokenType, description: string): Token {
+    const token = this.next(description);
+    if (token.type !== type) throw new FilterParseError(`Expected ${description} but found '${token.text}'`, token.position);
+    return token;
+  }
+
+  private isKeyword(keyword: string): boolean {
+    const token = this.peek();
+    return token?.type === 'word' && token.text.toLowerCase() === keyword;
+  }
+
+  private parseOr(inValuePath: boolean): FilterNode {
+    let left = this.parseAnd(inValuePath);
+    while (this.isKeyword('or')) {
+      this.index++;
+      left = { type: 'logical', operator: 'or', left, right: this.parseAnd(inValuePath) };
+    }
+    return left;
+  }
+
+  private parseAnd(inValuePath: boolean): FilterNode {
+    let left = this.parseUnary(inValuePath);
+    while (this.isKeyword('and')) {
+      this.index++;
+      left = { type: 'logical', operator: 'and', left, right: this.parseUnary(inValuePath) };
+    }
+    return left;
+  }
+
+  private parseUnary(inValuePath: boolean): FilterNode {
+    if (this.isKeyword('not')) {
+      this.index++;
+      this.expect('lparen', "'(' after not");
+      const filter = this.parseOr(inValuePath);
+      this.expect('rparen', "')'");
+      return { type: 'not', filter };
+    }
+
+    if (this.peek()?.type === 'lparen') {
+      this.index++;
+      const filter = this.parseOr(inValuePath);
+      this.expect('rparen', "')'");
+      return filter;
+    }
+
+    return this.parseAttributeExpression(inValuePath);
+  }
+
+  private parseAttributeExpression(inValuePath: boolean): FilterNode {
+    const attribute = this.expect('word', 'an attribute path');
+    const attributePath = attribute.text;
+
+    if (this.peek()?.type === 'lbracket') {
+      if (inValuePath) throw new FilterParseError('Value paths cannot be nested', this.peek()!.position);
+      this.index++;
+      const filter = this.parseOr(true);
+      this.expect('rbracket', "']'");
+      return { type: 'valuePath', attributePath, filter };
+    }
+
+    const operatorToken = this.expect('word', `an operator after ${attributePath}`);
+    const operator = operatorToken.text.toLowerCase();
+
+    if (operator === 'pr') return { type: 'present', attributePath };
+
+    if (!COMPARE_OPERATORS.includes(operator as CompareOperator)) {
+      throw new FilterParseError(`Unknown operator '${operatorToken.text}'`, operatorToken.position);
+    }
+
+    return { type: 'compare', attributePath, operator: operator as CompareOperator, value: this.parseValue() };
+  }
+
+  private parseValue(): FilterValue {
+    const token = this.next('a comparison value');
+    if (token.type === 'string') return JSON.parse(token.text);
+    if (token.type === 'number') return Number(token.text);
+    if (token.type === 'word') {
+      const literal = token.text.toLowerCase();
+      if (literal === 'true') return true;
+      if (literal === 'false') return false;
+      if (literal === 'null') return null;
+    }
+    throw new FilterParseError(`Invalid comparison value '${token.text}' (strings must be quoted)`, token.position);
+  }
+}
+
+/**
+ * Parse a filter string into an AST, throwing FilterParseError when it is malformed
+ */
+export function parseFilter(filter: string): FilterNode {
+  return new FilterParser(tokenize(filter), filter.length).parse();
+}
+
+// ---------- Formatter ----------
+
+const PRECEDENCE = { or: 1, and: 2 } as const;
+
+function formatValue(value: FilterValue): string {
+  // SCIM filter strings are JSON strings, so JSON escaping is exactly right
+  return typeof value === 'string' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Format an AST as a filter string, adding parentheses only where precedence needs them
+ */
+export function formatFilter(node: FilterNode, parentPrecedence: number = 0): string {
+  switch (node.type) {
+    case 'compare':
+      return `${node.attributePath} ${node.operator} ${formatValue(node.value)}`;
+    case 'present':
+      return `${node.attributePath} pr`;
+    case 'not':
+      return `not (${formatFilter(node.filter)})`;
+    case 'valuePath':
+      return `${node.attributePath}[${formatFilter(node.filter)}]`;
+    case 'logical': {
+      const precedence = PRECEDENCE[node.operator];
+      const text = `${formatFilter(node.left, precedence)} ${node.operator} ${formatFilter(node.right, precedence + 1)}`;
+      return precedence < parentPrecedence ? `(${text})` : text;
+    }
+  }
+}
+
+// ---------- Builder ----------
+
+/**
+ * Immutable filter expression produced by the builder
+ */
+export class FilterExpression {
+  constructor(public readonly node: FilterNode) {}
+
+  and(...others: FilterExpression[]): FilterExpression {
+    return others.reduce<FilterExpression>(
+      (left, right) => new FilterExpression({ type: 'logical', operator: 'and', left: left.node, right: right.node }),
+      this
+    );
+  }
+
+  or(...others: FilterExpression[]): FilterExpression {
+    return others.reduce<FilterExpression>(
+      (left, right) => new FilterExpression({ type: 'logical', operator: 'or', left: left.node, right: right.node }),
+      this
+    );
+  }
+
+  not(): FilterExpression {
+    return new FilterExpression({ type: 'not', filter: this.node });
+  }
+
+  toString(): string {
+    return formatFilter(this.node);
+  }
+}
+
+/**
+ * Builder for expressions on a single attribute path
+ */
+export class AttributeFilterBuilder {
+  constructor(private readonly attributePath: string) {
+    if (!/^[A-Za-z$][\w.:$-]*$/.test(attributePath)) {
+      throw new Error(`Invalid attribute path for a SCIM filter: ${attributePath}`);
+    }
+  }
+
+  private compare(operator: CompareOperator, value: FilterValue): FilterExpression {
+    return new FilterExpression({ type: 'compare', attributePath: this.attributePath, operator, value });
+  }
+
+  eq(value: FilterValue) { return this.compare('eq', value); }
+  ne(value: FilterValue) { return this.compare('ne', value); }
+  co(value: string) { return this.compare('co', value); }
+  sw(value: string) { return this.compare('sw', value); }
+  ew(value: string) { return this.compare('ew', value); }
+  gt(value: string | number) { return this.compare('gt', value); }
+  ge(value: string | number) { return this.compare('ge', value); }
+  lt(value: string | number) { return this.compare('lt', value); }
+  le(value: string | number) { return this.compare('le', value); }
+
+  pr(): FilterExpression {
+    return new FilterExpression({ type: 'present', attributePath: this.attributePath });
+  }
+
+  /**
+   * Value path filter on a multi-valued attribute, e.g. emails[type eq "work"]
+   */
+  where(filter: FilterExpression): FilterExpression {
+    return new FilterExpression({ type: 'valuePath', attributePath: this.attributePath, filter: filter.node });
+  }
+}
+
+/**
+ * Entry points for building and checking filters
+ *
+ *   ScimFilter.attr('userName').eq('USER1').and(ScimFilter.attr('active').eq(true))
+ *   ScimFilter.attr('emails').where(ScimFilter.attr('type').eq('work'))
+ */
+export const ScimFilter = {
+  attr: (attributePath: string) => new AttributeFilterBuilder(attributePath),
+  and: (first: FilterExpression, ...rest: FilterExpression[]) => first.and(...rest),
+  or: (first: FilterExpression, ...rest: FilterExpression[]) => first.or(...rest),
+  not: (expression: FilterExpression) => expression.not(),
+  parse: (filter: string) => new FilterExpression(parseFilter(filter)),
+
+  /**
+   * Check a hand-written filter, returning the parse error message (or undefined when valid)
+   */
+  validate: (filter: string): string | undefined => {
+    try {
+      parseFilter(filter);
+      return undefined;
+    } catch (error: any) {
+      return error.message;
+    }
+  }
+};
+
+// ---------- Evaluator ----------
+
+/**
+ * Resolves an attribute path against a resource (override to expose internal attributes)
+ */
+export type AttributeResolver = (resource: any, attributePath: string) => any;
+
+function findKey(target: Record<string, any>, name: string): string | undefined {
+  return Object.keys(target).find(key => key.toLowerCase() === name.toLowerCase());
+}
+
+/**
+ * Resolve a dotted, optionally URN-qualified attribute path (case-insensitive);
+ * multi-valued attributes resolve to the array of their values
+ */
+export function resolveAttributePath(resource: any, attributePath: string): any {
+  let target = resource;
+  let path = attributePath;
+
+  if (/^urn:/i.test(attributePath)) {
+    const separator = attributePath.lastIndexOf(':');
+    const schemaKey = target && findKey(target, attributePath.slice(0, separator));
+    // Extension schema attributes live under the schema URN; core ones are just prefixed
+    if (schemaKey) target = target[schemaKey];
+    path = attributePath.slice(separator + 1);
+  }
+
+  return path.split('.').reduce((current: any, segment: string) => {
+    if (current === undefined || current === null) return undefined;
+    if (Array.isArray(current)) {
+      return current.map(item => resolveAttributePath(item, segment)).filter(value => value !== undefined);
+    }
+    if (typeof current !== 'object') return undefined;
+    const key = findKey(current, segment);
+    return key === undefined ? undefined : current[key];
+  }, target);
+}
+
+function compareValues(actual: any, operator: CompareOperator, expected: FilterValue): boolean {
+  // Complex values compare through their "value" sub-attribute
+  if (actual !== null && typeof actual === 'object') actual = actual.value;
+  if (actual === undefined) return false;
+
+  if (typeof actual === 'boolean' || typeof expected === 'boolean' || expected === null) {
+    if (operator === 'eq') return actual === expected;
+    if (operator === 'ne') return actual !== expected;
+    throw new FilterParseError(`Operator ${operator} is not valid for ${String(expected)}`);
+  }
+
+  const left = typeof actual === 'string' ? actual.toLowerCase() : actual;
+  const right = typeof expected === 'string' ? expected.toLowerCase() : expected;
+
+  switch (operator) {
+    case 'eq': return left === right;
+    case 'ne': return left !== right;
+    case 'co': return String(left).includes(String(right));
+    case 'sw': return String(left).startsWith(String(right));
+    case 'ew': return String(left).endsWith(String(right));
+    case 'gt': return left > right;
+    case 'ge': return left >= right;
+    case 'lt': return left < right;
+    case 'le': return left <= right;
+  }
+}
+
+function isPresent(value: any): boolean {
+  if (value === undefined || value === null || value === '') return false;
+  if (Array.isArray(value)) return value.some(isPresent);
+  return true;
+}
+
+/**
+ * Evaluate a filter (string or AST) against a resource
+ */
+export function evaluateFilter(
+  filter: string | FilterNode,
+  resource: any,
+  resolve: AttributeResolver = resolveAttributePath
+): boolean {
+  const node = typeof filter === 'string' ? parseFilter(filter) : filter;
+
+  switch (node.type) {
+    case 'logical':
+      return node.operator === 'and'
+        ? evaluateFilter(node.left, resource, resolve) && evaluateFilter(node.right, resource, resolve)
+        : evaluateFilter(node.left, resource, resolve) || evaluateFilter(node.right, resource, resolve);
+    case 'not':
+      return !evaluateFilter(node.filter, resource, resolve);
+    case 'present':
+      return isPresent(resolve(resource, node.attributePath));
+    case 'valuePath': {
+      const values = resolve(resource, node.attributePath);
+      const items = Array.isArray(values) ? values : values === undefined ? [] : [values];
+      return items.some(item => evaluateFilter(node.filter, item));
+    }
+    case 'compare': {
+      const value = resolve(resource, node.attributePath);
+      if (node.operator === 'ne') {
+        const values = Array.isArray(value) ? value : [value];
+        return !values.some(item => item !== undefined && compareValues(item, 'eq', node.value));
+      }
+      return Array.isArray(value)
+        ? value.some(item => compareValues(item, node.operator, node.value))
+        : compareValues(value, node.operator, node.value);
+    }
+  }
+}
@@ -0,0 +1,246 @@
+/**
+ * SCIM Test Data Fixtures
+ * `scimData` creates Users and Groups with unique, realistic, tenant-aware attributes (through
+ * the API or the database), records them, and deletes them when the test ends - pass or fail
+ *
+ *   import { test, expect } from '../utils/scim-fixtures';
+ *
+ *   test('...', async ({ scimData }) => {
+ *     const user = await scimData.createUser();
+ *     const group = await scimData.createGroup({}, [user]);
+ *   });
+ *
+ * Every test using this `test` also gets its log (utils/logger.ts) attached to its result, its
+ * requests recorded or replayed when SCIM_MODE is set (utils/scim-cassette.ts), and its request
+ * timings checked against the latency budgets (utils/scim-latency.ts).
+ */
+
+import { test as base, APIRequestContext } from '@playwright/test';
+import { createApiTestContext, isOemEnvironment, ProjectConfig } from './api-config';
+import { log, Logger } from './logger';
+import { cassetteFor, isReplayMode } from './scim-cassette';
+import { CleanupKind, CleanupLeftover, CleanupRegistry, recordLeftovers } from './scim-cleanup';
+import { ScimClient } from './scim-client';
+import { latencyTracker, overBudget, recordLatencySamples } from './scim-latency';
+import { createTestUserInDatabase, deleteTestUserFromDatabase, getInstitutionId, getTestDatabase, SqlServerDatabase } from './db-config';
+import { ScimGroup, ScimUser } from './scim-types';
+
+const GIVEN_NAMES = ['Avery', 'Jordan', 'Priya', 'Mateo', 'Hana', 'Kwame', 'Sofia', 'Liam', 'Amara', 'Chen'];
+const FAMILY_NAMES = ['Okafor', 'Lindqvist', 'Tanaka', 'Moreau', 'Patel', 'Kowalski', 'Haddad', 'Nguyen', 'Ramirez', 'Byrne'];
+const TITLES = ['Records Clerk', 'Claims Analyst', 'Case Manager', 'Account Specialist', 'Compliance Officer'];
+const GROUP_NAMES = ['Claims Processing', 'Records Management', 'Accounts Payable', 'Case Review', 'Onboarding'];
+
+export interface ScimDataOptions {
+  // Prefix for generated userNames/displayNames, so leftovers are easy to find
+  prefix?: string;
+  workerIndex?: number;
+  // Test title recorded with any leftovers
+  testTitle?: string;
+}
+
+export interface CreateUserOptions {
+  // 'database' inserts into hsi.useraccount (the test database, see setTestDatabase) and reads the user back over the API;
+  // only userName is taken from the overrides
+  source?: 'api' | 'database';
+}
+
+/**
+ * Creates test Users and Groups and registers them for cleanup
+ */
+export class ScimDataFactory {
+  private sequence = 0;
+  readonly prefix: string;
+
+  constructor(
+    readonly scim: ScimClient,
+    readonly registry: CleanupRegistry,
+    private readonly options: ScimDataOptions = {}
+  ) {
+    this.prefix = options.prefix ?? 'SCIMDATA';
+  }
+
+  /**
+   * Institution new users belong to in OEM environments (undefined for Non-OEM)
+   */
+  get institutionId(): string | undefined {
+    return getInstitutionId();
+  }
+
+  /**
+   * Unique name: prefix, institution (OEM), worker, time and a per-test sequence number
+   */
+  uniqueName(label: string): string {
+    const tenant = isOemEnvironment() && this.institutionId ? `_I${this.institutionId}` : '';
+    const stamp = Date.now().toString(36).toUpperCase();
+    return `${this.prefix}${tenant}_${label}_W${this.options.workerIndex ?? 0}_${stamp}_${++this.sequence}`;
+  }
+
+  /**
+   * Realistic User attributes around a unique userName (not sent anywhere)
+   */
+  userAttributes(overrides: Partial<ScimUser> = {}): Partial<ScimUser> {
+    const pick = (values: string[]) => values[(this.sequence * 7 + values.length) % values.length];
+    const userName = overrides.userName ?? this.uniqueName('USER');
+    const givenName = pick(GIVEN_NAMES);
+    const familyName = pick(FAMILY_NAMES);
+    return {
+      userName,
+      name: { givenName, familyName, formatted: `${givenName} ${familyName}` },
+      displayName: `${givenName} ${familyName}`,
+      title: pick(TITLES),
+      active: true,
+      emails: [{ value: `${userName.toLowerCase()}@example.com`, type: 'work', primary: true }],
+      ...overrides
+    };
+  }
+
+  async createUser(overrides: Partial<ScimUser> = {}, options: CreateUserOptions = {}): Promise<ScimUser> {
+    const attributes = this.userAttributes(overrides);
+
+    if (options.source === 'database') {
+      if (ProjectConfig.localServer.enabled && getTestDatabase() instanceof SqlServerDatabase) {
+        throw new Error('Database-created test data needs a real environment (LOCAL_SERVER=false) or an InMemoryDatabase (setTestDatabase)');
+      }
+      const userNum = await createTestUserInDatabase(attributes.userName!, this.institutionId);
+      this.registry.register(
+        { kind: 'User', id: String(userNum), name: attributes.userName!, source: 'database' },
+        () => deleteTestUserFromDatabase(userNum)
+      );
+      return (await this.scim.getUser(String(userNum), { expectedStatus: 200 })).body;
+    }
+
+    const { body } = await this.scim.createUser(attributes, { expectedStatus: 201, description: 'Create test data user' });
+    this.track('User', body.id!, body.userName);
+    return body;
+  }
+
+  /**
+   * Create several users at once
+   */
+  async createUsers(count: number, overrides: Partial<ScimUser> = {}): Promise<ScimUser[]> {
+    const users: ScimUser[] = [];
+    for (let index = 0; index < count; index++) {
+      users.push(await this.createUser(overrides));
+    }
+    return users;
+  }
+
+  /**
+   * Create a Group, optionally with members (users or user ids)
+   */
+  async createGroup(overrides: Omit<Partial<ScimGroup>, 'members'> = {}, members: (ScimUser | string)[] = []): Promise<ScimGroup> {
+    const displayName = overrides.displayName ?? this.uniqueName(GROUP_NAMES[this.sequence % GROUP_NAMES.length].replace(/\s+/g, '_').toUpperCase());
+    const { body } = await this.scim.createGroup(
+      {
+        ...overrides,
+        displayName,
+        members: members.map(member => ({ value: typeof member === 'string' ? member : member.id! }))
+      },
+      { expectedStatus: 201, description: 'Create test data group' }
+    );
+    this.track('Group', body.id!, body.displayName);
+    return body;
+  }
+
+  /**
+   * Register a resource created some other way (e.g. directly with scim.createUser) for cleanup
+   */
+  track(kind: CleanupKind, id: string, name: string = id): void {
+    const endpoint = kind === 'User' ? () => this.scim.deleteUser(id) : () => this.scim.deleteGroup(id);
+    this.registry.register({ kind, id, name, source: 'api' }, async () => {
+      const { status } = await endpoint();
+      // 404: the test already deleted it
+      if (status !== 204 && status !== 404) {
+        throw new Error(`DELETE returned ${status}`);
+      }
+    });
+  }
+
+  /**
+   * Stop tracking a resource the test deleted itself
+   */
+  forget(kind: CleanupKind, id: string): void {
+    this.registry.forget(kind, id);
+  }
+
+  /**
+   * Delete everything created so far, reporting what could not be deleted
+   */
+  async cleanup(): Promise<CleanupLeftover[]> {
+    const leftovers = (await this.registry.cleanup()).map(leftover => ({ ...leftover, test: this.options.testTitle }));
+    recordLeftovers(leftovers);
+    return leftovers;
+  }
+}
+
+/**
+ * Build a factory with its own client and registry
+ */
+export async function createScimDataFactory(request: APIRequestContext, options: ScimDataOptions = {}): Promise<ScimDataFactory> {
+  const scim = new ScimClient(request, await createApiTestContext(request));
+  return new ScimDataFactory(scim, new CleanupRegistry(), options);
+}
+
+export const test = base.extend<{ scimData: ScimDataFactory; scimLog: Logger; scimLatency: void }>({
+  // SCIM_MODE=record|replay: every request made through `request` goes through the test's cassette
+  request: async ({ request }, use, testInfo) => {
+    const cassette = cassetteFor(testInfo);
+    if (!cassette) return use(request);
+    try {
+      await use(cassette.wrap(request));
+    } finally {
+      cassette.save();
+    }
+  },
+
+  // Collects every log entry the test produces (whatever SCIM_LOG_LEVEL prints) and attaches them to the result
+  scimLog: [async ({}, use, testInfo) => {
+    log.startTest(testInfo.titlePath.join(' › '));
+    try {
+      await use(log);
+    } finally {
+      const entries = log.endTest();
+      if (entries.length > 0) {
+        const json = log.format === 'json';
+        await testInfo.attach(json ? 'scim-log.jsonl' : 'scim-log.txt', {
+          body: log.render(entries),
+          contentType: json ? 'application/x-ndjson' : 'text/plain'
+        });
+      }
+    }
+  }, { auto: true }],
+
+  // Times every ScimClient request (utils/scim-latency.ts): adds the samples to the run's latency
+  // history and fails the test when a request went over its budget. Load runs and replayed
+  // responses have their own timing, so they are left out.
+  scimLatency: [async ({}, use, testInfo) => {
+    latencyTracker.startTest();
+    try {
+      await use();
+    } finally {
+      const samples = latencyTracker.endTest();
+      if (testInfo.project.name !== 'load-tests' && !isReplayMode()) {
+        recordLatencySamples(samples.map(sample => ({ ...sample, test: testInfo.titlePath.join(' › ') })));
+        const overruns = overBudget(samples);
+        if (overruns.length > 0) {
+          throw new Error(`${overruns.length} requests over their latency budget (latencyBudgets in environments.json):\n  ${overruns.join('\n  ')}`);
+        }
+      }
+    }
+  }, { auto: true }],
+
+  // Depends on scimLog so cleanup is logged before the log is attached
+  scimData: async ({ request, scimLog }, use, testInfo) => {
+    const factory = await createScimDataFactory(request, { workerIndex: testInfo.workerIndex, testTitle: testInfo.titlePath.join(' › ') });
+    try {
+      await use(factory);
+    } finally {
+      // Runs even when the test failed or timed out
+      for (const leftover of await factory.cleanup()) {
+        testInfo.annotations.push({ type: 'cleanup-leftover', description: `${leftover.kind} ${leftover.name} (${leftover.id}): ${leftover.error}` });
+      }
+    }
+  }
+});
+
+export { expect } from '@playwright/test';
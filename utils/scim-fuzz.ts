@@ -0,0 +1,538 @@
+/**
+ * Property-Based Fuzzing
+ * Seeded generators for User and Group payloads (unicode and RTL text, maximum-length strings,
+ * quotes and backslashes, odd email addresses) and for filters of any depth that match a given
+ * resource. checkProperty runs a property over generated inputs, shrinks a failing input to a
+ * minimal case and saves it, with its seed, as a counterexample that is replayed on every run.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { CompareOperator, FilterNode } from './scim-filter';
+import { ScimGroup, ScimUser } from './scim-types';
+
+const DEFAULT_SEEDS_DIR = path.resolve(__dirname, '..', 'fuzz-seeds');
+// Seed when SCIM_FUZZ_SEED is unset, so plain runs generate the same inputs every time
+const DEFAULT_SEED = 1;
+// Generator size of the last run; earlier runs generate smaller inputs
+const MAX_SIZE = 100;
+
+/**
+ * Deterministic pseudo-random numbers (mulberry32): the same seed always yields the same inputs
+ */
+export class FuzzRandom {
+  private state: number;
+
+  constructor(public readonly seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * Next number in [0, 1)
+   */
+  next(): number {
+    let t = (this.state = (this.state + 0x6d2b79f5) >>> 0);
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Integer in [min, max]
+   */
+  int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  bool(probability: number = 0.5): boolean {
+    return this.next() < probability;
+  }
+
+  pick<T>(values: readonly T[]): T {
+    return values[this.int(0, values.length - 1)];
+  }
+}
+
+/**
+ * Generates values and proposes simpler ones for shrinking
+ */
+export interface Arbitrary<T> {
+  // size grows from 1 to 100 over the runs
+  generate(random: FuzzRandom, size: number): T;
+  // Simpler variants of a value, simplest first
+  shrink(value: T): T[];
+}
+
+// ---------- Text ----------
+
+// Character pools; the Greek capital sigma and dotted capital I are left out because their
+// lower case depends on context, which no case-insensitive comparison gets right
+export const CHARACTER_POOLS = {
+  ascii: [...'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789'],
+  punctuation: [...' .,;:!?-_()[]{}<>@#$%&*+=/|~^'],
+  quotes: ['"', "'", '\\', '`', '\\"', '\\\\'],
+  // Includes a decomposed é and a ZWJ emoji sequence
+  unicode: [...'éüßñøåÆŁçğžÅ中文日本語한국어ДмитрийΑθηνᾶ', 'e\u0301', '\u{1f600}', '\u{1f469}\u200d\u{1f4bb}'],
+  // Hebrew and Arabic letters and the right-to-left mark
+  rtl: [...'שלוםעולםمرحباعالمسلام', '\u200f']
+} as const;
+
+export type CharacterPool = keyof typeof CHARACTER_POOLS;
+
+export interface TextOptions {
+  minLength?: number;
+  // In code points
+  maxLength: number;
+  pools?: CharacterPool[];
+}
+
+function codePoints(text: string): string[] {
+  return Array.from(text);
+}
+
+function unique<T>(values: T[], exclude: T): T[] {
+  const seen = new Set<string>([JSON.stringify(exclude)]);
+  return values.filter(value => {
+    const key = JSON.stringify(value);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Strings from the given pools: sometimes all from one pool (a whole RTL name), sometimes
+ * mixed, and every so often exactly maxLength long
+ */
+function text(options: TextOptions): Arbitrary<string> {
+  const minLength = options.minLength ?? 1;
+  const pools = options.pools ?? (Object.keys(CHARACTER_POOLS) as CharacterPool[]);
+  return {
+    generate(random, size) {
+      const length = random.bool(0.1)
+        ? options.maxLength
+        : random.int(minLength, Math.max(minLength, Math.min(options.maxLength, minLength + Math.ceil(size / 4))));
+      const theme = random.bool(0.5) ? random.pick(pools) : undefined;
+      const characters: string[] = [];
+      while (characters.length < length) {
+        characters.push(...codePoints(random.pick(CHARACTER_POOLS[theme ?? random.pick(pools)])));
+      }
+      return characters.slice(0, length).join('');
+    },
+    shrink(value) {
+      const characters = codePoints(value);
+      const candidates: string[][] = [];
+      if (characters.length > minLength) {
+        const half = Math.floor(characters.length / 2);
+        candidates.push(characters.slice(0, minLength), characters.slice(0, half), characters.slice(half));
+        characters.forEach((_, index) => candidates.push([...characters.slice(0, index), ...characters.slice(index + 1)]));
+      }
+      characters.forEach((character, index) => {
+        if (character !== 'a') candidates.push([...characters.slice(0, index), 'a', ...characters.slice(index + 1)]);
+      });
+      return unique(candidates.filter(candidate => candidate.length >= minLength).map(candidate => candidate.join('')), value);
+    }
+  };
+}
+
+// ---------- Combinators ----------
+
+function constantFrom<T>(values: readonly T[]): Arbitrary<T> {
+  return {
+    generate: random => random.pick(values),
+    // Earlier values are simpler
+    shrink: value => values.slice(0, values.indexOf(value))
+  };
+}
+
+function integer(min: number, max: number): Arbitrary<number> {
+  return {
+    generate: random => random.int(min, max),
+    shrink: value => unique([min, min + Math.floor((value - min) / 2), value - 1].filter(candidate => candidate >= min && candidate < value), value)
+  };
+}
+
+function array<T>(item: Arbitrary<T>, minLength: number, maxLength: number): Arbitrary<T[]> {
+  return {
+    generate: (random, size) => Array.from({ length: random.int(minLength, maxLength) }, () => item.generate(random, size)),
+    shrink(value) {
+      const candidates: T[][] = [];
+      if (value.length > minLength) {
+        value.forEach((_, index) => candidates.push([...value.slice(0, index), ...value.slice(index + 1)]));
+      }
+      value.forEach((element, index) => {
+        for (const simpler of item.shrink(element)) candidates.push([...value.slice(0, index), simpler, ...value.slice(index + 1)]);
+      });
+      return candidates;
+    }
+  };
+}
+
+/**
+ * Objects with one generator per field; optional fields are left out now and then, and are
+ * the first thing shrinking drops
+ */
+function record<T extends Record<string, any>>(fields: { [K in keyof T]: Arbitrary<T[K]> }, optional: (keyof T)[] = []): Arbitrary<T> {
+  const keys = Object.keys(fields) as (keyof T)[];
+  return {
+    generate(random, size) {
+      const value = {} as T;
+      for (const key of keys) {
+        if (optional.includes(key) && random.bool(0.3)) continue;
+        value[key] = fields[key].generate(random, size);
+      }
+      return value;
+    },
+    shrink(value) {
+      const candidates: T[] = [];
+      for (const key of optional) {
+        if (key in value) {
+          const { [key]: _, ...rest } = value;
+          candidates.push(rest as T);
+        }
+      }
+      for (const key of keys) {
+        if (!(key in value)) continue;
+        for (const simpler of fields[key].shrink(value[key])) candidates.push({ ...value, [key]: simpler });
+      }
+      return candidates;
+    }
+  };
+}
+
+// Odd but valid addresses (RFC 5321/5322/6531): quoted and tagged local parts, IP literals, IDNs
+const EMAIL_LOCAL_PARTS = ['a', 'first.last', 'first+tag', "o'brien", '"quoted local"', '"a\\"b"', 'a_b-c', 'x', 'üñí', 'пользователь', '用户'];
+const EMAIL_DOMAINS = ['example.com', 'sub.example.co.uk', '[192.0.2.1]', 'xn--bcher-kva.example', 'bücher.example', 'example.museum', 'localhost'];
+
+function email(): Arbitrary<string> {
+  return {
+    generate: random => `${random.pick(EMAIL_LOCAL_PARTS)}${random.bool(0.3) ? random.int(0, 999) : ''}@${random.pick(EMAIL_DOMAINS)}`,
+    shrink: value => (value === 'a@example.com' ? [] : ['a@example.com'])
+  };
+}
+
+/**
+ * Building blocks for custom generators
+ */
+export const Fuzz = { text, constantFrom, integer, array, record, email };
+
+// ---------- SCIM payloads ----------
+
+/**
+ * User attributes; userName is a fragment the property appends to a unique name
+ */
+export function fuzzUser(maxLength: number): Arbitrary<Partial<ScimUser>> {
+  const name = (pools?: CharacterPool[]) => text({ maxLength, pools });
+  return record<Partial<ScimUser>>({
+    userName: name(),
+    displayName: name(),
+    name: record<NonNullable<ScimUser['name']>>({ givenName: name(), familyName: name() }, ['givenName', 'familyName']),
+    title: name(),
+    active: constantFrom([true, false]),
+    emails: array(record({ value: email(), type: constantFrom(['work', 'home', 'other']) }), 1, 3)
+  }, ['displayName', 'name', 'title', 'active', 'emails']);
+}
+
+/**
+ * Group attributes; displayName is a fragment the property appends to a unique name
+ */
+export function fuzzGroup(maxLength: number): Arbitrary<{ group: Partial<ScimGroup>; withMember: boolean }> {
+  return record({
+    group: record<Partial<ScimGroup>>({ displayName: text({ maxLength }) }),
+    withMember: constantFrom([false, true])
+  });
+}
+
+// ---------- Filters ----------
+
+// Attributes filters are built on; userName and displayName carry the unique prefix, so only
+// whole-value comparisons are used on them
+const WHOLE_VALUE_ATTRIBUTES = ['userName', 'displayName'];
+const STRING_ATTRIBUTES = ['userName', 'displayName', 'title', 'name.givenName', 'name.familyName'];
+
+interface FilterLeafSource {
+  attributePath: string;
+  value: string | boolean;
+}
+
+function leafSources(resource: any): FilterLeafSource[] {
+  const sources: FilterLeafSource[] = [];
+  for (const attributePath of STRING_ATTRIBUTES) {
+    const value = attributePath.split('.').reduce((current, segment) => current?.[segment], resource);
+    if (typeof value === 'string' && value !== '') sources.push({ attributePath, value });
+  }
+  if (typeof resource.active === 'boolean') sources.push({ attributePath: 'active', value: resource.active });
+  for (const entry of resource.emails ?? []) {
+    if (typeof entry?.value === 'string') sources.push({ attributePath: 'emails.value', value: entry.value });
+  }
+  return sources;
+}
+
+// Upper-cased only where that keeps the lower-cased value (so not for "ß")
+function randomCase(random: FuzzRandom, value: string): string {
+  const upper = value.toUpperCase();
+  return random.bool(0.3) && upper.toLowerCase() === value.toLowerCase() ? upper : value;
+}
+
+function compare(attributePath: string, operator: CompareOperator, value: string | boolean): FilterNode {
+  return { type: 'compare', attributePath, operator, value };
+}
+
+function trueLeaf(random: FuzzRandom, source: FilterLeafSource): FilterNode {
+  const { attributePath, value } = source;
+  if (typeof value === 'boolean') return compare(attributePath, 'eq', value);
+
+  const characters = codePoints(value);
+  const start = random.int(0, characters.length - 1);
+  const end = random.int(start + 1, characters.length);
+  const options: (() => FilterNode)[] = [
+    () => compare(attributePath, 'eq', randomCase(random, value)),
+    () => ({ type: 'present', attributePath })
+  ];
+  if (!WHOLE_VALUE_ATTRIBUTES.includes(attributePath)) {
+    options.push(
+      () => compare(attributePath, 'sw', randomCase(random, characters.slice(0, end).join(''))),
+      () => compare(attributePath, 'ew', randomCase(random, characters.slice(start).join(''))),
+      () => compare(attributePath, 'co', randomCase(random, characters.slice(start, end).join('')))
+    );
+  }
+  if (attributePath === 'emails.value') {
+    options.push(() => ({ type: 'valuePath', attributePath: 'emails', filter: compare('value', 'eq', value) }));
+  }
+  return random.pick(options)();
+}
+
+function falseLeaf(random: FuzzRandom, source: FilterLeafSource): FilterNode {
+  const { attributePath, value } = source;
+  if (typeof value === 'boolean') return compare(attributePath, 'eq', !value);
+  // ne is only false for a single-valued attribute; the invisible separator makes eq miss
+  return random.bool() && attributePath !== 'emails.value'
+    ? compare(attributePath, 'ne', value)
+    : compare(attributePath, 'eq', `${value}\u2063`);
+}
+
+/**
+ * A filter of the given depth that evaluates to `truth` for the resource: leaves compare the
+ * resource's own values (in random case, with sw/ew/co on random slices), joined by and/or/not
+ */
+export function filterFor(resource: any, random: FuzzRandom, depth: number, truth: boolean = true): FilterNode {
+  const sources = leafSources(resource);
+  if (sources.length === 0) throw new Error('Resource has no attributes to filter on');
+
+  const logical = (operator: 'and' | 'or', left: FilterNode, right: FilterNode): FilterNode => ({ type: 'logical', operator, left, right });
+  const build = (level: number, wanted: boolean): FilterNode => {
+    if (level <= 0) return (wanted ? trueLeaf : falseLeaf)(random, random.pick(sources));
+    // One side as deep as the level allows, the other of random depth
+    const deepFirst = random.bool();
+    const first = (truth: boolean) => build(deepFirst ? level - 1 : random.int(0, level - 1), truth);
+    const second = (truth: boolean) => build(deepFirst ? random.int(0, level - 1) : level - 1, truth);
+    const firstDecides = random.bool();
+
+    switch (random.pick(['and', 'or', 'not'] as const)) {
+      case 'not':
+        return { type: 'not', filter: build(level - 1, !wanted) };
+      case 'and':
+        // true: both true; false: one false, the other anything
+        return wanted
+          ? logical('and', first(true), second(true))
+          : logical('and', first(firstDecides ? false : random.bool()), second(firstDecides ? random.bool() : false));
+      case 'or':
+        // true: one true, the other anything; false: both false
+        return wanted
+          ? logical('or', first(firstDecides ? true : random.bool()), second(firstDecides ? random.bool() : true))
+          : logical('or', first(false), second(false));
+    }
+  };
+
+  return build(depth, truth);
+}
+
+// ---------- Runner ----------
+
+export interface FuzzOptions {
+  runs: number;
+  // Seed of the whole sequence; run i uses a seed derived from it
+  seed: number;
+  // Property evaluations spent on shrinking a failure
+  maxShrinks: number;
+  // Where counterexamples are saved (and replayed from)
+  seedsDir: string;
+}
+
+/**
+ * A failing input, as saved in the seeds directory
+ */
+export interface Counterexample<T = any> {
+  property: string;
+  seed: number;
+  run: number;
+  size: number;
+  // The shrunk input
+  value: T;
+  // The input as generated, before shrinking
+  original: T;
+  shrinks: number;
+  error: string;
+  // Set when the failure came from replaying a saved counterexample
+  replayed?: string;
+}
+
+/**
+ * Fuzz options from SCIM_FUZZ_RUNS (20), SCIM_FUZZ_SEED (fixed; "random" for a new seed each run),
+ * SCIM_FUZZ_MAX_SHRINKS (100) and SCIM_FUZZ_SEEDS_DIR (fuzz-seeds/)
+ */
+export function fuzzOptionsFromEnv(): FuzzOptions {
+  const number = (name: string, fallback: number) => {
+    const value = process.env[name];
+    if (value === undefined || value === '') return fallback;
+    if (!Number.isInteger(Number(value)) || Number(value) < 0) throw new Error(`${name} must be a whole number >= 0, got "${value}"`);
+    return Number(value);
+  };
+  return {
+    runs: number('SCIM_FUZZ_RUNS', 20),
+    seed: process.env.SCIM_FUZZ_SEED?.toLowerCase() === 'random' ? Math.floor(Math.random() * 2 ** 31) : number('SCIM_FUZZ_SEED', DEFAULT_SEED),
+    maxShrinks: number('SCIM_FUZZ_MAX_SHRINKS', 100),
+    seedsDir: process.env.SCIM_FUZZ_SEEDS_DIR || DEFAULT_SEEDS_DIR
+  };
+}
+
+/**
+ * Longest string the payload generators produce (SCIM_FUZZ_MAX_LENGTH, default 255)
+ */
+export function fuzzMaxLength(): number {
+  const value = Number(process.env.SCIM_FUZZ_MAX_LENGTH || 255);
+  if (!Number.isInteger(value) || value < 1) throw new Error(`SCIM_FUZZ_MAX_LENGTH must be a whole number >= 1, got "${process.env.SCIM_FUZZ_MAX_LENGTH}"`);
+  return value;
+}
+
+function runSeed(seed: number, run: number): number {
+  return (seed + Math.imul(run, 0x9e3779b9)) >>> 0;
+}
+
+function slug(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+export function readCounterexamples(property: string, seedsDir: string): { file: string; counterexample: Counterexample }[] {
+  if (!fs.existsSync(seedsDir)) return [];
+  return fs.readdirSync(seedsDir)
+    .filter(file => file.startsWith(`${slug(property)}-`) && file.endsWith('.json'))
+    .sort()
+    .map(file => ({ file: path.join(seedsDir, file), counterexample: JSON.parse(fs.readFileSync(path.join(seedsDir, file), 'utf8')) }))
+    .filter(({ counterexample }) => counterexample.property === property);
+}
+
+export function saveCounterexample(counterexample: Counterexample, seedsDir: string): string {
+  const file = path.join(seedsDir, `${slug(counterexample.property)}-${counterexample.seed}-${counterexample.run}.json`);
+  fs.mkdirSync(seedsDir, { recursive: true });
+  fs.writeFileSync(file, `${JSON.stringify(counterexample, null, 2)}\n`);
+  return file;
+}
+
+async function failure<T>(property: (value: T) => Promise<void>, value: T): Promise<string | undefined> {
+  try {
+    await property(value);
+    return undefined;
+  } catch (error: any) {
+    return error?.message ?? String(error);
+  }
+}
+
+/**
+ * Repeatedly take the first simpler variant that still fails
+ */
+export async function shrinkFailure<T>(
+  arbitrary: Arbitrary<T>,
+  property: (value: T) => Promise<void>,
+  value: T,
+  error: string,
+  maxShrinks: number
+): Promise<{ value: T; error: string; shrinks: number }> {
+  let current = { value, error, shrinks: 0 };
+  let attempts = 0;
+  let improved = true;
+  while (improved && attempts < maxShrinks) {
+    improved = false;
+    for (const candidate of arbitrary.shrink(current.value)) {
+      if (attempts++ >= maxShrinks) break;
+      const candidateError = await failure(property, candidate);
+      if (candidateError !== undefined) {
+        current = { value: candidate, error: candidateError, shrinks: current.shrinks + 1 };
+        improved = true;
+        break;
+      }
+    }
+  }
+  return current;
+}
+
+/**
+ * Replay the saved counterexamples of a property, then run it over `runs` generated inputs.
+ * Returns the first failure, shrunk and (unless it was a replay) saved to the seeds directory.
+ */
+export async function checkProperty<T>(
+  name: string,
+  arbitrary: Arbitrary<T>,
+  property: (value: T) => Promise<void>,
+  options: FuzzOptions = fuzzOptionsFromEnv()
+): Promise<{ runs: number; counterexample?: Counterexample<T>; file?: string }> {
+  for (const { file, counterexample } of readCounterexamples(name, options.seedsDir)) {
+    const error = await failure(property, counterexample.value);
+    if (error !== undefined) {
+      return { runs: 0, counterexample: { ...counterexample, error, replayed: file }, file };
+    }
+  }
+
+  for (let run = 0; run < options.runs; run++) {
+    const size = Math.ceil(((run + 1) / options.runs) * MAX_SIZE);
+    const value = arbitrary.generate(new FuzzRandom(runSeed(options.seed, run)), size);
+    const error = await failure(property, value);
+    if (error === undefined) continue;
+
+    const shrunk = await shrinkFailure(arbitrary, property, value, error, options.maxShrinks);
+    const counterexample: Counterexample<T> = {
+      property: name, seed: options.seed, run, size, value: shrunk.value, original: value, shrinks: shrunk.shrinks, error: shrunk.error
+    };
+    return { runs: run + 1, counterexample, file: saveCounterexample(counterexample, options.seedsDir) };
+  }
+  return { runs: options.runs };
+}
+
+/**
+ * Failure message for a counterexample, with how to reproduce it
+ */
+export function formatCounterexample(counterexample: Counterexample, file?: string): string {
+  const origin = counterexample.replayed
+    ? `replaying ${counterexample.replayed}`
+    : `run ${counterexample.run + 1} of seed ${counterexample.seed}, shrunk in ${counterexample.shrinks} steps`;
+  return [
+    `${counterexample.property} failed (${origin}): ${counterexample.error}`,
+    `  input: ${JSON.stringify(counterexample.value)}`,
+    ...(file && !counterexample.replayed ? [`  saved to ${file}; it is replayed on every run until the file is deleted`] : []),
+    `  regenerate the sequence with SCIM_FUZZ_SEED=${counterexample.seed}`
+  ].join('\n');
+}
+
+// ---------- Invariants ----------
+
+/**
+ * Written values the response does not return as written: strings and booleans must match
+ * exactly, objects recursively, and every element of a written array must be in the read array
+ */
+export function roundTripDifferences(written: any, read: any, attributePath: string = ''): string[] {
+  if (Array.isArray(written)) {
+    if (!Array.isArray(read)) return [`${attributePath}: expected ${JSON.stringify(written)}, got ${JSON.stringify(read)}`];
+    return written.flatMap((element, index) =>
+      read.some(candidate => roundTripDifferences(element, candidate).length === 0)
+        ? []
+        : [`${attributePath}[${index}]: ${JSON.stringify(element)} is missing from ${JSON.stringify(read)}`]
+    );
+  }
+  if (written !== null && typeof written === 'object') {
+    if (read === null || typeof read !== 'object') return [`${attributePath}: expected an object, got ${JSON.stringify(read)}`];
+    return Object.entries(written).flatMap(([key, value]) =>
+      roundTripDifferences(value, read[key], attributePath ? `${attributePath}.${key}` : key)
+    );
+  }
+  return written === read ? [] : [`${attributePath}: wrote ${JSON.stringify(written)}, read ${JSON.stringify(read)}`];
+}
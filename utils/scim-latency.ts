@@ -0,0 +1,264 @@
+/**
+ * Latency Budgets and Trends
+ * Every ScimClient request is timed under an operation name ("GET /Users/{id}"). A request over
+ * its budget (`latencyBudgets` in the environments.json profile) fails its test. The run's timings
+ * are summarized per operation into a history file, and an operation whose median grew by more
+ * than SCIM_LATENCY_REGRESSION_PCT over the rolling baseline of earlier runs is flagged.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { ProjectConfig } from './api-config';
+import { EnvironmentProfile, getEnvironmentProfile } from './environments';
+
+// Run-wide JSONL file the workers append their samples to (set by global-setup.ts)
+export const LATENCY_SAMPLES_FILE_ENV = 'SCIM_LATENCY_SAMPLES_FILE';
+// Start time of the run (set by global-setup.ts); identifies the run in the history
+export const LATENCY_RUN_ENV = 'SCIM_LATENCY_RUN';
+// Overrides the history file location
+export const LATENCY_HISTORY_ENV = 'SCIM_LATENCY_HISTORY';
+
+const DEFAULT_HISTORY_FILE = path.resolve(__dirname, '..', 'latency-history.json');
+// Runs kept in the history file
+const MAX_HISTORY_RUNS = 100;
+
+/**
+ * One timed request
+ */
+export interface LatencySample {
+  operation: string;
+  status: number;
+  durationMs: number;
+  test?: string;
+}
+
+export interface OperationLatency {
+  count: number;
+  median: number;
+  p95: number;
+}
+
+/**
+ * Per-operation summary of one run, as stored in the history file
+ */
+export interface LatencyRun {
+  startedAt: string;
+  // Endpoint type and target, as for response snapshots (e.g. "scim-local", "apiserver-oem")
+  variant: string;
+  operations: Record<string, OperationLatency>;
+}
+
+export interface LatencyTrend {
+  operation: string;
+  median: number;
+  // Median of the operation's medians over the baseline runs (undefined without enough history)
+  baseline?: number;
+  changePct?: number;
+  regressed: boolean;
+}
+
+export interface RegressionOptions {
+  // Earlier runs the baseline is taken from
+  baselineRuns: number;
+  // Runs needed before anything is flagged
+  minBaselineRuns: number;
+  // Growth of the median over the baseline that counts as a regression
+  thresholdPct: number;
+  // ...and the least absolute growth, so fast operations do not flag on noise
+  minDeltaMs: number;
+}
+
+/**
+ * Nearest-rank percentile of the given values (0 when empty)
+ */
+export function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length, Math.max(1, Math.ceil((p / 100) * sorted.length))) - 1];
+}
+
+/**
+ * Operation name for a request: method and path below the SCIM base path, with resource ids
+ * replaced, e.g. "PATCH /Groups/{id}", "POST /Users/.search", "GET /ServiceProviderConfig"
+ */
+export function latencyOperation(method: string, endpoint: string): string {
+  let resourcePath = endpoint.split('?')[0];
+  for (const basePath of Object.values(ProjectConfig.api.endpoints)) {
+    const index = resourcePath.indexOf(basePath);
+    if (index >= 0) resourcePath = resourcePath.slice(index + basePath.length);
+  }
+  const segments = resourcePath.split('/').filter(Boolean).map((segment, index) =>
+    index === 1 && !segment.startsWith('.') ? '{id}' : segment
+  );
+  return `${method.toUpperCase()} /${segments.join('/')}`;
+}
+
+/**
+ * Collects the samples of the running test (started and ended by the scimLatency fixture)
+ */
+export class LatencyTracker {
+  private samples: LatencySample[] | undefined;
+
+  startTest(): void {
+    this.samples = [];
+  }
+
+  record(method: string, endpoint: string, status: number, durationMs: number): void {
+    this.samples?.push({ operation: latencyOperation(method, endpoint), status, durationMs });
+  }
+
+  endTest(): LatencySample[] {
+    const samples = this.samples ?? [];
+    this.samples = undefined;
+    return samples;
+  }
+}
+
+export const latencyTracker = new LatencyTracker();
+
+/**
+ * Budget (ms) for an operation from the profile: its own entry, else "*"
+ */
+export function latencyBudget(operation: string, profile: Pick<EnvironmentProfile, 'latencyBudgets'> = getEnvironmentProfile()): number | undefined {
+  const budgets = profile.latencyBudgets ?? {};
+  return budgets[operation] ?? budgets['*'];
+}
+
+/**
+ * One line per sample over its budget
+ */
+export function overBudget(samples: LatencySample[], profile: Pick<EnvironmentProfile, 'latencyBudgets'> = getEnvironmentProfile()): string[] {
+  return samples.flatMap(sample => {
+    const budget = latencyBudget(sample.operation, profile);
+    return budget !== undefined && sample.durationMs > budget
+      ? [`${sample.operation} took ${sample.durationMs}ms (budget ${budget}ms)`]
+      : [];
+  });
+}
+
+/**
+ * Append a test's samples to the run-wide samples file
+ */
+export function recordLatencySamples(samples: LatencySample[], samplesFile: string | undefined = process.env[LATENCY_SAMPLES_FILE_ENV]): void {
+  if (samplesFile && samples.length > 0) {
+    fs.appendFileSync(samplesFile, samples.map(sample => `${JSON.stringify(sample)}\n`).join(''));
+  }
+}
+
+export function readLatencySamples(samplesFile: string): LatencySample[] {
+  return fs.existsSync(samplesFile)
+    ? fs.readFileSync(samplesFile, 'utf8').split('\n').filter(Boolean).map(line => JSON.parse(line))
+    : [];
+}
+
+/**
+ * Per-operation median and p95 of a run's samples
+ */
+export function summarizeLatency(samples: LatencySample[]): Record<string, OperationLatency> {
+  const durations = new Map<string, number[]>();
+  for (const sample of samples) {
+    if (!durations.has(sample.operation)) durations.set(sample.operation, []);
+    durations.get(sample.operation)!.push(sample.durationMs);
+  }
+  return Object.fromEntries([...durations.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([operation, values]) =>
+    [operation, { count: values.length, median: percentile(values, 50), p95: percentile(values, 95) }]
+  ));
+}
+
+export function readLatencyHistory(file: string = process.env[LATENCY_HISTORY_ENV] || DEFAULT_HISTORY_FILE): LatencyRun[] {
+  if (!fs.existsSync(file)) return [];
+  const { runs } = JSON.parse(fs.readFileSync(file, 'utf8')) as { runs?: LatencyRun[] };
+  if (!Array.isArray(runs)) {
+    throw new Error(`${file}: expected { "runs": [...] }`);
+  }
+  return runs;
+}
+
+/**
+ * Add (or, for a retried run, replace) a run in the history file, keeping the newest runs
+ */
+export function saveLatencyRun(run: LatencyRun, file: string = process.env[LATENCY_HISTORY_ENV] || DEFAULT_HISTORY_FILE): LatencyRun[] {
+  const runs = [...readLatencyHistory(file).filter(existing => existing.startedAt !== run.startedAt), run].slice(-MAX_HISTORY_RUNS);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, `${JSON.stringify({ runs }, null, 2)}\n`);
+  return runs;
+}
+
+/**
+ * Regression options from SCIM_LATENCY_BASELINE_RUNS, SCIM_LATENCY_MIN_BASELINE_RUNS,
+ * SCIM_LATENCY_REGRESSION_PCT and SCIM_LATENCY_REGRESSION_MIN_MS
+ */
+export function regressionOptionsFromEnv(): RegressionOptions {
+  const number = (name: string, fallback: number) => {
+    const value = process.env[name];
+    if (value === undefined || value === '') return fallback;
+    if (!(Number(value) >= 0)) throw new Error(`${name} must be a number >= 0, got "${value}"`);
+    return Number(value);
+  };
+  return {
+    baselineRuns: number('SCIM_LATENCY_BASELINE_RUNS', 5),
+    minBaselineRuns: number('SCIM_LATENCY_MIN_BASELINE_RUNS', 3),
+    thresholdPct: number('SCIM_LATENCY_REGRESSION_PCT', 25),
+    minDeltaMs: number('SCIM_LATENCY_REGRESSION_MIN_MS', 50)
+  };
+}
+
+/**
+ * Compare each operation of a run with the median of its medians over the previous runs
+ * of the same variant
+ */
+export function latencyTrends(run: LatencyRun, history: LatencyRun[], options: RegressionOptions = regressionOptionsFromEnv()): LatencyTrend[] {
+  const earlier = history.filter(previous => previous.variant === run.variant && previous.startedAt !== run.startedAt);
+
+  return Object.entries(run.operations).map(([operation, { median }]) => {
+    const medians = earlier
+      .filter(previous => previous.operations[operation])
+      .slice(-options.baselineRuns)
+      .map(previous => previous.operations[operation].median);
+    if (medians.length < Math.max(1, options.minBaselineRuns)) {
+      return { operation, median, regressed: false };
+    }
+
+    const baseline = percentile(medians, 50);
+    const changePct = baseline > 0 ? Math.round(((median - baseline) / baseline) * 1000) / 10 : 0;
+    const regressed = median - baseline >= options.minDeltaMs && changePct > options.thresholdPct;
+    return { operation, median, baseline, changePct, regressed };
+  });
+}
+
+/**
+ * Escape text for the HTML report pages
+ */
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"]/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' }[char]!));
+}
+
+/**
+ * Trend table as a standalone HTML page (attached to the HTML report)
+ */
+export function latencyTrendHtml(run: LatencyRun, trends: LatencyTrend[]): string {
+  const rows = trends.map(trend => {
+    const stats = run.operations[trend.operation];
+    const cells = [
+      escapeHtml(trend.operation),
+      String(stats.count),
+      `${trend.median}ms`,
+      `${stats.p95}ms`,
+      trend.baseline === undefined ? '-' : `${trend.baseline}ms`,
+      trend.changePct === undefined ? '-' : `${trend.changePct > 0 ? '+' : ''}${trend.changePct}%`,
+      trend.regressed ? 'REGRESSED' : 'ok'
+    ];
+    return `<tr${trend.regressed ? ' class="regressed"' : ''}>${cells.map(cell => `<td>${cell}</td>`).join('')}</tr>`;
+  });
+  return [
+    '<!DOCTYPE html>',
+    `<html><head><meta charset="utf-8"><title>Latency trend ${escapeHtml(run.variant)}</title>`,
+    '<style>body{font-family:sans-serif}table{border-collapse:collapse}td,th{border:1px solid #ccc;padding:4px 8px;text-align:right}',
+    'td:first-child,th:first-child{text-align:left}.regressed{background:#fdd}</style></head><body>',
+    `<h1>Latency trend: ${escapeHtml(run.variant)}</h1>`,
+    `<p>Run started ${escapeHtml(run.startedAt)}</p>`,
+    '<table><tr><th>Operation</th><th>Requests</th><th>Median</th><th>p95</th><th>Baseline median</th><th>Change</th><th></th></tr>',
+    ...rows,
+    '</table></body></html>'
+  ].join('\n');
+}
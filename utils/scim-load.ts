@@ -0,0 +1,366 @@
+/**
+ * SCIM Load Harness
+ * Runs scenarios built from the usual request builders (ScimClient, ScimDataFactory, ScimFilter,
+ * ScimPatch) at a fixed concurrency or arrival rate for a set duration, and reports throughput,
+ * error rate and p50/p95/p99 latency per operation. Thresholds in load-thresholds.json fail the run.
+ *
+ *   SCIM_LOAD_DURATION=60s SCIM_LOAD_CONCURRENCY=20 npm run test:load
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { log } from './logger';
+import { ScimClient, ScimResponse } from './scim-client';
+import { ScimDataFactory } from './scim-fixtures';
+import { ScimFilter } from './scim-filter';
+import { percentile } from './scim-latency';
+import { ScimPatch } from './scim-patch';
+import { buildListQuery, buildSearchRequest } from './scim-query';
+
+// Overrides the thresholds file location
+export const LOAD_THRESHOLDS_ENV = 'SCIM_LOAD_THRESHOLDS';
+
+const DEFAULT_THRESHOLDS_FILE = path.resolve(__dirname, '..', 'load-thresholds.json');
+// Failed requests kept per operation for the report
+const MAX_ERROR_SAMPLES = 5;
+
+export interface LoadOptions {
+  durationMs: number;
+  // Closed model: this many virtual users, each starting its next iteration when the last one ends
+  concurrency?: number;
+  // Open model: iterations started per second, whatever the response times
+  arrivalRate?: number;
+  // Open model: iterations allowed in flight; arrivals beyond it are dropped and counted
+  maxInFlight?: number;
+}
+
+/**
+ * What a scenario iteration gets: the client, the test data factory, its setup state, its slot
+ * (0..slots-1, never shared by two running iterations) and `measure` for timing each request
+ */
+export interface LoadIterationContext<S> {
+  scim: ScimClient;
+  data: ScimDataFactory;
+  state: S;
+  slot: number;
+  measure: <T>(operation: string, call: () => Promise<ScimResponse<T>>, expectedStatus?: number) => Promise<ScimResponse<T>>;
+}
+
+export interface LoadScenario<S = any> {
+  name: string;
+  // Runs once before the load starts, e.g. to create shared data (one item per slot)
+  setup?: (data: ScimDataFactory, slots: number) => Promise<S>;
+  iteration: (context: LoadIterationContext<S>) => Promise<void>;
+}
+
+export interface LoadSample {
+  operation: string;
+  durationMs: number;
+  status: number;
+  error?: string;
+}
+
+export interface OperationStats {
+  operation: string;
+  count: number;
+  errors: number;
+  errorRate: number;
+  // Requests per second over the whole run
+  throughput: number;
+  p50: number;
+  p95: number;
+  p99: number;
+  max: number;
+  errorSamples: string[];
+}
+
+export interface LoadReport {
+  scenario: string;
+  mode: string;
+  elapsedMs: number;
+  iterations: number;
+  // Open model only: arrivals that found every slot busy
+  dropped: number;
+  operations: OperationStats[];
+}
+
+export interface LoadThreshold {
+  p50?: number;
+  p95?: number;
+  p99?: number;
+  // 0..1
+  maxErrorRate?: number;
+  // Requests per second
+  minThroughput?: number;
+}
+
+// Keyed by operation name; "*" applies to every operation without its own entry
+export type LoadThresholds = Record<string, LoadThreshold>;
+
+/**
+ * Per-operation statistics for the samples of one run
+ */
+export function summarizeSamples(samples: LoadSample[], elapsedMs: number): OperationStats[] {
+  const byOperation = new Map<string, LoadSample[]>();
+  for (const sample of samples) {
+    if (!byOperation.has(sample.operation)) byOperation.set(sample.operation, []);
+    byOperation.get(sample.operation)!.push(sample);
+  }
+
+  return [...byOperation.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([operation, operationSamples]) => {
+    const durations = operationSamples.map(sample => sample.durationMs);
+    const failed = operationSamples.filter(sample => sample.error);
+    return {
+      operation,
+      count: operationSamples.length,
+      errors: failed.length,
+      errorRate: failed.length / operationSamples.length,
+      throughput: elapsedMs > 0 ? Math.round((operationSamples.length / elapsedMs) * 100000) / 100 : 0,
+      p50: percentile(durations, 50),
+      p95: percentile(durations, 95),
+      p99: percentile(durations, 99),
+      max: durations.reduce((max, value) => Math.max(max, value), 0),
+      errorSamples: failed.slice(0, MAX_ERROR_SAMPLES).map(sample => sample.error!)
+    };
+  });
+}
+
+/**
+ * Run a scenario for options.durationMs and report per-operation statistics
+ */
+export async function runLoad<S>(scim: ScimClient, data: ScimDataFactory, scenario: LoadScenario<S>, options: LoadOptions): Promise<LoadReport> {
+  const openModel = options.arrivalRate !== undefined;
+  const slots = openModel ? options.maxInFlight ?? 50 : options.concurrency ?? 1;
+  if (!(slots >= 1) || (openModel && !(options.arrivalRate! > 0)) || !(options.durationMs > 0)) {
+    throw new Error(`Invalid load options: ${JSON.stringify(options)}`);
+  }
+
+  const state = scenario.setup ? await scenario.setup(data, slots) : (undefined as S);
+  const samples: LoadSample[] = [];
+  let iterations = 0;
+  let dropped = 0;
+
+  const measure = async <T>(operation: string, call: () => Promise<ScimResponse<T>>, expectedStatus?: number): Promise<ScimResponse<T>> => {
+    const startTime = Date.now();
+    try {
+      const response = await call();
+      const failed = expectedStatus !== undefined ? response.status !== expectedStatus : response.status >= 400;
+      samples.push({
+        operation,
+        durationMs: response.durationMs,
+        status: response.status,
+        ...(failed ? { error: `${response.status}${expectedStatus !== undefined ? ` (expected ${expectedStatus})` : ''}` } : {})
+      });
+      return response;
+    } catch (error: any) {
+      samples.push({ operation, durationMs: Date.now() - startTime, status: 0, error: error.message });
+      throw error;
+    }
+  };
+
+  const runIteration = async (slot: number) => {
+    iterations++;
+    try {
+      await scenario.iteration({ scim, data, state, slot, measure });
+    } catch (error: any) {
+      // Already counted by measure; the iteration just stops early
+      log.debug(`${scenario.name} iteration failed`, { slot, error: error.message });
+    }
+  };
+
+  const startTime = Date.now();
+  const deadline = startTime + options.durationMs;
+
+  if (openModel) {
+    const free = Array.from({ length: slots }, (_, slot) => slot);
+    const running: Promise<void>[] = [];
+    const intervalMs = 1000 / options.arrivalRate!;
+    for (let arrival = 0; startTime + arrival * intervalMs < deadline; arrival++) {
+      const wait = startTime + arrival * intervalMs - Date.now();
+      if (wait > 0) await new Promise(resolve => setTimeout(resolve, wait));
+      const slot = free.shift();
+      if (slot === undefined) {
+        dropped++;
+        continue;
+      }
+      running.push(runIteration(slot).finally(() => free.push(slot)));
+    }
+    await Promise.all(running);
+  } else {
+    await Promise.all(Array.from({ length: slots }, async (_, slot) => {
+      while (Date.now() < deadline) await runIteration(slot);
+    }));
+  }
+
+  const elapsedMs = Date.now() - startTime;
+  return {
+    scenario: scenario.name,
+    mode: openModel ? `${options.arrivalRate}/s (max ${slots} in flight)` : `${slots} virtual users`,
+    elapsedMs,
+    iterations,
+    dropped,
+    operations: summarizeSamples(samples, elapsedMs)
+  };
+}
+
+/**
+ * Read the thresholds file (operation -> limits)
+ */
+export function loadThresholds(file: string = process.env[LOAD_THRESHOLDS_ENV] || DEFAULT_THRESHOLDS_FILE): LoadThresholds {
+  if (!fs.existsSync(file)) return {};
+  const { thresholds } = JSON.parse(fs.readFileSync(file, 'utf8')) as { thresholds?: LoadThresholds };
+  if (!thresholds || typeof thresholds !== 'object' || Array.isArray(thresholds)) {
+    throw new Error(`${file}: expected { "thresholds": { "<operation>": { ... } } }`);
+  }
+  return thresholds;
+}
+
+/**
+ * One line per threshold the report crosses (empty when it passes)
+ */
+export function checkLoadThresholds(report: LoadReport, thresholds: LoadThresholds): string[] {
+  const violations: string[] = [];
+  for (const stats of report.operations) {
+    const threshold = thresholds[stats.operation] ?? thresholds['*'];
+    if (!threshold) continue;
+
+    for (const key of ['p50', 'p95', 'p99'] as const) {
+      if (threshold[key] !== undefined && stats[key] > threshold[key]!) {
+        violations.push(`${stats.operation}: ${key} ${stats[key]}ms > ${threshold[key]}ms`);
+      }
+    }
+    if (threshold.maxErrorRate !== undefined && stats.errorRate > threshold.maxErrorRate) {
+      violations.push(`${stats.operation}: error rate ${formatRate(stats.errorRate)} > ${formatRate(threshold.maxErrorRate)} (${stats.errorSamples.join(', ')})`);
+    }
+    if (threshold.minThroughput !== undefined && stats.throughput < threshold.minThroughput) {
+      violations.push(`${stats.operation}: throughput ${stats.throughput}/s < ${threshold.minThroughput}/s`);
+    }
+  }
+  return violations;
+}
+
+function formatRate(rate: number): string {
+  return `${Math.round(rate * 10000) / 100}%`;
+}
+
+/**
+ * The report as a fixed-width table, one row per operation
+ */
+export function formatLoadReport(report: LoadReport): string {
+  const header = `${report.scenario}: ${report.mode}, ${report.iterations} iterations in ${report.elapsedMs}ms` +
+    (report.dropped > 0 ? `, ${report.dropped} arrivals dropped` : '');
+  const rows = report.operations.map(stats => [
+    stats.operation.padEnd(20),
+    String(stats.count).padStart(7),
+    `${stats.throughput}/s`.padStart(10),
+    formatRate(stats.errorRate).padStart(8),
+    ...[stats.p50, stats.p95, stats.p99, stats.max].map(value => `${value}ms`.padStart(8))
+  ].join(' '));
+  const columns = ['operation'.padEnd(20), 'count'.padStart(7), 'rate'.padStart(10), 'errors'.padStart(8),
+    ...['p50', 'p95', 'p99', 'max'].map(column => column.padStart(8))].join(' ');
+  return [header, columns, ...rows].join('\n');
+}
+
+/**
+ * Throw when any threshold is crossed
+ */
+export function assertLoadThresholds(report: LoadReport, thresholds: LoadThresholds = loadThresholds()): void {
+  const violations = checkLoadThresholds(report, thresholds);
+  if (violations.length === 0) return;
+  throw new Error(`${report.scenario}: ${violations.length} load thresholds crossed\n  ${violations.join('\n  ')}\n\n${formatLoadReport(report)}`);
+}
+
+/**
+ * Duration from "30s", "2m", "500ms" or plain milliseconds
+ */
+export function parseDuration(value: string): number {
+  const match = /^(\d+(?:\.\d+)?)(ms|s|m)?$/.exec(value.trim());
+  if (!match) throw new Error(`Invalid duration "${value}" (use e.g. 500ms, 30s or 2m)`);
+  const scale = { ms: 1, s: 1000, m: 60000 }[match[2] as 'ms' | 's' | 'm' ?? 'ms'];
+  return Math.round(Number(match[1]) * scale);
+}
+
+/**
+ * Load options from SCIM_LOAD_DURATION, SCIM_LOAD_CONCURRENCY, SCIM_LOAD_RATE and SCIM_LOAD_MAX_IN_FLIGHT
+ * (defaults keep a plain test run short)
+ */
+export function loadOptionsFromEnv(): LoadOptions {
+  const number = (name: string) => {
+    const value = process.env[name];
+    if (value === undefined || value === '') return undefined;
+    if (!(Number(value) > 0)) throw new Error(`${name} must be a positive number, got "${value}"`);
+    return Number(value);
+  };
+  const arrivalRate = number('SCIM_LOAD_RATE');
+  return {
+    durationMs: parseDuration(process.env.SCIM_LOAD_DURATION || '2s'),
+    ...(arrivalRate !== undefined
+      ? { arrivalRate, maxInFlight: number('SCIM_LOAD_MAX_IN_FLIGHT') }
+      : { concurrency: number('SCIM_LOAD_CONCURRENCY') ?? 4 })
+  };
+}
+
+/**
+ * Built-in scenarios; SCIM_LOAD_SCENARIOS=listUsers,searchUsers picks a subset
+ */
+export const LoadScenarios: Record<string, LoadScenario> = {
+  listUsers: {
+    name: 'listUsers',
+    iteration: async ({ scim, measure }) => {
+      await measure('listUsers', () => scim.listUsers({ startIndex: 1, count: 50 }), 200);
+    }
+  },
+
+  searchUsers: {
+    name: 'searchUsers',
+    iteration: async ({ scim, measure }) => {
+      await measure('filterUsers', () => scim.listUsers(buildListQuery(ScimFilter.attr('userName').sw('USER'))), 200);
+      await measure('searchUsers', () => scim.searchUsers(buildSearchRequest(ScimFilter.attr('userName').sw('USER'), { count: 50 })), 200);
+    }
+  },
+
+  createDeleteUser: {
+    name: 'createDeleteUser',
+    iteration: async ({ scim, data, measure }) => {
+      const { status, body: user } = await measure('createUser', () => scim.createUser(data.userAttributes()), 201);
+      // measure already counted the failed create; there is no user to delete
+      if (status !== 201 || !user?.id) return;
+      // Tracked until deleted, so a failed delete is cleaned up with the test
+      data.track('User', user.id!, user.userName);
+      await measure('deleteUser', () => scim.deleteUser(user.id!), 204);
+      data.forget('User', user.id!);
+    }
+  },
+
+  groupMembership: {
+    name: 'groupMembership',
+    // One group and one user per slot, so concurrent iterations never touch the same membership
+    setup: async (data, slots) => {
+      const group = await data.createGroup();
+      return { groupId: group.id!, userIds: (await data.createUsers(slots)).map(user => user.id!) };
+    },
+    iteration: async ({ scim, state, slot, measure }) => {
+      const userId = state.userIds[slot];
+      // 200 with the group or 204, depending on the server
+      await measure('addMember', () => scim.patchGroup(state.groupId, ScimPatch.add('members', [{ value: userId }]).build()));
+      await measure('removeMember', () => scim.patchGroup(
+        state.groupId,
+        ScimPatch.remove(ScimFilter.attr('members').where(ScimFilter.attr('value').eq(userId))).build()
+      ));
+    }
+  }
+};
+
+/**
+ * Scenarios named in SCIM_LOAD_SCENARIOS (all built-in ones when unset)
+ */
+export function selectedLoadScenarios(names: string | undefined = process.env.SCIM_LOAD_SCENARIOS): LoadScenario[] {
+  if (!names) return Object.values(LoadScenarios);
+  return names.split(',').map(name => name.trim()).filter(Boolean).map(name => {
+    const scenario = LoadScenarios[name];
+    if (!scenario) {
+      throw new Error(`Unknown load scenario "${name}" (available: ${Object.keys(LoadScenarios).join(', ')})`);
+    }
+    return scenario;
+  });
+}
@@ -0,0 +1,149 @@
+/**
+ * SCIM Negative-Case Catalog
+ * Requests a compliant server must reject, each with the HTTP status and scimType (RFC 7644 §3.12)
+ * the Error response has to carry. Cases create what they need through the data factory.
+ */
+
+import { ApiEndpoints, ScimSchemas } from './api-config';
+import { ScimCapability } from './scim-capabilities';
+import { ScimResponse } from './scim-client';
+import { ScimErrorType } from './scim-errors';
+import { ScimDataFactory } from './scim-fixtures';
+
+// Id no environment hands out
+const UNKNOWN_ID = '999999999';
+
+export interface NegativeCase {
+  id: string;
+  title: string;
+  expectedStatus: number;
+  // Omitted where RFC 7644 defines no scimType (404s)
+  scimType?: ScimErrorType;
+  // Optional features the case depends on (skipped when the server does not advertise them)
+  requires?: ScimCapability[];
+  send: (data: ScimDataFactory) => Promise<ScimResponse>;
+}
+
+/**
+ * Register a User the server created although it should not have, so the run cleans it up
+ */
+function trackCreated(data: ScimDataFactory, response: ScimResponse): ScimResponse {
+  if (response.status === 201 && response.body?.id) data.track('User', response.body.id, response.body.userName);
+  return response;
+}
+
+export const NEGATIVE_CASES: NegativeCase[] = [
+  // ---------- Uniqueness ----------
+  {
+    id: 'duplicate-username',
+    title: 'POST /Users with a userName already in use',
+    expectedStatus: 409, scimType: 'uniqueness',
+    send: async data => {
+      const existing = await data.createUser();
+      return trackCreated(data, await data.scim.createUser(data.userAttributes({ userName: existing.userName })));
+    }
+  },
+  {
+    id: 'duplicate-username-case',
+    title: 'POST /Users with a userName already in use in different case (userName is caseExact=false)',
+    expectedStatus: 409, scimType: 'uniqueness',
+    send: async data => {
+      const existing = await data.createUser();
+      return trackCreated(data, await data.scim.createUser(data.userAttributes({ userName: existing.userName.toLowerCase() })));
+    }
+  },
+
+  // ---------- Filters ----------
+  {
+    id: 'filter-missing-value',
+    title: 'GET /Users with a comparison that has no value',
+    expectedStatus: 400, scimType: 'invalidFilter',
+    requires: ['filter'],
+    send: data => data.scim.send('GET', ApiEndpoints.users(), { query: { filter: 'userName eq' } })
+  },
+  {
+    id: 'filter-unknown-operator',
+    title: 'GET /Users with an unknown comparison operator',
+    expectedStatus: 400, scimType: 'invalidFilter',
+    requires: ['filter'],
+    send: data => data.scim.send('GET', ApiEndpoints.users(), { query: { filter: 'userName zz "x"' } })
+  },
+  {
+    id: 'filter-unbalanced-parentheses',
+    title: 'POST /Users/.search with unbalanced parentheses',
+    expectedStatus: 400, scimType: 'invalidFilter',
+    requires: ['filter'],
+    send: data => data.scim.send('POST', ApiEndpoints.userSearch(), {
+      data: { schemas: [ScimSchemas.SEARCH_REQUEST], filter: '(userName eq "x" or active eq true' }
+    })
+  },
+
+  // ---------- Unknown resources ----------
+  {
+    id: 'unknown-user-id',
+    title: 'GET /Users/{id} for an id that does not exist',
+    expectedStatus: 404,
+    send: data => data.scim.getUser(UNKNOWN_ID)
+  },
+  {
+    id: 'unknown-group-id',
+    title: 'GET /Groups/{id} for an id that does not exist',
+    expectedStatus: 404,
+    send: data => data.scim.getGroup(UNKNOWN_ID)
+  },
+  {
+    id: 'delete-unknown-user',
+    title: 'DELETE /Users/{id} for an id that does not exist',
+    expectedStatus: 404,
+    send: data => data.scim.deleteUser(UNKNOWN_ID)
+  },
+
+  // ---------- PATCH ----------
+  {
+    id: 'patch-unclosed-filter-path',
+    title: 'PATCH /Users/{id} with a path whose value filter is not closed',
+    expectedStatus: 400, scimType: 'invalidPath',
+    requires: ['patch'],
+    send: async data => {
+      const user = await data.createUser();
+      // Raw operations: the PatchBuilder rejects invalid paths before sending
+      return data.scim.patchUser(user.id!, [{ op: 'replace', path: 'emails[type eq "work"', value: 'x@example.com' }]);
+    }
+  },
+  {
+    id: 'patch-malformed-path',
+    title: 'PATCH /Users/{id} with a path that does not follow the attribute path grammar',
+    expectedStatus: 400, scimType: 'invalidPath',
+    requires: ['patch'],
+    send: async data => {
+      const user = await data.createUser();
+      return data.scim.patchUser(user.id!, [{ op: 'replace', path: 'name..givenName', value: 'x' }]);
+    }
+  },
+
+  // ---------- Message structure ----------
+  {
+    id: 'create-user-without-schemas',
+    title: 'POST /Users without schemas',
+    expectedStatus: 400, scimType: 'invalidSyntax',
+    send: async data => trackCreated(data, await data.scim.send('POST', ApiEndpoints.users(), { data: data.userAttributes() }))
+  },
+  {
+    id: 'patch-without-schemas',
+    title: 'PATCH /Users/{id} with Operations but without the PatchOp schema',
+    expectedStatus: 400, scimType: 'invalidSyntax',
+    requires: ['patch'],
+    send: async data => {
+      const user = await data.createUser();
+      return data.scim.send('PATCH', `${ApiEndpoints.users()}/${user.id}`, {
+        data: { Operations: [{ op: 'replace', path: 'displayName', value: 'x' }] }
+      });
+    }
+  },
+  {
+    id: 'search-without-schemas',
+    title: 'POST /Users/.search without the SearchRequest schema',
+    expectedStatus: 400, scimType: 'invalidSyntax',
+    send: data => data.scim.send('POST', ApiEndpoints.userSearch(), { data: { filter: 'userName pr' } })
+  }
+];
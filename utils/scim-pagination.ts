@@ -0,0 +1,233 @@
+/**
+ * SCIM ListResponse Pagination
+ * Walks every page of a list or .search endpoint (RFC 7644 §3.4.2.4) and checks
+ * the paging metadata is consistent while it goes
+ */
+
+import { ScimSchemas } from './api-config';
+import { ScimClient } from './scim-client';
+import { ScimGroup, ScimListQuery, ScimListResponse, ScimResource, ScimUser } from './scim-types';
+
+/**
+ * The parts of a ScimResponse the paginator reads (ScimClient responses satisfy this)
+ */
+export interface ListPageResponse<T extends ScimResource> {
+  status: number;
+  body: ScimListResponse<T>;
+}
+
+/**
+ * Fetch one page - called with the 1-based startIndex and count to request
+ */
+export type ListPageFetcher<T extends ScimResource> = (page: { startIndex: number; count: number }) => Promise<ListPageResponse<T>>;
+
+export interface PaginationOptions {
+  // Page size requested with every call (default 50)
+  count?: number;
+  // First index to request (default 1)
+  startIndex?: number;
+  // Stop with an error after this many pages, in case totalResults is never reached (default 1000)
+  maxPages?: number;
+}
+
+/**
+ * One page yielded by paginate()
+ */
+export interface ScimListPage<T> {
+  pageNumber: number;
+  requestedStartIndex: number;
+  requestedCount: number;
+  totalResults: number;
+  itemsPerPage: number;
+  resources: T[];
+}
+
+const DEFAULT_PAGE_SIZE = 50;
+const DEFAULT_MAX_PAGES = 1000;
+
+/**
+ * Check a single ListResponse page, returning the problems found
+ */
+function checkPage<T extends ScimResource>(response: ListPageResponse<T>, startIndex: number, count: number): string[] {
+  const problems: string[] = [];
+  const body = response.body;
+  const label = `page at startIndex=${startIndex}, count=${count}`;
+
+  if (response.status !== 200) {
+    return [`${label}: expected status 200, got ${response.status}`];
+  }
+  if (!body?.schemas?.includes(ScimSchemas.LIST_RESPONSE)) {
+    problems.push(`${label}: missing ${ScimSchemas.LIST_RESPONSE} schema`);
+  }
+  if (!Number.isInteger(body?.totalResults) || body.totalResults < 0) {
+    problems.push(`${label}: totalResults must be a non-negative integer, got ${body?.totalResults}`);
+  }
+
+  const resources = body?.Resources ?? [];
+  if (resources.length > count) {
+    problems.push(`${label}: returned ${resources.length} resources, more than count=${count}`);
+  }
+  if (body?.itemsPerPage !== undefined && body.itemsPerPage !== resources.length) {
+    problems.push(`${label}: itemsPerPage=${body.itemsPerPage} but ${resources.length} resources were returned`);
+  }
+  if (body?.startIndex !== undefined && body.startIndex !== startIndex) {
+    problems.push(`${label}: response startIndex=${body.startIndex} does not match the request`);
+  }
+
+  return problems;
+}
+
+/**
+ * Async iterator over every page of a ListResponse endpoint.
+ *
+ * Throws when a page is inconsistent, when an id repeats across pages, when
+ * totalResults changes mid-walk, or when the page sizes do not add up to totalResults.
+ */
+export async function* paginate<T extends ScimResource>(
+  fetchPage: ListPageFetcher<T>,
+  options: PaginationOptions = {}
+): AsyncGenerator<ScimListPage<T>> {
+  const count = options.count ?? DEFAULT_PAGE_SIZE;
+  const firstIndex = options.startIndex ?? 1;
+  const maxPages = options.maxPages ?? DEFAULT_MAX_PAGES;
+
+  if (count < 1) {
+    throw new Error(`paginate() needs a positive page size, got count=${count} (use checkPagingEdgeCases for 0/negative)`);
+  }
+
+  const seenIds = new Map<string, number>();
+  let totalResults: number | undefined;
+  let received = 0;
+  let startIndex = firstIndex;
+
+  for (let pageNumber = 1; ; pageNumber++) {
+    if (pageNumber > maxPages) {
+      throw new Error(`Pagination did not finish within ${maxPages} pages (received ${received} of ${totalResults})`);
+    }
+
+    const response = await fetchPage({ startIndex, count });
+    const problems = checkPage(response, startIndex, count);
+    const body = response.body;
+    const resources = body?.Resources ?? [];
+
+    if (totalResults !== undefined && body?.totalResults !== totalResults) {
+      problems.push(`page ${pageNumber}: totalResults changed from ${totalResults} to ${body?.totalResults}`);
+    }
+    for (const resource of resources) {
+      if (resource.id === undefined) continue;
+      const firstSeen = seenIds.get(resource.id);
+      if (firstSeen !== undefined) {
+        problems.push(`page ${pageNumber}: id ${resource.id} was already returned on page ${firstSeen}`);
+      } else {
+        seenIds.set(resource.id, pageNumber);
+      }
+    }
+
+    if (problems.length > 0) {
+      throw new Error(`Pagination consistency check failed:\n  - ${problems.join('\n  - ')}`);
+    }
+
+    totalResults = body.totalResults;
+    received += resources.length;
+
+    yield {
+      pageNumber,
+      requestedStartIndex: startIndex,
+      requestedCount: count,
+      totalResults,
+      itemsPerPage: resources.length,
+      resources
+    };
+
+    const expected = Math.max(0, totalResults - (firstIndex - 1));
+    if (received >= expected) {
+      if (received > expected) {
+        throw new Error(`Page sizes add up to ${received}, more than the ${expected} results reported from startIndex=${firstIndex}`);
+      }
+      return;
+    }
+    if (resources.length === 0) {
+      throw new Error(`Empty page at startIndex=${startIndex} after ${received} of ${expected} results`);
+    }
+
+    startIndex += resources.length;
+  }
+}
+
+/**
+ * Walk every page and return all resources
+ */
+export async function collectAll<T extends ScimResource>(
+  fetchPage: ListPageFetcher<T>,
+  options?: PaginationOptions
+): Promise<T[]> {
+  const resources: T[] = [];
+  for await (const page of paginate(fetchPage, options)) {
+    resources.push(...page.resources);
+  }
+  return resources;
+}
+
+/**
+ * Check how an endpoint handles out-of-range startIndex and zero/negative count
+ * (RFC 7644 §3.4.2.4), throwing with every violation found
+ */
+export async function checkPagingEdgeCases<T extends ScimResource>(fetchPage: ListPageFetcher<T>): Promise<void> {
+  const problems: string[] = [];
+  const baseline = await fetchPage({ startIndex: 1, count: 1 });
+  const totalResults = baseline.body?.totalResults;
+
+  const expectEmpty = async (page: { startIndex: number; count: number }, reason: string) => {
+    const response = await fetchPage(page);
+    const label = `startIndex=${page.startIndex}, count=${page.count}`;
+
+    if (response.status !== 200) {
+      problems.push(`${label}: expected status 200 (${reason}), got ${response.status}`);
+      return;
+    }
+    if ((response.body?.Resources ?? []).length !== 0) {
+      problems.push(`${label}: expected no resources (${reason}), got ${response.body.Resources.length}`);
+    }
+    if (response.body?.totalResults !== totalResults) {
+      problems.push(`${label}: expected totalResults=${totalResults}, got ${response.body?.totalResults}`);
+    }
+  };
+
+  // A count of 0 returns only totalResults; a negative count SHALL be interpreted as 0
+  await expectEmpty({ startIndex: 1, count: 0 }, 'count=0 returns no resources');
+  await expectEmpty({ startIndex: 1, count: -1 }, 'negative count is interpreted as 0');
+
+  // startIndex past the end is not an error, just an empty page
+  await expectEmpty({ startIndex: totalResults + 1, count: 10 }, 'startIndex beyond totalResults');
+
+  // A startIndex less than 1 SHALL be interpreted as 1
+  for (const startIndex of [0, -5]) {
+    const response = await fetchPage({ startIndex, count: 1 });
+    const firstId = response.body?.Resources?.[0]?.id;
+    const expectedId = baseline.body?.Resources?.[0]?.id;
+    if (response.status !== 200 || firstId !== expectedId) {
+      problems.push(`startIndex=${startIndex}: expected the same first resource as startIndex=1 (${expectedId}), got status ${response.status} with ${firstId}`);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Paging edge case check failed:\n  - ${problems.join('\n  - ')}`);
+  }
+}
+
+/**
+ * Page fetchers for the ScimClient list and .search operations
+ */
+export const ScimPages = {
+  users: (scim: ScimClient, query: ScimListQuery = {}): ListPageFetcher<ScimUser> =>
+    page => scim.listUsers({ ...query, ...page }),
+
+  groups: (scim: ScimClient, query: ScimListQuery = {}): ListPageFetcher<ScimGroup> =>
+    page => scim.listGroups({ ...query, ...page }),
+
+  searchUsers: (scim: ScimClient, query: ScimListQuery = {}): ListPageFetcher<ScimUser> =>
+    page => scim.searchUsers({ ...query, ...page }),
+
+  searchGroups: (scim: ScimClient, query: ScimListQuery = {}): ListPageFetcher<ScimGroup> =>
+    page => scim.searchGroups({ ...query, ...page })
+};
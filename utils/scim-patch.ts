@@ -0,0 +1,381 @@
+/**
+ * SCIM PATCH Operations (RFC 7644 §3.5.2)
+ * Fluent builder for PatchOp messages and a pure applier that computes the
+ * resource a compliant server should return, so tests can assert the "after" state
+ */
+
+import { ScimSchemas } from './api-config';
+import { evaluateFilter, FilterExpression, FilterNode, FilterParseError, formatFilter, parseFilter } from './scim-filter';
+import { ScimPatchOperation, ScimPatchRequest } from './scim-types';
+
+/**
+ * Error a compliant server answers with 400 and the given scimType
+ */
+export class ScimPatchError extends Error {
+  readonly status = 400;
+
+  constructor(
+    public readonly scimType: 'invalidSyntax' | 'invalidPath' | 'invalidValue' | 'noTarget' | 'mutability',
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+// ---------- Paths ----------
+
+/**
+ * Parsed PATCH path: `attr`, `attr.sub`, `attr[filter]` or `attr[filter].sub`,
+ * optionally prefixed with a schema URN
+ */
+export interface PatchPath {
+  // Extension schema URN the attribute lives under (undefined for core attributes)
+  schema?: string;
+  attribute: string;
+  filter?: FilterNode;
+  subAttribute?: string;
+}
+
+const CORE_SCHEMAS: string[] = [ScimSchemas.USER, ScimSchemas.GROUP];
+const PATH_PATTERN = /^([A-Za-z$][\w$-]*)(?:\[(.*)\])?(?:\.([A-Za-z$][\w$-]*))?$/s;
+const READ_ONLY_ATTRIBUTES = ['id', 'meta'];
+
+function isCoreSchema(urn: string): boolean {
+  return CORE_SCHEMAS.some(schema => schema.toLowerCase() === urn.toLowerCase());
+}
+
+/**
+ * Parse a PATCH path, throwing invalidPath when it does not follow the grammar
+ */
+export function parsePatchPath(path: string): PatchPath {
+  let rest = path.trim();
+  let schema: string | undefined;
+
+  if (/^urn:/i.test(rest)) {
+    const bracket = rest.indexOf('[');
+    const separator = rest.lastIndexOf(':', bracket < 0 ? rest.length : bracket);
+    const urn = rest.slice(0, separator);
+    rest = rest.slice(separator + 1);
+    if (!isCoreSchema(urn)) schema = urn;
+  }
+
+  const match = PATH_PATTERN.exec(rest);
+  if (!match) {
+    throw new ScimPatchError('invalidPath', `Invalid path: ${path}`);
+  }
+
+  const [, attribute, filterText, subAttribute] = match;
+  let filter: FilterNode | undefined;
+  if (filterText !== undefined) {
+    try {
+      filter = parseFilter(filterText);
+    } catch (error) {
+      if (error instanceof FilterParseError) {
+        throw new ScimPatchError('invalidPath', `Invalid filter in path ${path}: ${error.message}`);
+      }
+      throw error;
+    }
+  }
+
+  return { schema, attribute, filter, subAttribute };
+}
+
+/**
+ * Format a path from its parts, e.g. formatPatchPath('emails', filter, 'value') => emails[type eq "work"].value
+ */
+export function formatPatchPath(attribute: string, filter?: FilterExpression | string, subAttribute?: string): string {
+  const filterText = filter === undefined
+    ? ''
+    : `[${typeof filter === 'string' ? formatFilter(parseFilter(filter)) : filter.toString()}]`;
+  return `${attribute}${filterText}${subAttribute ? `.${subAttribute}` : ''}`;
+}
+
+// ---------- Builder ----------
+
+/**
+ * Path argument accepted by the builder - a path string or a value path filter
+ * such as ScimFilter.attr('members').where(ScimFilter.attr('value').eq('143'))
+ */
+export type PatchPathInput = string | FilterExpression;
+
+function toPathString(path: PatchPathInput): string {
+  const text = path.toString();
+  parsePatchPath(text);
+  return text;
+}
+
+/**
+ * Fluent PatchOp builder; paths are checked as they are added
+ */
+export class PatchBuilder {
+  private readonly operations: ScimPatchOperation[] = [];
+
+  /**
+   * add(value) merges attributes into the resource; add(path, value) targets one attribute
+   */
+  add(pathOrValue: PatchPathInput | Record<string, any>, value?: any): this {
+    return this.push('add', pathOrValue, value);
+  }
+
+  /**
+   * replace(value) replaces attributes on the resource; replace(path, value) targets one attribute
+   */
+  replace(pathOrValue: PatchPathInput | Record<string, any>, value?: any): this {
+    return this.push('replace', pathOrValue, value);
+  }
+
+  remove(path: PatchPathInput): this {
+    this.operations.push({ op: 'remove', path: toPathString(path) });
+    return this;
+  }
+
+  toOperations(): ScimPatchOperation[] {
+    return this.operations.map(operation => ({ ...operation }));
+  }
+
+  build(): ScimPatchRequest {
+    return { schemas: [ScimSchemas.PATCH_OP], Operations: this.toOperations() };
+  }
+
+  /**
+   * Expected resource after a compliant server applies these operations
+   */
+  applyTo<T extends Record<string, any>>(resource: T): T {
+    return applyPatch(resource, this.operations);
+  }
+
+  private push(op: 'add' | 'replace', pathOrValue: PatchPathInput | Record<string, any>, value?: any): this {
+    const hasPath = typeof pathOrValue === 'string' || pathOrValue instanceof FilterExpression;
+    this.operations.push(hasPath
+      ? { op, path: toPathString(pathOrValue as PatchPathInput), value }
+      : { op, value: pathOrValue });
+    return this;
+  }
+}
+
+// ---------- Applier ----------
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function findKey(target: Record<string, any>, name: string): string {
+  return Object.keys(target).find(key => key.toLowerCase() === name.toLowerCase()) ?? name;
+}
+
+/**
+ * Multi-valued items are the same value when their `value` sub-attributes match
+ * (or, without one, when they are structurally equal)
+ */
+function isSameValue(left: any, right: any): boolean {
+  if (isPlainObject(left) && isPlainObject(right) && left.value !== undefined && right.value !== undefined) {
+    return String(left.value) === String(right.value);
+  }
+  return JSON.stringify(left) === JSON.stringify(right);
+}
+
+/**
+ * Only one value may be primary - setting primary=true clears it on the others
+ */
+function enforceSinglePrimary(items: any[], primary: any[]): void {
+  if (!primary.some(item => isPlainObject(item) && item.primary === true)) return;
+  items.forEach(item => {
+    if (isPlainObject(item) && item.primary === true && !primary.includes(item)) item.primary = false;
+  });
+}
+
+/**
+ * add to a multi-valued attribute: new values are appended, existing ones are left unchanged
+ */
+function addValues(items: any[], value: any): any[] {
+  const result = [...items];
+  const added: any[] = [];
+  for (const item of Array.isArray(value) ? value : [value]) {
+    if (!result.some(existing => isSameValue(existing, item))) {
+      result.push(item);
+      added.push(item);
+    }
+  }
+  enforceSinglePrimary(result, added);
+  return result;
+}
+
+/**
+ * The object holding the attribute - the resource itself, or its extension schema object
+ */
+function containerFor(resource: Record<string, any>, path: PatchPath, create: boolean): Record<string, any> | undefined {
+  if (!path.schema) return resource;
+
+  const key = findKey(resource, path.schema);
+  if (resource[key] === undefined && create) {
+    resource[key] = {};
+    if (Array.isArray(resource.schemas) && !resource.schemas.includes(path.schema)) {
+      resource.schemas.push(path.schema);
+    }
+  }
+  return resource[key];
+}
+
+function applyFilteredOperation(container: Record<string, any>, key: string, op: string, path: PatchPath, value: any, rawPath: string): void {
+  const current = container[key];
+  if (current !== undefined && !Array.isArray(current)) {
+    throw new ScimPatchError('invalidPath', `${path.attribute} is not multi-valued, so ${rawPath} cannot filter it`);
+  }
+
+  const items: any[] = current ?? [];
+  const matches = items.filter(item => evaluateFilter(path.filter!, item));
+  if (matches.length === 0) {
+    throw new ScimPatchError('noTarget', `No values of ${path.attribute} match ${rawPath}`);
+  }
+
+  if (op === 'remove') {
+    const remaining = path.subAttribute
+      ? items.map(item => {
+        if (!matches.includes(item)) return item;
+        const { [findKey(item, path.subAttribute!)]: _removed, ...rest } = item;
+        return rest;
+      })
+      : items.filter(item => !matches.includes(item));
+
+    if (remaining.length === 0) delete container[key];
+    else container[key] = remaining;
+    return;
+  }
+
+  const updated = items.map(item => {
+    if (!matches.includes(item)) return item;
+    if (path.subAttribute) return { ...item, [findKey(item, path.subAttribute)]: value };
+    // replace swaps the matched values; add merges sub-attributes into them
+    return op === 'replace' ? value : { ...item, ...value };
+  });
+  container[key] = updated;
+  enforceSinglePrimary(updated, updated.filter((_, index) => matches.includes(items[index])));
+}
+
+function applySubAttributeOperation(container: Record<string, any>, key: string, op: string, path: PatchPath, value: any, rawPath: string): void {
+  const current = container[key];
+  const subAttribute = path.subAttribute!;
+
+  // Without a filter, a sub-attribute path on a multi-valued attribute applies to every value
+  if (Array.isArray(current)) {
+    container[key] = current.map(item => {
+      if (!isPlainObject(item)) {
+        throw new ScimPatchError('invalidPath', `${path.attribute} values are not complex, so ${rawPath} has no target`);
+      }
+      const subKey = findKey(item, subAttribute);
+      if (op !== 'remove') return { ...item, [subKey]: value };
+      const { [subKey]: _removed, ...rest } = item;
+      return rest;
+    });
+    return;
+  }
+
+  if (current !== undefined && !isPlainObject(current)) {
+    throw new ScimPatchError('invalidPath', `${path.attribute} is not a complex attribute, so ${rawPath} has no target`);
+  }
+
+  if (op === 'remove') {
+    if (current === undefined) return;
+    delete current[findKey(current, subAttribute)];
+    if (Object.keys(current).length === 0) delete container[key];
+    return;
+  }
+
+  const target = current ?? {};
+  container[key] = { ...target, [findKey(target, subAttribute)]: value };
+}
+
+function applyAttributeOperation(container: Record<string, any>, key: string, op: string, value: any): void {
+  const current = container[key];
+
+  if (op === 'remove') {
+    delete container[key];
+  } else if (op === 'add' && Array.isArray(current)) {
+    container[key] = addValues(current, value);
+  } else if (isPlainObject(current) && isPlainObject(value)) {
+    // Complex attributes: sub-attributes not in the value are left unchanged (add and replace)
+    container[key] = { ...current, ...value };
+  } else {
+    container[key] = value;
+  }
+}
+
+function applyOperation(resource: Record<string, any>, operation: ScimPatchOperation): void {
+  const op = typeof operation?.op === 'string' ? operation.op.toLowerCase() : undefined;
+  if (op !== 'add' && op !== 'replace' && op !== 'remove') {
+    throw new ScimPatchError('invalidSyntax', `Unsupported PATCH op: ${operation?.op}`);
+  }
+  if (op !== 'remove' && operation.value === undefined) {
+    throw new ScimPatchError('invalidValue', `${op} requires a value`);
+  }
+
+  if (operation.path === undefined || operation.path === '') {
+    if (op === 'remove') throw new ScimPatchError('noTarget', 'remove requires a path');
+    if (!isPlainObject(operation.value)) {
+      throw new ScimPatchError('invalidValue', `${op} without a path needs an object of attributes as its value`);
+    }
+
+    for (const [name, value] of Object.entries(operation.value)) {
+      // Extension attributes arrive grouped under their schema URN
+      if (/^urn:/i.test(name) && !isCoreSchema(name) && isPlainObject(value)) {
+        Object.entries(value).forEach(([subName, subValue]) =>
+          applyOperation(resource, { op, path: `${name}:${subName}`, value: subValue }));
+      } else {
+        applyOperation(resource, { op, path: name, value });
+      }
+    }
+    return;
+  }
+
+  const path = parsePatchPath(operation.path);
+  if (!path.schema && READ_ONLY_ATTRIBUTES.includes(path.attribute.toLowerCase())) {
+    throw new ScimPatchError('mutability', `${path.attribute} is read-only`);
+  }
+
+  const container = containerFor(resource, path, op !== 'remove');
+  if (!container) {
+    // Removing from an extension the resource does not have: nothing to do unless a filter needs a match
+    if (path.filter) throw new ScimPatchError('noTarget', `No values of ${path.attribute} match ${operation.path}`);
+    return;
+  }
+  const key = findKey(container, path.attribute);
+
+  if (path.filter) {
+    applyFilteredOperation(container, key, op, path, operation.value, operation.path);
+  } else if (path.subAttribute) {
+    applySubAttributeOperation(container, key, op, path, operation.value, operation.path);
+  } else {
+    applyAttributeOperation(container, key, op, operation.value);
+  }
+}
+
+/**
+ * Apply PATCH operations to a copy of the resource, returning the expected "after" state.
+ * The input is not modified; invalid operations throw ScimPatchError with the scimType a server should return.
+ */
+export function applyPatch<T extends Record<string, any>>(resource: T, patch: ScimPatchRequest | ScimPatchOperation[]): T {
+  const operations = Array.isArray(patch) ? patch : patch.Operations;
+  if (!Array.isArray(operations)) {
+    throw new ScimPatchError('invalidSyntax', 'PatchOp message must contain an Operations array');
+  }
+
+  const patched = JSON.parse(JSON.stringify(resource));
+  operations.forEach(operation => applyOperation(patched, operation));
+  return patched;
+}
+
+/**
+ * Entry points for building PatchOp messages
+ *
+ *   ScimPatch.replace('displayName', 'New Name')
+ *     .add('members', [{ value: '164' }])
+ *     .remove(ScimFilter.attr('members').where(ScimFilter.attr('value').eq('143')))
+ *     .build()
+ */
+export const ScimPatch = {
+  add: (pathOrValue: PatchPathInput | Record<string, any>, value?: any) => new PatchBuilder().add(pathOrValue, value),
+  replace: (pathOrValue: PatchPathInput | Record<string, any>, value?: any) => new PatchBuilder().replace(pathOrValue, value),
+  remove: (path: PatchPathInput) => new PatchBuilder().remove(path),
+  path: formatPatchPath,
+  apply: applyPatch
+};
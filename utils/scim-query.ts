@@ -0,0 +1,52 @@
+/**
+ * Environment-Aware SCIM Queries
+ * Single source for GET ?filter= query parameters and POST .search bodies,
+ * adding the OEM institutionid clause automatically (see OEM-SEARCH-GUIDE.md)
+ */
+
+import { ScimSchemas } from './api-config';
+import { getInstitutionId, isOemEnvironment } from './db-config';
+import { log } from './logger';
+import { FilterExpression, ScimFilter } from './scim-filter';
+import { ScimListQuery, ScimSearchRequest } from './scim-types';
+
+/**
+ * Attributes requested by OEM searches (recommended by the OEM search guide)
+ */
+export const OEM_SEARCH_ATTRIBUTES = ['displayName', 'userName'];
+
+/**
+ * Add `and institutionid eq "<id>"` in OEM environments; unchanged for Non-OEM
+ */
+export function scopeFilterToInstitution(filter: FilterExpression | string): FilterExpression {
+  const expression = typeof filter === 'string' ? ScimFilter.parse(filter) : filter;
+  const institutionId = getInstitutionId();
+
+  if (!isOemEnvironment() || !institutionId) return expression;
+
+  log.debug(`OEM environment: adding institutionId=${institutionId} to search filter`);
+  return expression.and(ScimFilter.attr('institutionid').eq(institutionId));
+}
+
+/**
+ * Query parameters for GET /Users?filter=... (or /Groups)
+ */
+export function buildListQuery(filter: FilterExpression | string, options: Omit<ScimListQuery, 'filter'> = {}): ScimListQuery {
+  return { ...options, filter: scopeFilterToInstitution(filter).toString() };
+}
+
+/**
+ * SearchRequest body for POST /Users/.search (or /Groups/.search)
+ */
+export function buildSearchRequest(filter: FilterExpression | string, options: Omit<ScimListQuery, 'filter'> = {}): ScimSearchRequest {
+  const request: ScimSearchRequest = {
+    schemas: [ScimSchemas.SEARCH_REQUEST],
+    ...buildListQuery(filter, options)
+  };
+
+  if (isOemEnvironment() && !request.attributes) {
+    request.attributes = OEM_SEARCH_ATTRIBUTES;
+  }
+
+  return request;
+}
@@ -0,0 +1,244 @@
+/**
+ * Schema-Driven Resource Validation
+ * Checks User and Group resources against the attribute definitions the server
+ * publishes on /Schemas (RFC 7643 §2, §7), reporting every violation with its JSON path
+ */
+
+import { ApiEndpoints, ScimSchemas } from './api-config';
+import { log } from './logger';
+import { ScimClient } from './scim-client';
+import { ScimResource, ScimSchemaAttribute, ScimSchemaDefinition } from './scim-types';
+
+/**
+ * One mismatch between a resource and its schema
+ */
+export interface SchemaViolation {
+  // JSON path of the offending value, e.g. $.emails[1].type
+  path: string;
+  message: string;
+}
+
+export interface SchemaValidationOptions {
+  // Response was projected with attributes/excludedAttributes, so missing required attributes are expected
+  partial?: boolean;
+}
+
+/**
+ * Common attributes (RFC 7643 §3.1) - not part of any /Schemas definition
+ */
+const COMMON_ATTRIBUTES = ['schemas', 'id', 'externalId', 'meta'];
+
+const DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function childPath(parent: string, name: string): string {
+  return /^[A-Za-z$][\w$-]*$/.test(name) ? `${parent}.${name}` : `${parent}['${name}']`;
+}
+
+/**
+ * Find the value for an attribute name (attribute names are case-insensitive)
+ */
+function findKey(target: Record<string, any>, name: string): string | undefined {
+  return Object.keys(target).find(key => key.toLowerCase() === name.toLowerCase());
+}
+
+/**
+ * Check a single (non-array) value against the attribute type
+ */
+function typeMismatch(value: any, definition: ScimSchemaAttribute): string | undefined {
+  switch (definition.type) {
+    case 'string':
+    case 'reference':
+    case 'binary':
+      return typeof value === 'string' ? undefined : `expected ${definition.type} (string), got ${typeof value}`;
+    case 'boolean':
+      return typeof value === 'boolean' ? undefined : `expected boolean, got ${typeof value}`;
+    case 'decimal':
+      return typeof value === 'number' ? undefined : `expected decimal, got ${typeof value}`;
+    case 'integer':
+      return Number.isInteger(value) ? undefined : `expected integer, got ${JSON.stringify(value)}`;
+    case 'dateTime':
+      return typeof value === 'string' && DATE_TIME_PATTERN.test(value) && !isNaN(Date.parse(value))
+        ? undefined
+        : `expected xsd:dateTime, got ${JSON.stringify(value)}`;
+    case 'complex':
+      return isPlainObject(value) ? undefined : `expected complex (object), got ${Array.isArray(value) ? 'array' : typeof value}`;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Validator built from the /Schemas definitions
+ */
+export class ScimSchemaValidator {
+  private readonly schemas = new Map<string, ScimSchemaDefinition>();
+
+  constructor(schemas: ScimSchemaDefinition[]) {
+    schemas.forEach(schema => this.schemas.set(schema.id.toLowerCase(), schema));
+  }
+
+  get schemaIds(): string[] {
+    return [...this.schemas.values()].map(schema => schema.id);
+  }
+
+  /**
+   * Check a resource against the schemas it declares; an empty list means it is valid.
+   * The first declared schema with a definition is treated as the core schema, the rest as extensions.
+   */
+  validate(resource: ScimResource, options: SchemaValidationOptions = {}): SchemaViolation[] {
+    const violations: SchemaViolation[] = [];
+    const checkRequired = !options.partial;
+
+    if (!isPlainObject(resource)) {
+      return [{ path: '$', message: 'resource must be a JSON object' }];
+    }
+    if (!Array.isArray(resource.schemas) || resource.schemas.length === 0) {
+      return [{ path: '$.schemas', message: 'schemas must be a non-empty array' }];
+    }
+    if (resource.id !== undefined && typeof resource.id !== 'string') {
+      violations.push({ path: '$.id', message: `expected string, got ${typeof resource.id}` });
+    }
+
+    const declared = resource.schemas.map(id => ({ id, definition: this.schemas.get(String(id).toLowerCase()) }));
+    declared
+      .filter(schema => !schema.definition)
+      .forEach(schema => violations.push({ path: '$.schemas', message: `schema ${schema.id} is not published on /Schemas` }));
+
+    const [core, ...extensions] = declared.filter(schema => schema.definition).map(schema => schema.definition!);
+    if (!core) return violations;
+
+    const extensionKeys = extensions.map(extension => findKey(resource, extension.id));
+    const coreAttributes = Object.fromEntries(
+      Object.entries(resource).filter(([name]) =>
+        !COMMON_ATTRIBUTES.includes(name) && !extensionKeys.includes(name) && !/^urn:/i.test(name))
+    );
+    this.checkAttributes(coreAttributes, core.attributes, '$', violations, checkRequired);
+
+    for (const extension of extensions) {
+      const key = findKey(resource, extension.id);
+      const value = key === undefined ? undefined : resource[key];
+      const path = childPath('$', key ?? extension.id);
+      if (value === undefined || value === null) {
+        this.checkAttributes({}, extension.attributes, path, violations, checkRequired);
+      } else if (!isPlainObject(value)) {
+        violations.push({ path, message: 'extension attributes must be an object' });
+      } else {
+        this.checkAttributes(value, extension.attributes, path, violations, checkRequired);
+      }
+    }
+
+    Object.keys(resource)
+      .filter(name => /^urn:/i.test(name) && !declared.some(schema => schema.id.toLowerCase() === name.toLowerCase()))
+      .forEach(name => violations.push({ path: childPath('$', name), message: 'extension is not listed in schemas' }));
+
+    return violations;
+  }
+
+  /**
+   * Throw with every violation when the resource does not match its schema
+   */
+  assertValid(resource: ScimResource, objectName: string = 'Resource', options?: SchemaValidationOptions): void {
+    const violations = this.validate(resource, options);
+    if (violations.length > 0) {
+      throw new Error(
+        `${objectName} does not match its schema (${violations.length} violations):\n` +
+        violations.map(violation => `  - ${violation.path}: ${violation.message}`).join('\n')
+      );
+    }
+    log.debug(`${objectName} matches schema ${resource.schemas.join(', ')}`);
+  }
+
+  private checkAttributes(
+    values: Record<string, any>,
+    definitions: ScimSchemaAttribute[],
+    path: string,
+    violations: SchemaViolation[],
+    checkRequired: boolean
+  ): void {
+    for (const definition of definitions) {
+      const key = findKey(values, definition.name);
+      const value = key === undefined ? undefined : values[key];
+      const attributePath = childPath(path, key ?? definition.name);
+
+      // null is the same as unassigned (RFC 7643 §2.5)
+      if (value === undefined || value === null) {
+        if (checkRequired && definition.required && definition.returned !== 'never') {
+          violations.push({ path: attributePath, message: 'required attribute is missing' });
+        }
+        continue;
+      }
+
+      if (definition.returned === 'never') {
+        violations.push({ path: attributePath, message: 'attribute has returned "never" and must not be in a response' });
+        continue;
+      }
+
+      if (definition.multiValued) {
+        if (!Array.isArray(value)) {
+          violations.push({ path: attributePath, message: 'multi-valued attribute must be an array' });
+          continue;
+        }
+        value.forEach((item, index) => this.checkValue(item, definition, `${attributePath}[${index}]`, violations, checkRequired));
+      } else if (Array.isArray(value)) {
+        violations.push({ path: attributePath, message: 'single-valued attribute must not be an array' });
+      } else {
+        this.checkValue(value, definition, attributePath, violations, checkRequired);
+      }
+    }
+
+    const known = definitions.map(definition => definition.name.toLowerCase());
+    Object.keys(values)
+      .filter(name => !known.includes(name.toLowerCase()))
+      .forEach(name => violations.push({ path: childPath(path, name), message: 'attribute is not defined in the schema' }));
+  }
+
+  private checkValue(value: any, definition: ScimSchemaAttribute, path: string, violations: SchemaViolation[], checkRequired: boolean): void {
+    const mismatch = typeMismatch(value, definition);
+    if (mismatch) {
+      violations.push({ path, message: mismatch });
+      return;
+    }
+
+    if (definition.canonicalValues?.length && typeof value === 'string') {
+      const matches = definition.caseExact
+        ? definition.canonicalValues.includes(value)
+        : definition.canonicalValues.some(canonical => canonical.toLowerCase() === value.toLowerCase());
+      if (!matches) {
+        violations.push({ path, message: `"${value}" is not one of the canonical values: ${definition.canonicalValues.join(', ')}` });
+      }
+    }
+
+    if (definition.type === 'complex' && definition.subAttributes) {
+      this.checkAttributes(value, definition.subAttributes, path, violations, checkRequired);
+    }
+  }
+}
+
+// Validators already built in this worker, keyed by the /Schemas URL
+const validatorCache = new Map<string, Promise<ScimSchemaValidator>>();
+
+/**
+ * Load /Schemas once and build a validator; later calls for the same endpoint reuse it
+ */
+export function loadSchemaValidator(scim: ScimClient): Promise<ScimSchemaValidator> {
+  const schemasUrl = `${scim.baseUrl}${ApiEndpoints.schemas()}`;
+  let validator = validatorCache.get(schemasUrl);
+  if (!validator) {
+    validator = scim.getSchemas({ expectedStatus: 200 }).then(({ body }) => {
+      if (!body?.schemas?.includes(ScimSchemas.LIST_RESPONSE) || !Array.isArray(body.Resources)) {
+        throw new Error(`/Schemas did not return a ListResponse: ${JSON.stringify(body)}`);
+      }
+      const definitions = body.Resources as ScimSchemaDefinition[];
+      log.info(`Loaded ${definitions.length} schemas from /Schemas: ${definitions.map(schema => schema.id).join(', ')}`);
+      return new ScimSchemaValidator(definitions);
+    });
+    // Do not cache a failed load - the next test gets to retry
+    validator.catch(() => validatorCache.delete(schemasUrl));
+    validatorCache.set(schemasUrl, validator);
+  }
+  return validator;
+}
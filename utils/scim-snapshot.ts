@@ -0,0 +1,104 @@
+/**
+ * SCIM Response Snapshots
+ * Normalizes responses before comparing them with a stored snapshot: volatile fields (ids,
+ * meta timestamps and versions, the host in meta.location, generated user names) are masked,
+ * object keys and multi-valued attributes are sorted, and the result is pretty-printed JSON so
+ * diffs read line by line. Snapshots are kept per endpoint type and target; update them with
+ * `npx playwright test --update-snapshots`.
+ */
+
+import { expect } from '@playwright/test';
+import { getCurrentEndpointType, ProjectConfig } from './api-config';
+import { VOLATILE } from './scim-cassette';
+
+export const MASK = {
+  id: '<id>',
+  timestamp: '<timestamp>',
+  version: '<version>',
+  host: '<host>',
+  generated: '<generated>'
+};
+
+// Multi-valued attributes whose values are ids of stored resources
+const REFERENCE_ATTRIBUTES = ['members', 'groups'];
+
+// Resources the service stores (ids and meta change per run); discovery resources keep theirs
+const STORED_RESOURCE_TYPES = ['User', 'Group'];
+
+function isStoredResource(value: any): boolean {
+  return STORED_RESOURCE_TYPES.includes(value?.meta?.resourceType);
+}
+
+function maskLocation(location: string, id: string | undefined): string {
+  let masked = location.replace(/^[a-z]+:\/\/[^/]+/i, MASK.host);
+  if (id) masked = masked.split(`/${id}`).join(`/${MASK.id}`);
+  return masked;
+}
+
+function normalize(value: any, key?: string): any {
+  if (Array.isArray(value)) {
+    // Multi-valued attributes have no defined order
+    return value
+      .map(item => normalize(item, key))
+      .sort((a, b) => JSON.stringify(a).localeCompare(JSON.stringify(b)));
+  }
+  if (typeof value === 'string') {
+    return value.replace(VOLATILE, MASK.generated);
+  }
+  if (!value || typeof value !== 'object') return value;
+
+  const stored = isStoredResource(value);
+  const normalized: Record<string, any> = {};
+  for (const childKey of Object.keys(value).sort()) {
+    const child = value[childKey];
+    if (stored && childKey === 'id') {
+      normalized.id = MASK.id;
+    } else if (stored && childKey === 'meta') {
+      normalized.meta = normalizeMeta(child, value.id);
+    } else if (REFERENCE_ATTRIBUTES.includes(key!) && (childKey === 'value' || childKey === '$ref')) {
+      // Member and group references point at generated ids
+      normalized[childKey] = childKey === 'value' ? MASK.id : maskLocation(child, child.split('/').pop());
+    } else {
+      normalized[childKey] = normalize(child, childKey);
+    }
+  }
+  return normalized;
+}
+
+function normalizeMeta(meta: Record<string, any>, id: string | undefined): Record<string, any> {
+  const normalized: Record<string, any> = {};
+  for (const key of Object.keys(meta).sort()) {
+    if (key === 'created' || key === 'lastModified') normalized[key] = MASK.timestamp;
+    else if (key === 'version') normalized[key] = MASK.version;
+    else if (key === 'location') normalized[key] = maskLocation(meta.location, id);
+    else normalized[key] = normalize(meta[key], key);
+  }
+  return normalized;
+}
+
+/**
+ * A response body with volatile fields masked and a stable order, as pretty-printed JSON
+ */
+export function scimSnapshot(body: unknown): string {
+  // Every meta.location and $ref carries the host, discovery resources included
+  const masked = JSON.parse(JSON.stringify(body ?? null), (key, value) =>
+    (key === 'location' || key === '$ref') && typeof value === 'string' ? maskLocation(value, undefined) : value
+  );
+  return `${JSON.stringify(normalize(masked), null, 2)}\n`;
+}
+
+/**
+ * Which snapshot set responses are compared with, e.g. "scim-local" or "apiserver-oem"
+ * (the local stand-in and each environment answer differently)
+ */
+export function snapshotVariant(): string {
+  const target = ProjectConfig.localServer.enabled ? 'local' : process.env.SCIM_ENV || 'remote';
+  return `${getCurrentEndpointType()}-${target}`;
+}
+
+/**
+ * Compare a normalized response body with the stored snapshot `<name>-<variant>.json`
+ */
+export function expectScimSnapshot(body: unknown, name: string): void {
+  expect(scimSnapshot(body)).toMatchSnapshot(`${name}-${snapshotVariant()}.json`);
+}
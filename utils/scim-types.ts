@@ -0,0 +1,225 @@
+/**
+ * SCIM 2.0 Resource and Message Types
+ * Shapes of the resources and protocol messages exchanged with the SCIM endpoints (RFC 7643/7644)
+ */
+
+/**
+ * Resource metadata returned by the server on every resource
+ */
+export interface ScimMeta {
+  resourceType?: string;
+  created?: string;
+  lastModified?: string;
+  location?: string;
+  version?: string;
+}
+
+/**
+ * Base shape shared by every SCIM resource
+ */
+export interface ScimResource {
+  schemas: string[];
+  id?: string;
+  externalId?: string;
+  meta?: ScimMeta;
+  [attribute: string]: any;
+}
+
+/**
+ * Multi-valued attribute entry (emails, phoneNumbers, addresses, ...)
+ */
+export interface ScimMultiValuedAttribute {
+  value?: string;
+  display?: string;
+  type?: string;
+  primary?: boolean;
+  [subAttribute: string]: any;
+}
+
+/**
+ * Group membership reference (Group.members and User.groups)
+ */
+export interface ScimMemberReference {
+  value: string;
+  display?: string;
+  type?: string;
+  $ref?: string;
+}
+
+/**
+ * SCIM User resource
+ */
+export interface ScimUser extends ScimResource {
+  userName: string;
+  name?: {
+    formatted?: string;
+    familyName?: string;
+    givenName?: string;
+    middleName?: string;
+    honorificPrefix?: string;
+    honorificSuffix?: string;
+  };
+  displayName?: string;
+  active?: boolean;
+  password?: string;
+  emails?: ScimMultiValuedAttribute[];
+  phoneNumbers?: ScimMultiValuedAttribute[];
+  groups?: ScimMemberReference[];
+}
+
+/**
+ * SCIM Group resource
+ */
+export interface ScimGroup extends ScimResource {
+  displayName: string;
+  members?: ScimMemberReference[];
+}
+
+/**
+ * ListResponse message returned by list and search operations
+ */
+export interface ScimListResponse<T extends ScimResource = ScimResource> {
+  schemas: string[];
+  totalResults: number;
+  itemsPerPage?: number;
+  startIndex?: number;
+  Resources: T[];
+}
+
+/**
+ * Query parameters accepted by GET list endpoints
+ */
+export interface ScimListQuery {
+  filter?: string;
+  startIndex?: number;
+  count?: number;
+  attributes?: string[];
+  excludedAttributes?: string[];
+  sortBy?: string;
+  sortOrder?: 'ascending' | 'descending';
+}
+
+/**
+ * SearchRequest message body for POST .search
+ */
+export interface ScimSearchRequest extends ScimListQuery {
+  schemas: string[];
+}
+
+/**
+ * Single PATCH operation
+ */
+export interface ScimPatchOperation {
+  op: 'add' | 'replace' | 'remove';
+  path?: string;
+  value?: any;
+}
+
+/**
+ * PatchOp message body
+ */
+export interface ScimPatchRequest {
+  schemas: string[];
+  Operations: ScimPatchOperation[];
+}
+
+/**
+ * Single operation in a BulkRequest
+ */
+export interface ScimBulkOperation {
+  method: 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  // Path relative to the SCIM base, e.g. /Users or /Groups/bulkId:group1
+  path: string;
+  // Required for POST; later operations reference the created resource as "bulkId:<bulkId>"
+  bulkId?: string;
+  version?: string;
+  data?: any;
+}
+
+/**
+ * BulkRequest message body
+ */
+export interface ScimBulkRequest {
+  schemas: string[];
+  failOnErrors?: number;
+  Operations: ScimBulkOperation[];
+}
+
+/**
+ * Result of one operation in a BulkResponse
+ */
+export interface ScimBulkOperationResponse {
+  method: string;
+  bulkId?: string;
+  version?: string;
+  location?: string;
+  status: string;
+  response?: any;
+}
+
+/**
+ * BulkResponse message body
+ */
+export interface ScimBulkResponse {
+  schemas: string[];
+  Operations: ScimBulkOperationResponse[];
+}
+
+/**
+ * SCIM Error message body
+ */
+export interface ScimError {
+  schemas: string[];
+  status: string;
+  scimType?: string;
+  detail?: string;
+}
+
+/**
+ * ServiceProviderConfig resource (RFC 7643 §5)
+ */
+export interface ScimServiceProviderConfig extends ScimResource {
+  documentationUri?: string;
+  patch: { supported: boolean };
+  bulk: { supported: boolean; maxOperations: number; maxPayloadSize: number };
+  filter: { supported: boolean; maxResults: number };
+  changePassword: { supported: boolean };
+  sort: { supported: boolean };
+  etag: { supported: boolean };
+  authenticationSchemes: {
+    type: string;
+    name: string;
+    description?: string;
+    specUri?: string;
+    documentationUri?: string;
+    primary?: boolean;
+  }[];
+}
+
+/**
+ * Attribute definition as published on /Schemas (RFC 7643 §7)
+ */
+export interface ScimSchemaAttribute {
+  name: string;
+  type: 'string' | 'boolean' | 'decimal' | 'integer' | 'dateTime' | 'binary' | 'reference' | 'complex';
+  multiValued: boolean;
+  description?: string;
+  required: boolean;
+  caseExact?: boolean;
+  mutability: 'readOnly' | 'readWrite' | 'immutable' | 'writeOnly';
+  returned: 'always' | 'never' | 'default' | 'request';
+  uniqueness?: 'none' | 'server' | 'global';
+  canonicalValues?: string[];
+  referenceTypes?: string[];
+  subAttributes?: ScimSchemaAttribute[];
+}
+
+/**
+ * Schema resource returned by /Schemas
+ */
+export interface ScimSchemaDefinition extends ScimResource {
+  id: string;
+  name?: string;
+  description?: string;
+  attributes: ScimSchemaAttribute[];
+}
@@ -0,0 +1,59 @@
+/**
+ * Test Database Interface
+ * The user, group and membership operations the suite runs against the OnBase tables
+ * (hsi.useraccount, hsi.usergroup, hsi.userxusergroup). Adapters connect on first use,
+ * so importing one never opens a connection.
+ */
+
+/**
+ * hsi.useraccount row
+ */
+export interface UserAccountRow {
+  usernum: number;
+  username: string;
+  realname: string | null;
+  emailaddress: string | null;
+  disablelogin: boolean | number;
+  lastlogon?: Date | null;
+  lastpwchange?: Date | null;
+  obuniqueid?: number | null;
+  usertype?: number | null;
+  [column: string]: any;
+}
+
+/**
+ * hsi.usergroup row
+ */
+export interface UserGroupRow {
+  usergroupnum: number;
+  usergroupname: string;
+  [column: string]: any;
+}
+
+export interface TestDatabase {
+  // Shown in logs, e.g. "SQL Server RDV-010318\LOCALSQLSERVER22/LocalOBTesting"
+  readonly description: string;
+
+  getUserByName(username: string): Promise<UserAccountRow | null>;
+  getUserById(userNum: number): Promise<UserAccountRow | null>;
+  getGroupById(groupNum: number): Promise<UserGroupRow | null>;
+  getGroupByName(groupName: string): Promise<UserGroupRow | null>;
+  isUserGroupMember(userNum: number, groupNum: number): Promise<boolean>;
+  // usernums in the group
+  getGroupMembers(groupNum: number): Promise<number[]>;
+
+  /**
+   * Insert a user directly (bypassing the API) and return its usernum
+   */
+  createTestUser(username: string, institutionId?: string): Promise<number>;
+
+  /**
+   * Delete a user and its group memberships directly (cleanup only)
+   */
+  deleteTestUser(userNum: number): Promise<void>;
+
+  /**
+   * Release connections; the next call connects again
+   */
+  close(): Promise<void>;
+}
@@ -0,0 +1,268 @@
+/**
+ * OAuth2 Token Manager
+ * Caches access tokens per token endpoint by (client_id, scope, grant_type), shares them
+ * between Playwright workers through a locked cache file, and refreshes them before they expire
+ */
+
+import fs from 'fs';
+import { APIRequestContext } from '@playwright/test';
+import type { OAuth2TokenResponse } from './api-config';
+import { decodeJwt, JwtClaims } from './jwt';
+import { log } from './logger';
+
+/**
+ * Everything needed to request a token from the token endpoint
+ */
+export interface TokenRequest {
+  tokenUrl: string;
+  clientId: string;
+  clientSecret: string;
+  scope: string;
+  grantType: string;
+  timeout?: number;
+}
+
+/**
+ * Cached access token with its decoded claims
+ */
+export interface ManagedToken {
+  accessToken: string;
+  tokenType: string;
+  scope: string;
+  // Epoch milliseconds
+  obtainedAt: number;
+  expiresAt: number;
+  // JWT claims ({} for opaque tokens)
+  claims: JwtClaims;
+}
+
+export type TokenFetcher = (request: APIRequestContext, tokenRequest: TokenRequest) => Promise<OAuth2TokenResponse>;
+
+export interface TokenManagerOptions {
+  // Cache file shared by the workers; without one tokens are cached per worker only
+  cacheFile?: string;
+  // Refresh when less than this is left (capped at half the token lifetime), default 60 seconds
+  refreshMarginSeconds?: number;
+  fetchToken?: TokenFetcher;
+  // Clock override for tests
+  now?: () => number;
+}
+
+type StoredToken = Omit<ManagedToken, 'claims'>;
+
+export const TOKEN_CACHE_FILE_ENV = 'SCIM_TOKEN_CACHE_FILE';
+const LOCK_TIMEOUT_MS = 60000;
+// A lock older than this was left behind by a crashed worker
+const STALE_LOCK_MS = 30000;
+
+/**
+ * Cache key: token endpoint, grant type, client and scope (scope order does not matter)
+ */
+export function tokenCacheKey(tokenRequest: Pick<TokenRequest, 'tokenUrl' | 'clientId' | 'scope' | 'grantType'>): string {
+  const scope = tokenRequest.scope.split(/\s+/).filter(Boolean).sort().join(' ');
+  return `${tokenRequest.tokenUrl}|${tokenRequest.grantType}|${tokenRequest.clientId}|${scope}`;
+}
+
+/**
+ * JWT claims of an access token, or {} when the token is opaque
+ */
+export function tokenClaims(accessToken: string): JwtClaims {
+  try {
+    return decodeJwt(accessToken).claims;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Token endpoint answer other than 200; body is the parsed JSON error (RFC 6749 §5.2) when
+ * there is one, otherwise the response text
+ */
+export class TokenRequestError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly body: any,
+    text: string
+  ) {
+    super(`Authentication failed: ${status} - ${text}`);
+    this.name = 'TokenRequestError';
+  }
+}
+
+/**
+ * POST a client credentials request to the token endpoint
+ */
+export async function requestToken(request: APIRequestContext, tokenRequest: TokenRequest): Promise<OAuth2TokenResponse> {
+  const formData = new URLSearchParams();
+  formData.append('grant_type', tokenRequest.grantType);
+  formData.append('scope', tokenRequest.scope);
+  formData.append('client_id', tokenRequest.clientId);
+  formData.append('client_secret', tokenRequest.clientSecret);
+
+  const response = await request.post(tokenRequest.tokenUrl, {
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'Accept': 'application/json'
+    },
+    data: formData.toString(),
+    timeout: tokenRequest.timeout ?? 10000
+  });
+
+  if (response.status() !== 200) {
+    const errorBody = await response.text();
+    let body: any = errorBody;
+    try {
+      body = JSON.parse(errorBody);
+    } catch {
+      // Not JSON, e.g. an HTML error page from a proxy
+    }
+    throw new TokenRequestError(response.status(), body, errorBody);
+  }
+  return response.json();
+}
+
+/**
+ * Run fn while holding an exclusive lock file
+ */
+async function withFileLock<T>(lockFile: string, fn: () => Promise<T>): Promise<T> {
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  for (;;) {
+    try {
+      fs.writeFileSync(lockFile, String(process.pid), { flag: 'wx' });
+      break;
+    } catch (error: any) {
+      if (error.code !== 'EEXIST') throw error;
+      try {
+        if (Date.now() - fs.statSync(lockFile).mtimeMs > STALE_LOCK_MS) fs.rmSync(lockFile, { force: true });
+      } catch {
+        // Released between the write and the stat
+      }
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for the token cache lock ${lockFile}`);
+      }
+      await new Promise(resolve => setTimeout(resolve, 25));
+    }
+  }
+
+  try {
+    return await fn();
+  } finally {
+    fs.rmSync(lockFile, { force: true });
+  }
+}
+
+function readCacheFile(cacheFile: string): Record<string, StoredToken> {
+  try {
+    return JSON.parse(fs.readFileSync(cacheFile, 'utf8'));
+  } catch {
+    // Missing or half-written file - treat as empty
+    return {};
+  }
+}
+
+/**
+ * Token cache for one worker, optionally backed by a file shared with the other workers
+ */
+export class TokenManager {
+  // In-flight or loaded tokens in this worker, by tokenCacheKey
+  private readonly tokens = new Map<string, Promise<ManagedToken>>();
+  private readonly fetchToken: TokenFetcher;
+  private readonly now: () => number;
+
+  constructor(private readonly options: TokenManagerOptions = {}) {
+    this.fetchToken = options.fetchToken ?? ((request, tokenRequest) => requestToken(request, tokenRequest));
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * A token that will not expire within the refresh margin, from this worker, the shared cache or the token endpoint
+   */
+  async getToken(request: APIRequestContext, tokenRequest: TokenRequest): Promise<ManagedToken> {
+    const key = tokenCacheKey(tokenRequest);
+    const pending = this.tokens.get(key);
+    if (pending) {
+      const token = await pending;
+      if (this.isFresh(token)) return token;
+      // Expiring soon - another caller may already be replacing it
+      if (this.tokens.get(key) !== pending) return this.getToken(request, tokenRequest);
+    }
+
+    const loading = this.load(request, tokenRequest);
+    this.track(key, loading);
+    return loading;
+  }
+
+  /**
+   * Replace a token the server rejected (401). If another worker already stored a newer token it is reused.
+   */
+  async refresh(request: APIRequestContext, tokenRequest: TokenRequest, rejectedToken: string): Promise<ManagedToken> {
+    const key = tokenCacheKey(tokenRequest);
+    const current = await this.tokens.get(key)?.catch(() => undefined);
+    if (current && current.accessToken !== rejectedToken) return this.getToken(request, tokenRequest);
+
+    const pending = this.load(request, tokenRequest, rejectedToken);
+    this.track(key, pending);
+    return pending;
+  }
+
+  /**
+   * Forget every token held by this worker (the shared cache file is left alone)
+   */
+  clear(): void {
+    this.tokens.clear();
+  }
+
+  private track(key: string, pending: Promise<ManagedToken>): void {
+    this.tokens.set(key, pending);
+    // Do not cache a failed request - the next caller gets to retry
+    pending.catch(() => {
+      if (this.tokens.get(key) === pending) this.tokens.delete(key);
+    });
+  }
+
+  private isFresh(token: StoredToken): boolean {
+    const lifetime = token.expiresAt - token.obtainedAt;
+    const margin = Math.min((this.options.refreshMarginSeconds ?? 60) * 1000, lifetime / 2);
+    return token.expiresAt - this.now() > margin;
+  }
+
+  private async load(request: APIRequestContext, tokenRequest: TokenRequest, rejectedToken?: string): Promise<ManagedToken> {
+    const cacheFile = this.options.cacheFile;
+    if (!cacheFile) return this.fetch(request, tokenRequest);
+
+    const key = tokenCacheKey(tokenRequest);
+    return withFileLock(`${cacheFile}.lock`, async () => {
+      const shared = readCacheFile(cacheFile)[key];
+      if (shared && shared.accessToken !== rejectedToken && this.isFresh(shared)) {
+        log.debug(`Reusing shared token for scope "${tokenRequest.scope}", expires in ${Math.round((shared.expiresAt - this.now()) / 1000)}s`);
+        return { ...shared, claims: tokenClaims(shared.accessToken) };
+      }
+
+      const token = await this.fetch(request, tokenRequest);
+      const { claims, ...stored } = token;
+      const cache = readCacheFile(cacheFile);
+      cache[key] = stored;
+      fs.writeFileSync(cacheFile, JSON.stringify(cache), { mode: 0o600 });
+      return token;
+    });
+  }
+
+  private async fetch(request: APIRequestContext, tokenRequest: TokenRequest): Promise<ManagedToken> {
+    const obtainedAt = this.now();
+    const response = await this.fetchToken(request, tokenRequest);
+    log.info(`Obtained token for scope "${tokenRequest.scope}", expires in ${response.expires_in}s`);
+    return {
+      accessToken: response.access_token,
+      tokenType: response.token_type,
+      scope: response.scope ?? tokenRequest.scope,
+      obtainedAt,
+      expiresAt: obtainedAt + response.expires_in * 1000,
+      claims: tokenClaims(response.access_token)
+    };
+  }
+}
+
+/**
+ * Token manager shared by everything in this worker, using the run's cache file from global-setup
+ */
+export const tokenManager = new TokenManager({ cacheFile: process.env[TOKEN_CACHE_FILE_ENV] });